@@ -8,6 +8,8 @@ import { NextResponse } from "next/server";
 import OpenAI from "openai";
 import { prisma } from "@/lib/prisma";
 import { spreadGuardOK } from "@/lib/alpaca";
+import { listTickDecisions, type TickDecisionRow, type SymbolVerdict } from "@/lib/decisionJournal";
+import { barsOfDay, etWallDate, openingRange, sessionVWAP, volumePulse } from "@/lib/indicators";
 
 /* ───────────────── OpenAI (optional) ───────────────── */
 const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
@@ -568,32 +570,22 @@ async function fetchProfile(base: string, symbol: string): Promise<ProfileLite>
   } catch { return {}; }
 }
 
-function toET(dateIso: string) { return new Date(new Date(dateIso).toLocaleString("en-US", { timeZone: "America/New_York" })); }
-function isSameETDay(d: Date, ymd: string) { const mo = String(d.getMonth() + 1).padStart(2, "0"); const da = String(d.getDate()).padStart(2, "0"); return `${d.getFullYear()}-${mo}-${da}` === ymd; }
+function toET(dateIso: string) { return etWallDate(dateIso); }
 function yyyyMmDdETFromUTC(utc: Date) { const parts = toETParts(utc); return parts.ymd; }
 
+/* Indicator reads as of an ET wall-clock cutoff (lib/indicators.ts does the math) */
+function barsUpTo(candles: Candle[], ymd: string, cutoffET: Date) {
+  return barsOfDay(candles, ymd, cutoffET.getHours() * 60 + cutoffET.getMinutes());
+}
 function computeOpeningRange(candles: Candle[], ymd: string) {
-  const win = candles.filter((c) => { const d = toET(c.date); return isSameETDay(d, ymd) && d.getHours() === 9 && d.getMinutes() >= 30 && d.getMinutes() <= 33; });
-  if (!win.length) return null;
-  const high = Math.max(...win.map((c) => c.high));
-  const low = Math.min(...win.map((c) => c.low));
-  return { high, low };
+  const or = openingRange(candles, ymd);
+  return or ? { high: or.high, low: or.low } : null;
 }
 function computeVWAPUpTo(candles: Candle[], ymd: string, cutoffET: Date) {
-  const session = candles.filter((c) => { const d = toET(c.date); const mins = d.getHours() * 60 + d.getMinutes(); const cut = cutoffET.getHours() * 60 + cutoffET.getMinutes(); return isSameETDay(d, ymd) && mins >= 9 * 60 + 30 && mins <= cut; });
-  if (!session.length) return null;
-  let pv = 0, vol = 0;
-  for (const c of session) { const typical = (c.high + c.low + c.close) / 3; pv += typical * c.volume; vol += c.volume; }
-  return vol > 0 ? pv / vol : null;
+  return sessionVWAP(barsUpTo(candles, ymd, cutoffET), ymd);
 }
 function computeRelVol5(candles: Candle[], ymd: string, cutoffET: Date, N = 5) {
-  const day = candles.filter((c) => isSameETDay(toET(c.date), ymd) && toET(c.date).getTime() <= cutoffET.getTime());
-  if (day.length < N + 1) return null;
-  const last = day[day.length - 1];
-  const prior = day.slice(-1 - N, -1);
-  const avgPrior = prior.reduce((s, c) => s + c.volume, 0) / N;
-  if (!avgPrior) return null;
-  return last.volume / avgPrior;
+  return volumePulse(barsUpTo(candles, ymd, cutoffET), ymd, N)?.mult ?? null;
 }
 function computeVWAPSlope(candles: Candle[], ymd: string, cutoffET: Date, backMinutes = 3) {
   const backCut = new Date(cutoffET.getTime() - backMinutes * 60_000);
@@ -603,8 +595,7 @@ function computeVWAPSlope(candles: Candle[], ymd: string, cutoffET: Date, backMi
   return v1 - v0;
 }
 function last3Trend(candles: Candle[], ymd: string, cutoffET: Date) {
-  const day = candles.filter((c) => isSameETDay(toET(c.date), ymd) && toET(c.date).getTime() <= cutoffET.getTime());
-  const w = day.slice(-3);
+  const w = barsUpTo(candles, ymd, cutoffET).slice(-3);
   if (w.length < 3) return null;
   const higherCloses = w[2].close > w[1].close && w[1].close > w[0].close;
   const higherLows = w[2].low >= w[1].low && w[1].low >= w[0].low;
@@ -816,7 +807,7 @@ async function buildWhyTradeDeep(base: string, symbol: string, entryUTC: Date):
   if (!candles.length) return null;
 
   const entryET = new Date(new Date(entryUTC).toLocaleString("en-US", { timeZone: "America/New_York" }));
-  const upTo = candles.filter((c) => isSameETDay(toET(c.date), ymd) && toET(c.date).getTime() <= entryET.getTime());
+  const upTo = barsUpTo(candles, ymd, entryET);
   if (!upTo.length) return null;
   const last = upTo[upTo.length - 1];
 
@@ -877,7 +868,7 @@ async function buildLiveFactsForSymbol(base: string, symbol: string) {
     fetchFloatShares(base, symbol),
   ]);
 
-  const day = candles.filter((c) => isSameETDay(toET(c.date), ymd));
+  const day = barsOfDay(candles, ymd);
   const last = day[day.length - 1];
 
   const or = computeOpeningRange(candles, ymd);
@@ -919,54 +910,74 @@ async function answerStockQuestionWithLLM(userQuestion: string, facts: any) {
 }
 
 /* ───────────────── No-trade explainer ───────────────── */
-function humanizeNoTradeReasons(tick: any): string {
-  if (!tick) return "I couldn't fetch the bot’s latest status.";
-  const parts: string[] = [];
-  if (tick.skipped === "not_weekday") parts.push("Market was closed (not a weekday).");
-
-  const dbg = tick.debug || {};
-  const reasons: string[] = Array.isArray(dbg.reasons) ? dbg.reasons : [];
-  const info = tick.info || {};
-  const liq = info.liquidity || {};
-
-  if (reasons.includes("scan_no_ai_pick_yet")) parts.push("No AI pick was available during the scan window.");
-  if (reasons.includes("scan_no_armed_signal_after_eval")) parts.push("Signals didn’t arm (no momentum/dip confirmation).");
-  if (reasons.some((r) => r.startsWith("force_spread_guard_fail_"))) parts.push("Spread guard blocked entries in the force window.");
-
-  const evals = dbg.scan_evals || {};
-  const perTickers: string[] = [];
-  for (const sym of Object.keys(evals)) {
-    const ev = evals[sym] || {};
-    const why: string[] = [];
-    if (ev?.debug?.spread && ev?.debug?.spread.spreadOK === false) {
-      const lim = ev.debug.spread.limitPct != null ? `${(ev.debug.spread.limitPct * 100).toFixed(2)}%` : "limit";
-      why.push(`spread too wide (limit ${lim})`);
-    }
-    if (ev?.debug?.liquidity && ev?.debug?.liquidity.ok === false) {
-      const det = ev.debug.liquidity;
-      const need = det?.minSharesReq != null ? det.minSharesReq.toLocaleString() : "n/a";
-      const dvol = det?.dollarVol != null ? `$${Math.round(det.dollarVol).toLocaleString()}` : "n/a";
-      why.push(`liquidity short (needed ≥ ${need} sh/min & $${(tick?.info?.liquidity?.minDollarVol ?? 0).toLocaleString()} $, saw ${dvol})`);
-    }
-    if (ev?.meta?.reason === "price_band") why.push("price outside allowed band");
-    if (!ev?.armed && !ev?.armedDip && !ev?.armedMomentum) why.push("no armed signals");
-    if (why.length) perTickers.push(`${sym}: ${why.join("; ")}`);
+// Reads today's TickDecision journal (lib/decisionJournal.ts) instead of
+// poking the tick route, so it can answer after the windows have closed.
+function fmtETTime(d: Date | string) {
+  return new Date(d).toLocaleTimeString("en-US", { timeZone: "America/New_York", hour: "2-digit", minute: "2-digit", hour12: false });
+}
+function whySymbolBlocked(v: SymbolVerdict): string[] {
+  const why: string[] = [];
+  if (v.reason === "price_band") why.push("price outside allowed band");
+  if (v.reason === "no_day_candles") why.push("no intraday bars yet");
+  if (v.spreadOK === false) {
+    const lim = v.spreadLimitPct != null ? `${(v.spreadLimitPct * 100).toFixed(2)}%` : "limit";
+    why.push(`spread too wide (limit ${lim})`);
+  }
+  if (v.liquidityOK === false) why.push("liquidity short");
+  if (v.eligible && !v.armed) {
+    const vol = v.volPulse != null && v.volMin != null ? ` (vol pulse ${v.volPulse.toFixed(2)}× vs ${v.volMin.toFixed(2)}× needed)` : "";
+    why.push(`no armed signal${vol}`);
   }
-  if (perTickers.length) parts.push(`Per-ticker checks — ${perTickers.join(" | ")}`);
+  if (v.force?.veto) why.push(`force veto: ${v.force.veto}`);
+  else if (v.force && !v.force.proceed && v.force.flags.length) why.push(`weak at force (${v.force.flags.join(", ")})`);
+  return why;
+}
+function humanizeNoTradeFromJournal(rows: TickDecisionRow[]): string {
+  if (!rows.length) return "I don’t have any recorded bot decisions for today yet.";
 
-  const liqLine = (liq?.minSharesAbs || liq?.floatPctPerMin || liq?.minDollarVol)
-    ? `Liquidity thresholds: min shares ${liq.minSharesAbs?.toLocaleString?.() ?? "?"}, float/min ${(liq.floatPctPerMin*100)?.toFixed?.(3) ?? "?"}%, dollar vol $${liq.minDollarVol?.toLocaleString?.() ?? "?"} (per 1-min bar).`
-    : "";
-  if (liqLine) parts.push(liqLine);
+  const entered = rows.find((r) => r.action === "entered");
+  if (entered) return `We did enter ${entered.ticker} at ${fmtETTime(entered.at)} ET (${entered.window}).`;
+  if (rows.every((r) => r.action === "closed")) return "Market was closed — no trading windows ran.";
 
-  if (info?.scan_0930_0944 === false && info?.force_0945_0946 === false) parts.push("We were outside the scan/force windows.");
+  const parts: string[] = [];
 
-  return parts.length ? parts.join(" ") : "No trade executed; bot did not meet entry conditions.";
+  // Last decision per entry window, in time order
+  const lastByWindow = new Map<string, TickDecisionRow>();
+  for (const r of rows) {
+    if (r.action !== "skipped" || !r.window) continue;
+    for (const w of r.window.split(",")) if (w !== "prescan") lastByWindow.set(w, r);
+  }
+  if (!lastByWindow.size) {
+    parts.push("No scan or force window evaluated a setup today.");
+  }
+  for (const [w, r] of lastByWindow) {
+    const at = fmtETTime(r.at);
+    const reasons = r.reasons || [];
+    const line: string[] = [];
+
+    if (r.breadth && r.breadth.sentiment !== "green" && w.startsWith("force")) {
+      line.push(`breadth ${r.breadth.sentiment}${r.breadth.explain ? ` — ${r.breadth.explain}` : r.breadth.reason ? ` (${r.breadth.reason})` : ""}`);
+    }
+    if (reasons.some((x) => x.includes("no_ai_pick"))) line.push("no AI pick available");
+    const perSym = Object.entries(r.signals || {})
+      .map(([sym, v]) => {
+        const why = whySymbolBlocked(v);
+        return why.length ? `${sym}: ${why.join("; ")}` : null;
+      })
+      .filter(Boolean);
+    if (perSym.length) line.push(perSym.join(" | "));
+    if (!line.length && r.picks?.length) line.push(`checked ${r.picks.join(", ")} but nothing armed`);
+
+    parts.push(`${w} (last check ${at} ET): ${line.join(" — ") || "no entry conditions met"}.`);
+  }
+
+  if (rows.some((r) => r.action === "error")) parts.push("Some ticks errored, so a window may have been missed.");
+  return parts.join(" ");
 }
-async function explainNoTradeToday(base: string) {
-  const tick = await fetchBotTick(base);
-  const draft = humanizeNoTradeReasons(tick);
-  return await maybePolishReply(draft, { tick });
+async function explainNoTradeToday() {
+  const rows = await listTickDecisions({ order: "asc", limit: 1000 }).catch(() => [] as TickDecisionRow[]);
+  const draft = humanizeNoTradeFromJournal(rows);
+  return await maybePolishReply(draft);
 }
 
 /* ───────────────── Small formatters ───────────────── */
@@ -1034,8 +1045,7 @@ export async function POST(req: Request) {
     }
 
     if (intent === "why_no_trade") {
-      const base = getBaseUrl(req);
-      const reply = await explainNoTradeToday(base);
+      const reply = await explainNoTradeToday();
       return NextResponse.json({ reply });
     }
 
@@ -1258,8 +1268,7 @@ export async function POST(req: Request) {
     const pieces: string[] = [];
     pieces.push(openPos?.open ? tone.holding(openPos) : tone.flat());
     if (traded === "No trades in that range.") {
-      const base2 = getBaseUrl(req);
-      const why = await explainNoTradeToday(base2).catch(() => null);
+      const why = await explainNoTradeToday().catch(() => null);
       pieces.push(`No trades ${label}.`);
       if (why) pieces.push(why);
     } else {
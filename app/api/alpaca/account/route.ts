@@ -5,49 +5,14 @@ export const revalidate = 0;
 
 import { NextResponse } from "next/server";
 import { nowET } from "@/lib/market";
-
-/** ---------- Alpaca client (uses server envs) ---------- */
-const RAW_BASE = (process.env.ALPACA_BASE_URL || "https://paper-api.alpaca.markets").trim();
-// normalize: no trailing slash, no trailing /v2 (we add /v2 in paths below)
-const BASE = RAW_BASE.replace(/\/+$/, "").replace(/\/v2$/, "");
-
-const KEY =
-  process.env.ALPACA_API_KEY_ID ||
-  process.env.ALPACA_API_KEY ||
-  process.env.NEXT_PUBLIC_ALPACA_API_KEY_ID || // allow dev
-  "";
-const SEC =
-  process.env.ALPACA_API_SECRET_KEY ||
-  process.env.ALPACA_SECRET_KEY ||
-  process.env.NEXT_PUBLIC_ALPACA_API_SECRET_KEY || // allow dev
-  "";
-
-async function alpGet(path: string) {
-  if (!KEY || !SEC) throw new Error("Missing Alpaca API credentials in env.");
-  const url = `${BASE}${path.startsWith("/") ? "" : "/"}${path}`;
-  const r = await fetch(url, {
-    headers: {
-      "APCA-API-KEY-ID": KEY,
-      "APCA-API-SECRET-KEY": SEC,
-      "Content-Type": "application/json",
-    },
-    cache: "no-store",
-  });
-  const text = await r.text();
-  let json: any = null;
-  try { json = text ? JSON.parse(text) : null; } catch { /* keep text */ }
-  if (!r.ok) {
-    const msg = json?.message || json?.error || text || `HTTP ${r.status}`;
-    throw new Error(`Alpaca GET ${path} ${r.status}: ${msg}`);
-  }
-  return json;
-}
+import { getBroker } from "@/lib/broker";
 
 /** ---------- Route ---------- */
 export async function GET() {
   try {
     // /v2/account returns equity, last_equity, cash, buying_power, etc.
-    const acct = await alpGet("/v2/account");
+    const broker = getBroker();
+    const acct = await broker.getAccount();
 
     const equity = Number(acct?.equity ?? NaN);
     const lastEq = Number(acct?.last_equity ?? NaN);
@@ -73,7 +38,7 @@ export async function GET() {
         pattern_day_trader: acct?.pattern_day_trader ?? null,
         timestampET: nowET().toISOString(),
       },
-      base: BASE,
+      broker: broker.name,
     });
   } catch (e: any) {
     console.error("[alpaca/account] error:", e?.message || e);
@@ -1,12 +1,12 @@
 import { NextResponse } from "next/server";
-
-const API_KEY = "M0MLRDp8dLak6yJOfdv7joKaKGSje8pp";
+import { marketNews } from "@/lib/marketData";
 
 async function fetchNews(ticker: string) {
-  const url = `https://financialmodelingprep.com/api/v3/stock_news?tickers=${ticker}&limit=5&apikey=${API_KEY}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) return [];
-  return await res.json();
+  try {
+    return (await marketNews(ticker, 5)).data;
+  } catch {
+    return [];
+  }
 }
 
 function scoreStock(stock: any, news: any[]) {
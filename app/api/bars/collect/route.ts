@@ -0,0 +1,48 @@
+// app/api/bars/collect/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { NextResponse } from "next/server";
+import { collectBars1m } from "@/lib/barStore";
+import { listOpenPositions } from "@/lib/positionSlots";
+import { isMarketHoursET } from "@/lib/market";
+
+const TOP_N = Number(process.env.BAR_COLLECT_TOP || 20);
+
+function getBaseUrl(req: Request) {
+  const envBase = process.env.NEXT_PUBLIC_BASE_URL?.trim();
+  if (envBase) return envBase.replace(/\/+$/, "");
+  const proto = (req.headers.get("x-forwarded-proto") || "http").split(",")[0].trim();
+  const host = (req.headers.get("x-forwarded-host") || req.headers.get("host") || "").split(",")[0].trim();
+  return `${proto}://${host}`;
+}
+
+/**
+ * Cron (every minute, market hours): store today's 1m bars for the
+ * snapshot's top symbols and every open position.
+ * ?force=1 runs outside market hours too (backfill after the close).
+ */
+export async function GET(req: Request) {
+  const force = new URL(req.url).searchParams.get("force") === "1";
+  if (!force && !isMarketHoursET()) {
+    return NextResponse.json({ ok: true, skipped: "market_closed" });
+  }
+
+  try {
+    const symbols = new Set<string>();
+    const r = await fetch(`${getBaseUrl(req)}/api/stocks/snapshot`, { cache: "no-store" }).catch(() => null);
+    const j = r?.ok ? await r.json().catch(() => null) : null;
+    for (const s of (Array.isArray(j?.stocks) ? j.stocks : []).slice(0, TOP_N)) {
+      if (s?.ticker) symbols.add(String(s.ticker).toUpperCase());
+    }
+    for (const p of await listOpenPositions()) symbols.add(p.ticker.toUpperCase());
+
+    const results = await collectBars1m(Array.from(symbols));
+    const failed = Object.entries(results).filter(([, v]) => v.errors.length && !v.bars).map(([s]) => s);
+    return NextResponse.json({ ok: true, symbols: symbols.size, failed, results });
+  } catch (e: any) {
+    console.error("[bars-collect] error", e?.message || e);
+    return NextResponse.json({ ok: false, error: e?.message || "collect_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/bars/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { NextResponse } from "next/server";
+import { readBars1m, recentBars1m } from "@/lib/barStore";
+
+/**
+ * GET ?symbol=ABC&start=ISO&end=ISO   stored 1m bars for a window (gaps filled from providers)
+ * GET ?symbol=ABC&limit=240           the last N bars
+ */
+export async function GET(req: Request) {
+  const u = new URL(req.url);
+  const symbol = (u.searchParams.get("symbol") || "").trim().toUpperCase();
+  if (!symbol) return NextResponse.json({ ok: false, error: "symbol required" }, { status: 400 });
+
+  try {
+    const start = u.searchParams.get("start");
+    const end = u.searchParams.get("end") || new Date().toISOString();
+    const limit = Math.max(1, Math.min(5000, Number(u.searchParams.get("limit") || 240)));
+    const r = start ? await readBars1m(symbol, start, end) : await recentBars1m(symbol, limit);
+    return NextResponse.json({ ok: true, symbol, ...r });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "bars_error" }, { status: 500 });
+  }
+}
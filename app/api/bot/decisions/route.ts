@@ -0,0 +1,55 @@
+// app/api/bot/decisions/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { NextResponse } from "next/server";
+import { yyyyMmDdET } from "@/lib/market";
+import { listTickDecisions, type TickAction } from "@/lib/decisionJournal";
+
+const ACTIONS: TickAction[] = ["entered", "exited", "skipped", "holding", "idle", "closed", "error"];
+
+/**
+ * Tick decision journal.
+ *   GET /api/bot/decisions?day=2025-09-10
+ *   GET /api/bot/decisions?from=<iso>&to=<iso>&window=scan_mid&action=skipped&ticker=ABCD
+ *   paging: &before=<id>&limit=200, oldest first with &order=asc
+ */
+export async function GET(req: Request) {
+  try {
+    const u = new URL(req.url);
+    const sp = u.searchParams;
+
+    const day = sp.get("day") || undefined;
+    if (day && !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      return NextResponse.json({ ok: false, error: "day must be YYYY-MM-DD" }, { status: 400 });
+    }
+    const from = sp.get("from") || undefined;
+    const to = sp.get("to") || undefined;
+    for (const [k, v] of [["from", from], ["to", to]]) {
+      if (v && Number.isNaN(new Date(v).getTime())) {
+        return NextResponse.json({ ok: false, error: `${k} must be a date (ISO 8601)` }, { status: 400 });
+      }
+    }
+    const action = sp.get("action") || undefined;
+    if (action && !ACTIONS.includes(action as TickAction)) {
+      return NextResponse.json({ ok: false, error: `action must be one of ${ACTIONS.join(", ")}` }, { status: 400 });
+    }
+
+    const decisions = await listTickDecisions({
+      day,
+      from,
+      to,
+      window: sp.get("window") || undefined,
+      action: action as TickAction | undefined,
+      ticker: sp.get("ticker")?.toUpperCase() || undefined,
+      before: sp.get("before") ? Number(sp.get("before")) : undefined,
+      limit: sp.get("limit") ? Number(sp.get("limit")) : undefined,
+      order: sp.get("order") === "asc" ? "asc" : "desc",
+    });
+
+    return NextResponse.json({ ok: true, day: day ?? yyyyMmDdET(), count: decisions.length, decisions });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "query_failed" }, { status: 500 });
+  }
+}
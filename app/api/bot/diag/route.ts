@@ -5,7 +5,9 @@ export const revalidate = 0;
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { isWeekdayET, isMarketHoursET, nowET, yyyyMmDdET } from "@/lib/market";
+import { isWeekdayET, isMarketHoursET, sessionET, nowET, yyyyMmDdET } from "@/lib/market";
+import { listOpenPositions, claimedSymbolsToday } from "@/lib/positionSlots";
+import { ensureBotState } from "@/lib/orderLedger";
 
 type SnapStock = { ticker: string; price?: number | null };
 
@@ -34,14 +36,11 @@ export async function GET(req: Request) {
     const today = yyyyMmDdET();
 
     // Ensure state exists
-    const state =
-      (await prisma.botState.findUnique({ where: { id: 1 } })) ||
-      (await prisma.botState.create({ data: { id: 1, cash: 4000, pnl: 0, equity: 4000 } }));
+    const state = await ensureBotState();
 
-    const openPos = await prisma.position.findFirst({
-      where: { open: true },
-      orderBy: { id: "desc" },
-    });
+    const openPositions = await listOpenPositions();
+    const openPos = openPositions[0] ?? null;
+    const claimedToday = await claimedSymbolsToday(today).catch(() => [] as string[]);
 
     const lastRec = await prisma.recommendation.findFirst({ orderBy: { id: "desc" } });
 
@@ -60,6 +59,7 @@ export async function GET(req: Request) {
       serverTimeET: nowET().toISOString(),
       weekday: isWeekdayET(),
       marketOpen: isMarketHoursET(),
+      session: sessionET(),
       today,
       state: {
         cash: Number(state.cash),
@@ -75,6 +75,13 @@ export async function GET(req: Request) {
             openedAt,
           }
         : null,
+      openPositions: openPositions.map((p: any) => ({
+        ticker: p.ticker,
+        entryPrice: Number(p.entryPrice),
+        shares: Number(p.shares),
+        openedAt: p.entryAt ?? null,
+      })),
+      claimedToday,
       lastRecommendation: lastRec
         ? {
             ticker: lastRec.ticker,
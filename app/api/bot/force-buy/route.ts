@@ -7,11 +7,19 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getQuote } from "@/lib/quote";
 import { isWeekdayET, isMarketHoursET, yyyyMmDdET } from "@/lib/market";
-import { submitBracketBuy } from "@/lib/alpaca";
+import { getBroker } from "@/lib/broker";
+import { getActiveStrategyConfig } from "@/lib/strategyConfig";
+import { evaluateRisk, checkEntryRisk } from "@/lib/riskManager";
+import { syncOrderFromBroker } from "@/lib/fillReconciler";
+import {
+  listOpenPositions,
+  planSlots,
+  claimedSymbolsToday,
+  acquireSymbolLock,
+  releaseSymbolLock,
+} from "@/lib/positionSlots";
+import { TICK_LEASE, TICK_LEASE_TTL_MS, pgLeaseStore, withLease, type HeldLease } from "@/lib/tickLease";
 
-const INVEST_BUDGET = 4000;
-const TARGET_PCT = 0.10;
-const STOP_PCT   = -0.05;
 const TOP_CANDIDATES = 8;
 
 type SnapStock = { ticker: string; price?: number | null };
@@ -67,6 +75,13 @@ function parseAIPick(rJson: any): string | null {
 }
 
 export async function POST(req: Request) {
+  // same cross-instance lease as the tick, so a manual buy can't race a scheduled one
+  const run = await withLease(pgLeaseStore, TICK_LEASE, { ttlMs: TICK_LEASE_TTL_MS }, (lease) => forceBuy(req, lease));
+  if (run.acquired) return run.value;
+  return NextResponse.json({ ok: false, reason: "tick_in_progress", lease: run.holder }, { status: 409 });
+}
+
+async function forceBuy(req: Request, lease: HeldLease) {
   const debug: any = { reasons: [] as string[] };
 
   try {
@@ -78,16 +93,30 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, reason: "market_closed" }, { status: 400 });
     }
 
+    // Tunables (same StrategyConfig the tick route uses)
+    const cfg = await getActiveStrategyConfig();
+    const { startCash, stopPct, forceBuyTargetPct } = cfg.params;
+    debug.strategyConfig = { version: cfg.version, source: cfg.source, errors: cfg.errors };
+
     // Ensure state
     let state = await prisma.botState.findUnique({ where: { id: 1 } });
-    if (!state) state = await prisma.botState.create({ data: { id: 1, cash: 4000, pnl: 0, equity: 4000 } });
+    if (!state) state = await prisma.botState.create({ data: { id: 1, cash: startCash, pnl: 0, equity: startCash } });
 
-    // No open position
-    const openPos = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-    if (openPos) {
-      return NextResponse.json({ ok: false, reason: "position_already_open", openPos }, { status: 400 });
+    // Kill switch (re-arm via /api/bot/risk)
+    const risk = await evaluateRisk(cfg.params);
+    if (risk.killed) {
+      return NextResponse.json({ ok: false, reason: "kill_switch", risk }, { status: 400 });
     }
 
+    // Need a free slot (max concurrent positions / entries per day)
+    const today = yyyyMmDdET();
+    const openPositions = await listOpenPositions();
+    const plan = planSlots(cfg.params, openPositions, await claimedSymbolsToday(today));
+    if (plan.free <= 0) {
+      return NextResponse.json({ ok: false, reason: "no_free_slot", openPositions, slots: plan }, { status: 400 });
+    }
+    const investBudget = plan.entryBudget;
+
     // Candidates from snapshot
     const base = getBaseUrl(req);
     const snapshot = await getSnapshot(base);
@@ -97,7 +126,7 @@ export async function POST(req: Request) {
     }
 
     // Prefer affordable to avoid shares=0
-    const affordable = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= INVEST_BUDGET);
+    const affordable = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= investBudget);
     const candidates = affordable.length ? affordable : top;
     debug.candidates = candidates.map(c => `${c.ticker}${c.price ? `@${Number(c.price).toFixed(2)}` : ""}`);
 
@@ -125,72 +154,85 @@ export async function POST(req: Request) {
     }
     const ref = Number(ref0);
 
-    // Claim daily lock (same as scheduled flow)
-    const today = yyyyMmDdET();
-    const claim = await prisma.botState.updateMany({
-      where: { id: 1, OR: [{ lastRunDay: null }, { lastRunDay: { not: today } }] },
-      data: { lastRunDay: today },
-    });
-    if (claim.count !== 1) {
-      return NextResponse.json({ ok: false, reason: "day_lock_already_claimed" }, { status: 400 });
-    }
-
-    // Re-check position after claiming
-    const stillOpen = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-    if (stillOpen) {
-      return NextResponse.json({ ok: false, reason: "position_open_after_claim" }, { status: 400 });
+    // Claim the symbol for today (same per-symbol lock as the scheduled flow)
+    if (plan.lockedToday.includes(ticker) || openPositions.some((p: any) => p.ticker === ticker) || !(await acquireSymbolLock(today, ticker))) {
+      return NextResponse.json({ ok: false, reason: "symbol_already_claimed_today", ticker }, { status: 400 });
     }
 
     // Compute shares & bracket levels
     const cashNum = Number(state.cash);
-    const shares = Math.floor(Math.min(cashNum, INVEST_BUDGET) / ref);
+    const shares = Math.floor(Math.min(cashNum, investBudget) / ref);
     if (shares <= 0) {
       // release lock so you can retry
-      await prisma.botState.update({ where: { id: 1 }, data: { lastRunDay: null } });
+      await releaseSymbolLock(today, ticker);
       return NextResponse.json({ ok: false, reason: "insufficient_cash_for_one_share", ref, cash: cashNum }, { status: 400 });
     }
 
-    const tp = ref * (1 + TARGET_PCT);
-    const sl = ref * (1 + STOP_PCT);
+    // Portfolio risk limits (per-symbol notional, % of buying power)
+    const check = await checkEntryRisk({ symbol: ticker, notional: shares * ref, params: cfg.params, buyingPower: cashNum });
+    if (!check.ok) {
+      await releaseSymbolLock(today, ticker);
+      return NextResponse.json({ ok: false, reason: "risk_blocked", detail: check.reason, ticker, risk: check.status }, { status: 400 });
+    }
+
+    const tp = ref * (1 + forceBuyTargetPct);
+    const sl = ref * (1 + stopPct);
+
+    if (!(await lease.held())) {
+      await releaseSymbolLock(today, ticker);
+      return NextResponse.json({ ok: false, reason: "tick_lease_lost", ticker }, { status: 409 });
+    }
 
+    // MARKET bracket buy (fills immediately in regular hours)
+    let order;
     try {
-      // MARKET bracket buy (fills immediately in regular hours)
-      const order = await submitBracketBuy({
+      order = await getBroker().submitBracket({
         symbol: ticker,
         qty: shares,
         entryType: "market",
         tp,
         sl,
         tif: "day",
+        refPrice: ref,
       });
+    } catch (e: any) {
+      // nothing reached the broker: release the lock so you can retry
+      await releaseSymbolLock(today, ticker);
+      const msg = e?.message || "unknown";
+      const body = e?.body ? JSON.stringify(e.body).slice(0, 400) : null;
+      return NextResponse.json({ ok: false, reason: "broker_submit_failed", error: msg, body, debug }, { status: 400 });
+    }
 
-      const pos = await prisma.position.create({
-        data: { ticker, entryPrice: ref, shares, open: true, brokerOrderId: order.id },
-      });
-
-      await prisma.trade.create({
-        data: { side: "BUY", ticker, price: ref, shares, brokerOrderId: order.id },
-      });
-
-      const newCash = cashNum - shares * ref;
-      await prisma.botState.update({
-        where: { id: 1 },
-        data: { cash: newCash, equity: newCash + shares * ref },
+    // the order is live from here on; the lock stays even if the bookkeeping fails
+    let pos: any = null;
+    try {
+      // upsert: a sync / listener pass may have adopted the order already
+      pos = await prisma.position.upsert({
+        where: { brokerOrderId: order.id },
+        update: {},
+        create: { ticker, entryPrice: ref, shares, open: true, brokerOrderId: order.id, configVersion: cfg.version },
       });
 
-      return NextResponse.json({
-        ok: true,
-        message: `BUY ${ticker} @ ~${ref.toFixed(2)} (shares=${shares})`,
-        orderId: order.id,
-        position: pos,
-      });
+      // BUY trade, real entry price and cash come from the fills (webhook/sync catch late ones)
+      try {
+        await syncOrderFromBroker(order.id, { source: "force_buy", positionId: pos.id });
+        pos = (await prisma.position.findUnique({ where: { id: pos.id } })) ?? pos;
+      } catch (e: any) {
+        console.warn("[force-buy] entry not in ledger yet:", ticker, e?.message || e);
+      }
     } catch (e: any) {
-      // Release lock so you can retry
-      await prisma.botState.update({ where: { id: 1 }, data: { lastRunDay: null } });
-      const msg = e?.message || "unknown";
-      const body = e?.body ? JSON.stringify(e.body).slice(0, 400) : null;
-      return NextResponse.json({ ok: false, reason: "alpaca_submit_failed", error: msg, body, debug }, { status: 400 });
+      console.error("[force-buy] entry submitted but not linked:", ticker, order.id, e?.message || e);
+      debug.reasons.push(`submitted_unlinked:${e?.message || "unknown"}`);
     }
+
+    return NextResponse.json({
+      ok: true,
+      message: `BUY ${ticker} @ ~${ref.toFixed(2)} (shares=${shares})`,
+      orderId: order.id,
+      position: pos,
+      configVersion: cfg.version,
+      ...(pos ? {} : { unlinked: true, debug }),
+    });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message || String(e) }, { status: 500 });
   }
@@ -1,60 +1,26 @@
 // app/api/bot/panic-sell/route.ts
 import { NextResponse } from "next/server";
+import { getBroker } from "@/lib/broker";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 /**
- * Expected env (any of these will work):
+ * Expected env:
  * - PANIC_PASSKEY                (use 9340)
- * - ALPACA_KEY | ALPACA_API_KEY | ALPACA_KEY_ID
- * - ALPACA_SECRET | ALPACA_API_SECRET | ALPACA_SECRET_KEY   <-- now supports your name
- * - ALPACA_BASE_URL (https://paper-api.alpaca.markets or https://api.alpaca.markets)
+ * - broker selection / keys: see lib/broker.ts
  */
 
 const PANIC_PASSKEY = process.env.PANIC_PASSKEY || "9340";
 
-const ALPACA_KEY =
-  process.env.ALPACA_KEY ||
-  process.env.ALPACA_API_KEY ||
-  process.env.ALPACA_KEY_ID ||
-  "";
-
-const ALPACA_SECRET =
-  process.env.ALPACA_SECRET ||
-  process.env.ALPACA_API_SECRET ||
-  process.env.ALPACA_SECRET_KEY || // <-- support your current name
-  "";
-
-const ALPACA_BASE = process.env.ALPACA_BASE_URL || "https://paper-api.alpaca.markets";
-
 function json(data: any, status = 200) {
   return NextResponse.json(data, { status });
 }
 
-type AlpacaPosition = { symbol: string; qty: string };
-
-async function alpacaFetch(path: string, init?: RequestInit) {
-  const url = `${ALPACA_BASE}${path}`;
-  const headers = {
-    ...(init?.headers || {}),
-    "APCA-API-KEY-ID": ALPACA_KEY,
-    "APCA-API-SECRET-KEY": ALPACA_SECRET,
-    "Content-Type": "application/json",
-  };
-  const res = await fetch(url, { ...init, headers, cache: "no-store" });
-  return res;
-}
-
 async function cancelAllOpenOrders() {
   try {
-    const r = await alpacaFetch("/v2/orders", { method: "DELETE" });
-    const body = await r.text().catch(() => "");
-    if (!r.ok && r.status !== 207 && r.status !== 204) {
-      console.error("Alpaca cancel orders failed:", r.status, body);
-      return { ok: false, error: `Alpaca cancel orders failed: ${r.status}` };
-    }
+    await getBroker().cancelAllOrders();
     return { ok: true };
   } catch (e: any) {
     console.error("Cancel orders error:", e);
@@ -64,32 +30,13 @@ async function cancelAllOpenOrders() {
 
 async function listPositions() {
   try {
-    const r = await alpacaFetch("/v2/positions", { method: "GET" });
-    const bodyText = await r.text();
-    if (!r.ok) {
-      console.error("Alpaca list positions failed:", r.status, bodyText);
-      return { ok: false, positions: [], error: `List positions failed: ${r.status}` };
-    }
-    let data: any = [];
-    try { data = JSON.parse(bodyText); } catch {}
-    return { ok: true, positions: Array.isArray(data) ? (data as AlpacaPosition[]) : [] };
+    return { ok: true, positions: await getBroker().listPositions() };
   } catch (e: any) {
     console.error("List positions error:", e);
     return { ok: false, positions: [], error: e?.message || "List positions request failed" };
   }
 }
 
-async function submitMarketOrder(symbol: string, side: "buy" | "sell", qty: number) {
-  const body = { symbol, qty, side, type: "market", time_in_force: "day" };
-  const r = await alpacaFetch("/v2/orders", { method: "POST", body: JSON.stringify(body) });
-  const text = await r.text().catch(() => "");
-  if (!r.ok) {
-    console.error("Order failed:", r.status, text);
-    throw new Error(text || `Order ${side} ${qty} ${symbol} failed (${r.status})`);
-  }
-  try { return JSON.parse(text); } catch { return {}; }
-}
-
 export async function POST(req: Request) {
   try {
     const { key } = await req.json().catch(() => ({}));
@@ -97,10 +44,6 @@ export async function POST(req: Request) {
       return json({ ok: false, error: "Invalid passkey." }, 401);
     }
 
-    if (!ALPACA_KEY || !ALPACA_SECRET) {
-      return json({ ok: false, error: "Missing Alpaca credentials (key/secret)." }, 500);
-    }
-
     const cancelRes = await cancelAllOpenOrders();
 
     const posRes = await listPositions();
@@ -123,7 +66,7 @@ export async function POST(req: Request) {
       const side: "buy" | "sell" = rawQty > 0 ? "sell" : "buy";
       const qty = Math.abs(rawQty);
       try {
-        const order = await submitMarketOrder(symbol, side, qty);
+        const order = await getBroker().submitMarket({ symbol, side, qty });
         closed.push({ symbol, side, qty, orderId: order?.id });
       } catch (e: any) {
         errors.push({ symbol, err: e?.message || "order failed" });
@@ -133,6 +76,7 @@ export async function POST(req: Request) {
     const ok = errors.length === 0;
     return json({
       ok,
+      broker: getBroker().name,
       canceledOpenOrders: cancelRes.ok ?? false,
       closed,
       errors,
@@ -4,22 +4,28 @@ export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { getActiveStrategyConfig } from "@/lib/strategyConfig";
 
-const START_CASH = 4000;
 // You can override via env; defaults to 9340 as requested.
 const RESET_KEY = process.env.RESET_KEY || "9340";
 
 async function doReset() {
-  const [trades, positions, recs] = await prisma.$transaction([
+  const [, , , , trades, positions, recs] = await prisma.$transaction([
+    prisma.ledgerEvent.deleteMany({}),
+    prisma.fill.deleteMany({}),
+    prisma.orderEvent.deleteMany({}),
+    prisma.order.deleteMany({}),
     prisma.trade.deleteMany({}),
     prisma.position.deleteMany({}),
     prisma.recommendation.deleteMany({}),
+    prisma.symbolDayLock.deleteMany({}),
   ]);
 
+  const { startCash } = (await getActiveStrategyConfig({ fresh: true })).params;
   const state = await prisma.botState.upsert({
     where: { id: 1 },
-    update: { cash: START_CASH, pnl: 0, equity: START_CASH, lastRunDay: null },
-    create: { id: 1, cash: START_CASH, pnl: 0, equity: START_CASH },
+    update: { cash: startCash, pnl: 0, equity: startCash, lastRunDay: null },
+    create: { id: 1, cash: startCash, pnl: 0, equity: startCash },
   });
 
   return { trades: trades.count, positions: positions.count, recommendations: recs.count, state };
@@ -0,0 +1,53 @@
+// app/api/bot/risk/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import { getActiveStrategyConfig } from "@/lib/strategyConfig";
+import { evaluateRisk, rearmKillSwitch, tripKillSwitch } from "@/lib/riskManager";
+
+/**
+ * GET  → { status }                       kill switch + today's realized loss / streak
+ * POST → { action: "rearm" }              clear the kill switch
+ *        { action: "kill", reason? }      trip it by hand
+ */
+export async function GET() {
+  try {
+    const cfg = await getActiveStrategyConfig();
+    const status = await evaluateRisk(cfg.params);
+    return NextResponse.json({ ok: true, status });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "risk_failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions).catch(() => null);
+  if (!session?.user) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const action = body?.action;
+    const who = session.user.email ?? session.user.name ?? "user";
+
+    if (action === "rearm") {
+      await rearmKillSwitch();
+    } else if (action === "kill") {
+      const reason = typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim() : "manual";
+      await tripKillSwitch(`${reason} (by ${who})`);
+    } else {
+      return NextResponse.json({ ok: false, error: "invalid_action" }, { status: 400 });
+    }
+
+    const cfg = await getActiveStrategyConfig();
+    const status = await evaluateRisk(cfg.params);
+    return NextResponse.json({ ok: true, status });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "risk_failed" }, { status: 500 });
+  }
+}
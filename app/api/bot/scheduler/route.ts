@@ -0,0 +1,21 @@
+// app/api/bot/scheduler/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { NextResponse } from "next/server";
+import { schedulerStatus } from "@/lib/tickScheduler";
+
+/**
+ * Self-hosted tick scheduler health (scripts/tick-scheduler.ts heartbeats).
+ *   GET → { alive, leader, instances }
+ * `alive` is false when no instance has beaten recently (Vercel cron only).
+ */
+export async function GET() {
+  try {
+    const status = await schedulerStatus();
+    return NextResponse.json({ ok: true, ...status });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "scheduler_status_failed" }, { status: 500 });
+  }
+}
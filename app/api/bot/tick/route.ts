@@ -8,28 +8,70 @@ import { prisma } from "@/lib/prisma";
 import {
   isWeekdayET,
   isMarketHoursET,
+  sessionET,
   yyyyMmDdET,
   nowET,
 } from "@/lib/market";
+import { ensureTradingCalendar } from "@/lib/tradingCalendar";
 import {
-  submitBracketBuy,
-  closePositionMarket,
-  replaceTpSlIfBetter,
-  getPosition,
-  getBars1m,
   premarketRangeISO,
   computePremarketLevelsFromBars,
-  spreadGuardOK,
-  getAccount,
-  sellMarket,
-  getOrder,
 } from "@/lib/alpaca";
-import { fmpQuoteCached } from "../../../../lib/fmpCached";
-
-/* -------------------------- sizing tiers -------------------------- */
-const SIZE_FULL = 1.0;
-const SIZE_HALF = 0.9;
-const SIZE_MICRO = 0.8;
+import { getBroker, brokerSpreadGuardOK } from "@/lib/broker";
+import { marketQuote, marketFloat, marketProfile } from "@/lib/marketData";
+import { asFmpCandles, readBars1m, recentBars1m } from "@/lib/barStore";
+import {
+  type Candle,
+  type SnapStock,
+  type Sentiment,
+  type StrategyEnv,
+  type EntryEval,
+  type ShortEval,
+  type StrategyParams,
+  classifyBreadth,
+  minutesSince930ET,
+  isMandatoryExitET,
+  dynamicSpreadLimitPct,
+  evaluateEntrySignals,
+  entryPlanFor,
+  entryQualityScore,
+  assessObviousWeakAtForce,
+  evaluateShortSignals,
+  rankShortPicks,
+  shortEntryPlanFor,
+  sideOf,
+  exitOrderSide,
+  openShares,
+  markValue,
+  ratchetTick,
+  l2CheckFor,
+  l2TieBreak,
+} from "@/lib/strategy";
+import { l2Reading } from "@/lib/l2Store";
+import { getActiveStrategyConfig } from "@/lib/strategyConfig";
+import { rankSetupPicks, setupsUseBreadth } from "@/lib/strategySetups";
+import { activePhases, phaseFlags } from "@/lib/schedule";
+import { TICK_LEASE, TICK_LEASE_TTL_MS, pgLeaseStore, withLease, type LeaseHolder } from "@/lib/tickLease";
+import { loadRatchet, saveRatchet, forgetRatchet, retainRatchets } from "@/lib/ratchetStore";
+import { evaluateRisk, type RiskStatus } from "@/lib/riskManager";
+import { pendingExitOrder } from "@/lib/orderLedger";
+import { syncOrderFromBroker, recordReplacements } from "@/lib/fillReconciler";
+import {
+  type SlotPlan,
+  listOpenPositions,
+  planSlots,
+  claimedSymbolsToday,
+} from "@/lib/positionSlots";
+import { type SlotEntryCtx, enterSlot, isHeldOrClaimed, memoGetAccount, waitForFillAvgPrice } from "@/lib/slotEntry";
+import {
+  type TickDecisionDraft,
+  newTickDecision,
+  markWindow,
+  verdictFromEval,
+  withShortVerdict,
+  breadthFromDetails,
+  recordTickDecision,
+} from "@/lib/decisionJournal";
 
 /* -------------------------- throttle & config -------------------------- */
 let lastTickAt = 0;
@@ -37,55 +79,26 @@ let lastTickResponse: any = null;
 let pendingTick: Promise<any> | null = null;
 const MIN_TICK_MS = 200;
 
-/* -------------------------- account -------------------------- */
-const START_CASH = 5000;
-const INVEST_BUDGET = 5000;
-
-/* -------------------------- exit / target rules -------------------------- */
-const STOP_PCT = -0.05;
-const TARGET_PCT_WEAK = 0.05;
-const TARGET_PCT_STRONG_DUMMY = 0.50;
-
-/* -------------------------- time-decay tuning -------------------------- */
-const DECAY_START_MIN = 0;
-const DECAY_END_MIN = 14;
-const VOL_MULT_START = 1.20;
-const VOL_MULT_END = 1.10;
-const NEAR_OR_START = 0.003;
-const NEAR_OR_END = 0.0045;
-const VWAP_BAND_START = 0.002;
-const VWAP_BAND_END = 0.003;
-const PRICE_MIN = 1;
-const PRICE_MAX = 70;
-
 /* -------------------------- liquidity -------------------------- */
 const FRESHNESS_MS = 30_000;
+/** older books count as no book (L2 confirm / tie-break stand aside) */
+const L2_MAX_AGE_MS = 15_000;
+/** entry-quality gap under which the L2 tie-break may reorder the top two scan picks */
+const L2_NEAR_TIE = 0.5;
 const REQUIRE_AI_PICK = true;
-const MIN_SHARES_ABS = 3_000;
-const FLOAT_MIN_PCT_PER_MIN = 0.001;
-const MIN_DOLLAR_VOL = 75_000;
 
-/* -------------------------- spread/account cache -------------------------- */
+/* -------------------------- spread cache -------------------------- */
 const SPREAD_TTL_MS = 1200;
-const ACCOUNT_TTL_MS = 3000;
 const _spreadMemo = new Map<string, { t: number; v: boolean }>();
 async function memoSpreadGuardOK(symbol: string, limitPct: number) {
   const key = `${symbol}|${limitPct.toFixed(4)}`;
   const now = Date.now();
   const hit = _spreadMemo.get(key);
   if (hit && now - hit.t < SPREAD_TTL_MS) return hit.v;
-  const v = await spreadGuardOK(symbol, limitPct);
+  const v = await brokerSpreadGuardOK(symbol, limitPct);
   _spreadMemo.set(key, { t: now, v });
   return v;
 }
-let _acctMemo: { t: number; v: any } | null = null;
-async function memoGetAccount() {
-  const now = Date.now();
-  if (_acctMemo && now - _acctMemo.t < ACCOUNT_TTL_MS) return _acctMemo.v;
-  const v = await getAccount();
-  _acctMemo = { t: now, v };
-  return v;
-}
 
 /* -------------------------- AI fallback -------------------------- */
 const AI_FALLBACK_ENABLED = true;
@@ -95,20 +108,6 @@ function allowAIFallbackNow() {
   return m >= AI_FALLBACK_MINUTE_FROM_OPEN && m <= 14;
 }
 
-/* -------------------------- misc utils -------------------------- */
-type SnapStock = {
-  ticker: string;
-  price?: number | null;
-  changesPercentage?: number | null;
-  volume?: number | null;
-  avgVolume?: number | null;
-  marketCap?: number | null;
-  float?: number | null;
-};
-function round2(x: number) {
-  return Math.round(x * 100) / 100;
-}
-
 /* ============================================================================
    VWAP BREADTH SENTIMENT GATE (used by force-buy windows)
    - Enhanced WHY/WHY-NOT logging with explicit, human-readable explanations.
@@ -127,19 +126,6 @@ type BreadthResp = {
   tickers?: string[];
   session?: { dateET: string; startISO: string; endISO: string };
 };
-type Sentiment = "green" | "neutral" | "red";
-
-const BREADTH_GREEN = 0.60;
-const BREADTH_RED = 0.45;
-const MIN_ELIGIBLE = 4;
-const TOP_N_FOR_BREADTH = 13;
-
-function classifyBreadth(above: number, denom: number): Sentiment {
-  const r = denom > 0 ? above / denom : 0;
-  if (r >= BREADTH_GREEN) return "green";
-  if (r <= BREADTH_RED) return "red";
-  return "neutral";
-}
 
 async function safePostJson(url: string, body: any, timeoutMs = 3500): Promise<any | null> {
   const ac = new AbortController();
@@ -166,14 +152,14 @@ async function safePostJson(url: string, body: any, timeoutMs = 3500): Promise<a
  * Only allow force buys when sentiment === "green".
  * Adds details.explain so debug shows a clear reason to proceed/skip.
  */
-async function getVwapSentiment(baseUrl: string): Promise<{ sentiment: Sentiment; details: any }> {
-  const mSince = typeof minutesSince930ET === "function" ? minutesSince930ET() : 0;
+async function getVwapSentiment(baseUrl: string, p: StrategyParams): Promise<{ sentiment: Sentiment; details: any }> {
+  const mSince = typeof minutesSince930ET === "function" ? minutesSince930ET(nowET(), p) : 0;
   if (mSince < 3) return { sentiment: "neutral", details: { reason: "first_3_minutes" } };
 
   const snapshot = await getSnapshot(baseUrl);
-  const top = (snapshot?.stocks || []).slice(0, TOP_N_FOR_BREADTH);
+  const top = (snapshot?.stocks || []).slice(0, p.topNForBreadth);
   const tickers = top.map((s) => s.ticker).filter(Boolean);
-  if (tickers.length < MIN_ELIGIBLE)
+  if (tickers.length < p.minEligible)
     return { sentiment: "neutral", details: { reason: "too_few_candidates", tickers } };
 
   const payload: BreadthResp | null = await safePostJson(
@@ -190,10 +176,10 @@ async function getVwapSentiment(baseUrl: string): Promise<{ sentiment: Sentiment
       : payload.total > 0
       ? payload.total
       : tickers.length;
-  if (denom < MIN_ELIGIBLE)
+  if (denom < p.minEligible)
     return { sentiment: "neutral", details: { reason: "too_few_attempted", payload } };
 
-  const sent = classifyBreadth(payload.above, denom);
+  const sent = classifyBreadth(payload.above, denom, p);
   const ratio = Number.isFinite(Number(payload.ratio)) ? payload.ratio : (denom ? payload.above / denom : 0);
   const explain =
     sent === "green"
@@ -207,9 +193,17 @@ async function getVwapSentiment(baseUrl: string): Promise<{ sentiment: Sentiment
 // app/api/bot/tick/route.ts  — PART 2 of 4
 
 /* ===================== PART 2/4 — VWAP breadth gate helper ===================== */
-async function breadthAllowsForce(base: string, debug: any, label: string): Promise<boolean> {
-  const res = await getVwapSentiment(base);       // from Part 1
+async function breadthAllowsForce(
+  base: string,
+  debug: any,
+  label: string,
+  p: StrategyParams,
+  decision: TickDecisionDraft
+): Promise<boolean> {
+  const res = await getVwapSentiment(base, p);    // from Part 1
   debug[`${label}_breadth`] = res.details || res; // keep payload for logs/inspection
+  markWindow(decision, label);
+  decision.breadth = breadthFromDetails(res.sentiment, res.details);
 
   if (res.sentiment === "green") {
     // Positive, add explicit why
@@ -226,13 +220,14 @@ async function breadthAllowsForce(base: string, debug: any, label: string): Prom
   return false;
 }
 
-/* -------------------------- types used below -------------------------- */
-type Candle = { date: string; open: number; high: number; low: number; close: number; volume: number };
-
 /* -------------------------- small utils -------------------------- */
-function priceFromFmp(q: any): number | null {
-  const n = Number(q?.price ?? q?.c ?? q?.close ?? q?.previousClose);
-  return Number.isFinite(n) ? n : null;
+/** Last price from the market-data failover chain (null when every provider fails). */
+async function quotePrice(sym: string): Promise<number | null> {
+  try {
+    return (await marketQuote(sym)).data.price;
+  } catch {
+    return null;
+  }
 }
 function getBaseUrl(req: Request) {
   const envBase = process.env.NEXT_PUBLIC_BASE_URL?.trim();
@@ -253,77 +248,6 @@ function yyyyMmDd(date: Date) {
   return `${date.getFullYear()}-${mo}-${da}`;
 }
 
-/* -------------------------- wait for broker fill -------------------------- */
-async function waitForFillAvgPrice(orderId: string, timeoutMs = 20_000, pollMs = 300): Promise<{ price: number | null; filledAt?: string }> {
-  const start = Date.now();
-  while (Date.now() - start < timeoutMs) {
-    try {
-      const o = await getOrder(orderId);
-      const px = Number(o?.filled_avg_price);
-      if (o?.status === "filled" && Number.isFinite(px) && px > 0) {
-        return { price: px, filledAt: o.filled_at || o.filledAt };
-      }
-      if ((o?.status === "partially_filled" || o?.status === "done_for_day") && Number.isFinite(px) && px > 0) {
-        return { price: px, filledAt: o.filled_at || o.filledAt };
-      }
-    } catch { /* ignore */ }
-    await new Promise(r => setTimeout(r, pollMs));
-  }
-  return { price: null };
-}
-
-/* -------------------------- time windows -------------------------- */
-function inPreScanWindow() {
-  const d = nowET(); const mins = d.getHours() * 60 + d.getMinutes(); const s = d.getSeconds();
-  return mins >= 9 * 60 + 14 && mins <= 9 * 60 + 29 && s <= 59;
-}
-function inScanWindowEarly() {
-  const d = nowET(); const m = d.getHours() * 60 + d.getMinutes(); const s = d.getSeconds();
-  return m >= 9 * 60 + 30 && m <= 9 * 60 + 44 && s <= 59;
-}
-function inForceWindow0945() {
-  const d = nowET();
-  return d.getHours() === 9 && (d.getMinutes() === 45 || d.getMinutes() === 46);
-}
-function inScanWindowMid() {
-  const d = nowET(); const m = d.getHours() * 60 + d.getMinutes(); const s = d.getSeconds();
-  return m >= 9 * 60 + 46 && m <= 9 * 60 + 59 && s <= 59;
-}
-function inForceWindow1000() {
-  const d = nowET();
-  return d.getHours() === 10 && (d.getMinutes() === 0 || d.getMinutes() === 1);
-}
-function inScanWindowLate() {
-  const d = nowET(); const s = d.getSeconds();
-  const m = d.getHours() * 60 + d.getMinutes();
-  return d.getHours() === 10 && m >= 10 * 60 + 1 && m <= 10 * 60 + 14 && s <= 59;
-}
-function inForceWindow1015() {
-  const d = nowET();
-  return d.getHours() === 10 && (d.getMinutes() === 15 || d.getMinutes() === 16);
-}
-/* >>> NEW: 10:15–10:29 scan & 10:30 force <<< */
-function inScanWindow1015to1029() {
-  const d = nowET(); const s = d.getSeconds();
-  const m = d.getHours() * 60 + d.getMinutes();
-  return d.getHours() === 10 && m >= 10 * 60 + 15 && m <= 10 * 60 + 29 && s <= 59;
-}
-function inForceWindow1030() {
-  const d = nowET();
-  return d.getHours() === 10 && (d.getMinutes() === 30 || d.getMinutes() === 31);
-}
-
-function isMandatoryExitET() {
-  const d = nowET();
-  const mins = d.getHours() * 60 + d.getMinutes();
-  return mins >= (15 * 60 + 50);
-}
-function inWindow930to945ET() {
-  const d = nowET();
-  const mins = d.getHours() * 60 + d.getMinutes();
-  return mins >= 9 * 60 + 30 && mins <= 9 * 60 + 45;
-}
-
 /* -------------------------- DB helpers -------------------------- */
 async function hasBuyAfter946TodayDB(): Promise<boolean> {
   const now = nowET();
@@ -336,288 +260,34 @@ async function hasBuyAfter946TodayDB(): Promise<boolean> {
   });
   return !!buy;
 }
-async function hasAnyBuyTodayDB(): Promise<boolean> {
-  const etNow = new Date(nowET().toLocaleString("en-US", { timeZone: "America/New_York" }));
-  const dayStartET = new Date(etNow); dayStartET.setHours(0, 0, 0, 0);
-  const buy = await prisma.trade.findFirst({
-    where: { side: "BUY", at: { gte: dayStartET, lte: nowET() } },
-    orderBy: { at: "desc" },
-  });
-  return !!buy;
-}
-async function hasDayLock(): Promise<boolean> {
-  const s = await prisma.botState.findUnique({ where: { id: 1 }, select: { lastRunDay: true } });
-  return s?.lastRunDay === yyyyMmDdET();
-}
-async function acquireDayLock(today: string): Promise<boolean> {
-  const res = await prisma.botState.updateMany({
-    where: { id: 1, OR: [{ lastRunDay: null }, { lastRunDay: { not: today } }] },
-    data: { lastRunDay: today },
-  });
-  return res.count === 1;
-}
-async function releaseDayLock(): Promise<void> {
-  try { await prisma.botState.update({ where: { id: 1 }, data: { lastRunDay: null } }); } catch {}
-}
-
-/* -------------------------- FMP candles -------------------------- */
-function toET(dateIso: string) {
-  return new Date(new Date(dateIso).toLocaleString("en-US", { timeZone: "America/New_York" }));
-}
-function isSameETDay(d: Date, ymd: string) {
-  const mo = `${d.getMonth() + 1}`.padStart(2, "0");
-  const da = `${d.getDate()}`.padStart(2, "0");
-  return `${d.getFullYear()}-${mo}-${da}` === ymd;
-}
-async function fetchCandles1m(symbol: string, limit: number, baseUrl: string): Promise<Candle[]> {
-  const url = `${baseUrl}/api/fmp/candles?symbol=${encodeURIComponent(symbol)}&interval=1min&limit=${limit}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) return [];
-  const j = await res.json();
-  const arr = Array.isArray(j?.candles) ? j.candles : [];
-  return arr.map((c: any) => ({
-    date: c.date, open: Number(c.open), high: Number(c.high), low: Number(c.low), close: Number(c.close), volume: Number(c.volume),
-  }));
-}
-
-/* -------------------------- signals & metrics -------------------------- */
-function computeOpeningRange(candles: Candle[], todayYMD: string) {
-  const window = candles.filter((c) => {
-    const d = toET(c.date);
-    return isSameETDay(d, todayYMD) && d.getHours() === 9 && d.getMinutes() >= 30 && d.getMinutes() <= 33;
-  });
-  if (!window.length) return null;
-  const high = Math.max(...window.map((c) => c.high));
-  const low = Math.min(...window.map((c) => c.low));
-  return { high, low, count: window.length };
-}
-function computeSessionVWAP(candles: Candle[], todayYMD: string) {
-  const session = candles.filter((c) => {
-    const d = toET(c.date);
-    const mins = d.getHours() * 60 + d.getMinutes();
-    return isSameETDay(d, todayYMD) && mins >= 9 * 60 + 30;
-  });
-  if (!session.length) return null;
-  let pvSum = 0, volSum = 0;
-  for (const c of session) {
-    const typical = (c.high + c.low + c.close) / 3;
-    pvSum += typical * c.volume;
-    volSum += c.volume;
-  }
-  return volSum > 0 ? pvSum / volSum : null;
-}
-function computeVolumePulse(candles: Candle[], todayYMD: string, lookback = 5) {
-  const dayC = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
-  if (dayC.length < lookback + 1) return null;
-  const latest = dayC[dayC.length - 1];
-  const prior = dayC.slice(-1 - lookback, -1);
-  const avgPrior = prior.reduce((s, c) => s + c.volume, 0) / lookback;
-  if (!avgPrior) return { mult: null as number | null, latestVol: latest.volume, avgPrior };
-  return { mult: latest.volume / avgPrior, latestVol: latest.volume, avgPrior };
-}
-
-/* -------------------------- dip helpers -------------------------- */
-function sessionOpenAt930(candles: Candle[], todayYMD: string): number | null {
-  const c = candles.find((k) => {
-    const d = toET(k.date);
-    return isSameETDay(d, todayYMD) && d.getHours() === 9 && d.getMinutes() === 30;
-  });
-  return c ? c.open : null;
-}
-function dayMinLowSoFar(candles: Candle[], todayYMD: string): number | null {
-  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
-  if (!day.length) return null;
-  return Math.min(...day.map((c) => c.low));
-}
-const DIP_MIN_PCT = 0.07;
-const DIP_MAX_PCT = 0.20;
-const DIP_CONFIRM_EITHER = true;
-function dipArmedNow(params: { candles: Candle[]; todayYMD: string; vwap: number | null }) {
-  const { candles, todayYMD, vwap } = params;
-  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
-  if (day.length < 2) return { armed: false, meta: { reason: "not_enough_bars" } };
-  const last = day[day.length - 1]; const prev = day[day.length - 2];
-  const open930 = sessionOpenAt930(candles, todayYMD);
-  const minLow = dayMinLowSoFar(candles, todayYMD);
-  if (open930 == null || minLow == null || open930 <= 0) return { armed: false, meta: { reason: "missing_open_or_min" } };
-  const pullbackPct = (open930 - minLow) / open930;
-  const withinDipBand = pullbackPct >= DIP_MIN_PCT && DIP_MAX_PCT >= pullbackPct;
-  const brokePrevHigh = last.close > prev.high;
-  const reclaimedVWAP = vwap != null ? last.close >= vwap : false;
-  const confirmOK = DIP_CONFIRM_EITHER ? (brokePrevHigh || reclaimedVWAP) : (brokePrevHigh && reclaimedVWAP);
-  const lastGreen = last.close >= last.open;
-  const armed = !!(withinDipBand && confirmOK && lastGreen);
-  return { armed, meta: { open930, minLow, pullbackPct, withinDipBand, brokePrevHigh, reclaimedVWAP, lastGreen } };
-}
-
-/* -------------------------- higher-low after open -------------------------- */
-function inWindow9344ET(dateIso: string): boolean {
-  const d = toET(dateIso);
-  const mins = d.getHours() * 60 + d.getMinutes();
-  return mins >= 9 * 60 + 30 && mins <= 9 * 60 + 44;
-}
-function computeHigherLowAfterOpen(candles: Candle[], todayYMD: string) {
-  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
-  if (day.length < 5) return { ok: false };
-
-  const open930 = sessionOpenAt930(candles, todayYMD);
-  if (open930 == null) return { ok: false };
-
-  const win = day.filter((c) => inWindow9344ET(c.date));
-  if (win.length < 3) return { ok: false };
-
-  let firstLowIdx = 0;
-  let firstLow = Infinity;
-  for (let i = 0; i < Math.min(win.length, 8); i++) {
-    if (win[i].low < firstLow) {
-      firstLow = win[i].low;
-      firstLowIdx = i;
-    }
-  }
-  if (!Number.isFinite(firstLow)) return { ok: false };
-
-  let higherLow = Infinity;
-  let higherLowIdx = -1;
-  for (let i = firstLowIdx + 1; i < win.length; i++) {
-    const bar = win[i];
-    if (bar.low < higherLow && bar.low > firstLow) {
-      higherLow = bar.low;
-      higherLowIdx = i;
-    }
-  }
-  if (!Number.isFinite(higherLow) || higherLowIdx < 0) return { ok: false };
-
-  let confirmClose: number | null = null;
-  for (let i = higherLowIdx + 1; i < win.length; i++) {
-    const bar = win[i];
-    const prev = win[i - 1];
-    if (bar.close > prev.high) {
-      confirmClose = bar.close;
-      break;
-    }
-  }
-  if (confirmClose == null) return { ok: false };
-
-  return { ok: true, firstLow, higherLow, confirmBarClose: confirmClose };
-}
-
-/* -------------------------- helpers -------------------------- */
-function clamp01(x: number) { return Math.max(0, Math.min(1, x)); }
-function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
-function minutesSince930ET() {
-  const d = nowET();
-  const mins = d.getHours() * 60 + d.getMinutes();
-  const t = mins - (9 * 60 + 30);
-  return Math.max(0, Math.min(DECAY_END_MIN, t));
-}
-
-/* ---------- liquidity gates ---------- */
-function lastNBarsOfDay(candles: Candle[], todayYMD: string, n: number): Candle[] {
-  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
-  if (!day.length) return [];
-  return day.slice(-n);
-}
-function sumVolAndDollars(bars: Candle[], priceHint?: number | null) {
-  let vol = 0;
-  let dollars = 0;
-  for (const b of bars) {
-    vol += Number(b.volume) || 0;
-    const px = Number.isFinite(Number(b.close)) ? Number(b.close) : Number(priceHint ?? 0);
-    if (px > 0) dollars += (Number(b.volume) || 0) * px;
-  }
-  return { vol, dollars };
-}
-function passesRelaxedLiquidity(
-  todayYMD: string,
-  candles: Candle[],
-  lastClose: number,
-  floatShares: number | null,
-  volPulseMult: number | null,
-  volPulseMin: number
-) {
-  let minSharesReq = MIN_SHARES_ABS;
-  if (Number.isFinite(Number(floatShares)) && floatShares! > 0) {
-    const byFloat = Math.floor(floatShares! * FLOAT_MIN_PCT_PER_MIN);
-    minSharesReq = Math.max(MIN_SHARES_ABS, byFloat);
-  } else {
-    minSharesReq = Math.max(3_000, MIN_SHARES_ABS);
-  }
-
-  const last1 = lastNBarsOfDay(candles, todayYMD, 1);
-  const last3 = lastNBarsOfDay(candles, todayYMD, 3);
-
-  const one = sumVolAndDollars(last1, lastClose);
-  const three = sumVolAndDollars(last3, lastClose);
-
-  const gateA = (one.vol >= minSharesReq) && (one.dollars >= MIN_DOLLAR_VOL);
-  const gateB = (three.vol >= (2 * minSharesReq)) && (three.dollars >= (2 * MIN_DOLLAR_VOL));
-  const gateC = (volPulseMult ?? 0) >= volPulseMin;
-
-  const trueCount = [gateA, gateB, gateC].filter(Boolean).length;
-  return {
-    ok: trueCount >= 2,
-    details: {
-      minSharesReq,
-      last1: { shares: one.vol, dollars: Math.round(one.dollars) },
-      last3: { shares: three.vol, dollars: Math.round(three.dollars) },
-      gates: { gateA, gateB, gateC, trueCount },
-    }
-  };
-}
-
-/* ---------------- dynamic spread ---------------- */
-function dynamicSpreadLimitPct(now: Date, price?: number | null, phase: "scan" | "force" = "scan"): number {
-  if (inWindow930to945ET()) return 0.013;
-  const clamp = (v: number) => Math.max(0.001, Math.min(0.022, v));
-  let base =
-    phase === "force"
-      ? 0.011
-      : (function () {
-          const mins = now.getHours() * 60 + now.getMinutes();
-          if (mins <= 9 * 60 + 34) return 0.011;
-          if (mins <= 9 * 60 + 39) return 0.009;
-          return 0.008;
-        })();
-  const p = Number(price);
-  if (Number.isFinite(p)) {
-    if (p < 2) base = Math.min(base, 0.015);
-    else if (p < 5) base = Math.min(base, 0.012);
+/* -------------------------- 1m candles (bar store) -------------------------- */
+async function fetchCandles1m(symbol: string, limit: number): Promise<Candle[]> {
+  try {
+    return asFmpCandles((await recentBars1m(symbol, limit)).bars);
+  } catch {
+    return [];
   }
-  return clamp(base);
 }
 
 /* ---------------- premarket memo ---------------- */
 type PreMemo = { pmHigh: number; pmLow: number; pmVol: number; fetchedAt: number };
 const scanMemo: Record<string, PreMemo> = {};
 
-/* ---------------- evaluate entry ---------------- */
+/* ---------------- float lookup ---------------- */
 async function fetchFloatShares(
   symbol: string,
   lastPrice: number | null,
-  snapshot: { stocks: SnapStock[] } | null,
-  baseUrl: string
+  snapshot: { stocks: SnapStock[] } | null
 ): Promise<number | null> {
   const snap = snapshot?.stocks?.find(s => s.ticker === symbol);
   if (snap && Number.isFinite(Number(snap.float))) return Number(snap.float);
   try {
-    const r = await fetch(`${baseUrl}/api/fmp/float?symbol=${encodeURIComponent(symbol)}`, { cache: "no-store" });
-    if (r.ok) {
-      const j = await r.json();
-      const f = Number(j?.float ?? j?.floatShares ?? j?.freeFloat);
-      if (Number.isFinite(f) && f > 0) return f;
-    }
+    return (await marketFloat(symbol)).data;
   } catch {}
   try {
-    const r2 = await fetch(`${baseUrl}/api/fmp/profile?symbol=${encodeURIComponent(symbol)}`, { cache: "no-store" });
-    if (r2.ok) {
-      const j2 = await r2.json();
-      const arr = Array.isArray(j2) ? j2 : (Array.isArray(j2?.profile) ? j2.profile : []);
-      const row = arr[0] || j2 || {};
-      const f = Number(row.floatShares ?? row.sharesFloat ?? row.freeFloat);
-      if (Number.isFinite(f) && f > 0) return f;
-      const so = Number(row.sharesOutstanding ?? row.mktCapShares);
-      if (Number.isFinite(so) && so > 0) return Math.floor(so * 0.8);
-    }
+    const { data: prof } = await marketProfile(symbol);
+    const so = Number(prof.sharesOutstanding);
+    if (Number.isFinite(so) && so > 0) return Math.floor(so * 0.8);
   } catch {}
   const mcap = Number(snap?.marketCap);
   const p = Number(lastPrice);
@@ -628,345 +298,30 @@ async function fetchFloatShares(
   return null;
 }
 
-async function evaluateEntrySignals(
-  ticker: string,
-  snapshot: { stocks: SnapStock[] } | null,
-  today: string,
-  baseUrl: string
-): Promise<{
-  eligible: boolean;
-  armed: boolean;
-  armedMomentum: boolean;
-  armedDip: boolean;
-  armedHigherLow: boolean;
-  refPrice: number | null;
-  meta: any;
-  debug: any;
-}> {
-  const dbg: any = {};
-  const candles = await fetchCandles1m(ticker, 240, baseUrl);
-  const day = candles.filter((c) => isSameETDay(toET(c.date), today));
-  if (!day.length) {
-    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: null, meta: { reason: "no_day_candles" }, debug: dbg };
-  }
-  const last = day[day.length - 1];
-
-  if (last.close < PRICE_MIN || last.close > PRICE_MAX) {
-    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: last.close, meta: { reason: "price_band" }, debug: dbg };
-  }
-
-  const spreadLimit = dynamicSpreadLimitPct(nowET(), last?.close ?? null, "scan");
-  const spreadOK = await memoSpreadGuardOK(ticker, spreadLimit);
-  dbg.spread = { limitPct: spreadLimit, spreadOK };
-  if (!spreadOK) {
-    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: last.close, meta: { reason: "spread_guard" }, debug: dbg };
-  }
-
-  const floatShares = await fetchFloatShares(
-    ticker,
-    Number.isFinite(Number(last.close)) ? Number(last.close) : null,
-    snapshot,
-    baseUrl
-  );
-
-  const m = minutesSince930ET();
-  const t = clamp01((m - DECAY_START_MIN) / (DECAY_END_MIN - DECAY_START_MIN));
-  const VOL_MULT_MIN = lerp(VOL_MULT_START, VOL_MULT_END, t);
-
-  const vwap = computeSessionVWAP(candles, today);
-  const volPulse = computeVolumePulse(candles, today, 5);
-
-  const liq = passesRelaxedLiquidity(
-    today,
-    candles,
-    last.close,
-    floatShares,
-    volPulse?.mult ?? null,
-    VOL_MULT_MIN
-  );
-  dbg.liquidity = {
-    relaxed: true,
-    float: floatShares ?? null,
-    lastClose: last.close,
-    details: liq.details,
-    ok: liq.ok
-  };
-  if (!liq.ok) {
-    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: last.close, meta: { reason: "liquidity" }, debug: dbg };
-  }
-
-  const orRange = computeOpeningRange(candles, today);
-  const open930 = sessionOpenAt930(candles, today);
-  const aboveVWAP = vwap != null && last ? last.close >= vwap : false;
-
-  const NEAR_OR_PCT = lerp(NEAR_OR_START, NEAR_OR_END, t);
-  const VWAP_RECLAIM_BAND = lerp(VWAP_BAND_START, VWAP_BAND_END, t);
-  const breakORH = !!(orRange && last && last.close > orRange.high);
-  const nearOR = !!(orRange && last && last.close >= orRange.high * (1 - NEAR_OR_PCT));
-  const vwapRecl = !!(vwap != null && last && last.close >= vwap && last.low >= vwap * (1 - VWAP_RECLAIM_BAND));
-  const volOK = (volPulse?.mult ?? 0) >= VOL_MULT_MIN;
-
-  const hl = computeHigherLowAfterOpen(candles, today);
-  const armedHigherLow = !!hl.ok;
-
-  let notOverextended = true;
-  if (open930 != null && Number.isFinite(open930) && open930 > 0) {
-    const ext = (last.close - open930) / open930;
-    notOverextended = ext <= 0.12;
-    dbg.overextension = { fromOpenPct: Number((ext * 100).toFixed(2)), notOverextended };
-  }
-
-  const signals: Record<string, boolean> = { volPulseOK: volOK, breakORH, nearOR, vwapReclaim: vwapRecl, higherLow: armedHigherLow, aboveVWAP };
-  const armedMomentum = !!(aboveVWAP && vwapRecl && volOK && notOverextended && (breakORH || nearOR));
-  const dip = dipArmedNow({ candles, todayYMD: today, vwap: vwap ?? null });
-
-  dbg.volPulse = volPulse?.mult ?? null;
-  dbg.VOL_MULT_MIN = VOL_MULT_MIN;
-  dbg.signals = { ...signals, VOL_MULT_MIN, NEAR_OR_PCT, VWAP_RECLAIM_BAND, mSince930: m, armedMomentum, armedDip: dip.armed, armedHigherLow };
-  dbg.dipMeta = dip.meta;
-
-  const eligible = true;
-  const armed = armedMomentum || dip.armed || armedHigherLow;
-
+/* ---------------- live strategy env ---------------- */
+function liveEnv(params: StrategyParams): StrategyEnv {
   return {
-    eligible,
-    armed,
-    armedMomentum,
-    armedDip: dip.armed,
-    armedHigherLow,
-    refPrice: last.close ?? null,
-    meta: { dipMeta: dip.meta, vwap, orRange, higherLow: hl, open930 },
-    debug: dbg
+    now: nowET,
+    candles1m: (symbol, limit) => fetchCandles1m(symbol, limit),
+    spreadOK: memoSpreadGuardOK,
+    floatShares: (symbol, lastPrice, snapshot) => fetchFloatShares(symbol, lastPrice, snapshot),
+    l2: (symbol) => l2Reading(symbol, L2_MAX_AGE_MS),
+    params,
   };
 }
 
-/* -------------------------- setup scoring -------------------------- */
-type SetupScore = { score: number; reasons: string[] };
-function scoreSetup(e: Awaited<ReturnType<typeof evaluateEntrySignals>>): SetupScore {
-  const r: string[] = [];
-  let score = 0;
-
-  const volMult = Number(e?.debug?.volPulse ?? 0);
-  const volMin  = Number(e?.debug?.VOL_MULT_MIN ?? 999);
-  if (Number.isFinite(volMult) && Number.isFinite(volMin) && volMult >= volMin) {
-    score++; r.push(`volOK(${volMult.toFixed(2)}≥${volMin.toFixed(2)})`);
-  } else {
-    r.push(`volWeak(${(volMult||0).toFixed(2)}<${(volMin||0).toFixed(2)})`);
-  }
-
-  if (e?.debug?.signals?.vwapReclaim) { score++; r.push("vwapReclaim"); } else r.push("noVwapReclaim");
-  if (e?.debug?.signals?.breakORH || e?.debug?.signals?.nearOR) { score++; r.push("ORH/nearOR"); } else r.push("noORH");
-  if (e?.debug?.aboveVWAP) { score++; r.push("aboveVWAP"); } else r.push("belowVWAP");
-
-  if (e.armedDip)       { score++; r.push("armedDip"); }
-  if (e.armedHigherLow) { score++; r.push("higherLow"); }
-
-  return { score, reasons: r };
-}
-
-/* -------- map score -> size -------- */
-function sizeForScoreOptionA(
-  score: number,
-  e: Awaited<ReturnType<typeof evaluateEntrySignals>>
-): { sizeMult: number; label: "full"|"half"|"micro" } {
-  if (e.armedHigherLow || e.armedDip) return { sizeMult: SIZE_FULL, label: "full" };
-  if (score >= 2) return { sizeMult: SIZE_FULL, label: "full" };
-  if (score === 1) return { sizeMult: SIZE_HALF, label: "half" };
-  return { sizeMult: SIZE_MICRO, label: "micro" };
-}
-
-/* -------------------------- entry quality scoring -------------------------- */
-function entryQualityScore(e: Awaited<ReturnType<typeof evaluateEntrySignals>>) {
-  let score = 0;
-  if (e.armedHigherLow) score += 3;
-  if (e.armedDip)       score += 2;
-  if (e.armedMomentum)  score += 1;
-
-  const volMult = Number(e?.debug?.volPulse ?? 0);
-  const volMin  = Number(e?.debug?.VOL_MULT_MIN ?? 1);
-  const volBoost = Math.max(0, Math.min(2, volMult / (volMin || 1)));
-  score += volBoost;
-
-  const extPct = Number(e?.meta?.open930 ? ((e.refPrice! - e.meta.open930) / e.meta.open930) : 0);
-  const notOverextended = e?.debug?.overextension?.notOverextended ?? true;
-  const extBoost = notOverextended ? Math.max(0, Math.min(4, 4 * (0.12 - Math.max(0, extPct)))) : 0;
-  score += (isNaN(extBoost) ? 2 : extBoost);
-
+/** Tick that found the lease taken: current state only, no journal row, no orders. */
+async function leaseBusyResponse(holder: LeaseHolder) {
+  const [state, positions, lastRec] = await Promise.all([
+    prisma.botState.findUnique({ where: { id: 1 } }),
+    listOpenPositions(),
+    prisma.recommendation.findFirst({ orderBy: { id: "desc" } }),
+  ]);
   return {
-    score,
-    features: {
-      armedHigherLow: e.armedHigherLow,
-      armedDip: e.armedDip,
-      armedMomentum: e.armedMomentum,
-      volMult,
-      volMin,
-      extPct: Number((extPct*100).toFixed(2)),
-    }
-  };
-}
-
-/* -------------------------- order helper -------------------------- */
-type EntryMode = "weak" | "strong";
-
-async function placeEntryNow(
-  ticker: string,
-  ref: number,
-  state: any,
-  sizeMult = 1.0,
-  mode: EntryMode
-) {
-  let cashNum = 0;
-  try {
-    const acct = await memoGetAccount();
-    const raw = Number(acct?.buying_power ?? acct?.cash ?? 0);
-    cashNum = Number.isFinite(raw) ? raw : 0;
-  } catch {
-    const raw = Number(state?.cash ?? 0);
-    cashNum = Number.isFinite(raw) ? raw : 0;
-  }
-
-  const cap = INVEST_BUDGET;
-  const clampedMult = Math.max(0.1, Math.min(sizeMult, 1.0));
-  const budget = Math.max(0, Math.min(cashNum, cap) * clampedMult);
-
-  let shares = Math.floor(budget / ref);
-  if (shares <= 0 && budget >= ref) shares = 1;
-  if (shares <= 0) return { ok: false, reason: `insufficient_cash_${ticker}_${ref.toFixed(2)}` };
-
-  const tmpTp = ref * (1 + (mode === "strong" ? TARGET_PCT_STRONG_DUMMY : TARGET_PCT_WEAK));
-  const tmpSl = ref * (1 + STOP_PCT);
-
-  let order;
-  try {
-    order = await submitBracketBuy({
-      symbol: ticker,
-      qty: shares,
-      entryType: "market",
-      tp: tmpTp,
-      sl: tmpSl,
-      tif: "day",
-    });
-  } catch (e: any) {
-    const msg = e?.message || "unknown";
-    const body = e?.body ? JSON.stringify(e.body).slice(0, 300) : "";
-    return { ok: false, reason: `alpaca_submit_failed_${ticker}:${msg}${body ? " body="+body : ""}` };
-  }
-
-  let entry = Number.isFinite(ref) ? ref : NaN;
-  try {
-    const { price } = await waitForFillAvgPrice(order.id);
-    if (Number.isFinite(Number(price)) && Number(price) > 0) entry = Number(price);
-  } catch {}
-  if (!Number.isFinite(entry)) {
-    try {
-      const pos = await getPosition(ticker);
-      const px = Number(pos?.avg_entry_price);
-      if (Number.isFinite(px) && px > 0) entry = px;
-    } catch {}
-  }
-  if (!Number.isFinite(entry)) entry = ref;
-
-  const newTp = round2(entry * (1 + (mode === "strong" ? TARGET_PCT_STRONG_DUMMY : TARGET_PCT_WEAK)));
-  const newSl = round2(entry * (1 + STOP_PCT));
-  try { await (replaceTpSlIfBetter as any)({ symbol: ticker, newTp, newSl, force: true }); } catch {}
-
-  await prisma.position.create({ data: { ticker, entryPrice: entry, shares, open: true, brokerOrderId: order.id } });
-  await prisma.trade.create({ data: { side: "BUY", ticker, price: entry, shares, brokerOrderId: order.id } });
-
-  const newCash = Math.max(0, Number(state?.cash ?? 0) - shares * entry);
-  await prisma.botState.update({ where: { id: 1 }, data: { cash: newCash, equity: newCash + shares * entry } });
-
-  ratchetState[ticker] = { entry, high: entry, lastRung: 0, lastLiftAt: 0, runner: (mode === "strong"), lastSL: newSl, lastTP: newTp };
-  lastDynSLMemo[ticker] = { day: yyyyMmDdET(), sl: newSl };
-
-  return { ok: true, shares };
-}
-
-/* -------------------------- ratchet tracking -------------------------- */
-const lastDynSLMemo: Record<string, { day: string; sl: number }> = {};
-type RatchetState = { entry: number; high: number; lastRung: number; lastLiftAt: number; runner: boolean; lastSL: number; lastTP: number };
-const ratchetState: Record<string, RatchetState> = {};
-
-/* ---------------- gentle gate for force windows ---------------- */
-async function assessObviousWeakAtForce(opts: {
-  symbol: string;
-  today: string;
-  base: string;
-  snapshot: { stocks: SnapStock[] } | null;
-}) {
-  const { symbol, today, base, snapshot } = opts;
-
-  const ev = await evaluateEntrySignals(symbol, snapshot, today, base);
-
-  const lastPrice = Number(ev.refPrice ?? NaN);
-  const priceBandOK = Number.isFinite(lastPrice) && lastPrice >= PRICE_MIN && lastPrice <= PRICE_MAX;
-
-  if (!priceBandOK) {
-    return { proceed: false, instantVeto: true, veto: "price_band", flagsCount: 0, flags: [] as string[], overrides: { dipArmed: ev.armedDip, microBounce: false }, ev };
-  }
-
-  const forceSpreadLimit = dynamicSpreadLimitPct(nowET(), lastPrice, "force");
-  const forceSpreadOK = await memoSpreadGuardOK(symbol, forceSpreadLimit);
-  if (!forceSpreadOK) {
-    return { proceed: false, instantVeto: true, veto: "spread_guard", flagsCount: 0, flags: [] as string[], overrides: { dipArmed: ev.armedDip, microBounce: false }, ev, forceSpreadLimit };
-  }
-
-  const vwap: number | null = ev.meta?.vwap ?? null;
-  const orh: number | undefined = ev.meta?.orRange?.high;
-  const open930: number | undefined = ev.meta?.open930;
-
-  const t = clamp01((minutesSince930ET() - DECAY_START_MIN) / (DECAY_END_MIN - DECAY_START_MIN));
-  const NEAR_OR_PCT = Math.max(0, lerp(NEAR_OR_START, NEAR_OR_END, t) + 0.001);
-  const volMult = Number(ev.debug?.volPulse ?? 0);
-  const volMin  = Number(ev.debug?.VOL_MULT_MIN ?? 1);
-
-  const underVWAP_noReclaim = (vwap != null && lastPrice < vwap) && !(ev.debug?.signals?.vwapReclaim === true);
-  const notNearOR = !!(orh && lastPrice < orh * (1 - NEAR_OR_PCT));
-  const volSoft = volMult < 0.9 * (volMin || 1);
-  const liqTrueCount = Number(ev.debug?.liquidity?.details?.gates?.trueCount ?? 0);
-  const liqThinNow = liqTrueCount <= 1;
-  const bleedFromOpen = (Number.isFinite(open930) && (open930 as number) > 0)
-    ? ((lastPrice - (open930 as number)) / (open930 as number))
-    : 0;
-  const mildBleed = bleedFromOpen <= -0.06;
-
-  const dipArmed = !!ev.armedDip;
-
-  // micro-bounce detection
-  const dayCandles = await fetchCandles1m(symbol, 8, base);
-  const day = dayCandles.filter((c) => isSameETDay(toET(c.date), yyyyMmDdET()));
-  const last = day[day.length - 1];
-  const prev = day[day.length - 2];
-  let microBounce = false;
-  if (last && prev) {
-    const rng = Math.max(0.000001, last.high - last.low);
-    const posInRange = (last.close - last.low) / rng; // 0..1
-    microBounce = (posInRange >= 0.60) && (last.close > prev.high);
-  }
-
-  const flags = [
-    underVWAP_noReclaim ? "underVWAP_noReclaim" : null,
-    notNearOR ? "notNearOR" : null,
-    volSoft ? "volSoft" : null,
-    liqThinNow ? "liqThinNow" : null,
-    mildBleed ? "mildBleed" : null,
-  ].filter(Boolean) as string[];
-
-  const shouldSkip = flags.length >= 3 && !(dipArmed || microBounce);
-
-  return {
-    proceed: !shouldSkip,
-    instantVeto: false,
-    veto: null as string | null,
-    flagsCount: flags.length,
-    flags,
-    overrides: { dipArmed, microBounce },
-    ev,
-    meta: {
-      priceBandOK, forceSpreadOK, forceSpreadLimit,
-      vwap, orh, volMult, volMin, liqTrueCount,
-      bleedFromOpenPct: Number((bleedFromOpen * 100).toFixed(2)),
-    }
+    state, lastRec, position: positions[0] ?? null, positions, live: null,
+    serverTimeET: nowET().toISOString(), skipped: "tick_lease_held",
+    lease: holder,
+    debug: { reasons: [`tick_lease_held:${holder?.owner ?? "unknown"}`] },
   };
 }
 
@@ -975,6 +330,8 @@ export async function GET(req: Request) { return handle(req); }
 export async function POST(req: Request) { return handle(req); }
 
 async function handle(req: Request) {
+  let decision: TickDecisionDraft | null = null;
+  let configVersion: number | null = null;
   try {
     const now = Date.now();
 
@@ -986,338 +343,269 @@ async function handle(req: Request) {
       return NextResponse.json(lastTickResponse);
     }
 
+    const tickDecision = newTickDecision();
+    decision = tickDecision;
+
     pendingTick = (async () => {
-      const debug: any = { reasons: [] as string[] };
-      const base = getBaseUrl(req);
-
-      // Optional: real Alpaca balances (memoized)
-      let alpacaAccount: any = null;
-      try { alpacaAccount = await memoGetAccount(); } catch {}
-
-      // Ensure bot state exists and loosely sync with Alpaca (UI only)
-      let state = await prisma.botState.findUnique({ where: { id: 1 } });
-      if (!state) {
-        const startCash = Number(alpacaAccount?.buying_power ?? alpacaAccount?.cash ?? START_CASH);
-        const startEquity = Number(alpacaAccount?.portfolio_value ?? startCash);
-        state = await prisma.botState.create({
-          data: { id: 1, cash: startCash, pnl: 0, equity: startEquity }
-        });
-      } else {
-        const acCash = Number(alpacaAccount?.buying_power ?? alpacaAccount?.cash);
-        const acEquity = Number(alpacaAccount?.portfolio_value);
-        const needsCash = Number.isFinite(acCash) && acCash !== Number(state.cash);
-        const needsEq   = Number.isFinite(acEquity) && acEquity !== Number(state.equity);
-        if (needsCash || needsEq) {
-          state = await prisma.botState.update({
-            where: { id: 1 },
-            data: {
-              cash: needsCash ? acCash : state.cash,
-              equity: needsEq ? acEquity : state.equity
-            }
+      // one tick across every instance; the others answer read-only (lib/tickLease.ts)
+      const run = await withLease(pgLeaseStore, TICK_LEASE, { ttlMs: TICK_LEASE_TTL_MS }, async (lease) => {
+        const debug: any = { reasons: [] as string[] };
+        const base = getBaseUrl(req);
+        const decision = tickDecision;
+
+        // Holidays / early closes (Alpaca calendar refresh ≤ every 12h; seed table otherwise)
+        await ensureTradingCalendar(yyyyMmDdET());
+
+        // Tunables for this tick (validated; defaults if the active row is bad)
+        const cfg = await getActiveStrategyConfig();
+        const params = cfg.params;
+        const strategyConfig = { version: cfg.version, source: cfg.source, errors: cfg.errors };
+        configVersion = cfg.version;
+        if (cfg.errors?.length) debug.reasons.push(`strategy_config_fallback:${cfg.errors.join("|")}`);
+
+        // Optional: real Alpaca balances (memoized)
+        let alpacaAccount: any = null;
+        try { alpacaAccount = await memoGetAccount(); } catch {}
+
+        // Ensure bot state exists and loosely sync with Alpaca (UI only)
+        let state = await prisma.botState.findUnique({ where: { id: 1 } });
+        if (!state) {
+          const startCash = Number(alpacaAccount?.buying_power ?? alpacaAccount?.cash ?? params.startCash);
+          const startEquity = Number(alpacaAccount?.portfolio_value ?? startCash);
+          state = await prisma.botState.create({
+            data: { id: 1, cash: startCash, pnl: 0, equity: startEquity }
           });
+        } else {
+          const acCash = Number(alpacaAccount?.buying_power ?? alpacaAccount?.cash);
+          const acEquity = Number(alpacaAccount?.portfolio_value);
+          const needsCash = Number.isFinite(acCash) && acCash !== Number(state.cash);
+          const needsEq   = Number.isFinite(acEquity) && acEquity !== Number(state.equity);
+          if (needsCash || needsEq) {
+            state = await prisma.botState.update({
+              where: { id: 1 },
+              data: {
+                cash: needsCash ? acCash : state.cash,
+                equity: needsEq ? acEquity : state.equity
+              }
+            });
+          }
         }
-      }
 
-      let openPos = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-      let lastRec = await prisma.recommendation.findFirst({ orderBy: { id: "desc" } });
-      let livePrice: number | null = null;
+        let openPositions = await listOpenPositions();
+        let openPos = openPositions[0] ?? null; // newest; kept for single-position clients
+        let lastRec = await prisma.recommendation.findFirst({ orderBy: { id: "desc" } });
+        let livePrice: number | null = null;
 
-      const today = yyyyMmDdET();
-
-      // Mandatory exit after 15:50 ET
-      if (openPos && isMandatoryExitET()) {
-        const exitTicker = openPos.ticker;
-        const shares = Number(openPos.shares);
-        const entry = Number(openPos.entryPrice);
-        try {
-          const sellOrder = await sellMarket({ symbol: exitTicker, qty: shares, tif: "day" });
+        const today = yyyyMmDdET();
+        const refreshOpen = async () => {
+          openPositions = await listOpenPositions();
+          openPos = openPositions[0] ?? null;
+        };
+        const slotPlan = async (): Promise<SlotPlan> => planSlots(params, openPositions, await claimedSymbolsToday(today));
+
+        // Mandatory exit from the schedule's exit phase (15:50 ET, 12:50 on early-close days) — every open position
+        if (openPositions.length && isMandatoryExitET()) {
+          for (const pos of openPositions) {
+            const exitTicker = pos.ticker;
+            const side = sideOf(pos);
+            const shares = openShares(pos);
+            if (shares <= 0) continue;
+            try {
+              if (!(await lease.held())) {
+                debug.reasons.push(`mandatory_exit_lease_lost_${exitTicker}`);
+                break;
+              }
+              const pending = await pendingExitOrder(pos);
+              if (pending) {
+                debug.reasons.push(`mandatory_exit_pending_${exitTicker}:${pending.brokerOrderId}`);
+                continue;
+              }
 
-          let filledExit: number | null = null;
-          if (sellOrder?.id) {
-            const r = await waitForFillAvgPrice(sellOrder.id);
-            if (Number.isFinite(Number(r.price))) filledExit = Number(r.price);
+              const sellOrder = await getBroker().submitMarket({ symbol: exitTicker, qty: shares, side: exitOrderSide(side), tif: "day" });
+              if (sellOrder?.id) await waitForFillAvgPrice(sellOrder.id);
+
+              // position, Trade row and cash all follow from the exit fills
+              const r = sellOrder?.id ? await syncOrderFromBroker(sellOrder.id, { source: "tick", positionId: pos.id }) : null;
+              const after = await prisma.position.findUnique({ where: { id: pos.id } });
+              if (after && !after.open) forgetRatchet(pos.id);
+
+              debug.lastMessage = after && !after.open
+                ? `Mandatory pre-close exit ${exitTicker} filled @ ${Number(after.exitPrice)}`
+                : `Mandatory pre-close exit ${exitTicker} submitted (${r?.newFills ?? 0} fills so far)`;
+              decision.action = "exited";
+              decision.ticker = decision.ticker ?? exitTicker;
+            } catch {
+              debug.reasons.push(`mandatory_exit_exception_${exitTicker}`);
+            }
           }
+          state = (await prisma.botState.findUnique({ where: { id: 1 } })) ?? state;
+          await refreshOpen();
+        }
 
-          const p = Number.isFinite(Number(filledExit)) ? Number(filledExit) : entry;
-          const exitVal = shares * p;
-          const realized = exitVal - shares * entry;
-
-          await prisma.trade.create({
-            data: { side: "SELL", ticker: exitTicker, price: p, shares, brokerOrderId: sellOrder?.id ?? null }
-          });
-          await prisma.position.update({
-            where: { id: openPos.id },
-            data: { open: false, exitPrice: p, exitAt: nowET() }
-          });
-          state = await prisma.botState.update({
-            where: { id: 1 },
-            data: { cash: Number(state!.cash) + exitVal, pnl: Number(state!.pnl) + realized, equity: Number(state!.cash) + exitVal }
-          });
+        // Portfolio risk (daily loss / losing streak may trip the kill switch)
+        let risk: RiskStatus | null = null;
+        try {
+          risk = await evaluateRisk(params);
+          if (risk.killed) debug.reasons.push(`kill_switch:${risk.reason ?? "manual"}`);
+        } catch (e: any) {
+          debug.reasons.push(`risk_eval_failed:${e?.message || "unknown"}`);
+        }
 
-          openPos = null;
-          debug.lastMessage = `Mandatory 15:50+ exit ${exitTicker} filled @ ${p}`;
-        } catch {
-          debug.reasons.push("mandatory_exit_exception");
+        // Weekday/market guard
+        if (!isWeekdayET()) {
+          const session = sessionET();
+          debug.reasons.push(session.note && session.note !== "weekend" ? `market_holiday:${session.note}` : "not_weekday");
+          if (decision.action === "idle") decision.action = "closed";
+          await recordTickDecision(decision, { reasons: debug.reasons, configVersion: cfg.version });
+          return {
+            state, lastRec, position: openPos, positions: openPositions, live: null,
+            serverTimeET: nowET().toISOString(), skipped: "not_weekday",
+            account: alpacaAccount,
+            budget: { investPerTrade: params.investBudget / params.maxConcurrentPositions, investBudget: params.investBudget, maxConcurrentPositions: params.maxConcurrentPositions },
+            strategyConfig,
+            risk,
+            info: {
+              ...phaseFlags(),
+              requireAiPick: REQUIRE_AI_PICK,
+            },
+            debug,
+          };
+        }
+        const marketOpen = isMarketHoursET();
+        const perSlot = params.investBudget / params.maxConcurrentPositions;
+
+        const phases = activePhases();
+
+        // Pre-scan (09:14–09:29 in the default schedule)
+        const prescan = phases.find((ph) => ph.kind === "prescan");
+        if (openPositions.length < params.maxConcurrentPositions && prescan) {
+          const snapshot = await getSnapshot(base);
+          const top = (snapshot?.stocks || []).slice(0, prescan.params?.candidates ?? 8);
+          const affordableTop = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= perSlot);
+          const candidates = affordableTop.length ? affordableTop : top;
+          debug.presc_top = candidates.map((s) => s.ticker);
+          markWindow(decision, prescan.name, false);
+          decision.candidates = candidates.map((s) => s.ticker);
+
+          try {
+            const { primary, secondary, lastRecRow } = await ensureRollingRecommendationTwo(req, candidates);
+            if (lastRecRow?.ticker) lastRec = lastRecRow;
+
+            const picks = [primary, secondary].filter(Boolean) as string[];
+            if (picks.length) {
+              const { startISO, endISO } = premarketRangeISO(nowET());
+              for (const sym of picks) {
+                try {
+                  const { bars } = await readBars1m(sym, startISO, endISO);
+                  const pm = computePremarketLevelsFromBars(bars);
+                  if (pm) scanMemo[sym] = { pmHigh: pm.pmHigh, pmLow: pm.pmLow, pmVol: pm.pmVol, fetchedAt: Date.now() };
+                } catch (e: any) { debug.reasons.push(`presc_pm_err_${sym}:${e?.message || "unknown"}`); }
+              }
+              debug.presc_pm_for = picks;
+              decision.picks = picks;
+            } else {
+              debug.reasons.push("presc_no_ai_picks_yet");
+            }
+          } catch (e: any) { debug.reasons.push(`presc_exception:${e?.message || "unknown"}`); }
         }
-      }
 
-      // Weekday/market guard
-      if (!isWeekdayET()) {
-        debug.reasons.push("not_weekday");
-        return {
-          state, lastRec, position: openPos, live: null,
-          serverTimeET: nowET().toISOString(), skipped: "not_weekday",
-          account: alpacaAccount,
-          budget: { investPerTrade: INVEST_BUDGET },
-          info: {
-            prescan_0914_0929: inPreScanWindow(),
-            scan_0930_0944: inScanWindowEarly(),
-            force_0945: inForceWindow0945(),
-            scan_0946_0959: inScanWindowMid(),
-            force_1000: inForceWindow1000(),
-            scan_1001_1014: inScanWindowLate(),
-            force_1015: inForceWindow1015(),
-            /* NEW status flags */
-            scan_1015_1029: inScanWindow1015to1029(),
-            force_1030: inForceWindow1030(),
-            requireAiPick: REQUIRE_AI_PICK,
-          },
-          debug,
+        const windowCtx = {
+          req, base, today, cfg, decision, debug, lease, stateRef: () => state!,
+          openPositionsRef: () => openPositions, refreshOpen, slotPlan,
+          lastRecRef: () => lastRec, setLastRec: (r: any) => lastRec = r,
         };
-      }
-      const marketOpen = isMarketHoursET();
-
-      // Pre-scan 09:14–09:29
-      if (!openPos && inPreScanWindow()) {
-        const snapshot = await getSnapshot(base);
-        const top = (snapshot?.stocks || []).slice(0, 8);
-        const affordableTop = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= INVEST_BUDGET);
-        const candidates = affordableTop.length ? affordableTop : top;
-        debug.presc_top = candidates.map((s) => s.ticker);
+        const hasFreeSlot = async () => marketOpen && !risk?.killed && (await slotPlan()).free > 0;
 
-        try {
-          const { primary, secondary, lastRecRow } = await ensureRollingRecommendationTwo(req, candidates);
-          if (lastRecRow?.ticker) lastRec = lastRecRow;
-
-          const picks = [primary, secondary].filter(Boolean) as string[];
-          if (picks.length) {
-            const { startISO, endISO } = premarketRangeISO(nowET());
-            for (const sym of picks) {
-              try {
-                const bars = await getBars1m(sym, startISO, endISO);
-                const pm = computePremarketLevelsFromBars(bars);
-                if (pm) scanMemo[sym] = { pmHigh: pm.pmHigh, pmLow: pm.pmLow, pmVol: pm.pmVol, fetchedAt: Date.now() };
-              } catch (e: any) { debug.reasons.push(`presc_pm_err_${sym}:${e?.message || "unknown"}`); }
-            }
-            debug.presc_pm_for = picks;
-          } else {
-            debug.reasons.push("presc_no_ai_picks_yet");
+        // Force windows: free slot → VWAP breadth GREEN → primary/secondary
+        const forceWindow = async (label: string, banner: string) => {
+          if (!(await hasFreeSlot())) {
+            debug.reasons.push(`${label}_skipped_no_free_slot`);
+            return;
           }
-        } catch (e: any) { debug.reasons.push(`presc_exception:${e?.message || "unknown"}`); }
-      }
-
-      /* ============================== SCAN 09:30–09:44 (EARLY) ============================== */
-      if (!openPos && marketOpen && inScanWindowEarly() && !(await hasDayLock())) {
-        await runScanWindow({
-          req, base, today, stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-          lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug, windowName: "scan_early"
-        });
-      }
-
-      /* ============================== FORCE 09:45 (PRIMARY→SECONDARY) ============================== */
-      if (!openPos && marketOpen && inForceWindow0945() && !(await hasDayLock())) {
-        const boughtOrLocked = (await hasAnyBuyTodayDB().catch(() => false)) || (await hasDayLock());
-        if (!boughtOrLocked) {
-          const ok = await breadthAllowsForce(base, debug, "force_0945");
+          const ok = await breadthAllowsForce(base, debug, label, params, decision);
           if (!ok) {
-            debug.reasons.push("force_0945_vwap_gate_blocked");
-          } else {
-            await runForceWindowPrimarySecondary({
-              req, base, today, labelPrefix: "force_0945", banner: "09:45 FORCE BUY (PRIMARY→SECONDARY)",
-              stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-              lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug
-            });
+            debug.reasons.push(`${label}_vwap_gate_blocked`);
+            return;
           }
-        } else {
-          debug.reasons.push("force_0945_skipped_buy_or_lock");
-        }
-      }
-
-      /* ============================== SCAN 09:46–09:59 (MID) ============================== */
-      if (!openPos && marketOpen && inScanWindowMid() && !(await hasDayLock()) && !(await hasAnyBuyTodayDB())) {
-        await runScanWindow({
-          req, base, today, stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-          lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug, windowName: "scan_mid"
-        });
-      }
+          await runForceWindowPrimarySecondary({ ...windowCtx, labelPrefix: label, banner });
+        };
 
-      /* ============================== FORCE 10:00 (PRIMARY→SECONDARY) ============================== */
-      if (!openPos && marketOpen && inForceWindow1000() && !(await hasDayLock())) {
-        const boughtOrLocked = (await hasAnyBuyTodayDB().catch(() => false)) || (await hasDayLock());
-        if (!boughtOrLocked) {
-          const ok = await breadthAllowsForce(base, debug, "force_1000");
-          if (!ok) {
-            debug.reasons.push("force_1000_vwap_gate_blocked");
-          } else {
-            await runForceWindowPrimarySecondary({
-              req, base, today, labelPrefix: "force_1000", banner: "10:00 SECOND FORCE BUY (PRIMARY→SECONDARY)",
-              stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-              lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug
-            });
+        /* ============================== SCAN / FORCE PHASES (lib/schedule.ts, in order) ============================== */
+        for (const ph of phases) {
+          if (!marketOpen) break;
+          if (ph.kind === "scan" && (await hasFreeSlot())) {
+            await runScanWindow({ ...windowCtx, windowName: ph.name });
+          } else if (ph.kind === "force") {
+            await forceWindow(ph.name, ph.params?.banner ?? `${ph.start} FORCE BUY (PRIMARY→SECONDARY)`);
           }
-        } else {
-          debug.reasons.push("force_1000_skipped_buy_or_lock");
         }
-      }
-
-      /* ============================== SCAN 10:01–10:14 (LATE) ============================== */
-      if (!openPos && marketOpen && inScanWindowLate() && !(await hasDayLock()) && !(await hasAnyBuyTodayDB())) {
-        await runScanWindow({
-          req, base, today, stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-          lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug, windowName: "scan_late"
-        });
-      }
 
-      /* ============================== FORCE 10:15 (PRIMARY→SECONDARY) ============================== */
-      if (!openPos && marketOpen && inForceWindow1015() && !(await hasDayLock())) {
-        const boughtOrLocked = (await hasAnyBuyTodayDB().catch(() => false)) || (await hasDayLock());
-        if (!boughtOrLocked) {
-          const ok = await breadthAllowsForce(base, debug, "force_1015");
-          if (!ok) {
-            debug.reasons.push("force_1015_vwap_gate_blocked");
-          } else {
-            await runForceWindowPrimarySecondary({
-              req, base, today, labelPrefix: "force_1015", banner: "10:15 THIRD FORCE BUY (PRIMARY→SECONDARY)",
-              stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-              lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug
-            });
-          }
-        } else {
-          debug.reasons.push("force_1015_skipped_buy_or_lock");
+        /* ============================== SHORTS (RED BREADTH, SCAN PHASES) ============================== */
+        const scanPhaseNow = phases.find((ph) => ph.kind === "scan" && ph.params?.shorts !== false);
+        if (params.allowShorts && marketOpen && scanPhaseNow && (await hasFreeSlot())) {
+          await runShortWindow({ ...windowCtx, windowName: `short_${scanPhaseNow.name}` });
         }
-      }
 
-      /* ============================== NEW SCAN 10:15–10:29 ============================== */
-      if (!openPos && marketOpen && inScanWindow1015to1029() && !(await hasDayLock()) && !(await hasAnyBuyTodayDB())) {
-        await runScanWindow({
-          req, base, today, stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-          lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug, windowName: "scan_1015_1029"
-        });
-      }
+        /* ------------------------------ Holding loop (ratchet + runner), per position ------------------------------ */
+        retainRatchets(openPositions.map((pos: any) => pos.id));
+        if (openPositions.length) {
+          let marked = Number(state!.cash);
+          for (const pos of openPositions) {
+            const sym = pos.ticker;
+            const side = sideOf(pos);
+            const entry = Number(pos.entryPrice);
+            const p = await quotePrice(sym);
+            marked += markValue(side, entry, p ?? entry, openShares(pos));
+            if (p == null) continue;
+            if (pos === openPos) livePrice = p;
+
+            // Persisted ladder, read from the row every tick; reconciled against the broker's legs
+            // after a cold start or when another instance moved it
+            const { rs, source, reconciled } = await loadRatchet(pos, p, params);
+            if (source !== "warm") {
+              debug[`ratchet_${sym}`] = { source, reconciled, sl: rs.lastSL, tp: rs.lastTP, runner: rs.runner, rung: rs.lastRung };
+            }
 
-      /* ============================== NEW FORCE 10:30 (PRIMARY→SECONDARY) ============================== */
-      if (!openPos && marketOpen && inForceWindow1030() && !(await hasDayLock())) {
-        const boughtOrLocked = (await hasAnyBuyTodayDB().catch(() => false)) || (await hasDayLock());
-        if (!boughtOrLocked) {
-          const ok = await breadthAllowsForce(base, debug, "force_1030");
-          if (!ok) {
-            debug.reasons.push("force_1030_vwap_gate_blocked");
-          } else {
-            await runForceWindowPrimarySecondary({
-              req, base, today, labelPrefix: "force_1030", banner: "10:30 FOURTH FORCE BUY (PRIMARY→SECONDARY)",
-              stateRef: () => state!, openPosRef: () => openPos, setOpenPos: (p) => openPos = p,
-              lastRecRef: () => lastRec, setLastRec: (r) => lastRec = r, debug
+            await ratchetTick(rs, p, Date.now(), async (lift) => {
+              const r = await getBroker().replaceTpSlIfBetter({ symbol: sym, newSl: lift.newSl, newTp: lift.newTp, side });
+              await recordReplacements(r.replaced, { source: "tick", positionId: pos.id });
             });
+            await saveRatchet(pos.id, rs);
           }
-        } else {
-          debug.reasons.push("force_1030_skipped_buy_or_lock");
-        }
-      }
-
-      /* ------------------------------ Holding loop (ratchet + runner) ------------------------------ */
-      if (openPos) {
-        const q = await fmpQuoteCached(openPos.ticker);
-        const pParsed = priceFromFmp(q);
-        if (pParsed != null) {
-          const p = pParsed;
-          livePrice = p;
-
-          const equityNow = Number(state!.cash) + Number(openPos.shares) * p;
-          if (Number(state!.equity) !== equityNow) {
-            state = await prisma.botState.update({ where: { id: 1 }, data: { equity: equityNow } });
-          }
-
-          const sym = openPos.ticker;
-          const entry = Number(openPos.entryPrice);
-          if (!ratchetState[sym]) {
-            ratchetState[sym] = { entry, high: Math.max(entry, p), lastRung: 0, lastLiftAt: 0, runner: false, lastSL: round2(entry * (1 + STOP_PCT)), lastTP: round2(entry * (1 + TARGET_PCT_WEAK)) };
-          }
-
-          const rs = ratchetState[sym];
-          rs.high = Math.max(rs.high, p);
-
-          const gainPct = (rs.high - rs.entry) / rs.entry;
-          const rungIndex = Math.floor(gainPct / 0.05); // 5% steps
-          const candidatePctFromEntry = Math.max(0, (rungIndex - 1) * 0.05);
-          const candidateSL = round2(rs.entry * (1 + candidatePctFromEntry));
-          const maxTightStop = round2(rs.high * (1 - 0.05));
-          const targetSL = Math.min(candidateSL, maxTightStop);
-          const curMemo = lastDynSLMemo[sym]?.sl ?? round2(rs.entry * (1 + STOP_PCT));
-          const improvedBy = targetSL - curMemo;
-          const nowMs = Date.now();
-          const cooldownOK = nowMs - (rs.lastLiftAt || 0) >= 12000;
-
-          if (rungIndex > rs.lastRung && improvedBy >= 0.02 && cooldownOK) {
-            try {
-              await (replaceTpSlIfBetter as any)({ symbol: sym, newSl: targetSL, force: false });
-              lastDynSLMemo[sym] = { day: yyyyMmDdET(), sl: targetSL };
-              rs.lastRung = rungIndex;
-              rs.lastLiftAt = nowMs;
-              rs.lastSL = targetSL;
-            } catch {}
+          if (Number(state!.equity) !== marked) {
+            state = await prisma.botState.update({ where: { id: 1 }, data: { equity: marked } });
           }
+        } else if (lastRec?.ticker) {
+          const p = await quotePrice(lastRec.ticker);
+          if (p != null) livePrice = p;
+        }
 
-          if (rs.runner) {
-            const steps = [0.05, 0.10, 0.15, 0.20, 0.30];
-            for (const step of steps) {
-              if (gainPct >= step && nowMs - rs.lastLiftAt >= 6000) {
-                let targetRunnerSL = round2(rs.entry * (1 + step - 0.05));
-                if (targetRunnerSL < rs.entry) targetRunnerSL = rs.entry;
-                const targetRunnerTP = round2(rs.entry * (1 + step + 0.10));
-
-                const needSL = targetRunnerSL > (rs.lastSL + 0.01);
-                const needTP = targetRunnerTP > (rs.lastTP + 0.01);
-
-                if (needSL || needTP) {
-                  try {
-                    await (replaceTpSlIfBetter as any)({
-                      symbol: sym,
-                      newSl: needSL ? targetRunnerSL : undefined,
-                      newTp: needTP ? targetRunnerTP : undefined,
-                      force: true,
-                    });
-                    if (needSL) {
-                      lastDynSLMemo[sym] = { day: yyyyMmDdET(), sl: targetRunnerSL };
-                      rs.lastSL = targetRunnerSL;
-                    }
-                    if (needTP) rs.lastTP = targetRunnerTP;
-                    rs.lastLiftAt = Date.now();
-                  } catch {}
-                }
-              }
-            }
-          }
+        if (decision.action === "idle") {
+          if (openPos) { decision.action = "holding"; decision.ticker = openPos.ticker; }
+          else if (!marketOpen) decision.action = "closed";
         }
-      } else if (lastRec?.ticker) {
-        const q = await fmpQuoteCached(lastRec.ticker);
-        const p = priceFromFmp(q);
-        if (p != null) livePrice = p;
-      }
+        await recordTickDecision(decision, { reasons: debug.reasons, configVersion: cfg.version });
 
-      const etNow = new Date(nowET().toLocaleString("en-US", { timeZone: "America/New_York" }));
-      const endOfDayET = new Date(etNow); endOfDayET.setHours(23, 59, 0, 0);
-
-      return {
-        state,
-        lastRec,
-        position: openPos,
-        live: { ticker: openPos?.ticker ?? lastRec?.ticker ?? null, price: livePrice },
-        view: { symbol: openPos?.ticker ?? lastRec?.ticker ?? null, untilET: endOfDayET.toISOString() },
-        serverTimeET: nowET().toISOString(),
-        account: alpacaAccount,
-        budget: { investPerTrade: INVEST_BUDGET },
-        debug,
-      };
+        const etNow = new Date(nowET().toLocaleString("en-US", { timeZone: "America/New_York" }));
+        const endOfDayET = new Date(etNow); endOfDayET.setHours(23, 59, 0, 0);
+
+        return {
+          state,
+          lastRec,
+          position: openPos,
+          positions: openPositions,
+          live: { ticker: openPos?.ticker ?? lastRec?.ticker ?? null, price: livePrice },
+          view: { symbol: openPos?.ticker ?? lastRec?.ticker ?? null, untilET: endOfDayET.toISOString() },
+          serverTimeET: nowET().toISOString(),
+          account: alpacaAccount,
+          budget: { investPerTrade: perSlot, investBudget: params.investBudget, maxConcurrentPositions: params.maxConcurrentPositions },
+          slots: await slotPlan().catch(() => null),
+          strategyConfig,
+          risk,
+          debug,
+        };
+      });
+      return run.acquired ? run.value : await leaseBusyResponse(run.holder);
     })();
 
     try {
@@ -1331,6 +619,10 @@ async function handle(req: Request) {
   } catch (e: any) {
     const msg = e?.message || "unknown";
     const stack = typeof e?.stack === "string" ? e.stack.split("\n").slice(0, 6).join("\n") : undefined;
+    if (decision) {
+      decision.action = "error";
+      await recordTickDecision(decision, { reasons: [`tick_exception:${msg}`], configVersion });
+    }
     return new NextResponse(JSON.stringify({ error: true, message: msg, stack }), {
       status: 500,
       headers: { "content-type": "application/json" },
@@ -1442,9 +734,8 @@ async function ensureRollingRecommendationTwo(
           if (inTop) {
             let ref: number | null = Number(topStocks.find((s) => s.ticker === primary)?.price ?? NaN);
             if (!Number.isFinite(Number(ref))) {
-              const q = await fmpQuoteCached(primary!);
-              const p = Number(q?.price ?? q?.c ?? q?.close ?? q?.previousClose);
-              if (Number.isFinite(p)) ref = p;
+              const p = await quotePrice(primary!);
+              if (p != null) ref = p;
             }
             const priceNum = Number.isFinite(Number(ref)) ? Number(ref) : null;
             const data: any = { ticker: primary! };
@@ -1474,24 +765,19 @@ function breadthTip(payload: any): string {
   return `VWAP breadth: ${above}/${denom} (ratio ${ratio})`;
 }
 
-/* ============================== scan runner ============================== */
-async function runScanWindow(opts: {
+/* ============================== window context ============================== */
+type WindowCtx = SlotEntryCtx & {
   req: Request;
   base: string;
-  today: string;
-  stateRef: () => any;
-  openPosRef: () => any;
-  setOpenPos: (p: any) => void;
   lastRecRef: () => any;
   setLastRec: (r: any) => void;
-  debug: any;
-  windowName: string;
-}) {
-  const { req, base, today, stateRef, openPosRef, setOpenPos, lastRecRef, setLastRec, debug, windowName } = opts;
+};
 
-  let state = stateRef();
-  let openPos = openPosRef();
-  let lastRec = lastRecRef();
+/* ============================== scan runner ============================== */
+async function runScanWindow(opts: WindowCtx & { windowName: string }) {
+  const { req, base, today, cfg, decision, setLastRec, debug, windowName } = opts;
+  const env = liveEnv(cfg.params);
+  const perSlot = cfg.params.investBudget / cfg.params.maxConcurrentPositions;
 
   let snapshot = await getSnapshot(base);
   let top = (snapshot?.stocks || []).slice(0, 8);
@@ -1499,10 +785,12 @@ async function runScanWindow(opts: {
     top = lastGoodSnapshot.stocks.slice(0, 8);
     debug[`used_last_good_snapshot_${windowName}`] = true;
   }
-  const affordableTop = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= INVEST_BUDGET);
+  const affordableTop = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= perSlot);
   const candidates = affordableTop.length ? affordableTop : top;
 
   debug[`${windowName}_top`] = candidates.map((s) => s.ticker);
+  markWindow(decision, windowName);
+  decision.candidates = candidates.map((s) => s.ticker);
   debug[`${windowName}_affordable_count`] = affordableTop.length;
 
   const { primary, secondary, lastRecRow } = await ensureRollingRecommendationTwo(req, candidates);
@@ -1511,20 +799,23 @@ async function runScanWindow(opts: {
   let picks: string[] = [];
   let aiMissing = !primary;
 
+  // Entry setups from the active config; breadth is only fetched when one of them reads it
+  let breadth: Sentiment | null = null;
+  if (setupsUseBreadth(cfg.setups)) {
+    const b = await getVwapSentiment(base, cfg.params);
+    breadth = b.sentiment;
+    debug[`${windowName}_setup_breadth`] = b.details?.explain ?? b.details?.reason ?? b.sentiment;
+  }
+  const setupCtx = { now: nowET(), breadth, params: cfg.params };
+
   const allowFallback = windowName === "scan_early" && AI_FALLBACK_ENABLED && allowAIFallbackNow();
   if (!primary && REQUIRE_AI_PICK && allowFallback) {
-    const evals: Array<{sym:string; ev: Awaited<ReturnType<typeof evaluateEntrySignals>>; eq:number}> = [];
-    for (const s of candidates.slice(0, 8)) {
-      const ev = await evaluateEntrySignals(s.ticker, snapshot, today, base);
-      if (ev?.eligible && (ev.armedHigherLow || ev.armedDip || ev.armedMomentum)) {
-        const eq = entryQualityScore(ev).score;
-        evals.push({ sym: s.ticker, ev, eq });
-      }
-    }
-    if (evals.length) {
-      evals.sort((a,b)=> b.eq - a.eq);
-      picks = [evals[0].sym];
-      debug[`${windowName}_fallback`] = { picked: evals[0].sym, reason: "best_entry_quality" };
+    const evals: Record<string, EntryEval> = {};
+    for (const s of candidates.slice(0, 8)) evals[s.ticker] = await evaluateEntrySignals(s.ticker, snapshot, today, env);
+    const best = rankSetupPicks(Object.keys(evals), evals, cfg.setups, setupCtx)[0];
+    if (best) {
+      picks = [best.sym];
+      debug[`${windowName}_fallback`] = { picked: best.sym, setup: best.plan.setup, reason: "best_entry_quality" };
       aiMissing = false;
     }
   }
@@ -1535,71 +826,127 @@ async function runScanWindow(opts: {
   }
 
   if (!picks.length) picks = [primary, secondary].filter(Boolean) as string[];
-  debug[`${windowName}_considered_order`] = picks;
-
-  const evals: Record<string, Awaited<ReturnType<typeof evaluateEntrySignals>>> = {};
-  for (const sym of picks) evals[sym!] = await evaluateEntrySignals(sym!, snapshot, today, base);
-  debug[`${windowName}_evals`] = evals;
 
-  let chosen: string | null = null;
+  // Skip symbols already held or traded today
+  const plan0 = await opts.slotPlan();
+  const skipped = picks.filter((sym) => isHeldOrClaimed(sym, opts, plan0));
+  if (skipped.length) debug[`${windowName}_skipped_claimed`] = skipped;
+  picks = picks.filter((sym) => !skipped.includes(sym));
 
-  const eligiblePicks = picks.filter(s => {
-    const ev = evals[s];
-    return ev?.eligible && (ev.armedHigherLow || ev.armedDip || ev.armedMomentum);
-  });
-
-  if (eligiblePicks.length) {
-    const ranked = eligiblePicks
-      .map(sym => {
-        const eq = entryQualityScore(evals[sym]!);
-        return { sym, eq, vol: Number(evals[sym]?.debug?.volPulse ?? 0) };
-      })
-      .sort((a, b) => {
-        if (b.eq.score !== a.eq.score) return b.eq.score - a.eq.score;
-        return (b.vol || 0) - (a.vol || 0);
-      });
+  debug[`${windowName}_considered_order`] = picks;
+  decision.picks = picks;
 
-    chosen = ranked[0].sym;
-    debug[`${windowName}_choice_reason`] = `best_entry_quality (${chosen})`;
-    debug[`${windowName}_quality_rank`] = ranked.map(r => ({ ticker: r.sym, score: Number(r.eq.score.toFixed(2)), feats: r.eq.features }));
-  } else {
-    debug.reasons.push(`${windowName}_no_armed_signal_after_eval`);
+  const evals: Record<string, EntryEval> = {};
+  for (const sym of picks) evals[sym!] = await evaluateEntrySignals(sym!, snapshot, today, env);
+  debug[`${windowName}_evals`] = evals;
+  const ranked = rankSetupPicks(picks, evals, cfg.setups, setupCtx);
+  for (const sym of picks) {
+    if (!evals[sym]) continue;
+    const match = ranked.find((r) => r.sym === sym);
+    decision.signals[sym] = {
+      ...verdictFromEval(evals[sym]),
+      qualityScore: Number(entryQualityScore(evals[sym]).score.toFixed(2)),
+      setup: match?.plan.setup ?? null,
+    };
   }
 
-  if (!chosen) return;
-
-  const claimed = await acquireDayLock(today);
-  if (!claimed) return;
-
-  try {
-    const already = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-    if (already) return;
+  const vetoed = picks.filter((sym) => evals[sym]?.l2?.veto);
+  if (vetoed.length) debug[`${windowName}_l2_veto`] = vetoed.map((sym) => ({ ticker: sym, score: evals[sym]!.l2!.score, min: cfg.params.l2MinScore }));
+  if (!ranked.length) {
+    debug.reasons.push(`${windowName}_no_setup_matched_after_eval`);
+    return;
+  }
+  let choice = "best_entry_quality";
+  if (ranked.length >= 2 && Math.abs(ranked[0].eq.score - ranked[1].eq.score) <= L2_NEAR_TIE) {
+    const checks = { [ranked[0].sym]: evals[ranked[0].sym]?.l2, [ranked[1].sym]: evals[ranked[1].sym]?.l2 };
+    const tb = l2TieBreak(ranked[0].sym, ranked[1].sym, checks, cfg.params);
+    debug[`${windowName}_l2_tiebreak`] = tb;
+    if (tb.swapped) ranked.splice(0, 2, ranked[1], ranked[0]);
+    if (tb.swapped) choice = "l2_tiebreak";
+  }
+  debug[`${windowName}_choice_reason`] = `${choice} (${ranked.map(r => r.sym).join(" > ")})`;
+  debug[`${windowName}_quality_rank`] = ranked.map(r => ({ ticker: r.sym, setup: r.plan.setup, score: Number(r.eq.score.toFixed(2)), feats: r.eq.features }));
 
+  // Best first, one entry per free slot
+  const entered: string[] = [];
+  for (const { sym: chosen, plan } of ranked) {
     let ref = evals[chosen]?.refPrice ?? null;
     if (ref == null || !Number.isFinite(Number(ref))) {
       ref = Number(snapshot?.stocks?.find((s) => s.ticker === chosen)?.price ?? NaN);
     }
     if (ref == null || !Number.isFinite(Number(ref))) {
-      const q = await fmpQuoteCached(chosen);
-      const p = Number(q?.price ?? q?.c ?? q?.close ?? q?.previousClose);
-      if (Number.isFinite(p)) ref = p;
-    }
-    if (ref == null || !Number.isFinite(Number(ref))) return;
-
-    const chosenEval = evals[chosen]!;
-    const { score } = scoreSetup(chosenEval);
-    const { sizeMult } = sizeForScoreOptionA(score, chosenEval);
-    const mode: "weak" | "strong" = score >= 2 ? "strong" : "weak";
-
-    const placed = await placeEntryNow(chosen, Number(ref), stateRef(), sizeMult, mode);
-    if (placed.ok) {
-      const newOpen = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-      setOpenPos(newOpen);
-    } else {
-      await releaseDayLock();
+      const p = await quotePrice(chosen);
+      if (p != null) ref = p;
     }
-  } catch {
-    await releaseDayLock();
+    if (ref == null || !Number.isFinite(Number(ref))) continue;
+
+    const res = await enterSlot(opts, chosen, Number(ref), plan.sizeMult, plan.mode, "long", plan.params);
+    if (res.ok) entered.push(chosen);
+    else if (res.reason === "no_free_slot") break;
+    else debug.reasons.push(`${windowName}_entry_skipped_${chosen}:${res.reason}`);
+  }
+  if (entered.length) debug[`${windowName}_entered`] = entered;
+}
+
+/* ============================== short runner ==============================
+   Only on RED VWAP breadth. No AI pick involved: the snapshot top-8 is
+   screened with evaluateShortSignals (failed ORH breakout / VWAP rejection)
+   and the best armed names are shorted, one per free slot. Shortability
+   (shortable + easy-to-borrow) is checked in placeEntryNow.
+=========================================================================== */
+async function runShortWindow(opts: WindowCtx & { windowName: string }) {
+  const { base, today, cfg, decision, debug, windowName } = opts;
+  const env = liveEnv(cfg.params);
+  const perSlot = cfg.params.investBudget / cfg.params.maxConcurrentPositions;
+
+  const breadth = await getVwapSentiment(base, cfg.params);
+  debug[`${windowName}_breadth`] = breadth.details;
+  if (breadth.sentiment !== "red") {
+    debug.reasons.push(`${windowName}_skipped_${breadth.sentiment}_breadth`);
+    return;
+  }
+  decision.breadth = breadthFromDetails(breadth.sentiment, breadth.details);
+
+  let snapshot = await getSnapshot(base);
+  let top = (snapshot?.stocks || []).slice(0, 8);
+  if (!top.length && lastGoodSnapshot && lastGoodSnapshotDay === today) {
+    top = lastGoodSnapshot.stocks.slice(0, 8);
+    snapshot = lastGoodSnapshot;
+  }
+  const plan0 = await opts.slotPlan();
+  const picks = top
+    .filter((s) => Number.isFinite(Number(s.price)) && Number(s.price) <= perSlot)
+    .map((s) => s.ticker)
+    .filter((sym) => !isHeldOrClaimed(sym, opts, plan0));
+  debug[`${windowName}_considered`] = picks;
+
+  const evals: Record<string, ShortEval> = {};
+  for (const sym of picks) {
+    evals[sym] = await evaluateShortSignals(sym, snapshot, today, env);
+    decision.signals[sym] = withShortVerdict(decision.signals[sym], evals[sym]);
+  }
+  debug[`${windowName}_evals`] = evals;
+
+  const ranked = rankShortPicks(picks, evals);
+  if (!ranked.length) {
+    debug.reasons.push(`${windowName}_no_armed_short`);
+    return;
+  }
+  debug[`${windowName}_rank`] = ranked.map((r) => ({ ticker: r.sym, score: Number(r.score.toFixed(2)) }));
+
+  const entered: string[] = [];
+  for (const { sym } of ranked) {
+    const ref = Number(evals[sym]?.refPrice ?? NaN);
+    if (!Number.isFinite(ref)) continue;
+    const { sizeMult, mode } = shortEntryPlanFor(evals[sym]!, cfg.params);
+    const res = await enterSlot(opts, sym, ref, sizeMult, mode, "short");
+    if (res.ok) entered.push(sym);
+    else if (res.reason === "no_free_slot") break;
+    else debug.reasons.push(`${windowName}_entry_skipped_${sym}:${res.reason}`);
+  }
+  if (entered.length) {
+    debug[`${windowName}_entered`] = entered;
+    debug.lastMessage = `🔻 SHORT ${entered.join(", ")} (red breadth)`;
   }
 }
 
@@ -1607,25 +954,12 @@ async function runScanWindow(opts: {
    VWAP BREADTH GATE NOTE:
    - Callers (handle() in Part 2) must pass breadthAllowsForce(base, debug, <label>) first.
    - When this runs, breadth has already been GREEN; still do normal safety checks.
+   - Fills as many free slots as it can, primary first.
 -------------------------------------------------------------------------------*/
-async function runForceWindowPrimarySecondary(opts: {
-  req: Request;
-  base: string;
-  today: string;
-  labelPrefix: string;
-  banner: string;
-  stateRef: () => any;
-  openPosRef: () => any;
-  setOpenPos: (p: any) => void;
-  lastRecRef: () => any;
-  setLastRec: (r: any) => void;
-  debug: any;
-}) {
-  const { req, base, today, labelPrefix, stateRef, openPosRef, setOpenPos, lastRecRef, setLastRec, debug } = opts;
-
-  let state = stateRef();
-  let openPos = openPosRef();
-  let lastRec = lastRecRef();
+async function runForceWindowPrimarySecondary(opts: WindowCtx & { labelPrefix: string; banner: string }) {
+  const { req, base, today, cfg, decision, labelPrefix, setLastRec, debug } = opts;
+  const env = liveEnv(cfg.params);
+  const perSlot = cfg.params.investBudget / cfg.params.maxConcurrentPositions;
 
   let snapshot = await getSnapshot(base);
   let top = (snapshot?.stocks || []).slice(0, 8);
@@ -1633,73 +967,74 @@ async function runForceWindowPrimarySecondary(opts: {
     top = lastGoodSnapshot.stocks.slice(0, 8);
     debug[`used_last_good_snapshot_${labelPrefix}`] = true;
   }
-  const affordableTop = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= INVEST_BUDGET);
+  const affordableTop = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= perSlot);
   const candidates = affordableTop.length ? affordableTop : top;
 
   debug[`${labelPrefix}_top`] = candidates.map((s) => s.ticker);
+  decision.candidates = candidates.map((s) => s.ticker);
   debug[`${labelPrefix}_affordable_count`] = affordableTop.length;
 
   const { primary, secondary, lastRecRow } = await ensureRollingRecommendationTwo(req, candidates, 10_000);
   if (lastRecRow?.ticker) setLastRec(lastRecRow);
 
-  const trySymbols = [primary, secondary].filter(Boolean) as string[];
-  let placedSymbol: string | null = null;
-
-  const claimed = await acquireDayLock(today);
-  if (!claimed) {
-    debug[`${labelPrefix}_final`] = { placedSymbol: null, reason: "lock_not_acquired" };
-    return;
+  let trySymbols = [primary, secondary].filter(Boolean) as string[];
+  if (trySymbols.length === 2) {
+    const checks = Object.fromEntries(trySymbols.map((sym) => [sym, l2CheckFor(sym, env)]));
+    const tb = l2TieBreak(trySymbols[0], trySymbols[1], checks, cfg.params);
+    debug[`${labelPrefix}_l2_tiebreak`] = { ...tb, checks };
+    trySymbols = tb.order;
   }
+  decision.picks = trySymbols;
+  const placedSymbols: string[] = [];
+
+  for (let idx = 0; idx < trySymbols.length; idx++) {
+    const sym = trySymbols[idx]!;
+    const plan = await opts.slotPlan();
+    if (plan.free <= 0) break;
+    if (isHeldOrClaimed(sym, opts, plan)) continue;
+
+    const assess = await assessObviousWeakAtForce({ symbol: sym, today, snapshot, env });
+    debug[`${labelPrefix}_check_${sym}`] = assess;
+    decision.signals[sym] = {
+      ...verdictFromEval(assess.ev),
+      force: { proceed: assess.proceed, veto: assess.veto ?? null, flags: assess.flags },
+    };
 
-  try {
-    for (let idx = 0; idx < trySymbols.length && !placedSymbol && !openPosRef(); idx++) {
-      const sym = trySymbols[idx]!;
-      const assess = await assessObviousWeakAtForce({ symbol: sym, today, base, snapshot });
-      debug[`${labelPrefix}_check_${sym}`] = assess;
-
-      if (assess.instantVeto) continue;
-      if (!assess.proceed) continue;
-
-      let ref: number | null = Number(snapshot?.stocks?.find((s) => s.ticker === sym)?.price ?? NaN);
-      if (!Number.isFinite(Number(ref))) {
-        const q = await fmpQuoteCached(sym);
-        const p = Number(q?.price ?? q?.c ?? q?.close ?? q?.previousClose);
-        if (Number.isFinite(p)) ref = p;
-      }
-      if (ref == null || !Number.isFinite(Number(ref))) continue;
-      if (ref < PRICE_MIN || ref > PRICE_MAX) continue;
-
-      const spreadLimit = dynamicSpreadLimitPct(nowET(), ref ?? null, "force");
-      const spreadOK = await memoSpreadGuardOK(sym, spreadLimit);
-      if (!spreadOK) continue;
-
-      const already = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-      if (already) break;
-
-      try {
-        const evalRes = assess.ev ?? await evaluateEntrySignals(sym, snapshot, yyyyMmDdET(), base);
-        const { score } = scoreSetup(evalRes);
-        const { sizeMult } = sizeForScoreOptionA(score, evalRes);
-        const mode: "weak" | "strong" = score >= 2 ? "strong" : "weak";
-
-        const placed = await placeEntryNow(sym, Number(ref), stateRef(), sizeMult, mode);
-        if (placed.ok) {
-          placedSymbol = sym;
-          const newOpen = await prisma.position.findFirst({ where: { open: true }, orderBy: { id: "desc" } });
-          setOpenPos(newOpen);
-          break;
-        }
-      } catch {
-        // try next symbol
-      }
+    if (assess.instantVeto) continue;
+    if (!assess.proceed) continue;
+    if (assess.ev.l2?.veto) {
+      debug.reasons.push(`${labelPrefix}_l2_veto_${sym}:${assess.ev.l2.score}<${cfg.params.l2MinScore}`);
+      continue;
+    }
+
+    let ref: number | null = Number(snapshot?.stocks?.find((s) => s.ticker === sym)?.price ?? NaN);
+    if (!Number.isFinite(Number(ref))) {
+      const p = await quotePrice(sym);
+      if (p != null) ref = p;
+    }
+    if (ref == null || !Number.isFinite(Number(ref))) continue;
+    if (ref < cfg.params.priceMin || ref > cfg.params.priceMax) continue;
+
+    const spreadLimit = dynamicSpreadLimitPct(nowET(), ref ?? null, "force");
+    const spreadOK = await memoSpreadGuardOK(sym, spreadLimit);
+    if (!spreadOK) continue;
+
+    try {
+      const evalRes = assess.ev ?? await evaluateEntrySignals(sym, snapshot, yyyyMmDdET(), env);
+      const { sizeMult, mode } = entryPlanFor(evalRes, cfg.params);
+
+      const res = await enterSlot(opts, sym, Number(ref), sizeMult, mode);
+      if (res.ok) placedSymbols.push(sym);
+      else debug.reasons.push(`${labelPrefix}_entry_skipped_${sym}:${res.reason}`);
+    } catch {
+      // try next symbol
     }
-  } finally {
-    if (!placedSymbol) await releaseDayLock();
   }
 
   // Final debug line shows that this ran only after the VWAP breadth gate (GREEN) passed earlier
   debug[`${labelPrefix}_final`] = {
-    placedSymbol: placedSymbol ?? null,
+    placedSymbol: placedSymbols[0] ?? null,
+    placedSymbols,
     gate: "VWAP_breadth_green"
   };
 }
@@ -1,15 +1,17 @@
 import { NextResponse } from "next/server";
+import { aggregateCandles, marketBars1m } from "@/lib/marketData";
 
-const API_KEY = "M0MLRDp8dLak6yJOfdv7joKaKGSje8pp";
+const LOOKBACK_MS = 5 * 24 * 60 * 60 * 1000; // enough sessions for 50 x 15-min candles
 
-// Fetch 15-min candles from FMP
+// 15-min candles rolled up from 1-min bars, most recent first
 async function fetchCandles(ticker: string) {
-  const url = `https://financialmodelingprep.com/api/v3/historical-chart/15min/${ticker}?apikey=${API_KEY}`;
-  const res = await fetch(url, { cache: "no-store" });
-
-  if (!res.ok) throw new Error(`FMP API error: ${res.status}`);
-  const data = await res.json();
-  return data.slice(0, 50); // most recent 50 candles
+  const end = new Date();
+  const r = await marketBars1m(ticker, new Date(end.getTime() - LOOKBACK_MS).toISOString(), end.toISOString());
+  const candles = aggregateCandles(r.data, 15)
+    .reverse()
+    .slice(0, 50)
+    .map((c) => ({ date: c.t, open: c.o, high: c.h, low: c.l, close: c.c, volume: c.v }));
+  return { candles, provider: r.provider };
 }
 
 // Analyze intraday chart data
@@ -90,13 +92,14 @@ export async function POST(req: Request) {
       );
     }
 
-    const candles = await fetchCandles(ticker);
+    const { candles, provider } = await fetchCandles(ticker);
     const result = analyzeCandles(candles);
 
     return NextResponse.json({
       bestBuyPrice: result.bestBuyPrice,
       reason: `Intraday 15-min analysis for ${ticker.toUpperCase()}:\n\n${result.reason}`,
       prediction: `Next 15 minutes: ${result.prediction}`,
+      provider,
     });
   } catch (error: any) {
     console.error("Chart analysis error:", error.message);
@@ -1,5 +1,6 @@
 // app/api/fmp/candles/route.ts
 import { NextResponse } from "next/server";
+import { asFmpCandles, recentBars1m } from "@/lib/barStore";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -61,6 +62,13 @@ function cacheKey(symbol: string, interval: string) {
   return `${symbol}|${interval}`;
 }
 
+// 1min is served from the bar store (lib/barStore.ts), which only goes to
+// the providers for minutes it doesn't have yet
+async function storedBars1m(symbol: string, limit: number) {
+  const r = await recentBars1m(symbol, limit);
+  return { candles: asFmpCandles(r.bars) as Candle[], provider: r.providers.length ? r.providers.join(",") : "store" };
+}
+
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
@@ -72,12 +80,16 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "symbol required" }, { status: 400 });
     }
     if (!ALLOWED.has(interval)) interval = "1min";
+    const symbol = symbolRaw.trim().toUpperCase();
+    if (interval === "1min") {
+      const stored = await storedBars1m(symbol, limitReq).catch(() => null);
+      if (stored?.candles.length) return respond(stored.candles, "store", stored.provider);
+    }
     if (!FMP_API_KEY) {
       console.error("[/api/fmp/candles] Missing FMP_API_KEY");
       return NextResponse.json({ error: "Server not configured" }, { status: 500 });
     }
 
-    const symbol = symbolRaw.trim().toUpperCase();
     const key = cacheKey(symbol, interval);
     const now = Date.now();
     const ttl = getTTL(interval);
@@ -183,11 +195,16 @@ export async function GET(req: Request) {
 }
 
 // Small helper to add cache headers + debug marker
-function respond(candles: Candle[], source: "fresh" | "cache-hit" | "coalesced" | "stale-429" | "stale-on-error") {
-  const res = NextResponse.json({ candles });
+function respond(
+  candles: Candle[],
+  source: "fresh" | "cache-hit" | "coalesced" | "stale-429" | "stale-on-error" | "store",
+  provider = "fmp"
+) {
+  const res = NextResponse.json({ candles, provider });
   // Give clients permission to cache briefly. They’ll still hit our in-memory cache
   const maxAge = 2; // seconds — keep tiny so your server cache stays primary
   res.headers.set("Cache-Control", `public, max-age=${maxAge}, stale-while-revalidate=30`);
   res.headers.set("X-Source", source);
+  res.headers.set("X-Provider", provider);
   return res;
 }
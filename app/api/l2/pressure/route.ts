@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { pressure as calcPressure } from "../../../../lib/l2Store";
 import { startL2SubscriptionLoop } from "../../../../lib/databentoBridge";
+import { L2_SYMBOL_BUDGET } from "../../../../lib/l2Tracker";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,7 +22,7 @@ export async function GET(req: Request) {
       );
     }
 
-    // normalize, unique, at most 2
+    // normalize, unique, at most the L2 symbol budget (nothing past it has a book)
     const symbols = Array.from(
       new Set(
         raw
@@ -29,7 +30,7 @@ export async function GET(req: Request) {
           .map(s => s.trim().toUpperCase())
           .filter(Boolean)
       )
-    ).slice(0, 2);
+    ).slice(0, L2_SYMBOL_BUDGET);
 
     const results = symbols.map(sym => {
       const res = calcPressure(sym); // returns whatever your buyPressure() returns
@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
+import { tapeStats } from "@/lib/tradeTape";
 
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET ?symbols=AAPL,MSFT
+ * Aggressor-signed prints from the trade tape (lib/tradeTape.ts). The flat
+ * counts are the 1m window; `windows` has 10s / 1m / 5m.
+ */
 export async function GET(req: NextRequest) {
   try {
     const symbolsParam = req.nextUrl.searchParams.get("symbols") || "";
@@ -8,15 +17,20 @@ export async function GET(req: NextRequest) {
       .map((s) => s.trim().toUpperCase())
       .filter(Boolean);
 
-    // dummy neutral stats so code can run without a backend
+    const now = Date.now();
     const stats: Record<string, any> = {};
     for (const s of symbols) {
+      const t = tapeStats(s, now);
+      const m = t.windows["1m"];
       stats[s] = {
         symbol: s,
-        buyCount: 0,
-        sellCount: 0,
-        buyNotional: 0,
-        sellNotional: 0,
+        buyCount: m.buyCount,
+        sellCount: m.sellCount,
+        buyNotional: m.buyNotional,
+        sellNotional: m.sellNotional,
+        lastTradeAt: t.lastTradeAt,
+        lastPx: t.lastPx,
+        windows: t.windows,
       };
     }
 
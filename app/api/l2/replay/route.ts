@@ -0,0 +1,94 @@
+// app/api/l2/replay/route.ts
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import { listL2Recordings, l2RecorderStatus } from "@/lib/l2Recorder";
+import { controlReplay, isReplaySpeed, listReplays, replaySeries, replayState, startReplay, type ReplayAction } from "@/lib/l2Replay";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const ACTIONS = ["play", "pause", "seek", "speed", "stop"];
+const BAD_SPEED = "speed must be a number >= 0 (0 = as fast as possible)";
+
+/** Numeric strings are taken too; anything else stays as is and fails isReplaySpeed. */
+const speedOf = (x: any) => (typeof x === "string" && x.trim() !== "" ? Number(x) : x);
+
+/**
+ * GET ?id=R1[&series=1]   replay state (book, pressure), plus the pressure-score changes with series=1
+ * GET ?day=&symbol=       recorded segments (both optional) and the running replays
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const id = url.searchParams.get("id");
+  if (id) {
+    const state = replayState(id);
+    if (!state) return NextResponse.json({ ok: false, error: "no such replay" }, { status: 404 });
+    return NextResponse.json({ ok: true, state, ...(url.searchParams.get("series") === "1" ? { series: replaySeries(id) } : {}) });
+  }
+  const day = url.searchParams.get("day") || undefined;
+  const symbol = url.searchParams.get("symbol") || undefined;
+  const recordings = await listL2Recordings({ day, symbol });
+  const { enabled, bytesWritten, lastError } = l2RecorderStatus();
+  return NextResponse.json({
+    ok: true,
+    recorder: { enabled, bytesWritten, lastError },
+    recordings: recordings.map(({ file, ...r }) => r),
+    replays: listReplays(),
+  });
+}
+
+/**
+ * POST { symbol, day, from?, to?, speed?, autoplay? }   start a replay (speed defaults to 1; 0 = as fast as possible)
+ * POST { id, action: "play" | "pause" | "seek" | "speed" | "stop", t?, speed? }
+ * Signed-in users only: a replay reads and decodes recordings from disk.
+ */
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions).catch(() => null);
+  if (!session?.user) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+  const body = await req.json().catch(() => ({}));
+
+  if (body?.id) {
+    if (!ACTIONS.includes(body.action)) {
+      return NextResponse.json({ ok: false, error: `action must be one of ${ACTIONS.join(", ")}` }, { status: 400 });
+    }
+    if (body.action === "seek" && !Number.isFinite(Number(body.t))) {
+      return NextResponse.json({ ok: false, error: "seek needs t (ms)" }, { status: 400 });
+    }
+    const speed = speedOf(body.speed);
+    if (body.action === "speed" && !isReplaySpeed(speed)) {
+      return NextResponse.json({ ok: false, error: BAD_SPEED }, { status: 400 });
+    }
+    const state = await controlReplay(String(body.id), { action: body.action, t: Number(body.t), speed } as ReplayAction);
+    if (!state && body.action !== "stop") return NextResponse.json({ ok: false, error: "no such replay" }, { status: 404 });
+    return NextResponse.json({ ok: true, state });
+  }
+
+  const symbol = String(body?.symbol || "").trim().toUpperCase();
+  const day = String(body?.day || "");
+  if (!symbol || !DAY_RE.test(day)) {
+    return NextResponse.json({ ok: false, error: "symbol and day (YYYY-MM-DD) required" }, { status: 400 });
+  }
+  const speed = body.speed === undefined ? 1 : speedOf(body.speed);
+  if (!isReplaySpeed(speed)) {
+    return NextResponse.json({ ok: false, error: BAD_SPEED }, { status: 400 });
+  }
+  const num = (x: any) => (x == null || x === "" || !Number.isFinite(Number(x)) ? null : Number(x));
+  try {
+    const state = await startReplay({
+      symbol,
+      day,
+      from: num(body.from),
+      to: num(body.to),
+      speed,
+      autoplay: body.autoplay !== false,
+    });
+    if (!state) return NextResponse.json({ ok: false, error: `no recording for ${symbol} on ${day}` }, { status: 404 });
+    return NextResponse.json({ ok: true, state });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "replay_failed" }, { status: 500 });
+  }
+}
@@ -1,19 +1,64 @@
+// app/api/l2/track/route.ts
 import { NextResponse } from "next/server";
-import { setActiveSymbols, getActiveSymbols } from "@/lib/l2Tracker";
-import { reconcileSubscriptions } from "../../../../lib/databentoBridge";
-
+import {
+  L2_CONSUMERS,
+  L2_IDLE_MS,
+  L2_SYMBOL_BUDGET,
+  getActiveSymbols,
+  isL2Consumer,
+  recentlyEvicted,
+  trackSymbols,
+  type TrackMode,
+} from "@/lib/l2Tracker";
+import { l2FeedStatus, l2SymbolStatus, reconcileSubscriptions, startL2SubscriptionLoop } from "../../../../lib/databentoBridge";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// keeps idle holds expiring even when nobody polls /api/l2/pressure
+startL2SubscriptionLoop(1500);
+
+const MODES: TrackMode[] = ["set", "add", "remove"];
+
+/**
+ * POST { symbols, consumer?: "tick" | "dashboard" | "narrator", mode?: "set" | "add" | "remove" }
+ * Consumers re-post within L2_IDLE_MS to keep their symbols; consumer
+ * defaults to "tick" and mode to "set".
+ */
 export async function POST(req: Request) {
-  const body = await req.json().catch(()=>({}));
+  const body = await req.json().catch(() => ({}));
   const symbols: string[] = Array.isArray(body?.symbols) ? body.symbols : [];
-  const { symbols: active } = setActiveSymbols(symbols);
-  await reconcileSubscriptions().catch(()=>{});
-  return NextResponse.json({ ok:true, active });
+  const consumer = body?.consumer ?? "tick";
+  const mode: TrackMode = body?.mode ?? "set";
+  if (!isL2Consumer(consumer)) {
+    return NextResponse.json({ ok: false, error: `consumer must be one of ${L2_CONSUMERS.join(", ")}` }, { status: 400 });
+  }
+  if (!MODES.includes(mode)) {
+    return NextResponse.json({ ok: false, error: `mode must be one of ${MODES.join(", ")}` }, { status: 400 });
+  }
+  const { active, evicted } = trackSymbols(consumer, symbols, mode);
+  await reconcileSubscriptions().catch(() => {});
+  return NextResponse.json({ ok: true, active, evicted, status: l2SymbolStatus() });
 }
 
 export async function GET() {
-  return NextResponse.json(getActiveSymbols());
+  const feed = l2FeedStatus();
+  return NextResponse.json({
+    ok: true,
+    ...getActiveSymbols(),
+    budget: L2_SYMBOL_BUDGET,
+    idleMs: L2_IDLE_MS,
+    status: l2SymbolStatus(),
+    evicted: recentlyEvicted(),
+    feed: feed && {
+      state: feed.state,
+      sessionId: feed.sessionId,
+      connectedAt: feed.connectedAt,
+      lastByteAt: feed.lastByteAt,
+      records: feed.records,
+      duplicates: feed.duplicates,
+      gaps: feed.gaps.slice(-10),
+      lastError: feed.lastError,
+    },
+  });
 }
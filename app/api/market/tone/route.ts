@@ -1,8 +1,6 @@
 import { NextResponse } from "next/server";
 
-// If you already have these helpers, prefer them.
-// Otherwise this route will try a very-low-cost FMP fetch.
-import { fmpQuoteCached } from "../../../../lib/fmpCached"; // <- keep this path consistent with your project
+import { marketQuote } from "../../../../lib/marketData";
 
 // Simple in-memory cache (per server instance)
 let CACHE: { data: any; ts: number } | null = null;
@@ -28,18 +26,13 @@ export async function GET() {
 
   try {
     // Prefer SPY; fallback to ^GSPC if needed.
-    let quote: any = await fmpQuoteCached?.("SPY");
-    if (!quote || typeof quote !== "object") {
-      // Optional fallback (comment out if you only want SPY)
-      try { quote = await fmpQuoteCached("^GSPC"); } catch {}
-    }
+    const served = await marketQuote("SPY").catch(() => marketQuote("^GSPC"));
+    const quote = served.data;
 
     // Normalize numbers
-    const price = Number(quote?.price ?? quote?.c ?? NaN);
-    const prevClose = Number(
-      quote?.previousClose ?? quote?.pc ?? quote?.prevClose ?? NaN
-    );
-    let pct = Number(quote?.changesPercentage ?? quote?.dp ?? NaN);
+    const price = Number(quote.price ?? NaN);
+    const prevClose = Number(quote.prevClose ?? NaN);
+    let pct = Number(quote.changePct ?? NaN);
 
     // If % not provided, derive from price / prevClose
     if (!Number.isFinite(pct) && Number.isFinite(price) && Number.isFinite(prevClose) && prevClose > 0) {
@@ -54,6 +47,7 @@ export async function GET() {
       symbol: "SPY",
       pct: pctSafe,                 // percent move today
       tone: toneFromPct(pctSafe),   // bull | bear | neutral (±0.5% default)
+      provider: served.provider,
       ts: new Date().toISOString(),
     };
 
@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { isTradingDay } from "@/lib/tradingCalendar";
 
 // ⬇️ use the cached FMP helpers (relative import avoids alias issues)
 import {
@@ -67,8 +68,7 @@ function yyyyMmDdET(): string {
   return `${y}-${mo}-${da}`;
 }
 function isWeekdayET(): boolean {
-  const d = nowET().getDay();
-  return d >= 1 && d <= 5; // Mon–Fri
+  return isTradingDay(nowET()); // Mon–Fri minus NYSE holidays
 }
 function isAfterOrAt(h: number, m: number) {
   const d = nowET();
@@ -946,14 +946,14 @@ for (const sym of finalPicks) {
 }
 
 
-    // 🔔 Tell the L2 streaming layer which 1–2 symbols to track now (uses swapped order if any)
+    // 🔔 Tell the L2 streaming layer which symbols this caller watches now (uses swapped order if any)
     try {
       const toTrack = finalPicks.slice(0, 2);
       if (toTrack.length) {
         fetch(makeUrl(`/api/l2/track`), {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ symbols: toTrack })
+          body: JSON.stringify({ symbols: toTrack, consumer: body.l2Consumer ?? "tick" })
         }).catch(() => {});
       }
     } catch {}
@@ -1,5 +1,6 @@
 // app/api/stocks/route.ts
 import { NextResponse } from "next/server";
+import { isMarketHoursET } from "@/lib/market";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,14 +21,8 @@ const FMP_API_KEY = process.env.FMP_API_KEY;
 
 // ---------- Market hours check ----------
 function isMarketOpenNow(): boolean {
-  const now = new Date();
-  const ny = new Date(now.toLocaleString("en-US", { timeZone: "America/New_York" }));
-  const d = ny.getDay();
-  const h = ny.getHours();
-  const m = ny.getMinutes();
-  const isWeekday = d >= 1 && d <= 5;
-  const isHours = (h > 9 || (h === 9 && m >= 30)) && h < 16;
-  return isWeekday && isHours;
+  // holiday / early-close aware (lib/tradingCalendar)
+  return isMarketHoursET();
 }
 
 // ---------- In-memory caches ----------
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { isMarketHoursET } from "@/lib/market";
 
 /**
  * SELF-CONTAINED SNAPSHOT ROUTE
@@ -72,15 +73,9 @@ function chunk<T>(arr: T[], size: number): T[][] {
   return out;
 }
 
-// Quick market-open heuristic (ET hours)
-function isLikelyMarketOpenET(now = new Date()): boolean {
-  const estNow = new Date(now.toLocaleString("en-US", { timeZone: "America/New_York" }));
-  const day = estNow.getDay(); // 0 Sun .. 6 Sat
-  if (day === 0 || day === 6) return false;
-  const h = estNow.getHours();
-  const m = estNow.getMinutes();
-  const mins = h * 60 + m;
-  return mins >= 9 * 60 + 30 && mins <= 16 * 60; // 9:30–16:00 ET
+// Market-open check (ET hours, holiday / early-close aware)
+function isLikelyMarketOpenET(): boolean {
+  return isMarketHoursET();
 }
 
 // =====================
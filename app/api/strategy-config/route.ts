@@ -0,0 +1,89 @@
+// app/api/strategy-config/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import { DEFAULT_STRATEGY_PARAMS } from "@/lib/strategy";
+import {
+  getActiveStrategyConfig,
+  listStrategyConfigs,
+  saveStrategyConfig,
+  activateStrategyConfig,
+  validateStrategyParams,
+} from "@/lib/strategyConfig";
+import { DEFAULT_SETUPS, SETUP_METRICS, SETUP_SIGNALS, validateStrategySetups } from "@/lib/strategySetups";
+
+/**
+ * GET  → { active, defaults, defaultSetups, vocabulary, history }
+ * POST → { params, setups?, note?, activate? }  saves a new version (active by default);
+ *                                               setups omitted = keep the active ones, null = built-in
+ *        { activateVersion }                    rolls back to an existing version
+ *        { params, setups?, dryRun: true }      validate only
+ */
+export async function GET(req: Request) {
+  try {
+    const u = new URL(req.url);
+    const limit = Number(u.searchParams.get("limit") ?? 20);
+    const [active, history] = await Promise.all([
+      getActiveStrategyConfig({ fresh: true }),
+      listStrategyConfigs(Number.isFinite(limit) ? limit : 20).catch(() => []),
+    ]);
+    return NextResponse.json({
+      ok: true,
+      active,
+      defaults: DEFAULT_STRATEGY_PARAMS,
+      defaultSetups: DEFAULT_SETUPS,
+      vocabulary: { signals: SETUP_SIGNALS, metrics: SETUP_METRICS },
+      history,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "load_failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const session = await getServerSession(authOptions).catch(() => null);
+  if (!session?.user) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ ok: false, error: "invalid_body" }, { status: 400 });
+    }
+
+    if (body.activateVersion != null) {
+      const version = Number(body.activateVersion);
+      if (!Number.isInteger(version) || version <= 0) {
+        return NextResponse.json({ ok: false, error: "invalid_version" }, { status: 400 });
+      }
+      const row = await activateStrategyConfig(version);
+      return NextResponse.json({ ok: true, activated: row });
+    }
+
+    if (body.dryRun) {
+      const res = validateStrategyParams(body.params);
+      const setups = body.setups == null ? null : validateStrategySetups(body.setups);
+      const errors = [...(res.ok ? [] : res.errors), ...(setups && !setups.ok ? setups.errors : [])];
+      if (errors.length) return NextResponse.json({ ok: false, errors }, { status: 400 });
+      return NextResponse.json({ ok: true, params: res.ok ? res.params : null, setups: setups?.ok ? setups.setups : null });
+    }
+
+    const row = await saveStrategyConfig(body.params, {
+      note: typeof body.note === "string" ? body.note : null,
+      createdBy: session.user.email ?? session.user.name ?? null,
+      activate: body.activate !== false,
+      setups: body.setups,
+    });
+    return NextResponse.json({ ok: true, saved: row });
+  } catch (e: any) {
+    if (Array.isArray(e?.errors)) {
+      return NextResponse.json({ ok: false, error: e.message, errors: e.errors }, { status: 400 });
+    }
+    return NextResponse.json({ ok: false, error: e?.message || "save_failed" }, { status: 500 });
+  }
+}
@@ -5,6 +5,10 @@ export const revalidate = 0;
 import { NextRequest } from "next/server";
 import OpenAI from "openai";
 import { spreadGuardOK } from "@/lib/alpaca";
+import { type StrategyParams, minutesSince930ET, dynamicSpreadLimitPct, toET, isSameETDay } from "@/lib/strategy";
+import { openingRange, sessionVWAP, volumePulse } from "@/lib/indicators";
+import { getActiveStrategyConfig, type ActiveStrategyConfig } from "@/lib/strategyConfig";
+import { inPhaseKind } from "@/lib/schedule";
 
 /* ───────────────────── OpenAI config ───────────────────── */
 const openai = new OpenAI({
@@ -14,26 +18,9 @@ const NARRATOR_MODEL = process.env.NARRATOR_MODEL?.trim() || "gpt-4o-mini";
 const NARRATOR_TEMP = Number(process.env.NARRATOR_TEMP ?? 0.6);
 const NARRATOR_MAX_TOKENS = Number(process.env.NARRATOR_MAX_TOKENS ?? 120);
 
-/* ───────────────────── Config (mirror bot) ───────────────────── */
-const PRICE_MIN = 1;
-const PRICE_MAX = 70;
-const SPREAD_MAX_PCT = 0.005; // 0.50%
-
-// Scan decay window 9:30–9:44
-const DECAY_START_MIN = 0;
-const DECAY_END_MIN = 14;
-
-const VOL_MULT_START = 1.20;
-const VOL_MULT_END = 1.10;
-const NEAR_OR_START = 0.003;
-const NEAR_OR_END = 0.0045;
-const VWAP_BAND_START = 0.002;
-const VWAP_BAND_END = 0.003;
-
-// Balanced liquidity guard (SCAN ONLY — not used in force)
-const MIN_SHARES_ABS = 8_000;
-const FLOAT_MIN_PCT_PER_MIN = 0.0025; // 0.25%
-const MIN_DOLLAR_VOL = 200_000;
+/* ───────────────────── Config ───────────────────── */
+// Thresholds (price band, decay lerps, liquidity) come from the active
+// StrategyConfig so the narration matches what the bot actually checks.
 
 // Stream pacing (cheaper but “live” feel)
 const TICK_MS = 8_000;              // cheap snapshot every ~8s
@@ -71,29 +58,9 @@ function yyyyMmDdET() {
   const da = String(d.getDate()).padStart(2, "0");
   return `${d.getFullYear()}-${mo}-${da}`;
 }
-function toET(dateIso: string) {
-  return new Date(new Date(dateIso).toLocaleString("en-US", { timeZone: "America/New_York" }));
-}
-function isSameETDay(d: Date, ymd: string) {
-  const mo = String(d.getMonth() + 1).padStart(2, "0");
-  const da = String(d.getDate()).padStart(2, "0");
-  return `${d.getFullYear()}-${mo}-${da}` === ymd;
-}
-function minutesSince930ET() {
-  const d = nowET();
-  const mins = d.getHours() * 60 + d.getMinutes();
-  const t = mins - (9 * 60 + 30);
-  return Math.max(0, Math.min(DECAY_END_MIN, t));
-}
-function inScanWindowET() {
-  const d = nowET();
-  const m = d.getHours() * 60 + d.getMinutes();
-  return m >= 9 * 60 + 30 && m <= 9 * 60 + 44;
-}
-function inForceWindowET() {
-  const d = nowET();
-  return d.getHours() === 9 && (d.getMinutes() === 45 || d.getMinutes() === 46);
-}
+// Scan/force windows come from the bot's session schedule (lib/schedule.ts)
+const inScanWindowET = () => inPhaseKind("scan");
+const inForceWindowET = () => inPhaseKind("force");
 function isExactly930ET() {
   const d = nowET();
   return d.getHours() === 9 && d.getMinutes() === 30;
@@ -162,40 +129,6 @@ async function fetchCandles1m(base: string, symbol: string, limit = 240): Promis
     volume: Number(c.volume),
   }));
 }
-function computeOpeningRange(candles: Candle[], todayYMD: string) {
-  const window = candles.filter((c) => {
-    const d = toET(c.date);
-    return isSameETDay(d, todayYMD) && d.getHours() === 9 && d.getMinutes() >= 30 && d.getMinutes() <= 33;
-  });
-  if (!window.length) return null;
-  const high = Math.max(...window.map((c) => c.high));
-  const low = Math.min(...window.map((c) => c.low));
-  return { high, low, count: window.length };
-}
-function computeSessionVWAP(candles: Candle[], todayYMD: string) {
-  const session = candles.filter((c) => {
-    const d = toET(c.date);
-    const mins = d.getHours() * 60 + d.getMinutes();
-    return isSameETDay(d, todayYMD) && mins >= 9 * 60 + 30;
-  });
-  if (!session.length) return null;
-  let pvSum = 0, volSum = 0;
-  for (const c of session) {
-    const typical = (c.high + c.low + c.close) / 3;
-    pvSum += typical * c.volume;
-    volSum += c.volume;
-  }
-  return volSum > 0 ? pvSum / volSum : null;
-}
-function computeVolumePulse(candles: Candle[], todayYMD: string, lookback = 5) {
-  const dayC = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
-  if (dayC.length < lookback + 1) return null;
-  const latest = dayC[dayC.length - 1];
-  const prior = dayC.slice(-1 - lookback, -1);
-  const avgPrior = prior.reduce((s, c) => s + c.volume, 0) / lookback;
-  if (!avgPrior) return { mult: null as number | null, latestVol: latest.volume, avgPrior };
-  return { mult: latest.volume / avgPrior, latestVol: latest.volume, avgPrior };
-}
 
 /* ───────────────────── Caches ───────────────────── */
 // Minute-level cache for heavy signal reads per symbol
@@ -261,25 +194,30 @@ async function fetchFloatShares(base: string, symbol: string, lastPrice: number
 }
 
 /* Balanced liquidity (SCAN ONLY) */
-type LiquidityCheck = { ok: boolean; minSharesReq: number; dollarVol: number };
-function passesBalancedLiquidityGuard(lastClose: number, lastVolume: number, floatShares: number | null): LiquidityCheck {
+type LiquidityCheck = { ok: boolean; minSharesReq: number; dollarVol: number; minDollarVol: number };
+function passesBalancedLiquidityGuard(
+  lastClose: number,
+  lastVolume: number,
+  floatShares: number | null,
+  p: StrategyParams
+): LiquidityCheck {
   const dollarVol = lastClose * lastVolume;
-  let minSharesReq = MIN_SHARES_ABS;
+  let minSharesReq = p.minSharesAbs;
   if (Number.isFinite(Number(floatShares)) && floatShares! > 0) {
-    const byFloat = Math.floor(floatShares! * FLOAT_MIN_PCT_PER_MIN);
-    minSharesReq = Math.max(MIN_SHARES_ABS, byFloat);
+    const byFloat = Math.floor(floatShares! * p.floatMinPctPerMin);
+    minSharesReq = Math.max(p.minSharesAbs, byFloat);
   } else {
     minSharesReq = 10_000; // conservative fallback if float unknown
   }
   const sharesOK = lastVolume >= minSharesReq;
-  const dollarsOK = dollarVol >= MIN_DOLLAR_VOL;
-  return { ok: sharesOK && dollarsOK, minSharesReq, dollarVol };
+  const dollarsOK = dollarVol >= p.minDollarVol;
+  return { ok: sharesOK && dollarsOK, minSharesReq, dollarVol, minDollarVol: p.minDollarVol };
 }
 
 /* Safe spread check (never throws) */
-async function safeSpreadCheck(symbol: string) {
+async function safeSpreadCheck(symbol: string, lastPrice: number) {
   try {
-    const ok = await spreadGuardOK(symbol, SPREAD_MAX_PCT);
+    const ok = await spreadGuardOK(symbol, dynamicSpreadLimitPct(nowET(), lastPrice, "scan"));
     return { pass: ok, note: "" };
   } catch {
     return { pass: false, note: " (couldn’t verify spread)" };
@@ -300,6 +238,17 @@ async function getSnapshot(base: string): Promise<{ stocks: SnapStock[]; updated
     return null;
   }
 }
+/* Drops the narrator's L2 holds; /api/recommendation re-posts them on every detail tick */
+async function trackL2(base: string, symbols: string[]) {
+  try {
+    await fetch(`${base}/api/l2/track`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ symbols, consumer: "narrator" }),
+      cache: "no-store",
+    });
+  } catch {}
+}
 function tokenizeTickers(txt: string): string[] {
   if (!txt) return [];
   return Array.from(new Set((txt.toUpperCase().match(/\b[A-Z]{1,5}\b/g) || [])));
@@ -354,7 +303,12 @@ type SignalReadOK = {
 };
 type SignalReadFail = { ok: false; reason: "no_day_candles" | "error" };
 
-async function readSignalsForNarration(base: string, symbol: string): Promise<SignalReadOK | SignalReadFail> {
+async function readSignalsForNarration(
+  base: string,
+  symbol: string,
+  cfg: ActiveStrategyConfig
+): Promise<SignalReadOK | SignalReadFail> {
+  const p = cfg.params;
   try {
     const today = yyyyMmDdET();
     const candles = await fetchCandles1m(base, symbol, 240);
@@ -365,29 +319,29 @@ async function readSignalsForNarration(base: string, symbol: string): Promise<Si
 
     // Minute cache key (ET, rounded to minute)
     const lastET = toET(last.date);
-    const key = `${symbol}:${lastET.getFullYear()}-${lastET.getMonth() + 1}-${lastET.getDate()} ${lastET.getHours()}:${lastET.getMinutes()}`;
+    const key = `v${cfg.version}:${symbol}:${lastET.getFullYear()}-${lastET.getMonth() + 1}-${lastET.getDate()} ${lastET.getHours()}:${lastET.getMinutes()}`;
     const cached = minuteSignalCache.get(key);
     if (cached) return cached; // ✅ no duplicate "ok"
 
-    const priceOK = last.close >= PRICE_MIN && last.close <= PRICE_MAX;
+    const priceOK = last.close >= p.priceMin && last.close <= p.priceMax;
 
     // dynamic thresholds (decay)
-    const m = minutesSince930ET();
-    const t = clamp01((m - DECAY_START_MIN) / (DECAY_END_MIN - DECAY_START_MIN));
-    const VOL_MULT_MIN = lerp(VOL_MULT_START, VOL_MULT_END, t);
-    const NEAR_OR_PCT = lerp(NEAR_OR_START, NEAR_OR_END, t);
-    const VWAP_RECLAIM_BAND = lerp(VWAP_BAND_START, VWAP_BAND_END, t);
+    const m = minutesSince930ET(nowET(), p);
+    const t = clamp01((m - p.decayStartMin) / (p.decayEndMin - p.decayStartMin));
+    const VOL_MULT_MIN = lerp(p.volMultStart, p.volMultEnd, t);
+    const NEAR_OR_PCT = lerp(p.nearOrStart, p.nearOrEnd, t);
+    const VWAP_RECLAIM_BAND = lerp(p.vwapBandStart, p.vwapBandEnd, t);
 
-    const { pass: spreadOK, note: spreadNote } = await safeSpreadCheck(symbol);
+    const { pass: spreadOK, note: spreadNote } = await safeSpreadCheck(symbol, last.close);
 
     // Liquidity (scan only)
     const floatShares = await fetchFloatShares(base, symbol, last.close);
-    const liq = passesBalancedLiquidityGuard(last.close, last.volume ?? 0, floatShares);
+    const liq = passesBalancedLiquidityGuard(last.close, last.volume ?? 0, floatShares, p);
 
     // Levels + signals
-    const orRange = computeOpeningRange(candles, yyyyMmDdET());
-    const vwap = computeSessionVWAP(candles, yyyyMmDdET());
-    const vol = computeVolumePulse(candles, yyyyMmDdET(), 5);
+    const orRange = openingRange(candles, today);
+    const vwap = sessionVWAP(candles, today);
+    const vol = volumePulse(candles, today, 5);
 
     const aboveVWAP = vwap != null && last.close >= vwap;
     const breakORH = !!(orRange && last.close > orRange.high);
@@ -464,7 +418,7 @@ async function streamOpenAINarration(
     spreadNote: read.spreadNote,
     liquidityOK: read.liq.ok,
     minSharesRequired: read.liq.minSharesReq,
-    dollarVolMin: MIN_DOLLAR_VOL,
+    dollarVolMin: read.liq.minDollarVol,
     orHigh: read.orHigh,
     vwap: read.vwap,
     aboveVWAP: read.aboveVWAP,
@@ -512,6 +466,7 @@ export async function POST(req: NextRequest) {
   try {
     const { note } = await req.json().catch(() => ({ note: "" }));
     const base = getBaseUrl(req);
+    const cfg = await getActiveStrategyConfig();
 
     const stream = new ReadableStream({
       start: async (controller) => {
@@ -524,7 +479,7 @@ export async function POST(req: NextRequest) {
           await say(controller, `(${t} ET) ${greeting}\n`);
 
           if (!inScanWindowET() && !inForceWindowET()) {
-            await say(controller, `Live commentary runs 09:30–09:45 ET. I’ll save the words till the bell rings.\n`);
+            await say(controller, `Live commentary runs during the scan and force windows. I’ll save the words till the bell rings.\n`);
             controller.close();
             return;
           }
@@ -564,7 +519,7 @@ export async function POST(req: NextRequest) {
                 const r = await fetch(`${base}/api/recommendation`, {
                   method: "POST",
                   headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ stocks: top, forcePick: true, requirePick: true }),
+                  body: JSON.stringify({ stocks: top, forcePick: true, requirePick: true, l2Consumer: "narrator" }),
                   cache: "no-store",
                 });
                 if (r.ok) {
@@ -606,7 +561,7 @@ export async function POST(req: NextRequest) {
             }
 
             for (const sym of picks) {
-              const read = await readSignalsForNarration(base, sym);
+              const read = await readSignalsForNarration(base, sym, cfg);
               if (!read.ok) {
                 await say(controller, `• ${sym}: no fresh intraday bars yet; skipping for now.\n`);
                 continue;
@@ -627,7 +582,7 @@ export async function POST(req: NextRequest) {
                 parts.push(
                   `price ${read.priceOK ? "in band" : "out of band"}, spread ${read.spreadOK ? "tight" : "wide"}${read.spreadNote || ""}`
                 );
-                const liqStr = `liquidity ${read.liq.ok ? "OK" : "light"} (need ≥ ${read.liq.minSharesReq.toLocaleString()} sh & $${MIN_DOLLAR_VOL.toLocaleString()}/min)`;
+                const liqStr = `liquidity ${read.liq.ok ? "OK" : "light"} (need ≥ ${read.liq.minSharesReq.toLocaleString()} sh & $${read.liq.minDollarVol.toLocaleString()}/min)`;
                 parts.push(`, ${liqStr}.`);
 
                 const levels: string[] = [];
@@ -660,7 +615,7 @@ export async function POST(req: NextRequest) {
             await sleep(TICK_MS);
           }
 
-          // Force window narration (09:45–09:46)
+          // Force window narration
           if (inForceWindowET()) {
             await say(
               controller,
@@ -675,6 +630,8 @@ export async function POST(req: NextRequest) {
         } catch {
           controller.enqueue(td.encode("Narration error.\n"));
           controller.close();
+        } finally {
+          await trackL2(base, []);
         }
       },
     });
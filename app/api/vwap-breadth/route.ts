@@ -4,7 +4,8 @@ export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 import { NextResponse } from "next/server";
-import { getBars1m } from "@/lib/alpaca";
+import { asFmpCandles, readBars1m } from "@/lib/barStore";
+import { sessionVWAP } from "@/lib/indicators";
 import { isMarketHoursET, nowET, yyyyMmDdET } from "@/lib/market";
 
 type Bar1m = { t: string; o: number; h: number; l: number; c: number; v: number };
@@ -12,19 +13,6 @@ type CacheEntry = { ts: number; payload: any };
 const CACHE = new Map<string, CacheEntry>();
 const TTL_MS = 60_000;
 
-function typicalPrice(b: Bar1m) { return (b.h + b.l + b.c) / 3; }
-function computeVWAP(bars: Bar1m[]) {
-  if (!bars?.length) return null;
-  let pv = 0, vv = 0;
-  for (const b of bars) {
-    const tp = typicalPrice(b);
-    if (!Number.isFinite(tp) || !Number.isFinite(b.v)) continue;
-    pv += tp * b.v;
-    vv += b.v;
-  }
-  return vv > 0 ? pv / vv : null;
-}
-
 // supports both function and value export for nowET
 function getNowETSafe(): Date {
   const any = nowET as any;
@@ -59,14 +47,17 @@ export async function POST(req: Request) {
 
     const attempted = tickers.length;
     const failed: string[] = [];
+    const providers: Record<string, number> = {};
 
     const results = await Promise.all(
       tickers.map(async (symbol) => {
         try {
-          const bars: Bar1m[] = await getBars1m(symbol, startISO, endISO, limit);
+          const read = await readBars1m(symbol, startISO, endISO);
+          const bars: Bar1m[] = read.bars.slice(-limit);
+          for (const src of read.providers.length ? read.providers : ["store"]) providers[src] = (providers[src] ?? 0) + 1;
           if (!Array.isArray(bars) || bars.length === 0) { failed.push(symbol); return { ok: false }; }
 
-          const vwap = computeVWAP(bars);
+          const vwap = sessionVWAP(asFmpCandles(bars), todayET);
           const last = bars[bars.length - 1]?.c ?? null;
           if (!vwap || !last) { failed.push(symbol); return { ok: false }; }
 
@@ -94,6 +85,7 @@ export async function POST(req: Request) {
       ok: true,
       total, above, below, flat, ratio,      // succeeded counts
       attempted, failed,                     // diagnostics
+      providers,                             // symbols served per source ("store" = bar table only)
       marketOpen: open,
       tickers,
       session: { dateET: todayET, startISO, endISO },
@@ -1,10 +1,54 @@
 "use client";
 
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useBotPoll } from "@/app/components/useBotPoll";
 
 export default function BotStatusCard() {
   const { tick, tradesToday, error } = useBotPoll(5000);
+  const [rearming, setRearming] = useState(false);
+  const [rearmMsg, setRearmMsg] = useState<string | null>(null);
+
+  const risk = tick?.risk ?? null;
+
+  // Self-hosted tick scheduler heartbeat (scripts/tick-scheduler.ts); null until the first read
+  const [scheduler, setScheduler] = useState<{ alive: boolean; leader: any; instances: any[] } | null>(null);
+  useEffect(() => {
+    let stop = false;
+    const load = async () => {
+      if (document.hidden) return;
+      try {
+        const r = await fetch("/api/bot/scheduler", { cache: "no-store" });
+        const j = await r.json();
+        if (!stop && j?.ok) setScheduler({ alive: j.alive, leader: j.leader, instances: j.instances ?? [] });
+      } catch {
+        // leave the last reading
+      }
+    };
+    load();
+    const id = setInterval(load, 15000);
+    return () => {
+      stop = true;
+      clearInterval(id);
+    };
+  }, []);
+
+  const rearm = async () => {
+    setRearming(true);
+    setRearmMsg(null);
+    try {
+      const r = await fetch("/api/bot/risk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "rearm" }),
+      });
+      const j = await r.json().catch(() => null);
+      setRearmMsg(j?.ok ? "Re-armed — takes effect on the next tick." : `Re-arm failed: ${j?.error || r.status}`);
+    } catch (e: any) {
+      setRearmMsg(`Re-arm failed: ${e?.message || "network error"}`);
+    } finally {
+      setRearming(false);
+    }
+  };
 
   // ----- Status banner (color + text) -----
   const status = useMemo(() => {
@@ -40,7 +84,7 @@ export default function BotStatusCard() {
 
   const friendlyPos =
     tick?.position
-      ? `Open: ${tick.position.ticker} x${tick.position.shares} @ $${Number(
+      ? `Open${tick.position.side === "short" ? " SHORT" : ""}: ${tick.position.ticker} x${Number(tick.position.shares) - Number(tick.position.exitedShares ?? 0)} @ $${Number(
           tick.position.entryPrice
         ).toFixed(2)}`
       : "No open position — bot will enter only if conditions are met during the entry window.";
@@ -50,6 +94,24 @@ export default function BotStatusCard() {
       ? `${tradesToday.length} trade${tradesToday.length === 1 ? "" : "s"} today (ET).`
       : "No trades executed yet today.";
 
+  // only shown once a self-hosted scheduler has ever reported in
+  const leader = scheduler?.leader;
+  const liveInstances = scheduler?.instances.filter((i) => i.alive).length ?? 0;
+  const friendlyScheduler =
+    !scheduler?.instances.length
+      ? null
+      : leader
+      ? [
+          `leader ${leader.host}:${leader.pid}`,
+          leader.phase ? `${leader.phase} every ${(leader.cadenceMs / 1000).toFixed(1)}s` : "idle",
+          leader.lastTickAt ? `last tick ${Math.max(0, Math.round((Date.now() - new Date(leader.lastTickAt).getTime()) / 1000))}s ago` : null,
+          leader.lastError,
+          liveInstances > 1 ? `${liveInstances} instances` : null,
+        ].filter(Boolean).join(" · ")
+      : scheduler.alive
+      ? "no leader (standbys waiting for the lock)"
+      : "down — no heartbeat";
+
   const top8 = ((tick as any)?.debug?.top8 as string[] | undefined) ?? [];
   const friendlyWatchlist =
     top8.length > 0
@@ -75,6 +137,44 @@ export default function BotStatusCard() {
         </div>
       </div>
 
+      {/* Risk / kill switch */}
+      {risk && (
+        <div
+          className={`rounded-lg px-3 py-2 text-sm mb-3 border ${
+            risk.killed ? "bg-red-50 text-red-800 border-red-200" : "bg-green-50 text-green-800 border-green-200"
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">
+              {risk.killed ? "⛔ Kill switch ON — new entries blocked" : "Risk: armed"}
+            </span>
+            {risk.killed && (
+              <button
+                onClick={rearm}
+                disabled={rearming}
+                className="text-xs px-2 py-1 rounded border border-red-300 bg-white hover:bg-red-100 disabled:opacity-50"
+              >
+                {rearming ? "Re-arming…" : "Re-arm"}
+              </button>
+            )}
+          </div>
+          {risk.killed && risk.reason && <div className="text-xs mt-1 break-words">Reason: {risk.reason}</div>}
+          <div className="mt-1 text-xs opacity-70 space-x-3">
+            <span>
+              Realized today: ${risk.dailyRealized.toFixed(2)} / −${risk.limits.maxDailyLossUsd}
+            </span>
+            <span>
+              Losing streak: {risk.consecutiveLosses}/{risk.limits.maxConsecutiveLosses}
+            </span>
+          </div>
+          <div className="mt-1 text-xs opacity-70">
+            Only these two trip the switch; per-symbol ${risk.limits.maxNotionalPerSymbol} and{" "}
+            {Math.round(risk.limits.maxBuyingPowerPct * 100)}% of buying power just refuse that entry.
+          </div>
+          {rearmMsg && <div className="text-xs mt-1">{rearmMsg}</div>}
+        </div>
+      )}
+
       {/* Live / Server time */}
       <div className="text-sm bg-gray-50 border rounded px-3 py-2 mb-3">
         <div>
@@ -89,6 +189,9 @@ export default function BotStatusCard() {
               })
             : "—"}
         </div>
+        {friendlyScheduler && (
+          <div className={scheduler?.leader ? "text-gray-600" : "text-red-700"}>Scheduler: {friendlyScheduler}</div>
+        )}
       </div>
 
       {/* Last Recommendation */}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/** ===== Types (mirror lib/decisionJournal.ts) ===== */
+type SymbolVerdict = {
+  eligible: boolean;
+  armed: boolean;
+  armedMomentum: boolean;
+  armedDip: boolean;
+  armedHigherLow: boolean;
+  refPrice: number | null;
+  reason: string | null;
+  spreadOK: boolean | null;
+  liquidityOK: boolean | null;
+  volPulse: number | null;
+  volMin: number | null;
+  qualityScore?: number;
+  setup?: string | null;
+  force?: { proceed: boolean; veto: string | null; flags: string[] };
+};
+
+type Decision = {
+  id: number;
+  at: string;
+  window: string | null;
+  action: string;
+  ticker: string | null;
+  picks: string[] | null;
+  signals: Record<string, SymbolVerdict> | null;
+  breadth: { sentiment: string; above?: number; denom?: number; explain?: string; reason?: string } | null;
+  reasons: string[] | null;
+  configVersion: number | null;
+};
+
+const ACTION_CLS: Record<string, string> = {
+  entered: "bg-green-100 text-green-700",
+  exited: "bg-red-100 text-red-700",
+  skipped: "bg-amber-100 text-amber-800",
+  holding: "bg-blue-100 text-blue-700",
+  error: "bg-rose-100 text-rose-700",
+};
+
+function fmtET(iso: string) {
+  return new Date(iso).toLocaleTimeString("en-US", {
+    timeZone: "America/New_York",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+}
+
+function Flag({ ok, label }: { ok: boolean | null; label: string }) {
+  if (ok == null) return null;
+  return (
+    <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${ok ? "bg-green-50 text-green-700" : "bg-red-50 text-red-700"}`}>
+      {label}
+    </span>
+  );
+}
+
+export default function DecisionTimeline({ height = 260, intervalMs = 15000 }: { height?: number; intervalMs?: number }) {
+  const [rows, setRows] = useState<Decision[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState<number | null>(null);
+
+  useEffect(() => {
+    let stop = false;
+    const load = async () => {
+      if (document.hidden) return;
+      try {
+        const r = await fetch("/api/bot/decisions?limit=200", { cache: "no-store" });
+        const j = await r.json();
+        if (stop) return;
+        if (!j?.ok) {
+          setError(j?.error || `HTTP ${r.status}`);
+          return;
+        }
+        setError(null);
+        setRows(Array.isArray(j.decisions) ? j.decisions : []);
+      } catch (e: any) {
+        if (!stop) setError(e?.message || "fetch failed");
+      }
+    };
+    load();
+    const id = setInterval(load, intervalMs);
+    return () => {
+      stop = true;
+      clearInterval(id);
+    };
+  }, [intervalMs]);
+
+  if (error && !rows.length) return <p className="text-red-600 text-sm">Error: {error}</p>;
+  if (!rows.length) return <p className="text-gray-500 text-sm">No decisions recorded today.</p>;
+
+  return (
+    <div className="overflow-auto text-xs" style={{ height }}>
+      <ul className="space-y-1.5">
+        {rows.map((d) => {
+          const expanded = open === d.id;
+          const signals = Object.entries(d.signals || {});
+          return (
+            <li key={d.id} className="rounded-lg ring-1 ring-gray-200 bg-white">
+              <button
+                onClick={() => setOpen(expanded ? null : d.id)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-gray-50"
+              >
+                <span className="font-mono text-gray-500">{fmtET(d.at)}</span>
+                <span className={`px-2 py-0.5 rounded font-semibold ${ACTION_CLS[d.action] || "bg-gray-100 text-gray-700"}`}>
+                  {d.action}
+                </span>
+                <span className="text-gray-700">{d.window || "—"}</span>
+                {d.ticker && <span className="font-semibold">{d.ticker}</span>}
+                {!!d.picks?.length && !d.ticker && <span className="text-gray-500 truncate">{d.picks.join(", ")}</span>}
+                {d.configVersion != null && <span className="ml-auto text-gray-400">v{d.configVersion}</span>}
+              </button>
+
+              {expanded && (
+                <div className="px-3 pb-2 space-y-1.5 border-t border-gray-100">
+                  {d.breadth && (
+                    <div className="pt-1.5 text-gray-700">
+                      Breadth: <b>{d.breadth.sentiment}</b>
+                      {d.breadth.denom ? ` (${d.breadth.above}/${d.breadth.denom})` : ""}
+                      {d.breadth.explain ? ` — ${d.breadth.explain}` : d.breadth.reason ? ` — ${d.breadth.reason}` : ""}
+                    </div>
+                  )}
+                  {signals.map(([sym, v]) => (
+                    <div key={sym} className="flex flex-wrap items-center gap-1.5">
+                      <span className="font-semibold w-14">{sym}</span>
+                      <Flag ok={v.eligible} label={v.eligible ? "eligible" : v.reason || "ineligible"} />
+                      <Flag ok={v.spreadOK} label="spread" />
+                      <Flag ok={v.liquidityOK} label="liquidity" />
+                      <Flag ok={v.armed} label={v.armedMomentum ? "momentum" : v.armedDip ? "dip" : v.armedHigherLow ? "higher-low" : "armed"} />
+                      {v.volPulse != null && (
+                        <span className="text-gray-500">
+                          vol {v.volPulse.toFixed(2)}×{v.volMin != null ? ` / ${v.volMin.toFixed(2)}×` : ""}
+                        </span>
+                      )}
+                      {v.setup !== undefined && <Flag ok={v.setup != null} label={v.setup ? `setup ${v.setup}` : "no setup"} />}
+                      {v.force && (
+                        <Flag ok={v.force.proceed} label={v.force.veto || (v.force.flags.length ? v.force.flags.join(", ") : "force ok")} />
+                      )}
+                    </div>
+                  ))}
+                  {!!d.reasons?.length && (
+                    <div className="text-gray-500 break-words">{d.reasons.join(" · ")}</div>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
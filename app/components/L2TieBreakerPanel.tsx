@@ -2,71 +2,21 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { useOrderBook } from "./useOrderBook";
+import { bookFeatures, tieBreakScore, type BookFeatures } from "@/lib/l2-Pressure";
 
 type ScoreResult = {
   ok: boolean;          // passed guardrails
   score: number;        // composite 0..100-ish
-  details: {
-    cdi: number;        // cumulative depth imbalance
-    tob: number;        // top-of-book pressure
-    microBiasBps: number; // negative is bullish (skew toward bid)
-    spreadBps: number;
-    bidSum: number;
-    askSum: number;
-  };
+  details: BookFeatures; // cdi, tob, microBiasBps (positive is bullish), spreadBps, bidSum, askSum
 };
 
-function clip(x: number, lo: number, hi: number) {
-  return Math.max(lo, Math.min(hi, x));
-}
-
-// Compute features from a book snapshot
-function computeFeatures(snap: ReturnType<typeof useOrderBook>["snap"]) {
-  if (!snap) return null;
-  const { bids, asks, spreadBps, mid } = snap;
-
-  const bidSum = bids.reduce((a, b) => a + b.sz, 0);
-  const askSum = asks.reduce((a, b) => a + b.sz, 0);
-  const cdi = (bidSum - askSum) / Math.max(1, bidSum + askSum); // -1..+1
-
-  const b1sz = bids[0]?.sz ?? 0;
-  const a1sz = asks[0]?.sz ?? 0;
-  const tob = (b1sz - a1sz) / Math.max(1, b1sz + a1sz); // -1..+1
-
-  const bestBid = bids[0]?.px ?? 0;
-  const bestAsk = asks[0]?.px ?? 0;
-  const microPx = (bestAsk * b1sz + bestBid * a1sz) / Math.max(1, b1sz + a1sz);
-  const microBias = (microPx - (bestBid && bestAsk ? (bestBid + bestAsk) / 2 : mid)) / Math.max(1e-9, mid);
-  const microBiasBps = microBias * 10000; // negative = bullish
-
-  return { cdi, tob, microBiasBps, spreadBps, bidSum, askSum };
-}
+const EMPTY: BookFeatures = { cdi: 0, tob: 0, microBiasBps: 0, spreadBps: 0, bidSum: 0, askSum: 0 };
 
+// Same features and weights the tick engine's L2 tie-breaker uses (lib/l2-Pressure.ts)
 function scoreBook(snap: ReturnType<typeof useOrderBook>["snap"]): ScoreResult {
-  if (!snap) return { ok: false, score: -999, details: { cdi: 0, tob: 0, microBiasBps: 0, spreadBps: 0, bidSum: 0, askSum: 0 } };
-  const f = computeFeatures(snap)!;
-
-  // Guardrails (safety first)
-  if (!Number.isFinite(f.spreadBps) || f.spreadBps <= 0) {
-    return { ok: false, score: -999, details: { ...f } };
-  }
-  if (f.spreadBps > 20) {
-    return { ok: false, score: -999, details: { ...f } };
-  }
-
-  // Heuristic weights (intraday, L2-only)
-  // Favor deeper bids (cdi), stronger top-of-book, and negative microBiasBps.
-  const microZ = clip((-f.microBiasBps) / 5, -2, 2); // 5 bps ~= 1 "std" guess
-
-  const spreadBonus = f.spreadBps <= 8 ? 5 : f.spreadBps <= 12 ? 2 : -5;
-
-  const score =
-    25 * clip(f.cdi, -0.5, 0.5) +
-    20 * clip(f.tob, -0.5, 0.5) +
-    15 * microZ +
-    spreadBonus;
-
-  return { ok: true, score: Math.round(score), details: f };
+  const f = snap ? bookFeatures(snap.bids, snap.asks) : null;
+  if (!f) return { ok: false, score: -999, details: EMPTY };
+  return { ...tieBreakScore(f), details: f };
 }
 
 function Badge({ ok, score }: { ok: boolean; score: number }) {
@@ -6,19 +6,111 @@ type Props = {
   height?: number;
   /** show a fake order book if true */
   mock?: boolean;
+  /** play back a recorded session (/api/l2/replay) instead; takes precedence over mock */
+  replay?: { day: string; from?: number; to?: number; speed?: number };
 };
 
 type Row = { price: number; size: number };
 
-export default function Level2Panel({ symbol, height = 360, mock = true }: Props) {
+type ReplayView = {
+  id: string;
+  from: number;
+  to: number;
+  t: number | null;
+  speed: number;
+  playing: boolean;
+  done: boolean;
+  score: number | null;
+};
+
+const SPEEDS = [1, 5, 20, 60];
+
+const fmtET = (ms: number | null) =>
+  ms == null ? "—" : new Date(ms).toLocaleTimeString("en-US", { timeZone: "America/New_York", hour12: false });
+
+export default function Level2Panel({ symbol, height = 360, mock = true, replay }: Props) {
   const [bids, setBids] = useState<Row[]>([]);
   const [asks, setAsks] = useState<Row[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [rp, setRp] = useState<ReplayView | null>(null);
+  const [scrubT, setScrubT] = useState<number | null>(null);
+
+  // --- recorded session: start a replay, poll its state, stop it on unmount
+  const replayKey = replay ? `${symbol}|${replay.day}|${replay.from ?? ""}|${replay.to ?? ""}` : null;
+  useEffect(() => {
+    if (!replay) return;
+    let id: string | null = null;
+    let stopped = false;
+    setLoading(true);
+    setError(null);
+    setRp(null);
+
+    const show = (st: any) => {
+      if (!st) return;
+      const rows = (xs: any[] = []) => xs.map((l) => ({ price: Number(l.px), size: Number(l.sz) }));
+      setBids(rows(st.book?.bids));
+      setAsks(rows(st.book?.asks));
+      setRp({ id: st.id, from: st.from, to: st.to, t: st.t, speed: st.speed, playing: st.playing, done: st.done, score: st.pressure?.score ?? null });
+      setLoading(false);
+    };
+
+    let iv: ReturnType<typeof setInterval> | null = null;
+    fetch("/api/l2/replay", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ symbol, day: replay.day, from: replay.from, to: replay.to, speed: replay.speed ?? 1 }),
+    })
+      .then((r) => r.json())
+      .then((j) => {
+        if (stopped) return;
+        if (!j?.ok) throw new Error(j?.error || "replay failed");
+        id = j.state.id;
+        show(j.state);
+        iv = setInterval(async () => {
+          try {
+            const res = await fetch(`/api/l2/replay?id=${id}`, { cache: "no-store" });
+            const k = await res.json();
+            if (k?.ok) show(k.state);
+          } catch {}
+        }, 250);
+      })
+      .catch((e) => {
+        setError(e?.message || "replay failed");
+        setLoading(false);
+      });
+
+    return () => {
+      stopped = true;
+      if (iv) clearInterval(iv);
+      if (id) {
+        fetch("/api/l2/replay", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id, action: "stop" }),
+        }).catch(() => {});
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replayKey]);
+
+  async function control(action: string, extra: Record<string, number> = {}) {
+    if (!rp) return;
+    try {
+      const res = await fetch("/api/l2/replay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: rp.id, action, ...extra }),
+      });
+      const j = await res.json();
+      if (j?.ok && j.state) setRp((v) => v && { ...v, playing: j.state.playing, speed: j.state.speed, t: j.state.t, done: j.state.done });
+    } catch {}
+  }
 
   // --- simple fake data generator so the panel is never empty
   const seedRef = useRef(0);
   useEffect(() => {
+    if (replay) return;
     if (!mock) {
       setBids([]);
       setAsks([]);
@@ -51,7 +143,8 @@ export default function Level2Panel({ symbol, height = 360, mock = true }: Props
     tick();
     const id = setInterval(tick, 2500);
     return () => clearInterval(id);
-  }, [symbol, mock]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [symbol, mock, replayKey]);
 
   const bestBid = bids[0]?.price ?? null;
   const bestAsk = asks[0]?.price ?? null;
@@ -68,9 +161,43 @@ export default function Level2Panel({ symbol, height = 360, mock = true }: Props
         </div>
         <div className="text-xs text-slate-600">
           {loading ? "loading…" : error ? <span className="text-red-600">{error}</span> : `Spread: ${spread}`}
+          {rp && <span className="ml-2">· Pressure: {rp.score ?? "—"}</span>}
         </div>
       </div>
 
+      {rp && (
+        <div className="px-4 py-2 flex items-center gap-2 border-b border-gray-200 text-xs text-slate-600">
+          <button
+            onClick={() => control(rp.playing ? "pause" : "play")}
+            className="px-2 py-0.5 rounded-md border border-gray-300 hover:bg-gray-50"
+          >
+            {rp.playing ? "Pause" : rp.done ? "Restart" : "Play"}
+          </button>
+          <select
+            value={rp.speed}
+            onChange={(e) => control("speed", { speed: Number(e.target.value) })}
+            className="border border-gray-300 rounded-md px-1 py-0.5"
+          >
+            {SPEEDS.map((x) => (
+              <option key={x} value={x}>{x}×</option>
+            ))}
+          </select>
+          <input
+            type="range"
+            className="flex-1"
+            min={rp.from}
+            max={rp.to}
+            step={1000}
+            value={scrubT ?? rp.t ?? rp.from}
+            onChange={(e) => setScrubT(Number(e.target.value))}
+            onMouseUp={() => { if (scrubT != null) control("seek", { t: scrubT }); setScrubT(null); }}
+            onTouchEnd={() => { if (scrubT != null) control("seek", { t: scrubT }); setScrubT(null); }}
+            onKeyUp={() => { if (scrubT != null) control("seek", { t: scrubT }); setScrubT(null); }}
+          />
+          <span className="font-mono">{fmtET(scrubT ?? rp.t)} ET</span>
+        </div>
+      )}
+
       {/* Table layout */}
       <div className="grid grid-cols-2 gap-0" style={{ height }}>
         {/* BIDS */}
@@ -92,7 +219,7 @@ export default function Level2Panel({ symbol, height = 360, mock = true }: Props
               ))}
             </tbody>
           </table>
-          {!mock && (
+          {!mock && !replay && (
             <div className="p-3 text-xs text-slate-500">
               Live feed not wired yet — using empty state.
             </div>
@@ -118,7 +245,7 @@ export default function Level2Panel({ symbol, height = 360, mock = true }: Props
               ))}
             </tbody>
           </table>
-          {!mock && (
+          {!mock && !replay && (
             <div className="p-3 text-xs text-slate-500">
               Live feed not wired yet — using empty state.
             </div>
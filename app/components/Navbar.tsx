@@ -367,6 +367,12 @@ export default function Navbar() {
             <span className="hidden sm:inline-flex items-center rounded-md px-3 py-1.5 text-sm md:text-base font-medium font-mono bg-white/25 ring-1 ring-white/35 text-white">
               {time || "--:--:--"}
             </span>
+            <button
+              onClick={() => router.push("/settings/strategy")}
+              className="inline-flex items-center rounded-md px-3 py-2 text-base font-semibold bg-white/25 ring-1 ring-white/35 text-white hover:bg-white/35 transition"
+            >
+              Settings
+            </button>
             <button
               onClick={() => signOut({ callbackUrl: "/" })}
               className="inline-flex items-center rounded-md px-4 py-2 text-base font-semibold bg-white text-blue-700 hover:bg-gray-50 shadow-sm transition"
@@ -2,6 +2,7 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useBotPoll } from "../components/useBotPoll";
+import { vwapSeries } from "@/lib/indicators";
 
 /* ================= Types ================= */
 type Candle = { date: string; open: number; high: number; low: number; close: number; volume: number };
@@ -25,12 +26,6 @@ const toSec = (ts: string | number | Date) =>
 
 const toET = (d: Date) => new Date(d.toLocaleString("en-US", { timeZone: "America/New_York" }));
 
-const isSameETDay = (d: Date, ymd: string) => {
-  const mo = String(d.getMonth() + 1).padStart(2, "0");
-  const da = String(d.getDate()).padStart(2, "0");
-  return `${d.getFullYear()}-${mo}-${da}` === ymd;
-};
-
 function yyyyMmDdET(nowUTC = new Date()) {
   const et = toET(nowUTC);
   const mo = String(et.getMonth() + 1).padStart(2, "0");
@@ -45,23 +40,9 @@ const isMarketHoursET = (nowUTC = new Date()) => {
 };
 
 /* ================= VWAP ================= */
+// Same session VWAP the bot and narrator use (lib/indicators.ts)
 function computeSessionVWAP(candles: Candle[], dayYMD: string) {
-  let pv = 0, vol = 0;
-  const out: { time: number; value: number }[] = [];
-  for (const c of candles) {
-    const d = toET(new Date(c.date));
-    const mins = d.getHours() * 60 + d.getMinutes();
-    if (!isSameETDay(d, dayYMD) || mins < 9 * 60 + 30) continue;
-
-    const h = +c.high, l = +c.low, cl = +c.close, v = +c.volume;
-    if (![h, l, cl, v].every(Number.isFinite)) continue;
-
-    const typical = (h + l + cl) / 3;
-    pv += typical * v;
-    vol += v;
-    if (vol > 0) out.push({ time: toSec(c.date), value: pv / vol });
-  }
-  return out;
+  return vwapSeries(candles, dayYMD).map((p) => ({ time: toSec(p.date), value: p.vwap }));
 }
 
 /* ================= Data helpers ================= */
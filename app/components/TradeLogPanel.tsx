@@ -7,7 +7,8 @@ type Trade = {
   id: string;
   ts: number; // epoch ms
   ticker: string;
-  side: "BUY" | "SELL";
+  /** SHORT opens a short, COVER buys it back */
+  side: "BUY" | "SELL" | "SHORT" | "COVER";
   price: number;
   qty: number;
 };
@@ -50,8 +51,9 @@ function normalizeRows(input: any): Trade[] {
         Date.now();
 
       const ticker = String(t.ticker ?? t.symbol ?? "").toUpperCase();
-      const side: "BUY" | "SELL" =
-        String(t.side ?? "").toUpperCase() === "SELL" ? "SELL" : "BUY";
+      const rawSide = String(t.side ?? "").toUpperCase();
+      const side: Trade["side"] =
+        rawSide === "SELL" || rawSide === "SHORT" || rawSide === "COVER" ? rawSide : "BUY";
       const price = Number(t.price ?? t.fillPrice ?? 0);
       const qty = Number(t.qty ?? t.shares ?? 0);
       const rawId = t.id ?? `${ts}-${ticker}-${side}-${price}-${qty}`;
@@ -90,7 +92,7 @@ type Lot = { qty: number; cost: number };
 
 function applyFIFO(inv: Map<string, Lot[]>, trade: Trade): number {
   const lots = inv.get(trade.ticker) ?? [];
-  const isBuy = trade.side === "BUY";
+  const isBuy = trade.side === "BUY" || trade.side === "COVER";
   const flow = isBuy ? trade.qty : -trade.qty;
   let realized = 0;
 
@@ -452,7 +454,7 @@ export default function TradeLogPanel() {
                   <td className="p-2 border">
                     <span
                       className={`inline-flex items-center rounded px-2 py-0.5 text-xs font-semibold ${
-                        t.side === "BUY"
+                        t.side === "BUY" || t.side === "COVER"
                           ? "bg-green-100 text-green-700"
                           : "bg-red-100 text-red-700"
                       }`}
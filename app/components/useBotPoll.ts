@@ -7,7 +7,7 @@ import { getJSON } from "@/lib/getJSON";
 export type TickPayload = {
   state?: { cash: number; pnl: number; equity: number } | any;
   lastRec?: { ticker: string; price: number; at?: string } | any;
-  position?: { ticker: string; entryPrice: number; shares: number } | any;
+  position?: { ticker: string; entryPrice: number; shares: number; exitedShares?: number; side?: "long" | "short" } | any;
   live?: { ticker: string | null; price: number | null } | null;
 
   /** Server-pinned chart symbol + expiry (ET) — e.g. keep last trade visible until 23:59 ET */
@@ -18,11 +18,22 @@ export type TickPayload = {
   signals?: any;
   debug?: { lastMessage?: string; reasons?: string[]; top8?: string[] } | any;
   skipped?: "not_weekday" | "market_closed" | "no_snapshot" | "stale_snapshot";
+
+  /** Portfolio risk / kill switch (lib/riskManager.ts) */
+  risk?: {
+    killed: boolean;
+    reason: string | null;
+    killedAt: string | null;
+    rearmedAt: string | null;
+    dailyRealized: number;
+    consecutiveLosses: number;
+    limits: { maxDailyLossUsd: number; maxConsecutiveLosses: number; maxNotionalPerSymbol: number; maxBuyingPowerPct: number };
+  } | null;
 };
 
 export type Trade = {
   id?: string | number;
-  side: "BUY" | "SELL";
+  side: "BUY" | "SELL" | "SHORT" | "COVER";
   ticker: string;
   price: number;
   shares?: number;
@@ -4,6 +4,8 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import dynamic from "next/dynamic";
 import { useSession } from "next-auth/react";
 import Navbar from "../components/Navbar";
+import DecisionTimeline from "../components/DecisionTimeline";
+import Level2Panel from "../components/Level2Panel";
 import { Button } from "../components/ui/button";
 import { useBotPoll } from "../components/useBotPoll";
 
@@ -482,7 +484,7 @@ export default function Home() {
       const res = await fetch("/api/recommendation", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ stocks: stocks.slice(0, 8), topN: 2 }),
+        body: JSON.stringify({ stocks: stocks.slice(0, 8), topN: 2, l2Consumer: "dashboard" }),
       });
       const data = await res.json();
 
@@ -542,6 +544,24 @@ export default function Home() {
     [tradeData?.openPos?.ticker]
   );
 
+  // L2 holds for what's on screen (open position, opened chart, AI picks);
+  // re-posted every minute so they outlive the server's idle timeout
+  const l2Symbols = useMemo(
+    () => Array.from(new Set([posChartSymbol, selectedStock, ...topPicks].filter(Boolean).map((s) => String(s).toUpperCase()))),
+    [posChartSymbol, selectedStock, topPicks]
+  );
+  useEffect(() => {
+    const post = () =>
+      fetch("/api/l2/track", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ symbols: l2Symbols, consumer: "dashboard" }),
+      }).catch(() => {});
+    post();
+    const id = setInterval(post, 60_000);
+    return () => clearInterval(id);
+  }, [l2Symbols]);
+
   // before-close fallback symbol (prefer open position, else first gainer)
   const [beforeCloseET, setBeforeCloseET] = useState<boolean>(() => {
     const d = nowET();
@@ -626,6 +646,12 @@ export default function Home() {
 
             {/* Trade Log replaces Level 2 here at same height */}
             <TradeLog tradeData={tradeData} height={225} />
+
+            <Panel title="Decision Timeline" color="slate" dense>
+              <DecisionTimeline height={260} />
+            </Panel>
+
+            <L2Replay />
           </div>
 
           {/* RIGHT: Positions chart + status cards */}
@@ -946,6 +972,92 @@ function TradeLog({
   );
 }
 
+/* =========================================================
+   L2 Replay (recorded sessions from /api/l2/replay)
+========================================================= */
+type L2Recording = { day: string; symbol: string; startMs: number; endMs: number; bytes: number };
+
+function L2Replay() {
+  const [recordings, setRecordings] = useState<L2Recording[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [day, setDay] = useState("");
+  const [symbol, setSymbol] = useState("");
+  // the replay only starts on Load: each one decodes a recording server-side
+  const [picked, setPicked] = useState<{ day: string; symbol: string } | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    fetch("/api/l2/replay", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (!alive) return;
+        if (!j?.ok) throw new Error(j?.error || "recordings unavailable");
+        setRecordings(Array.isArray(j.recordings) ? j.recordings : []);
+      })
+      .catch((e) => alive && setError(e?.message || "recordings unavailable"));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const days = useMemo(() => Array.from(new Set(recordings.map((r) => r.day))).sort().reverse(), [recordings]);
+  const symbols = useMemo(
+    () => Array.from(new Set(recordings.filter((r) => r.day === day).map((r) => r.symbol))).sort(),
+    [recordings, day]
+  );
+
+  // newest day, first symbol of the day
+  useEffect(() => {
+    if (days.length && !days.includes(day)) setDay(days[0]);
+  }, [days, day]);
+  useEffect(() => {
+    if (symbols.length && !symbols.includes(symbol)) setSymbol(symbols[0]);
+  }, [symbols, symbol]);
+
+  const select = "border border-gray-300 rounded-md px-1.5 py-0.5 text-xs bg-white";
+
+  return (
+    <Panel
+      title="L2 Replay"
+      color="purple"
+      dense
+      right={
+        days.length ? (
+          <div className="flex items-center gap-2">
+            <select value={day} onChange={(e) => setDay(e.target.value)} className={select}>
+              {days.map((d) => (
+                <option key={d} value={d}>{d}</option>
+              ))}
+            </select>
+            <select value={symbol} onChange={(e) => setSymbol(e.target.value)} className={select}>
+              {symbols.map((x) => (
+                <option key={x} value={x}>{x}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setPicked({ day, symbol })}
+              disabled={!day || !symbol || (picked?.day === day && picked?.symbol === symbol)}
+              className="px-2 py-0.5 rounded-md text-xs font-medium bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Load
+            </button>
+          </div>
+        ) : null
+      }
+    >
+      {error ? (
+        <p className="text-red-600 text-sm">{error}</p>
+      ) : !days.length ? (
+        <p className="text-gray-500 text-sm">No recorded sessions yet.</p>
+      ) : !picked ? (
+        <p className="text-gray-500 text-sm">Pick a day and symbol, then Load to play it back.</p>
+      ) : (
+        <Level2Panel key={`${picked.day}|${picked.symbol}`} symbol={picked.symbol} height={300} replay={{ day: picked.day }} />
+      )}
+    </Panel>
+  );
+}
+
 function AIRecommendation({
   botData,
   alpaca,
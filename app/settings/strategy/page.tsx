@@ -0,0 +1,420 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Navbar from "../../components/Navbar";
+
+/* =========================================================
+   Types (mirror /api/strategy-config)
+========================================================= */
+type Params = Record<string, number | boolean>;
+
+interface Active {
+  version: number;
+  params: Params;
+  /** entry setups (lib/strategySetups.ts) */
+  setups: unknown[];
+  setupsSource: "db" | "builtin";
+  source: "db" | "default";
+  errors?: string[];
+}
+
+interface HistoryRow {
+  id: number;
+  version: number;
+  params: Params;
+  setups: unknown[] | null;
+  active: boolean;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/* =========================================================
+   Field layout — keys must match StrategyParams in lib/strategy.ts
+========================================================= */
+const GROUPS: { title: string; fields: { key: string; label: string; hint?: string }[] }[] = [
+  {
+    title: "Account",
+    fields: [
+      { key: "startCash", label: "Start cash", hint: "BotState seed / reset value" },
+      { key: "investBudget", label: "Invest budget", hint: "$ cap across all open positions" },
+      { key: "maxConcurrentPositions", label: "Max concurrent positions", hint: "budget is split across these slots" },
+    ],
+  },
+  {
+    title: "Risk (trips the kill switch)",
+    fields: [
+      { key: "maxDailyLossUsd", label: "Max daily loss $", hint: "realized, since midnight ET / last re-arm" },
+      { key: "maxConsecutiveLosses", label: "Max consecutive losses" },
+      { key: "maxNotionalPerSymbol", label: "Max $ per symbol", hint: "per-order check, doesn't trip" },
+      { key: "maxBuyingPowerPct", label: "Max % of buying power", hint: "0–1, per-order check" },
+    ],
+  },
+  {
+    title: "Exits",
+    fields: [
+      { key: "stopPct", label: "Stop %", hint: "negative, e.g. -0.05" },
+      { key: "targetPctWeak", label: "Target % (weak)" },
+      { key: "targetPctStrong", label: "Target % (strong / runner)" },
+      { key: "forceBuyTargetPct", label: "Target % (manual force-buy)" },
+    ],
+  },
+  {
+    title: "Sizing",
+    fields: [
+      { key: "sizeFull", label: "Full" },
+      { key: "sizeHalf", label: "Half" },
+      { key: "sizeMicro", label: "Micro" },
+    ],
+  },
+  {
+    title: "Scan thresholds (decay 9:30 → 9:44)",
+    fields: [
+      { key: "decayStartMin", label: "Decay start (min)" },
+      { key: "decayEndMin", label: "Decay end (min)" },
+      { key: "volMultStart", label: "Vol pulse × start" },
+      { key: "volMultEnd", label: "Vol pulse × end" },
+      { key: "nearOrStart", label: "Near ORH start" },
+      { key: "nearOrEnd", label: "Near ORH end" },
+      { key: "vwapBandStart", label: "VWAP band start" },
+      { key: "vwapBandEnd", label: "VWAP band end" },
+      { key: "priceMin", label: "Price min" },
+      { key: "priceMax", label: "Price max" },
+    ],
+  },
+  {
+    title: "Liquidity",
+    fields: [
+      { key: "minSharesAbs", label: "Min shares / min" },
+      { key: "floatMinPctPerMin", label: "Min float % / min" },
+      { key: "minDollarVol", label: "Min $ vol / min" },
+    ],
+  },
+  {
+    title: "VWAP breadth",
+    fields: [
+      { key: "breadthGreen", label: "Green ≥" },
+      { key: "breadthRed", label: "Red ≤" },
+      { key: "minEligible", label: "Min eligible" },
+      { key: "topNForBreadth", label: "Top N" },
+    ],
+  },
+  {
+    title: "Dip",
+    fields: [
+      { key: "dipMinPct", label: "Min pullback" },
+      { key: "dipMaxPct", label: "Max pullback" },
+      { key: "dipConfirmEither", label: "Confirm: either (vs both)" },
+    ],
+  },
+  {
+    title: "Shorts (red breadth only)",
+    fields: [
+      { key: "allowShorts", label: "Allow shorts", hint: "failed ORH breakouts / VWAP rejections" },
+      { key: "shortSizeMult", label: "Short size multiplier", hint: "0.1–1, on top of the score tier" },
+    ],
+  },
+  {
+    title: "L2 order book (live only)",
+    fields: [
+      { key: "l2Confirm", label: "Confirm entries", hint: "veto longs whose L2 composite is below the minimum" },
+      { key: "l2MinScore", label: "Min L2 composite", hint: "0–100; buy pressure + tie-breaker" },
+      { key: "l2TieBreak", label: "Primary/secondary tie-break" },
+      { key: "l2TieMargin", label: "Tie-break margin", hint: "points the runner-up must lead by" },
+    ],
+  },
+];
+
+function fmtTime(iso: string) {
+  try {
+    return new Date(iso).toLocaleString("en-US", { timeZone: "America/New_York" });
+  } catch {
+    return iso;
+  }
+}
+
+export default function StrategySettingsPage() {
+  const [active, setActive] = useState<Active | null>(null);
+  const [defaults, setDefaults] = useState<Params>({});
+  const [history, setHistory] = useState<HistoryRow[]>([]);
+  const [draft, setDraft] = useState<Record<string, string | boolean>>({});
+  const [defaultSetups, setDefaultSetups] = useState<unknown[]>([]);
+  const [vocabulary, setVocabulary] = useState<{ signals: string[]; metrics: string[] } | null>(null);
+  const [setupsText, setSetupsText] = useState("");
+  // "edit" = send the textarea, "builtin" = send null (back to DEFAULT_SETUPS), null = unchanged
+  const [setupsChange, setSetupsChange] = useState<"edit" | "builtin" | null>(null);
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const r = await fetch("/api/strategy-config", { cache: "no-store" });
+    const j = await r.json().catch(() => null);
+    if (!j?.ok) {
+      setErrors([j?.error || `load failed (${r.status})`]);
+      return;
+    }
+    setActive(j.active);
+    setDefaults(j.defaults || {});
+    setHistory(Array.isArray(j.history) ? j.history : []);
+    const d: Record<string, string | boolean> = {};
+    for (const [k, v] of Object.entries(j.active?.params || {})) {
+      d[k] = typeof v === "boolean" ? v : String(v);
+    }
+    setDraft(d);
+    setDefaultSetups(Array.isArray(j.defaultSetups) ? j.defaultSetups : []);
+    setVocabulary(j.vocabulary ?? null);
+    setSetupsText(JSON.stringify(j.active?.setups ?? [], null, 2));
+    setSetupsChange(null);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const changed = useMemo(() => {
+    if (!active) return [] as string[];
+    return Object.keys(draft).filter((k) => String(draft[k]) !== String(active.params[k]));
+  }, [draft, active]);
+
+  const toParams = () => {
+    const out: Params = {};
+    for (const [k, v] of Object.entries(draft)) out[k] = typeof v === "boolean" ? v : Number(v);
+    return out;
+  };
+
+  const post = async (body: any) => {
+    setBusy(true);
+    setErrors([]);
+    setMessage(null);
+    try {
+      const r = await fetch("/api/strategy-config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json().catch(() => null);
+      if (!j?.ok) {
+        setErrors(j?.errors?.length ? j.errors : [j?.error || `request failed (${r.status})`]);
+        return null;
+      }
+      return j;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    let setups: unknown = undefined;
+    if (setupsChange === "builtin") setups = null;
+    else if (setupsChange === "edit") {
+      try {
+        setups = JSON.parse(setupsText);
+      } catch (e: any) {
+        setErrors([`setups: not valid JSON (${e?.message || "parse error"})`]);
+        return;
+      }
+    }
+    const j = await post({ params: toParams(), setups, note });
+    if (j?.saved) {
+      setMessage(`Saved v${j.saved.version} — active from the next tick.`);
+      setNote("");
+      await load();
+    }
+  };
+
+  const activate = async (version: number) => {
+    const j = await post({ activateVersion: version });
+    if (j?.activated) {
+      setMessage(`v${version} is active again.`);
+      await load();
+    }
+  };
+
+  const resetToDefaults = () => {
+    const d: Record<string, string | boolean> = {};
+    for (const [k, v] of Object.entries(defaults)) d[k] = typeof v === "boolean" ? v : String(v);
+    setDraft(d);
+  };
+
+  return (
+    <main>
+      <Navbar />
+      <div className="p-6 max-w-5xl mx-auto">
+        <div className="flex items-baseline justify-between mb-6">
+          <h1 className="text-2xl font-bold">Strategy settings</h1>
+          {active && (
+            <span className="text-sm text-gray-600">
+              Active: <b>{active.version ? `v${active.version}` : "built-in defaults"}</b>
+            </span>
+          )}
+        </div>
+
+        {active?.errors?.length ? (
+          <div className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+            The active row failed validation — the bot is running on defaults.
+            <ul className="list-disc ml-5 mt-1">
+              {active.errors.map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        ) : null}
+
+        {errors.length ? (
+          <div className="mb-4 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+            <ul className="list-disc ml-5">
+              {errors.map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        ) : null}
+
+        {message && (
+          <div className="mb-4 rounded-lg border border-green-300 bg-green-50 p-3 text-sm text-green-700">{message}</div>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {GROUPS.map((g) => (
+            <section key={g.title} className="rounded-xl shadow-lg border border-gray-200 bg-white p-4">
+              <h2 className="text-sm font-semibold text-gray-700 mb-3">{g.title}</h2>
+              <div className="space-y-2">
+                {g.fields.map((f) => {
+                  const v = draft[f.key];
+                  const isChanged = changed.includes(f.key);
+                  return (
+                    <label key={f.key} className="flex items-center justify-between gap-3 text-sm">
+                      <span className={isChanged ? "font-semibold text-blue-700" : "text-gray-700"}>
+                        {f.label}
+                        {f.hint && <span className="block text-xs text-gray-400">{f.hint}</span>}
+                      </span>
+                      {typeof v === "boolean" ? (
+                        <input
+                          type="checkbox"
+                          checked={v}
+                          onChange={(e) => setDraft({ ...draft, [f.key]: e.target.checked })}
+                        />
+                      ) : (
+                        <input
+                          type="number"
+                          step="any"
+                          value={v ?? ""}
+                          onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })}
+                          className="w-32 bg-transparent border-b border-gray-300 focus:outline-none focus:border-blue-500 text-right font-mono"
+                        />
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <section className="rounded-xl shadow-lg border border-gray-200 bg-white p-4 mt-6">
+          <div className="flex items-baseline justify-between mb-2">
+            <h2 className={`text-sm font-semibold ${setupsChange ? "text-blue-700" : "text-gray-700"}`}>
+              Entry setups{" "}
+              <span className="text-xs font-normal text-gray-400">
+                {active?.setupsSource === "db" ? `from v${active.version}` : "built-in"} · first match sizes the entry
+              </span>
+            </h2>
+            <button
+              onClick={() => {
+                setSetupsText(JSON.stringify(defaultSetups, null, 2));
+                setSetupsChange(active?.setupsSource === "builtin" ? null : "builtin");
+              }}
+              disabled={busy}
+              className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+            >
+              Use built-in setups
+            </button>
+          </div>
+          <textarea
+            value={setupsText}
+            onChange={(e) => {
+              setSetupsText(e.target.value);
+              setSetupsChange("edit");
+            }}
+            spellCheck={false}
+            rows={14}
+            className="w-full font-mono text-xs border border-gray-200 rounded p-2 focus:outline-none focus:border-blue-500"
+          />
+          {vocabulary && (
+            <p className="text-xs text-gray-400 mt-1">
+              Signals: {vocabulary.signals.join(", ")}. Metrics: {vocabulary.metrics.join(", ")}. Also{" "}
+              {`{ "breadth": ["green"] }`}, {`{ "time": { "from": "09:30", "to": "09:45" } }`}, all / any / not.
+            </p>
+          )}
+        </section>
+
+        <div className="flex flex-wrap items-center gap-4 mt-6">
+          <input
+            type="text"
+            placeholder="Note (what changed and why)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="flex-1 min-w-[240px] bg-transparent border-b border-gray-300 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={resetToDefaults}
+            disabled={busy}
+            className="px-5 py-2 bg-gray-200 text-gray-800 rounded-lg shadow hover:bg-gray-300 transition disabled:opacity-50"
+          >
+            Load defaults
+          </button>
+          <button
+            onClick={save}
+            disabled={busy || (!changed.length && !setupsChange)}
+            className="px-5 py-2 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            Save as new version{changed.length || setupsChange ? ` (${changed.length + (setupsChange ? 1 : 0)})` : ""}
+          </button>
+        </div>
+
+        <h2 className="text-lg font-bold mt-10 mb-3">History</h2>
+        <div className="overflow-x-auto rounded-xl shadow-lg border border-gray-200">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-gray-100">
+              <tr>
+                {["Version", "Created (ET)", "By", "Note", ""].map((h) => (
+                  <th key={h} className="p-3 text-left text-sm font-semibold text-gray-700 border-b border-gray-200">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((row, i) => (
+                <tr key={row.id} className={i % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className="p-3 font-mono">
+                    v{row.version} {row.active && <span className="ml-1 text-xs text-green-700 font-semibold">active</span>}
+                  </td>
+                  <td className="p-3 text-sm text-gray-700">{fmtTime(row.createdAt)}</td>
+                  <td className="p-3 text-sm text-gray-700">{row.createdBy || "—"}</td>
+                  <td className="p-3 text-sm text-gray-700">{row.note || ""}</td>
+                  <td className="p-3">
+                    {!row.active && (
+                      <button
+                        onClick={() => activate(row.version)}
+                        disabled={busy}
+                        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+                      >
+                        Activate
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {!history.length && (
+                <tr>
+                  <td colSpan={5} className="p-3 text-sm text-gray-500">
+                    No saved versions yet — the bot is using the built-in defaults.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </main>
+  );
+}
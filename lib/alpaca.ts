@@ -6,10 +6,11 @@
 //  - Data base   : https://data.alpaca.markets/v2    (free IEX feed)
 //  Environment vars supported:
 //    ALPACA_BASE_URL                (default paper base)
-//    ALPACA_API_KEY_ID | ALPACA_API_KEY | NEXT_PUBLIC_ALPACA_API_KEY_ID
-//    ALPACA_API_SECRET_KEY | ALPACA_SECRET_KEY | NEXT_PUBLIC_ALPACA_API_SECRET_KEY
+//    ALPACA_API_KEY_ID | ALPACA_API_KEY | ALPACA_KEY | ALPACA_KEY_ID | NEXT_PUBLIC_ALPACA_API_KEY_ID
+//    ALPACA_API_SECRET_KEY | ALPACA_SECRET_KEY | ALPACA_SECRET | ALPACA_API_SECRET | NEXT_PUBLIC_ALPACA_API_SECRET_KEY
 //    ALPACA_DATA_URL                (default https://data.alpaca.markets/v2)
 //    ALPACA_DATA_FEED               ("iex" for free; set to "sip" only if paid)
+//    ALPACA_DATA_STREAM_URL         (default wss://stream.data.alpaca.markets/v2/<feed>)
 // ─────────────────────────────────────────────────────────────
 
 // ---- Trading Base & Keys (robust) ----
@@ -21,12 +22,16 @@ const BASE = RAW_BASE.replace(/\/+$/, "").replace(/\/v2$/, "");
 const KEY =
   process.env.ALPACA_API_KEY_ID ||
   process.env.ALPACA_API_KEY ||
+  process.env.ALPACA_KEY ||
+  process.env.ALPACA_KEY_ID ||
   process.env.NEXT_PUBLIC_ALPACA_API_KEY_ID ||
   "";
 
 const SEC =
   process.env.ALPACA_API_SECRET_KEY ||
   process.env.ALPACA_SECRET_KEY ||
+  process.env.ALPACA_SECRET ||
+  process.env.ALPACA_API_SECRET ||
   process.env.NEXT_PUBLIC_ALPACA_API_SECRET_KEY ||
   "";
 
@@ -35,6 +40,27 @@ const DATA_BASE = (process.env.ALPACA_DATA_URL || "https://data.alpaca.markets/v
 /** Use "iex" for the free plan. If you later pay for SIP, set ALPACA_DATA_FEED="sip". */
 const DATA_FEED = (process.env.ALPACA_DATA_FEED || "iex").toLowerCase();
 
+/** True when trading keys are configured (otherwise dev falls back to the sim broker). */
+export function alpacaConfigured() {
+  return !!(KEY && SEC);
+}
+
+/**
+ * Trading stream (trade_updates) endpoint + credentials.
+ * wss://paper-api.alpaca.markets/stream for paper; ALPACA_STREAM_URL overrides
+ * (e.g. the offline mock in scripts/mock-trade-stream.ts).
+ */
+export function alpacaStreamConfig() {
+  const url = (process.env.ALPACA_STREAM_URL || "").trim() || `${BASE.replace(/^http/, "ws")}/stream`;
+  return { url, key: KEY, secret: SEC };
+}
+
+/** Market data stream (trades/quotes/bars) endpoint + credentials for DATA_FEED. */
+export function alpacaDataStreamConfig() {
+  const url = (process.env.ALPACA_DATA_STREAM_URL || "").trim() || `wss://stream.data.alpaca.markets/v2/${DATA_FEED}`;
+  return { url, key: KEY, secret: SEC };
+}
+
 // ---- shared headers helper ----
 function headers() {
   return {
@@ -82,16 +108,16 @@ async function alpacaDataFetch(path: string, params: Record<string, string> = {}
 
 // ---- Tick math (US equities) ----
 // ≥ $1 -> $0.01 ticks; < $1 -> $0.0001 ticks.
-function tickSizeFor(price: number) {
+export function tickSizeFor(price: number) {
   return price >= 1 ? 0.01 : 0.0001;
 }
-function ceilToTick(x: number, tick: number) {
+export function ceilToTick(x: number, tick: number) {
   return Math.ceil(x / tick) * tick;
 }
-function floorToTick(x: number, tick: number) {
+export function floorToTick(x: number, tick: number) {
   return Math.floor(x / tick) * tick;
 }
-function decsForTick(tick: number) {
+export function decsForTick(tick: number) {
   return tick === 0.01 ? 2 : 4;
 }
 
@@ -111,6 +137,9 @@ export type AlpacaOrder = {
   order_class?: "simple" | "bracket" | "oco" | "oto";
   legs?: AlpacaOrder[];
   parent_order_id?: string;
+  /** set on the new order after a PATCH replace */
+  replaces?: string;
+  replaced_by?: string;
   submitted_at?: string;
   filled_at?: string;
 };
@@ -179,6 +208,64 @@ export async function submitBracketBuy(params: {
   })) as AlpacaOrder;
 }
 
+/**
+ * Sell-to-open bracket (short). Mirror of submitBracketBuy: the TP is a
+ * BUY limit below entry (rounded DOWN), the SL a BUY stop above (rounded UP).
+ * Check getShortability() first — Alpaca rejects hard-to-borrow names.
+ */
+export async function submitBracketSell(params: {
+  symbol: string;
+  qty: number;
+  entryType?: "market" | "limit";
+  limit?: number;
+  tp: number;
+  sl: number;
+  tif?: "day" | "gtc" | "opg" | "ioc" | "fok" | "cls";
+  extended_hours?: boolean;
+}) {
+  const {
+    symbol,
+    qty,
+    entryType = "market",
+    limit,
+    tp,
+    sl,
+    tif = "day",
+    extended_hours = false,
+  } = params;
+
+  const tpTick = tickSizeFor(tp);
+  const slTick = tickSizeFor(sl);
+  const tpStr  = floorToTick(tp, tpTick).toFixed(decsForTick(tpTick));
+  const slStr  = ceilToTick(sl, slTick).toFixed(decsForTick(slTick));
+
+  const body: any = {
+    symbol,
+    qty: String(qty),
+    side: "sell",
+    type: entryType,
+    time_in_force: tif,
+    extended_hours,
+    order_class: "bracket",
+    take_profit: { limit_price: tpStr },
+    stop_loss:   { stop_price:  slStr },
+  };
+
+  if (entryType === "limit") {
+    if (!Number.isFinite(Number(limit))) {
+      throw new Error("submitBracketSell: limit price required for limit entry");
+    }
+    // SELL limit: bias DOWN
+    const limTick = tickSizeFor(Number(limit));
+    body.limit_price = floorToTick(Number(limit), limTick).toFixed(decsForTick(limTick));
+  }
+
+  return (await alpacaFetch("/v2/orders", {
+    method: "POST",
+    body: JSON.stringify(body),
+  })) as AlpacaOrder;
+}
+
 /** Market-close position close (cancels bracket legs). */
 export async function closePositionMarket(symbol: string) {
   // DELETE closes at market and cancels related bracket legs
@@ -212,12 +299,47 @@ export async function sellMarket(params: {
   });
 }
 
+/** Plain market order on either side (panic-sell also covers shorts with it). */
+export async function submitMarketOrder(params: {
+  symbol: string;
+  qty: number;
+  side: "buy" | "sell";
+  tif?: "day" | "gtc";
+}) {
+  const { symbol, qty, side, tif = "day" } = params;
+  if (!symbol || !Number.isFinite(qty) || qty <= 0) {
+    throw new Error("submitMarketOrder: invalid params");
+  }
+  return (await alpacaFetch("/v2/orders", {
+    method: "POST",
+    body: JSON.stringify({ symbol, qty: String(qty), side, type: "market", time_in_force: tif }),
+  })) as AlpacaOrder;
+}
+
+/** Cancels every open order (Alpaca answers 207 with per-order results). */
+export async function cancelAllOrders() {
+  return alpacaFetch("/v2/orders", { method: "DELETE" });
+}
+
 // ---- Optional: quick health helpers ----
 export async function getAccount() { return alpacaFetch("/v2/account"); }
 export async function getClock()   { return alpacaFetch("/v2/clock"); }
+/** Trading days in [start, end] (YYYY-MM-DD). Holidays are simply absent. */
+export async function getCalendar(start: string, end: string): Promise<
+  Array<{ date: string; open: string; close: string }>
+> {
+  const qs = `?start=${encodeURIComponent(start)}&end=${encodeURIComponent(end)}`;
+  const j = await alpacaFetch(`/v2/calendar${qs}`);
+  return Array.isArray(j) ? j : [];
+}
 export async function getAsset(symbol: string) {
   return alpacaFetch(`/v2/assets/${encodeURIComponent(symbol)}`);
 }
+/** Short checks from /v2/assets: shortable + easy_to_borrow (Alpaca only shorts ETB names). */
+export async function getShortability(symbol: string): Promise<{ shortable: boolean; easyToBorrow: boolean }> {
+  const a: any = await getAsset(symbol);
+  return { shortable: !!a?.shortable && a?.tradable !== false, easyToBorrow: !!a?.easy_to_borrow };
+}
 
 // ---- Extra helpers for syncing orders/positions ----
 export async function getOrder(id: string, nested = true) {
@@ -236,9 +358,11 @@ export async function listOrders(params: {
   until?: string;              // ISO8601
   limit?: number;
   nested?: boolean;
+  direction?: "asc" | "desc";
 } = {}) {
   const q = new URLSearchParams();
   if (params.status) q.set("status", params.status);
+  if (params.direction) q.set("direction", params.direction);
   if (params.after)  q.set("after", params.after);
   if (params.until)  q.set("until", params.until);
   if (params.limit)  q.set("limit", String(params.limit));
@@ -270,15 +394,19 @@ export async function getPosition(symbol: string) {
    - Lists OPEN orders for the specific symbol only (less payload).
    - Rounds to valid ticks (TP up, SL down).
    - Best-effort and race-safe.
+   - side "short": the children are BUYs and everything is mirrored
+     (lower-only, TP rounded down, SL rounded up). raisedTp/raisedSl then
+     mean "tightened".
 ────────────────────────────────────────────────────────────── */
 
 type ReplaceIfBetterParams = {
   symbol: string;
   newTp?: number | null;
   newSl?: number | null;
+  side?: "long" | "short";
 };
 
-export async function replaceTpSlIfBetter({ symbol, newTp, newSl }: ReplaceIfBetterParams): Promise<{
+export async function replaceTpSlIfBetter({ symbol, newTp, newSl, side = "long" }: ReplaceIfBetterParams): Promise<{
   raisedTp: boolean;
   raisedSl: boolean;
   triedTp?: number;
@@ -286,8 +414,10 @@ export async function replaceTpSlIfBetter({ symbol, newTp, newSl }: ReplaceIfBet
   prevTp?: number;
   prevSl?: number;
   message?: string;         // helpful debug summary
+  replaced?: AlpacaOrder[]; // new orders the PATCHes created (for the order ledger)
 }> {
   let raisedTp = false, raisedSl = false;
+  const replaced: AlpacaOrder[] = [];
   let prevTp: number | undefined, prevSl: number | undefined;
   let triedTp: number | undefined, triedSl: number | undefined;
 
@@ -297,65 +427,69 @@ export async function replaceTpSlIfBetter({ symbol, newTp, newSl }: ReplaceIfBet
     // 1) list only this symbol (less load / safer for rate limits)
     const orders: any[] = await listOrders({ status: "open", nested: true, symbols: [symbol] });
 
-    // 2) collect SELL children (parents + legs)
-    const sellParents = orders.filter((o) => o?.symbol === symbol && o?.side === "sell");
-    const legsFromParents = sellParents.flatMap((o) => Array.isArray(o?.legs) ? o.legs : []);
-    const allSell = [...sellParents, ...legsFromParents].filter((o) => o?.side === "sell");
+    // 2) collect closing children (parents + legs): SELLs for a long, BUYs for a short
+    const dir = side === "short" ? -1 : 1;
+    const closeSide = side === "short" ? "buy" : "sell";
+    const parents = orders.filter((o) => o?.symbol === symbol);
+    const legsFromParents = parents.flatMap((o) => Array.isArray(o?.legs) ? o.legs : []);
+    const allClose = [...parents, ...legsFromParents].filter((o) => o?.side === closeSide);
 
-    const openSell = allSell.filter((o) =>
+    const openSell = allClose.filter((o) =>
       ["new","accepted","partially_filled","open"].includes(String(o?.status || "").toLowerCase())
     );
 
     const tpChild = openSell
       .filter((o) => String(o?.type || "").toLowerCase() === "limit" && o?.limit_price != null)
-      .sort((a, b) => Number(b.limit_price) - Number(a.limit_price))[0] || null;
+      .sort((a, b) => dir * (Number(b.limit_price) - Number(a.limit_price)))[0] || null;
 
     const slChild = openSell
       .filter((o) => {
         const t = String(o?.type || "").toLowerCase();
         return (t === "stop" || t === "stop_limit") && o?.stop_price != null;
       })
-      .sort((a, b) => Number(b.stop_price) - Number(a.stop_price))[0] || null;
+      .sort((a, b) => dir * (Number(b.stop_price) - Number(a.stop_price)))[0] || null;
 
-    // 3) raise TP (never lower)
+    // 3) raise TP (never loosen)
     if (tpChild && newTp != null && Number.isFinite(newTp)) {
       const currentTp = Number(tpChild.limit_price);
       prevTp = Number.isFinite(currentTp) ? currentTp : undefined;
 
       const tpTick = tickSizeFor(newTp);
-      const newTpRO = ceilToTick(newTp, tpTick);
+      const newTpRO = dir > 0 ? ceilToTick(newTp, tpTick) : floorToTick(newTp, tpTick);
       const newTpStr = newTpRO.toFixed(decsForTick(tpTick));
       const newTpNum = Number(newTpStr);
       triedTp = newTpNum;
 
-      if (Number.isFinite(currentTp) && newTpNum > currentTp) {
+      if (Number.isFinite(currentTp) && dir * (newTpNum - currentTp) > 0) {
         try {
-          await alpacaFetch(`/v2/orders/${encodeURIComponent(tpChild.id)}`, {
+          const r = await alpacaFetch(`/v2/orders/${encodeURIComponent(tpChild.id)}`, {
             method: "PATCH",
             body: JSON.stringify({ limit_price: newTpStr }),
           });
+          if (r?.id) replaced.push(r as AlpacaOrder);
           raisedTp = true;
         } catch { /* ignore race or already-filled */ }
       }
     }
 
-    // 4) raise SL (never lower)
+    // 4) raise SL (never loosen)
     if (slChild && newSl != null && Number.isFinite(newSl)) {
       const currentSl = Number(slChild.stop_price);
       prevSl = Number.isFinite(currentSl) ? currentSl : undefined;
 
       const slTick = tickSizeFor(newSl);
-      const newSlRO = floorToTick(newSl, slTick);
+      const newSlRO = dir > 0 ? floorToTick(newSl, slTick) : ceilToTick(newSl, slTick);
       const newSlStr = newSlRO.toFixed(decsForTick(slTick));
       const newSlNum = Number(newSlStr);
       triedSl = newSlNum;
 
-      if (Number.isFinite(currentSl) && newSlNum > currentSl) {
+      if (Number.isFinite(currentSl) && dir * (newSlNum - currentSl) > 0) {
         try {
-          await alpacaFetch(`/v2/orders/${encodeURIComponent(slChild.id)}`, {
+          const r = await alpacaFetch(`/v2/orders/${encodeURIComponent(slChild.id)}`, {
             method: "PATCH",
             body: JSON.stringify({ stop_price: newSlStr }),
           });
+          if (r?.id) replaced.push(r as AlpacaOrder);
           raisedSl = true;
         } catch { /* ignore race or already-filled */ }
       }
@@ -368,7 +502,7 @@ export async function replaceTpSlIfBetter({ symbol, newTp, newSl }: ReplaceIfBet
   if (triedSl !== undefined) parts.push(`SL ${prevSl ?? "?"}→${triedSl}${raisedSl ? " (raised)" : " (skipped)"}`);
   const message = parts.join(" | ") || "no changes";
 
-  return { raisedTp, raisedSl, triedTp, triedSl, prevTp, prevSl, message };
+  return { raisedTp, raisedSl, triedTp, triedSl, prevTp, prevSl, message, replaced };
 }
 
 // ─────────────────────────────────────────────────────────────
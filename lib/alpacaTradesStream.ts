@@ -0,0 +1,180 @@
+// lib/alpacaTradesStream.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Alpaca market-data websocket, trades channel only (time & sales).
+//  - connect → {"action":"auth"} → {"action":"subscribe", trades}
+//  - symbols can be added/removed on the open socket; after a reconnect
+//    the whole set is subscribed again
+//  - each "t" message is handed to onTrade; prints missed while
+//    disconnected are not backfilled (the tape is a rolling window)
+//  - reconnects with capped exponential backoff + jitter, like
+//    lib/tradeUpdatesStream.ts
+//  The data stream allows one connection per key, so lib/databentoBridge.ts
+//  only starts this when L2_TRADES_SOURCE=alpaca.
+// ─────────────────────────────────────────────────────────────
+
+import WebSocket from "ws";
+
+export type AlpacaTrade = {
+  symbol: string;
+  px: number;
+  sz: number;
+  /** ms */
+  t: number;
+  exchange: string | null;
+  conditions: string[];
+};
+
+export type AlpacaTradesState = "idle" | "connecting" | "authenticating" | "streaming" | "backoff" | "stopped";
+
+export type AlpacaTradesOptions = {
+  url: string;
+  key: string;
+  secret: string;
+  onTrade: (t: AlpacaTrade) => void;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+  log?: (msg: string, extra?: any) => void;
+};
+
+export type AlpacaTradesHandle = {
+  readonly state: AlpacaTradesState;
+  readonly symbols: string[];
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  stop(): Promise<void>;
+};
+
+/** RFC 3339 with up to ns precision → ms (Date.parse stops at ms). */
+function parseTs(ts: unknown): number {
+  const ms = Date.parse(String(ts ?? "").replace(/(\.\d{3})\d+/, "$1"));
+  return Number.isFinite(ms) ? ms : Date.now();
+}
+
+/** Alpaca trade message → AlpacaTrade (null for anything else). */
+export function normalizeAlpacaTrade(m: any): AlpacaTrade | null {
+  if (m?.T !== "t" || !m.S) return null;
+  const px = Number(m.p);
+  const sz = Number(m.s);
+  if (!(px > 0) || !(sz > 0)) return null;
+  return {
+    symbol: String(m.S).toUpperCase(),
+    px,
+    sz,
+    t: parseTs(m.t),
+    exchange: m.x ? String(m.x) : null,
+    conditions: Array.isArray(m.c) ? m.c.map(String) : [],
+  };
+}
+
+export function startAlpacaTradesStream(opts: AlpacaTradesOptions): AlpacaTradesHandle {
+  const minMs = opts.minBackoffMs ?? 1_000;
+  const maxMs = opts.maxBackoffMs ?? 30_000;
+  const log = opts.log ?? ((msg: string, extra?: any) => console.log(`[alpaca-trades] ${msg}`, extra ?? ""));
+
+  let state: AlpacaTradesState = "idle";
+  let ws: WebSocket | null = null;
+  let attempt = 0;
+  let stopped = false;
+  let retryTimer: NodeJS.Timeout | null = null;
+  const wanted = new Set<string>();
+
+  const send = (msg: any) => {
+    if (ws && state === "streaming") ws.send(JSON.stringify(msg));
+  };
+
+  function scheduleReconnect(why: string) {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (stopped) return;
+    if (!wanted.size) {
+      state = "idle";
+      return;
+    }
+    state = "backoff";
+    const cap = Math.min(maxMs, minMs * 2 ** attempt);
+    const delay = Math.round(cap / 2 + Math.random() * (cap / 2));
+    attempt++;
+    log(`reconnect in ${delay}ms (${why})`);
+    retryTimer = setTimeout(connect, delay);
+  }
+
+  function onMessage(sock: WebSocket, m: any) {
+    switch (m?.T) {
+      case "success":
+        if (m.msg === "connected") {
+          state = "authenticating";
+          sock.send(JSON.stringify({ action: "auth", key: opts.key, secret: opts.secret }));
+        } else if (m.msg === "authenticated") {
+          state = "streaming";
+          attempt = 0;
+          log("authenticated");
+          if (wanted.size) send({ action: "subscribe", trades: [...wanted] });
+        }
+        return;
+      case "error":
+        log("stream error", m);
+        // 402 auth failed, 406 connection limit exceeded: let backoff handle it
+        if (state !== "streaming") sock.close(4001, String(m.msg ?? "error"));
+        return;
+      case "subscription":
+        return;
+      case "t": {
+        const t = normalizeAlpacaTrade(m);
+        if (!t || !wanted.has(t.symbol)) return;
+        try {
+          opts.onTrade(t);
+        } catch (e: any) {
+          log("onTrade threw", e?.message || e);
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  function connect() {
+    if (stopped || ws) return;
+    state = "connecting";
+    const sock = new WebSocket(opts.url);
+    ws = sock;
+
+    sock.on("message", (data: WebSocket.RawData) => {
+      let msg: any;
+      try { msg = JSON.parse(String(data)); } catch { return; }
+      for (const m of Array.isArray(msg) ? msg : [msg]) onMessage(sock, m);
+    });
+
+    sock.on("error", (err: any) => log("ws error", err?.message || err));
+
+    sock.on("close", (code: number, reason: Buffer) => {
+      if (ws === sock) ws = null;
+      if (!stopped) scheduleReconnect(`closed ${code} ${reason?.toString?.() || ""}`.trim());
+    });
+  }
+
+  return {
+    get state() { return state; },
+    get symbols() { return [...wanted]; },
+    subscribe(symbols: string[]) {
+      const fresh = symbols.map((s) => s.toUpperCase()).filter((s) => s && !wanted.has(s));
+      if (!fresh.length) return;
+      for (const s of fresh) wanted.add(s);
+      if (state === "idle") connect();
+      else send({ action: "subscribe", trades: fresh });
+    },
+    unsubscribe(symbols: string[]) {
+      const gone = symbols.map((s) => s.toUpperCase()).filter((s) => wanted.delete(s));
+      if (gone.length) send({ action: "unsubscribe", trades: gone });
+    },
+    async stop() {
+      stopped = true;
+      state = "stopped";
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      try { ws?.close(1000, "stop"); } catch { /* already gone */ }
+      ws = null;
+    },
+  };
+}
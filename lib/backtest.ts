@@ -0,0 +1,450 @@
+// lib/backtest.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Historical replay of the tick strategy.
+//  - Walks each session minute by minute with a simulated ET clock.
+//  - Feeds stored 1-minute bars and snapshot lists through the same
+//    scan / force-window code the live route uses (lib/strategy.ts).
+//  - Fills are simulated against the bars: entries at the next bar's
+//    open, bracket legs checked stop-first, ratchet lifts applied to the
+//    simulated legs, mandatory exit at 15:50.
+// ─────────────────────────────────────────────────────────────
+
+import {
+  type Candle,
+  type Snapshot,
+  type SnapStock,
+  type Sentiment,
+  type StrategyEnv,
+  type EntryEval,
+  type EntryMode,
+  type RatchetState,
+  type StrategyParams,
+  DEFAULT_STRATEGY_PARAMS,
+  classifyBreadth,
+  computeSessionVWAP,
+  minutesSince930ET,
+  toET,
+  floatFromSnapshot,
+  evaluateEntrySignals,
+  entryPlanFor,
+  assessObviousWeakAtForce,
+  bracketLevels,
+  sharesForBudget,
+  initialRatchet,
+  ratchetTick,
+  round2,
+} from "./strategy";
+import { SESSION_SCHEDULE, activePhases, inPhaseKind, scheduleStartMin, type SessionPhase } from "./schedule";
+import { DEFAULT_SETUPS, rankSetupPicks, setupsUseBreadth, type SetupPlan, type StrategySetup } from "./strategySetups";
+
+/* -------------------------- input -------------------------- */
+export type BacktestPick = { at: string; primary: string | null; secondary?: string | null };
+
+export type BacktestDay = {
+  /** ET session date, YYYY-MM-DD */
+  date: string;
+  /** 1-minute bars per symbol, oldest→newest (bar `date` is the bar open) */
+  bars: Record<string, Candle[]>;
+  /** Snapshot lists as the bot saw them; the latest one at/before the clock is used */
+  snapshots: Array<{ at: string; stocks: SnapStock[] }>;
+  /**
+   * Recorded AI picks. When absent the replay ranks the top candidates by
+   * entry quality instead (the same ranking the live AI fallback uses).
+   */
+  picks?: BacktestPick[];
+};
+
+export type BacktestOptions = {
+  /** Defaults to params.startCash */
+  startingCash?: number;
+  /** Defaults to params.investBudget */
+  investBudget?: number;
+  /** Strategy tunables to replay with (e.g. a StrategyConfig row's params) */
+  params?: StrategyParams;
+  /** Entry setups for the scan windows (a StrategyConfig row's setups); defaults to DEFAULT_SETUPS */
+  setups?: StrategySetup[];
+  /** Session phases to replay; defaults to SESSION_SCHEDULE */
+  schedule?: SessionPhase[];
+  /** Historical spreads are rarely stored; default treats every spread as OK */
+  spreadOK?: (symbol: string, limitPct: number, now: Date) => boolean;
+};
+
+/* -------------------------- output -------------------------- */
+export type ExitReason = "stop" | "target" | "mandatory_exit" | "end_of_data";
+
+export type BacktestTrade = {
+  date: string;
+  ticker: string;
+  window: string;
+  mode: EntryMode;
+  sizeLabel: SetupPlan["sizeLabel"];
+  /** scan-window setup that sized the entry (null for force entries) */
+  setup: string | null;
+  shares: number;
+  entryAt: string;
+  entryPrice: number;
+  exitAt: string;
+  exitPrice: number;
+  exitReason: ExitReason;
+  pnl: number;
+  returnPct: number;
+};
+
+export type BacktestDayResult = {
+  date: string;
+  trades: BacktestTrade[];
+  pnl: number;
+  equityEnd: number;
+  reasons: string[];
+};
+
+export type BacktestReport = {
+  days: BacktestDayResult[];
+  trades: number;
+  wins: number;
+  losses: number;
+  hitRate: number;
+  totalPnl: number;
+  startingCash: number;
+  endingEquity: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+};
+
+const TOP_CANDIDATES = 8;
+
+/* -------------------------- clock helpers -------------------------- */
+/** ET wall-clock Date for `ymd` at `mins` after midnight (same convention as nowET()). */
+function etClock(ymd: string, mins: number): Date {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(y, m - 1, d, Math.floor(mins / 60), mins % 60, 0, 0);
+}
+function etMinutes(d: Date) {
+  return d.getHours() * 60 + d.getMinutes();
+}
+function fmtClock(d: Date) {
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+const SESSION_END = 16 * 60;
+
+/* -------------------------- replay data access -------------------------- */
+class ReplayTape {
+  private byMinute: Record<string, Map<number, Candle>> = {};
+
+  constructor(private day: BacktestDay) {
+    for (const [sym, bars] of Object.entries(day.bars)) {
+      const m = new Map<number, Candle>();
+      for (const b of bars) m.set(etMinutes(toET(b.date)), b);
+      this.byMinute[sym.toUpperCase()] = m;
+    }
+  }
+
+  /** Completed bars strictly before the clock minute. */
+  visible(symbol: string, now: Date, limit: number): Candle[] {
+    const bars = this.day.bars[symbol] ?? this.day.bars[symbol.toUpperCase()] ?? [];
+    const cut = etMinutes(now);
+    const out = bars.filter((b) => etMinutes(toET(b.date)) < cut);
+    return out.slice(-limit);
+  }
+
+  barAt(symbol: string, mins: number): Candle | null {
+    return this.byMinute[symbol.toUpperCase()]?.get(mins) ?? null;
+  }
+
+  snapshotAt(now: Date): Snapshot | null {
+    let best: { at: string; stocks: SnapStock[] } | null = null;
+    for (const s of this.day.snapshots) {
+      if (toET(s.at).getTime() <= now.getTime()) best = s;
+    }
+    return best ? { stocks: best.stocks, updatedAt: best.at } : null;
+  }
+
+  recordedPicksAt(now: Date): BacktestPick | null {
+    if (!this.day.picks?.length) return null;
+    let best: BacktestPick | null = null;
+    for (const p of this.day.picks) {
+      if (toET(p.at).getTime() <= now.getTime()) best = p;
+    }
+    return best;
+  }
+}
+
+function replayEnv(tape: ReplayTape, clock: { now: Date }, opts: BacktestOptions): StrategyEnv {
+  return {
+    now: () => clock.now,
+    candles1m: async (symbol, limit) => tape.visible(symbol, clock.now, limit),
+    spreadOK: async (symbol, limitPct) => (opts.spreadOK ? opts.spreadOK(symbol, limitPct, clock.now) : true),
+    floatShares: async (symbol, lastPrice, snapshot) => floatFromSnapshot(symbol, lastPrice, snapshot),
+    params: opts.params ?? DEFAULT_STRATEGY_PARAMS,
+  };
+}
+
+/* -------------------------- candidates / picks / breadth -------------------------- */
+function candidatesFrom(snapshot: Snapshot | null, investBudget: number) {
+  const top = (snapshot?.stocks || []).slice(0, TOP_CANDIDATES);
+  const affordable = top.filter(s => Number.isFinite(Number(s.price)) && Number(s.price) <= investBudget);
+  return affordable.length ? affordable : top;
+}
+
+async function picksAt(
+  tape: ReplayTape,
+  now: Date,
+  candidates: SnapStock[],
+  snapshot: Snapshot | null,
+  today: string,
+  env: StrategyEnv,
+  setups: StrategySetup[],
+  breadth: Sentiment | null
+): Promise<{ primary: string | null; secondary: string | null; source: "recorded" | "quality_rank" }> {
+  const rec = tape.recordedPicksAt(now);
+  if (rec) return { primary: rec.primary ?? null, secondary: rec.secondary ?? null, source: "recorded" };
+
+  const evals: Record<string, EntryEval> = {};
+  for (const s of candidates) evals[s.ticker] = await evaluateEntrySignals(s.ticker, snapshot, today, env);
+  const ranked = rankSetupPicks(Object.keys(evals), evals, setups, { now, breadth, params: env.params });
+  return { primary: ranked[0]?.sym ?? null, secondary: ranked[1]?.sym ?? null, source: "quality_rank" };
+}
+
+/** Mirrors getVwapSentiment() in the tick route, computed from the replay bars. */
+function replaySentiment(
+  tape: ReplayTape,
+  now: Date,
+  snapshot: Snapshot | null,
+  today: string,
+  p: StrategyParams
+): { sentiment: Sentiment; explain: string } {
+  if (minutesSince930ET(now, p) < 3) return { sentiment: "neutral", explain: "first_3_minutes" };
+  const tickers = (snapshot?.stocks || []).slice(0, p.topNForBreadth).map((s) => s.ticker).filter(Boolean);
+  if (tickers.length < p.minEligible) return { sentiment: "neutral", explain: "too_few_candidates" };
+
+  let above = 0;
+  for (const sym of tickers) {
+    const bars = tape.visible(sym, now, 420);
+    const vwap = computeSessionVWAP(bars, today);
+    const last = bars[bars.length - 1]?.close;
+    if (vwap && last && last >= vwap * 1.0001) above++;
+  }
+  const sentiment = classifyBreadth(above, tickers.length, p);
+  return { sentiment, explain: `${above}/${tickers.length} above VWAP` };
+}
+
+/* -------------------------- simulated position -------------------------- */
+type SimPosition = {
+  ticker: string;
+  window: string;
+  mode: EntryMode;
+  sizeLabel: SetupPlan["sizeLabel"];
+  /** scan-window setup that sized the entry (null for force entries) */
+  setup: string | null;
+  shares: number;
+  entryAt: Date;
+  entryPrice: number;
+  tp: number;
+  sl: number;
+  ratchet: RatchetState;
+};
+
+function closeTrade(date: string, pos: SimPosition, exitAt: Date, exitPrice: number, exitReason: ExitReason): BacktestTrade {
+  const pnl = round2((exitPrice - pos.entryPrice) * pos.shares);
+  return {
+    date,
+    ticker: pos.ticker,
+    window: pos.window,
+    mode: pos.mode,
+    sizeLabel: pos.sizeLabel,
+    setup: pos.setup,
+    shares: pos.shares,
+    entryAt: `${date} ${fmtClock(pos.entryAt)}`,
+    entryPrice: round2(pos.entryPrice),
+    exitAt: `${date} ${fmtClock(exitAt)}`,
+    exitPrice: round2(exitPrice),
+    exitReason,
+    pnl,
+    returnPct: Number((((exitPrice - pos.entryPrice) / pos.entryPrice) * 100).toFixed(2)),
+  };
+}
+
+/** Checks one bar against the bracket legs; the stop wins when both are touched. */
+function bracketHit(pos: SimPosition, bar: Candle): { price: number; reason: ExitReason } | null {
+  if (bar.low <= pos.sl) return { price: Math.min(bar.open, pos.sl), reason: "stop" };
+  if (bar.high >= pos.tp) return { price: Math.max(bar.open, pos.tp), reason: "target" };
+  return null;
+}
+
+/* -------------------------- one session -------------------------- */
+export async function replayDay(day: BacktestDay, cash: number, opts: BacktestOptions = {}): Promise<BacktestDayResult> {
+  const params = opts.params ?? DEFAULT_STRATEGY_PARAMS;
+  const setups = opts.setups ?? DEFAULT_SETUPS;
+  const schedule = opts.schedule ?? SESSION_SCHEDULE;
+  const firstMin = scheduleStartMin(schedule);
+  const investBudget = opts.investBudget ?? params.investBudget;
+  const tape = new ReplayTape(day);
+  const clock = { now: etClock(day.date, firstMin) };
+  const env = replayEnv(tape, clock, opts);
+  const today = day.date;
+
+  const reasons: string[] = [];
+  const trades: BacktestTrade[] = [];
+  let pos: SimPosition | null = null;
+  let dayLocked = false;
+
+  /** `plan` = the matched scan setup; force entries size with entryPlanFor */
+  const enter = async (sym: string, ev: EntryEval, window: string, ref: number, plan?: SetupPlan) => {
+    const { sizeMult, sizeLabel, mode } = plan ?? entryPlanFor(ev, params);
+    const p = plan?.params ?? params;
+    const shares = sharesForBudget(cash, investBudget, sizeMult, ref);
+    if (shares <= 0) {
+      reasons.push(`${fmtClock(clock.now)} ${window}_insufficient_cash_${sym}`);
+      return false;
+    }
+    const fillBar = tape.barAt(sym, etMinutes(clock.now));
+    const entry = fillBar ? fillBar.open : ref;
+    const { tp, sl } = bracketLevels(entry, mode, p);
+    pos = {
+      ticker: sym, window, mode, sizeLabel, setup: plan?.setup ?? null, shares,
+      entryAt: new Date(clock.now), entryPrice: entry,
+      tp: round2(tp), sl: round2(sl),
+      ratchet: { ...initialRatchet(entry, entry, mode === "strong", p), lastSL: round2(sl), lastTP: round2(tp) },
+    };
+    cash -= shares * entry;
+    dayLocked = true;
+    reasons.push(`${fmtClock(clock.now)} ${window}_entered_${sym}@${entry.toFixed(2)}`);
+    return true;
+  };
+
+  const runScan = async (window: string) => {
+    const snapshot = tape.snapshotAt(clock.now);
+    const candidates = candidatesFrom(snapshot, investBudget);
+    if (!candidates.length) { reasons.push(`${fmtClock(clock.now)} ${window}_no_snapshot`); return; }
+
+    const breadth = setupsUseBreadth(setups) ? replaySentiment(tape, clock.now, snapshot, today, params).sentiment : null;
+    const { primary, secondary } = await picksAt(tape, clock.now, candidates, snapshot, today, env, setups, breadth);
+    const picks = [primary, secondary].filter(Boolean) as string[];
+    if (!picks.length) return;
+
+    const evals: Record<string, EntryEval> = {};
+    for (const sym of picks) evals[sym] = await evaluateEntrySignals(sym, snapshot, today, env);
+    const ranked = rankSetupPicks(picks, evals, setups, { now: clock.now, breadth, params });
+    if (!ranked.length) return;
+
+    const { sym: chosen, plan } = ranked[0];
+    const ref = evals[chosen].refPrice;
+    if (ref == null || !Number.isFinite(Number(ref))) return;
+    await enter(chosen, evals[chosen], window, Number(ref), plan);
+  };
+
+  const runForce = async (window: string) => {
+    const snapshot = tape.snapshotAt(clock.now);
+    const breadth = replaySentiment(tape, clock.now, snapshot, today, params);
+    if (breadth.sentiment !== "green") {
+      reasons.push(`${fmtClock(clock.now)} ${window}_skipped_${breadth.sentiment}:${breadth.explain}`);
+      return;
+    }
+    const candidates = candidatesFrom(snapshot, investBudget);
+    const { primary, secondary } = await picksAt(tape, clock.now, candidates, snapshot, today, env, setups, breadth.sentiment);
+    for (const sym of [primary, secondary].filter(Boolean) as string[]) {
+      const assess = await assessObviousWeakAtForce({ symbol: sym, today, snapshot, env });
+      if (assess.instantVeto || !assess.proceed) continue;
+      const ref = Number(snapshot?.stocks?.find((s) => s.ticker === sym)?.price ?? assess.ev.refPrice ?? NaN);
+      if (!Number.isFinite(ref) || ref < params.priceMin || ref > params.priceMax) continue;
+      if (await enter(sym, assess.ev, window, ref)) return;
+    }
+  };
+
+  for (let mins = firstMin; mins < SESSION_END; mins++) {
+    clock.now = etClock(day.date, mins);
+
+    if (pos) {
+      const p: SimPosition = pos;
+      if (inPhaseKind("exit", clock.now, schedule)) {
+        const bar = tape.barAt(p.ticker, mins);
+        const px = bar ? bar.open : (tape.visible(p.ticker, clock.now, 1)[0]?.close ?? p.entryPrice);
+        trades.push(closeTrade(today, p, clock.now, px, "mandatory_exit"));
+        cash += p.shares * px;
+        pos = null;
+        continue;
+      }
+      const bar = tape.barAt(p.ticker, mins);
+      if (!bar) continue;
+      const hit = bracketHit(p, bar);
+      if (hit) {
+        trades.push(closeTrade(today, p, clock.now, hit.price, hit.reason));
+        cash += p.shares * hit.price;
+        pos = null;
+        continue;
+      }
+      await ratchetTick(p.ratchet, bar.high, clock.now.getTime(), async (lift) => {
+        if (lift.newSl != null && lift.newSl > p.sl) p.sl = lift.newSl;
+        if (lift.newTp != null && lift.newTp > p.tp) p.tp = lift.newTp;
+      });
+      continue;
+    }
+
+    if (dayLocked) continue;
+    for (const ph of activePhases(clock.now, schedule)) {
+      if (pos) break;
+      if (ph.kind === "scan") await runScan(ph.name);
+      else if (ph.kind === "force") await runForce(ph.name);
+    }
+  }
+
+  if (pos) {
+    const p: SimPosition = pos;
+    const bars = day.bars[p.ticker] ?? [];
+    const last = bars[bars.length - 1];
+    const px = last ? last.close : p.entryPrice;
+    trades.push(closeTrade(today, p, clock.now, px, "end_of_data"));
+    cash += p.shares * px;
+  }
+
+  const pnl = round2(trades.reduce((s, t) => s + t.pnl, 0));
+  if (!trades.length) reasons.push("no_trade");
+  return { date: day.date, trades, pnl, equityEnd: round2(cash), reasons };
+}
+
+/* -------------------------- full run -------------------------- */
+export async function runBacktest(days: BacktestDay[], opts: BacktestOptions = {}): Promise<BacktestReport> {
+  const startingCash = opts.startingCash ?? (opts.params ?? DEFAULT_STRATEGY_PARAMS).startCash;
+  const ordered = [...days].sort((a, b) => a.date.localeCompare(b.date));
+
+  const results: BacktestDayResult[] = [];
+  let equity = startingCash;
+  let peak = startingCash;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+
+  for (const day of ordered) {
+    const res = await replayDay(day, equity, opts);
+    results.push(res);
+
+    // drawdown measured on the closed-trade equity curve
+    for (const t of res.trades) {
+      equity += t.pnl;
+      peak = Math.max(peak, equity);
+      const dd = peak - equity;
+      if (dd > maxDrawdown) {
+        maxDrawdown = dd;
+        maxDrawdownPct = peak > 0 ? dd / peak : 0;
+      }
+    }
+  }
+
+  const all = results.flatMap((d) => d.trades);
+  const wins = all.filter((t) => t.pnl > 0).length;
+  const losses = all.filter((t) => t.pnl <= 0).length;
+
+  return {
+    days: results,
+    trades: all.length,
+    wins,
+    losses,
+    hitRate: all.length ? Number((wins / all.length).toFixed(4)) : 0,
+    totalPnl: round2(equity - startingCash),
+    startingCash,
+    endingEquity: round2(equity),
+    maxDrawdown: round2(maxDrawdown),
+    maxDrawdownPct: Number((maxDrawdownPct * 100).toFixed(2)),
+  };
+}
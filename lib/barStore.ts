@@ -0,0 +1,196 @@
+// lib/barStore.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Persistent 1-minute bars (Bar / BarCoverage tables).
+//  - readBars1m: serve a window from the table; only the parts not yet
+//    covered go to the market-data providers (lib/marketData.ts), and
+//    what they return is stored before answering.
+//  - Only completed minutes are stored. The in-progress bar is passed
+//    through to the caller but fetched again next time.
+//  - A live window (ending within LIVE_LAG_MS of now) is only marked
+//    covered up to the last bar a provider actually returned, so a
+//    lagging feed is asked again instead of leaving a hole.
+//  - Bars from a fallback feed (the preferred one was failing, see
+//    servedByFallback) are stored but not marked covered: the next read
+//    asks again, and the preferred feed's bars replace them.
+//  - collectBars1m is the writer behind /api/bars/collect (snapshot top
+//    symbols + open positions, every minute in market hours); these
+//    rows are also what a replay of a session reads.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { etWallToISO, marketBars1m, servedByFallback, type Candle, type ProviderName } from "./marketData";
+import type { Candle as FmpCandle } from "./strategy";
+import { yyyyMmDdET } from "./market";
+
+const MIN_MS = 60_000;
+const LIVE_LAG_MS = 15 * MIN_MS;
+const SESSION_MINUTES = 16 * 60; // 04:00–20:00 ET incl. extended hours
+
+export type BarRead = {
+  bars: Candle[];
+  /** providers that filled gaps for this read (empty when all came from the table) */
+  providers: ProviderName[];
+  /** of those, providers that stood in for a failing preferred feed (bars kept, minutes left uncovered) */
+  fallback: ProviderName[];
+  /** bars read from the table */
+  stored: number;
+  errors: string[];
+};
+
+/* -------------------------- coverage -------------------------- */
+type Range = { start: number; end: number };
+
+function gapsOf(want: Range, covered: Range[]): Range[] {
+  const out: Range[] = [];
+  let cur = want.start;
+  for (const c of covered.sort((a, b) => a.start - b.start)) {
+    if (c.end <= cur) continue;
+    if (c.start >= want.end) break;
+    if (c.start > cur) out.push({ start: cur, end: c.start });
+    cur = Math.max(cur, c.end);
+  }
+  if (cur < want.end) out.push({ start: cur, end: want.end });
+  return out;
+}
+
+async function addCoverage(symbol: string, r: Range) {
+  if (r.end <= r.start) return;
+  await prisma.$transaction(async (tx: any) => {
+    const touching = await tx.barCoverage.findMany({
+      where: { symbol, start: { lte: new Date(r.end) }, end: { gte: new Date(r.start) } },
+    });
+    const start = Math.min(r.start, ...touching.map((c: any) => new Date(c.start).getTime()));
+    const end = Math.max(r.end, ...touching.map((c: any) => new Date(c.end).getTime()));
+    if (touching.length) await tx.barCoverage.deleteMany({ where: { id: { in: touching.map((c: any) => c.id) } } });
+    await tx.barCoverage.create({ data: { symbol, start: new Date(start), end: new Date(end) } });
+  });
+}
+
+/* -------------------------- read-through -------------------------- */
+/** 1-minute bars in [startISO, endISO], oldest first; table first, providers for gaps. */
+export async function readBars1m(symbol: string, startISO: string, endISO: string): Promise<BarRead> {
+  const sym = symbol.toUpperCase();
+  const now = Date.now();
+  const doneMs = Math.floor(now / MIN_MS) * MIN_MS; // bars starting before this are complete
+  const want: Range = {
+    start: Math.floor(new Date(startISO).getTime() / MIN_MS) * MIN_MS,
+    end: Math.min(new Date(endISO).getTime(), now),
+  };
+  const res: BarRead = { bars: [], providers: [], fallback: [], stored: 0, errors: [] };
+  if (!(want.end > want.start)) return res;
+
+  const covered = await prisma.barCoverage.findMany({
+    where: { symbol: sym, start: { lte: new Date(want.end) }, end: { gte: new Date(want.start) } },
+  });
+  const gaps = gapsOf(want, covered.map((c: any) => ({ start: new Date(c.start).getTime(), end: new Date(c.end).getTime() })));
+
+  const live: Candle[] = [];
+  for (const g of gaps) {
+    try {
+      const served = await marketBars1m(sym, new Date(g.start).toISOString(), new Date(g.end).toISOString());
+      const provisional = servedByFallback(served);
+      const complete = served.data.filter((b) => new Date(b.t).getTime() < doneMs);
+      live.push(...served.data.filter((b) => new Date(b.t).getTime() >= doneMs));
+      if (complete.length) {
+        const data = complete.map((b) => ({ symbol: sym, t: new Date(b.t), o: b.o, h: b.h, l: b.l, c: b.c, v: b.v, provider: served.provider }));
+        if (provisional) {
+          await prisma.bar.createMany({ data, skipDuplicates: true });
+        } else {
+          // a fallback feed's bars from an earlier read give way
+          await prisma.$transaction([
+            prisma.bar.deleteMany({
+              where: { symbol: sym, t: { gte: data[0].t, lte: data[data.length - 1].t }, provider: { not: served.provider } },
+            }),
+            prisma.bar.createMany({ data, skipDuplicates: true }),
+          ]);
+        }
+      }
+      if (!res.providers.includes(served.provider)) res.providers.push(served.provider);
+      if (provisional) {
+        if (!res.fallback.includes(served.provider)) res.fallback.push(served.provider);
+        continue;
+      }
+
+      const lastEnd = complete.length ? new Date(complete[complete.length - 1].t).getTime() + MIN_MS : g.start;
+      const coveredTo = now - g.end < LIVE_LAG_MS ? lastEnd : Math.min(g.end, doneMs);
+      await addCoverage(sym, { start: g.start, end: coveredTo });
+    } catch (e: any) {
+      // every provider answered "nothing there" (a night, a halt): no need to ask again
+      const skipped: any[] = e?.skipped ?? [];
+      if (skipped.length && skipped.every((x) => x.reason === "empty") && now - g.end >= LIVE_LAG_MS) {
+        await addCoverage(sym, { start: g.start, end: Math.min(g.end, doneMs) }).catch(() => {});
+      }
+      res.errors.push(String(e?.message || e));
+    }
+  }
+
+  const rows = await prisma.bar.findMany({
+    where: { symbol: sym, t: { gte: new Date(want.start), lte: new Date(want.end) } },
+    orderBy: { t: "asc" },
+  });
+  res.stored = rows.length;
+  res.bars = rows.map((r: any) => ({ t: new Date(r.t).toISOString(), o: r.o, h: r.h, l: r.l, c: r.c, v: r.v }));
+  const lastT = res.bars.length ? res.bars[res.bars.length - 1].t : "";
+  for (const b of live) if (b.t > lastT) res.bars.push(b);
+  return res;
+}
+
+/** The last `limit` 1-minute bars (spanning earlier sessions when needed). */
+export async function recentBars1m(symbol: string, limit: number): Promise<BarRead> {
+  const days = Math.ceil(limit / SESSION_MINUTES) + 3; // weekends / holidays
+  const end = new Date();
+  const start = new Date(end.getTime() - days * 24 * 60 * MIN_MS);
+  const r = await readBars1m(symbol, start.toISOString(), end.toISOString());
+  return { ...r, bars: r.bars.slice(-limit) };
+}
+
+/** Bars in FMP's candle shape (`date` in ET wall time), as lib/strategy.ts reads them. */
+export function asFmpCandles(bars: Candle[]): FmpCandle[] {
+  return bars.map((b) => ({
+    date: new Date(b.t).toLocaleString("sv-SE", { timeZone: "America/New_York" }),
+    open: b.o,
+    high: b.h,
+    low: b.l,
+    close: b.c,
+    volume: b.v,
+  }));
+}
+
+/** Every stored bar of one ET session (04:00–20:00), per symbol, in BacktestDay.bars shape. */
+export async function loadStoredDayBars(ymd: string): Promise<Record<string, FmpCandle[]>> {
+  const rows = await prisma.bar.findMany({
+    where: {
+      t: { gte: new Date(etWallToISO(`${ymd} 04:00:00`)!), lt: new Date(etWallToISO(`${ymd} 20:00:00`)!) },
+    },
+    orderBy: [{ symbol: "asc" }, { t: "asc" }],
+  });
+  const out: Record<string, FmpCandle[]> = {};
+  for (const r of rows as any[]) {
+    (out[r.symbol] ??= []).push(...asFmpCandles([{ t: new Date(r.t).toISOString(), o: r.o, h: r.h, l: r.l, c: r.c, v: r.v }]));
+  }
+  return out;
+}
+
+/* -------------------------- collector -------------------------- */
+/** Bring today's bars (from 04:00 ET) up to date for each symbol, a few at a time. */
+export async function collectBars1m(symbols: string[], concurrency = 4) {
+  const from = etWallToISO(`${yyyyMmDdET()} 04:00:00`)!;
+  const to = new Date().toISOString();
+  const queue = Array.from(new Set(symbols.map((s) => s.toUpperCase()).filter(Boolean)));
+  const out: Record<string, { bars: number; providers: ProviderName[]; fallback: ProviderName[]; errors: string[] }> = {};
+
+  const worker = async () => {
+    for (let sym = queue.shift(); sym; sym = queue.shift()) {
+      try {
+        const r = await readBars1m(sym, from, to);
+        out[sym] = { bars: r.stored, providers: r.providers, fallback: r.fallback, errors: r.errors };
+      } catch (e: any) {
+        out[sym] = { bars: 0, providers: [], fallback: [], errors: [String(e?.message || e)] };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return out;
+}
@@ -0,0 +1,443 @@
+// lib/broker.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Broker adapter
+//  - One interface for everything the bot asks of a broker.
+//  - "alpaca": thin wrapper over lib/alpaca.ts (the only Alpaca client).
+//  - "sim"   : in-process paper broker that fills against supplied quotes,
+//              so dev and tests run without any Alpaca keys.
+//  - "ibkr"  : Interactive Brokers via TWS / IB Gateway (lib/ibkrBroker.ts).
+//  Selection (getBroker):
+//    BROKER=alpaca | sim | ibkr   explicit (ibkr is never picked implicitly)
+//    unset                 alpaca when keys exist (always in production), else sim
+//  Orders/positions/accounts keep Alpaca's wire shape (string numbers,
+//  snake_case) because every caller already parses that shape.
+// ─────────────────────────────────────────────────────────────
+
+import {
+  type AlpacaOrder,
+  alpacaConfigured,
+  submitBracketBuy,
+  submitBracketSell,
+  getShortability,
+  submitMarketOrder,
+  closePositionMarket,
+  cancelAllOrders,
+  getPosition,
+  listPositions,
+  getOrder,
+  listOrders,
+  replaceTpSlIfBetter,
+  getAccount,
+  getLatestQuote,
+  tickSizeFor,
+  ceilToTick,
+  floorToTick,
+  decsForTick,
+} from "./alpaca";
+import { marketQuote } from "./marketData";
+import { IbkrBroker } from "./ibkrBroker";
+
+/* -------------------------- types -------------------------- */
+export type BrokerOrder = AlpacaOrder;
+
+export type BrokerPosition = {
+  symbol: string;
+  qty: string;               // negative for shorts
+  avg_entry_price: string;
+  current_price?: string;
+  market_value?: string;
+};
+
+export type BrokerAccount = {
+  cash: string;
+  buying_power: string;
+  equity: string;
+  last_equity?: string;
+  portfolio_value?: string;
+  pattern_day_trader?: boolean;
+  [k: string]: any;
+};
+
+export type BrokerQuote = { bid: number; ask: number; bidSize: number; askSize: number; ts: string };
+
+export type BracketParams = {
+  symbol: string;
+  qty: number;
+  /** "sell" opens a short (legs are BUYs); default "buy" */
+  side?: "buy" | "sell";
+  entryType?: "market" | "limit";
+  limit?: number;
+  tp: number;
+  sl: number;
+  tif?: "day" | "gtc";
+  /** Price hint for simulated fills when no quote is available; ignored by real brokers */
+  refPrice?: number;
+};
+
+export type MarketParams = { symbol: string; qty: number; side: "buy" | "sell"; tif?: "day" | "gtc" };
+
+export type ListOrdersParams = {
+  status?: "open" | "closed" | "all";
+  symbols?: string[];
+  after?: string;
+  until?: string;
+  limit?: number;
+  nested?: boolean;
+  direction?: "asc" | "desc";
+};
+
+export type ReplaceTpSlParams = { symbol: string; newTp?: number | null; newSl?: number | null; side?: "long" | "short" };
+export type Shortability = { shortable: boolean; easyToBorrow: boolean };
+export type ReplaceTpSlResult = Awaited<ReturnType<typeof replaceTpSlIfBetter>>;
+
+export interface Broker {
+  readonly name: "alpaca" | "sim" | "ibkr";
+  submitBracket(p: BracketParams): Promise<BrokerOrder>;
+  submitMarket(p: MarketParams): Promise<BrokerOrder>;
+  /** Closes the whole position at market and cancels its bracket legs */
+  closePosition(symbol: string): Promise<BrokerOrder | null>;
+  cancelAllOrders(): Promise<void>;
+  getPosition(symbol: string): Promise<BrokerPosition | null>;
+  listPositions(): Promise<BrokerPosition[]>;
+  getOrder(id: string): Promise<BrokerOrder | null>;
+  listOrders(p?: ListOrdersParams): Promise<BrokerOrder[]>;
+  /** Tighten-only TP/SL replacement on the open bracket legs (raise for longs, lower for shorts) */
+  replaceTpSlIfBetter(p: ReplaceTpSlParams): Promise<ReplaceTpSlResult>;
+  /** Whether `symbol` can be sold short right now */
+  getShortability(symbol: string): Promise<Shortability>;
+  getAccount(): Promise<BrokerAccount>;
+  latestQuote(symbol: string): Promise<BrokerQuote | null>;
+}
+
+/* -------------------------- Alpaca -------------------------- */
+export const alpacaBroker: Broker = {
+  name: "alpaca",
+  submitBracket: ({ refPrice: _ref, side = "buy", ...p }) => (side === "sell" ? submitBracketSell(p) : submitBracketBuy(p)),
+  submitMarket: (p) => submitMarketOrder(p),
+  closePosition: async (symbol) => (await closePositionMarket(symbol)) ?? null,
+  cancelAllOrders: async () => { await cancelAllOrders(); },
+  getPosition: (symbol) => getPosition(symbol),
+  listPositions: async () => {
+    const r = await listPositions();
+    return Array.isArray(r) ? r : [];
+  },
+  getOrder: (id) => getOrder(id),
+  listOrders: async (p = {}) => {
+    const r = await listOrders(p);
+    return Array.isArray(r) ? r : [];
+  },
+  replaceTpSlIfBetter: (p) => replaceTpSlIfBetter(p),
+  getShortability: (symbol) => getShortability(symbol),
+  getAccount: () => getAccount(),
+  latestQuote: (symbol) => getLatestQuote(symbol),
+};
+
+/* -------------------------- Simulator -------------------------- */
+type SimPos = { qty: number; avg: number };
+const OPEN_STATUSES = new Set(["new", "accepted", "partially_filled"]);
+
+export type SimBrokerOptions = {
+  cash?: number;
+  /** Fallback price source when no quote was pushed with setQuote() */
+  quote?: (symbol: string) => Promise<number | null>;
+};
+
+/**
+ * Paper broker in process memory. Market orders fill at the ask (buys) or
+ * bid (sells); resting bracket legs are re-checked on every setQuote().
+ * Shorts are negative qty; every symbol is treated as easy to borrow.
+ */
+export class SimBroker implements Broker {
+  readonly name = "sim" as const;
+  private cash: number;
+  private readonly startCash: number;
+  private positions = new Map<string, SimPos>();
+  private orders = new Map<string, BrokerOrder>();
+  private quotes = new Map<string, BrokerQuote>();
+  private seq = 0;
+
+  constructor(private opts: SimBrokerOptions = {}) {
+    this.cash = opts.cash ?? 5000;
+    this.startCash = this.cash;
+  }
+
+  /* ---- quotes ---- */
+  setQuote(symbol: string, q: number | { bid: number; ask: number }) {
+    const sym = symbol.toUpperCase();
+    const bid = typeof q === "number" ? q : q.bid;
+    const ask = typeof q === "number" ? q : q.ask;
+    this.quotes.set(sym, { bid, ask, bidSize: 0, askSize: 0, ts: new Date().toISOString() });
+    this.checkLegs(sym);
+  }
+
+  async latestQuote(symbol: string): Promise<BrokerQuote | null> {
+    const sym = symbol.toUpperCase();
+    const q = this.quotes.get(sym);
+    if (q) return q;
+    const px = this.opts.quote ? await this.opts.quote(sym).catch(() => null) : null;
+    return px != null && Number.isFinite(px) ? { bid: px, ask: px, bidSize: 0, askSize: 0, ts: new Date().toISOString() } : null;
+  }
+
+  private async fillPrice(symbol: string, side: "buy" | "sell", refPrice?: number) {
+    const q = await this.latestQuote(symbol);
+    const px = q ? (side === "buy" ? q.ask : q.bid) : refPrice;
+    if (px == null || !Number.isFinite(px) || px <= 0) throw new Error(`Sim broker: no quote for ${symbol}`);
+    return px;
+  }
+
+  /* ---- book-keeping ---- */
+  private newOrder(fields: Partial<BrokerOrder> & Pick<BrokerOrder, "symbol" | "side" | "type">): BrokerOrder {
+    const id = `sim-${++this.seq}`;
+    const o: BrokerOrder = {
+      id,
+      client_order_id: id,
+      status: "new",
+      order_class: "simple",
+      submitted_at: new Date().toISOString(),
+      ...fields,
+    };
+    this.orders.set(id, o);
+    return o;
+  }
+
+  private applyFill(o: BrokerOrder, qty: number, px: number) {
+    const sym = o.symbol;
+    const pos = this.positions.get(sym) ?? { qty: 0, avg: 0 };
+    const signed = o.side === "buy" ? qty : -qty;
+    const next = pos.qty + signed;
+    if (pos.qty === 0 || Math.sign(pos.qty) === Math.sign(signed)) {
+      pos.avg = (pos.avg * Math.abs(pos.qty) + px * qty) / Math.abs(next);
+    } else if (next !== 0 && Math.sign(next) !== Math.sign(pos.qty)) {
+      pos.avg = px; // flipped through zero: the remainder opened at this fill
+    }
+    pos.qty = next;
+    this.cash -= signed * px;
+    if (pos.qty === 0) this.positions.delete(sym);
+    else this.positions.set(sym, pos);
+
+    o.status = "filled";
+    o.filled_qty = String(qty);
+    o.filled_avg_price = String(px);
+    o.filled_at = new Date().toISOString();
+  }
+
+  private openLegs(symbol: string) {
+    return Array.from(this.orders.values()).filter(
+      (o) => o.symbol === symbol && !!o.parent_order_id && OPEN_STATUSES.has(o.status)
+    );
+  }
+
+  private cancelLegs(symbol: string) {
+    for (const leg of this.openLegs(symbol)) leg.status = "canceled";
+  }
+
+  private checkLegs(symbol: string) {
+    const q = this.quotes.get(symbol);
+    const pos = this.positions.get(symbol);
+    if (!q || !pos || pos.qty === 0) return;
+    const legs = this.openLegs(symbol);
+    let stop: BrokerOrder | undefined;
+    let target: BrokerOrder | undefined;
+    let mark: number;
+    if (pos.qty > 0) {
+      mark = q.bid;
+      stop = legs.find((l) => l.type === "stop" && Number(l.stop_price) >= mark);
+      target = legs.find((l) => l.type === "limit" && Number(l.limit_price) <= mark);
+    } else {
+      mark = q.ask;
+      stop = legs.find((l) => l.type === "stop" && Number(l.stop_price) <= mark);
+      target = legs.find((l) => l.type === "limit" && Number(l.limit_price) >= mark);
+    }
+    const hit = stop ?? target;
+    if (!hit) return;
+    const px = hit === stop ? mark : Number(hit.limit_price);
+    this.applyFill(hit, Math.min(Number(hit.qty), Math.abs(pos.qty)), px);
+    this.cancelLegs(symbol);
+  }
+
+  /* ---- orders ---- */
+  async submitBracket(p: BracketParams): Promise<BrokerOrder> {
+    const symbol = p.symbol.toUpperCase();
+    const qty = Math.floor(p.qty);
+    if (!Number.isFinite(qty) || qty <= 0) throw new Error("Sim broker: invalid qty");
+
+    const side = p.side ?? "buy";
+    const exit = side === "buy" ? "sell" : "buy";
+    const tpTick = tickSizeFor(p.tp);
+    const slTick = tickSizeFor(p.sl);
+    const tpRO = side === "buy" ? ceilToTick(p.tp, tpTick) : floorToTick(p.tp, tpTick);
+    const slRO = side === "buy" ? floorToTick(p.sl, slTick) : ceilToTick(p.sl, slTick);
+    const parent = this.newOrder({
+      symbol, side, type: p.entryType ?? "market", qty: String(qty), order_class: "bracket",
+      limit_price: p.entryType === "limit" && p.limit != null ? String(p.limit) : undefined,
+    });
+    const tp = this.newOrder({
+      symbol, side: exit, type: "limit", qty: String(qty), parent_order_id: parent.id,
+      limit_price: tpRO.toFixed(decsForTick(tpTick)),
+    });
+    const sl = this.newOrder({
+      symbol, side: exit, type: "stop", qty: String(qty), parent_order_id: parent.id,
+      stop_price: slRO.toFixed(decsForTick(slTick)),
+    });
+    parent.legs = [tp, sl];
+
+    const px = await this.fillPrice(symbol, side, p.refPrice ?? p.limit);
+    if (p.entryType === "limit" && p.limit != null && (side === "buy" ? px > p.limit : px < p.limit)) return parent; // rests until a later quote
+    this.applyFill(parent, qty, px);
+    this.checkLegs(symbol);
+    return parent;
+  }
+
+  async submitMarket(p: MarketParams): Promise<BrokerOrder> {
+    const symbol = p.symbol.toUpperCase();
+    const qty = Math.floor(p.qty);
+    if (!Number.isFinite(qty) || qty <= 0) throw new Error("Sim broker: invalid qty");
+    const o = this.newOrder({ symbol, side: p.side, type: "market", qty: String(qty) });
+    this.applyFill(o, qty, await this.fillPrice(symbol, p.side));
+    if (!this.positions.has(symbol)) this.cancelLegs(symbol);
+    return o;
+  }
+
+  async closePosition(symbol: string): Promise<BrokerOrder | null> {
+    const sym = symbol.toUpperCase();
+    this.cancelLegs(sym);
+    const pos = this.positions.get(sym);
+    if (!pos) return null;
+    return this.submitMarket({ symbol: sym, qty: Math.abs(pos.qty), side: pos.qty > 0 ? "sell" : "buy" });
+  }
+
+  async cancelAllOrders() {
+    for (const o of this.orders.values()) if (OPEN_STATUSES.has(o.status)) o.status = "canceled";
+  }
+
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    const sym = symbol.toUpperCase();
+    const pos = this.positions.get(sym);
+    if (!pos) return null;
+    const mark = this.quotes.get(sym)?.bid ?? pos.avg;
+    return {
+      symbol: sym,
+      qty: String(pos.qty),
+      avg_entry_price: String(pos.avg),
+      current_price: String(mark),
+      market_value: String(pos.qty * mark),
+    };
+  }
+
+  async listPositions(): Promise<BrokerPosition[]> {
+    const out: BrokerPosition[] = [];
+    for (const sym of this.positions.keys()) {
+      const p = await this.getPosition(sym);
+      if (p) out.push(p);
+    }
+    return out;
+  }
+
+  async getOrder(id: string): Promise<BrokerOrder | null> {
+    return this.orders.get(id) ?? null;
+  }
+
+  async listOrders(p: ListOrdersParams = {}): Promise<BrokerOrder[]> {
+    const status = p.status ?? "open";
+    const syms = p.symbols?.length ? new Set(p.symbols.map((s) => s.toUpperCase())) : null;
+    let rows = Array.from(this.orders.values()).filter((o) => {
+      if (p.nested && o.parent_order_id) return false; // legs come back nested under the parent
+      if (syms && !syms.has(o.symbol)) return false;
+      if (p.after && String(o.submitted_at) <= p.after) return false;
+      if (p.until && String(o.submitted_at) > p.until) return false;
+      const isOpen = OPEN_STATUSES.has(o.status) || (o.legs || []).some((l) => OPEN_STATUSES.has(l.status));
+      return status === "all" || (status === "open" ? isOpen : !isOpen);
+    });
+    if (p.direction !== "asc") rows = rows.reverse();
+    return rows.slice(0, p.limit ?? 500);
+  }
+
+  async replaceTpSlIfBetter({ symbol, newTp, newSl, side = "long" }: ReplaceTpSlParams): Promise<ReplaceTpSlResult> {
+    const dir = side === "short" ? -1 : 1;
+    const legs = this.openLegs(symbol.toUpperCase());
+    const tpLeg = legs.find((l) => l.type === "limit");
+    const slLeg = legs.find((l) => l.type === "stop");
+    // legs are amended in place (same id), unlike Alpaca's replace-with-new-id
+    const res: ReplaceTpSlResult = { raisedTp: false, raisedSl: false, replaced: [] };
+    const parts: string[] = [];
+
+    if (tpLeg && newTp != null && Number.isFinite(newTp)) {
+      const tick = tickSizeFor(newTp);
+      const next = Number((dir > 0 ? ceilToTick(newTp, tick) : floorToTick(newTp, tick)).toFixed(decsForTick(tick)));
+      res.prevTp = Number(tpLeg.limit_price);
+      res.triedTp = next;
+      if (dir * (next - res.prevTp) > 0) { tpLeg.limit_price = String(next); res.raisedTp = true; res.replaced!.push(tpLeg); }
+      parts.push(`TP ${res.prevTp}→${next}${res.raisedTp ? " (raised)" : " (skipped)"}`);
+    }
+    if (slLeg && newSl != null && Number.isFinite(newSl)) {
+      const tick = tickSizeFor(newSl);
+      const next = Number((dir > 0 ? floorToTick(newSl, tick) : ceilToTick(newSl, tick)).toFixed(decsForTick(tick)));
+      res.prevSl = Number(slLeg.stop_price);
+      res.triedSl = next;
+      if (dir * (next - res.prevSl) > 0) { slLeg.stop_price = String(next); res.raisedSl = true; res.replaced!.push(slLeg); }
+      parts.push(`SL ${res.prevSl}→${next}${res.raisedSl ? " (raised)" : " (skipped)"}`);
+    }
+    res.message = parts.join(" | ") || "no changes";
+    this.checkLegs(symbol.toUpperCase());
+    return res;
+  }
+
+  async getShortability(_symbol: string): Promise<Shortability> {
+    return { shortable: true, easyToBorrow: true };
+  }
+
+  async getAccount(): Promise<BrokerAccount> {
+    let mv = 0;
+    for (const [sym, pos] of this.positions) mv += pos.qty * (this.quotes.get(sym)?.bid ?? pos.avg);
+    const equity = this.cash + mv;
+    return {
+      cash: String(this.cash),
+      buying_power: String(Math.max(0, this.cash)),
+      equity: String(equity),
+      last_equity: String(this.startCash),
+      portfolio_value: String(equity),
+      pattern_day_trader: false,
+      paper: true,
+      status: "ACTIVE",
+    };
+  }
+}
+
+/* -------------------------- selection -------------------------- */
+const globalForBroker = globalThis as unknown as { broker?: Broker };
+
+function brokerKind(): "alpaca" | "sim" | "ibkr" {
+  const raw = (process.env.BROKER || "").trim().toLowerCase();
+  if (raw === "sim" || raw === "alpaca" || raw === "ibkr") return raw;
+  if (process.env.NODE_ENV === "production") return "alpaca";
+  return alpacaConfigured() ? "alpaca" : "sim";
+}
+
+/** Process-wide broker (one SimBroker / IB session survives hot reloads in dev). */
+export function getBroker(): Broker {
+  if (!globalForBroker.broker) {
+    const kind = brokerKind();
+    globalForBroker.broker =
+      kind === "sim"
+        ? new SimBroker({ quote: async (s) => (await marketQuote(s).catch(() => null))?.data.price ?? null })
+        : kind === "ibkr"
+        ? new IbkrBroker()
+        : alpacaBroker;
+  }
+  return globalForBroker.broker;
+}
+
+/** Swap the broker (tests, scripts). Pass null to go back to env selection. */
+export function setBroker(b: Broker | null) {
+  globalForBroker.broker = b ?? undefined;
+}
+
+/** Spread guard on the active broker's latest quote (same rule as spreadGuardOK). */
+export async function brokerSpreadGuardOK(symbol: string, maxSpreadPct = 0.005) {
+  const q = await getBroker().latestQuote(symbol);
+  if (!q || !q.bid || !q.ask || q.ask < q.bid) return false;
+  const mid = (q.bid + q.ask) / 2;
+  const spreadPct = (q.ask - q.bid) / mid;
+  return spreadPct <= maxSpreadPct;
+}
@@ -1,155 +1,162 @@
 // lib/databentoBridge.ts
 
-import WebSocket from "ws";
-import { upsertBook } from "./l2Store";
+// ─────────────────────────────────────────────────────────────
+//  Keeps the Databento live session (lib/databentoLive.ts) subscribed to
+//  the symbols the L2 consumers hold (lib/l2Tracker.ts) and feeds every
+//  MBP-10 record into lib/l2Store.ts. Prints go to lib/tradeTape.ts,
+//  signed against the quote they arrived with or else the stored book.
+//  With L2_RECORD=true every MBP-10 update is also written to disk
+//  (lib/l2Recorder.ts) for replay.
+//  Env:
+//   DATABENTO_API_KEY     required; without it nothing subscribes
+//   DATABENTO_DATASET     a dataset you're licensed for (default XNAS.ITCH)
+//   DATABENTO_LIVE_HOST   gateway override, e.g. 127.0.0.1 for
+//   DATABENTO_LIVE_PORT   scripts/mock-databento.ts
+//   DATABENTO_TRADES_SCHEMA  "trades" | "tbbo" adds that subscription for
+//                         prints; unset takes them from MBP-10 action T
+//   L2_TRADES_SOURCE      databento (default) | alpaca (market data
+//                         trades stream, see lib/alpacaTradesStream.ts) | off
+//   L2_STALE_MS           no book for this long → "stale" (default 15s)
+//   L2_DEBUG=true         logs the first few books
+// ─────────────────────────────────────────────────────────────
+
+import { bestQuote, upsertBook } from "./l2Store";
 import type { L2Level } from "./l2Store";
-import { getActiveSymbols } from "./l2Tracker";
+import { getActiveSymbols, trackedSymbols, type TrackedSymbol } from "./l2Tracker";
+import { mbp10Ladders } from "./dbn";
+import { startDatabentoLive, type DatabentoLiveHandle, type DatabentoLiveStatus } from "./databentoLive";
+import { startAlpacaTradesStream, type AlpacaTradesHandle } from "./alpacaTradesStream";
+import { alpacaConfigured, alpacaDataStreamConfig } from "./alpaca";
+import { recordTrade } from "./tradeTape";
+import { recordMbp10 } from "./l2Recorder";
 
 export type UnsubFn = () => void;
 
-const DB_WS_URL = process.env.DATABENTO_API_URL || "wss://live.databento.com/v0";
-const DB_KEY    = process.env.DATABENTO_API_KEY || "";
-// IMPORTANT: set to a dataset you’re licensed for (e.g., stocks.sip or a venue dataset)
-const DB_DATASET = process.env.DATABENTO_DATASET || "stocks.sip";
+const DB_KEY = process.env.DATABENTO_API_KEY || "";
+const DB_DATASET = process.env.DATABENTO_DATASET || "XNAS.ITCH";
+const DB_HOST = process.env.DATABENTO_LIVE_HOST || undefined;
+const DB_PORT = Number(process.env.DATABENTO_LIVE_PORT) || undefined;
+const DB_TRADES_SCHEMA = (["trades", "tbbo"] as const).find((s) => s === process.env.DATABENTO_TRADES_SCHEMA) ?? null;
+const TRADES_SOURCE = (process.env.L2_TRADES_SOURCE || "databento").toLowerCase();
+const STALE_MS = Number(process.env.L2_STALE_MS) > 0 ? Number(process.env.L2_STALE_MS) : 15_000;
 
-/* ── Step A: simple debug switch (logs first N frames) ── */
+/* ── Step A: simple debug switch (logs first N books) ── */
 const L2_DEBUG = (process.env.L2_DEBUG ?? "false").toLowerCase() === "true";
 let debugFramesLeft = 20;
 
-let currentSubs: Record<string, UnsubFn> = {};
-
 /* Feed MBP-10 updates into the store */
 export function onMbp10(symbol: string, bidsRaw: Array<[number, number]>, asksRaw: Array<[number, number]>) {
   const bids: L2Level[] = (bidsRaw || []).map(([px, sz]) => ({ px: Number(px), sz: Number(sz) }));
   const asks: L2Level[] = (asksRaw || []).map(([px, sz]) => ({ px: Number(px), sz: Number(sz) }));
   if (!bids.length || !asks.length) return;
-  upsertBook(symbol.toUpperCase(), bids, asks);
-}
-
-/* Defensive parser for various MBP-10 shapes (tweak once you see frames) */
-function parseMbp10Frame(frame: any): { bids: Array<[number, number]>; asks: Array<[number, number]> } | null {
-  const bidsRaw = (frame?.bids ?? frame?.bid ?? frame?.levels?.bids ?? frame?.book?.bids ?? []).slice(0, 10);
-  const asksRaw = (frame?.asks ?? frame?.ask ?? frame?.levels?.asks ?? frame?.book?.asks ?? []).slice(0, 10);
-  if (!Array.isArray(bidsRaw) || !Array.isArray(asksRaw)) return null;
-
-  const toPair = (l: any) => {
-    const px = Number(l?.p ?? l?.price ?? l?.px ?? (Array.isArray(l) ? l[0] : NaN));
-    const sz = Number(l?.s ?? l?.size  ?? l?.sz ?? (Array.isArray(l) ? l[1] : NaN));
-    return [px, sz] as [number, number];
-  };
-
-  const bids = bidsRaw.map(toPair).filter(([px, sz]) => Number.isFinite(px) && Number.isFinite(sz));
-  const asks = asksRaw.map(toPair).filter(([px, sz]) => Number.isFinite(px) && Number.isFinite(sz));
-  if (!bids.length || !asks.length) return null;
-
-  bids.sort((a, b) => b[0] - a[0]); // best bid first
-  asks.sort((a, b) => a[0] - b[0]); // best ask first
 
-  /* ── Step A: debug log a few frames ── */
+  /* ── Step A: debug log a few books ── */
   if (L2_DEBUG && debugFramesLeft > 0) {
     debugFramesLeft--;
-    // keep it compact—just show best levels + counts
-    console.log("[L2][frame]", {
-      bestBid: bids[0],
-      bestAsk: asks[0],
-      bidCount: bids.length,
-      askCount: asks.length,
-    });
+    console.log("[L2][book]", { symbol, bestBid: bidsRaw[0], bestAsk: asksRaw[0], bidCount: bids.length, askCount: asks.length });
   }
 
-  return { bids, asks };
+  upsertBook(symbol.toUpperCase(), bids, asks);
 }
 
-/* SUBSCRIBE: Databento WebSocket (one WS per symbol for simplicity) */
-async function subscribeOne(symbol: string): Promise<UnsubFn> {
+/* One session for every tracked symbol, started on first use */
+let live: DatabentoLiveHandle | null = null;
+let warnedNoKey = false;
+
+function client(): DatabentoLiveHandle | null {
+  if (live) return live;
   if (!DB_KEY) {
-    console.warn("[L2] Missing DATABENTO_API_KEY; skipping subscribe:", symbol);
-    return () => {};
+    if (!warnedNoKey) console.warn("[L2] Missing DATABENTO_API_KEY; not subscribing");
+    warnedNoKey = true;
+    return null;
   }
-
-  // Query-string auth + subscription params.
-  const qs = new URLSearchParams({
+  live = startDatabentoLive({
     key: DB_KEY,
     dataset: DB_DATASET,
-    schema: "mbp-10",
-    symbols: symbol,
-    // encoding: "jsonl" // uncomment if your feed requires explicit JSONL
-  }).toString();
-
-  const url = `${DB_WS_URL}?${qs}`;
-  const ws = new WebSocket(url);
-
-  let buffer = ""; // accumulate NDJSON chunks
-
-  ws.on("open", () => {
-    console.log(`[L2] ws open → ${symbol} (${DB_DATASET} mbp-10)`);
-  });
-
-  ws.on("message", (data: WebSocket.RawData) => {
-    try {
-      const chunk = typeof data === "string" ? data : data.toString("utf8");
-      buffer += chunk;
-
-      // Split into lines for NDJSON; keep the final partial line in buffer
-      const parts = buffer.split(/\r?\n/);
-      buffer = parts.pop() || "";
-
-      for (const line of parts) {
-        if (!line.trim()) continue;
-        try {
-          const frame = JSON.parse(line);
-          const parsed = parseMbp10Frame(frame);
-          if (parsed) onMbp10(symbol, parsed.bids, parsed.asks);
-        } catch {
-          // ignore malformed/heartbeat lines
-        }
-      }
-    } catch {
-      // swallow parse errors to keep stream alive
-    }
-  });
-
-  ws.on("error", (err: any) => {
-    console.error(`[L2] ws error (${symbol}):`, err?.message || err);
+    host: DB_HOST,
+    port: DB_PORT,
+    tradeSchema: TRADES_SOURCE === "databento" ? DB_TRADES_SCHEMA : null,
+    onMbp10: (symbol, m) => {
+      recordMbp10(symbol, m, DB_DATASET);
+      const { bids, asks } = mbp10Ladders(m);
+      onMbp10(symbol, bids, asks);
+    },
+    // recorded before the book update that may come with it, so the stored
+    // quote is still the one the print traded against
+    onTrade:
+      TRADES_SOURCE === "databento"
+        ? (symbol, t) => {
+            const bbo = t.bbo && t.bbo.bidPx != null && t.bbo.askPx != null ? { bid: t.bbo.bidPx, ask: t.bbo.askPx } : null;
+            recordTrade(symbol, { px: t.px, sz: t.sz, t: Number(t.tsRecv / BigInt(1_000_000)), quote: bbo ?? bestQuote(symbol) });
+          }
+        : undefined,
+    log: (msg, extra) => console.log(`[L2] ${msg}`, extra ?? ""),
   });
+  return live;
+}
 
-  ws.on("close", (code: number, reason: Buffer) => {
-    console.log(`[L2] ws closed → ${symbol} (${code}) ${reason?.toString?.() || ""}`);
+/* Alpaca prints, when L2_TRADES_SOURCE=alpaca */
+let alpacaTrades: AlpacaTradesHandle | null = null;
+
+function tradesClient(): AlpacaTradesHandle | null {
+  if (TRADES_SOURCE !== "alpaca" || !alpacaConfigured()) return null;
+  if (alpacaTrades) return alpacaTrades;
+  const { url, key, secret } = alpacaDataStreamConfig();
+  alpacaTrades = startAlpacaTradesStream({
+    url,
+    key,
+    secret,
+    onTrade: (t) => { recordTrade(t.symbol, { px: t.px, sz: t.sz, t: t.t, quote: bestQuote(t.symbol) }); },
+    log: (msg, extra) => console.log(`[L2][trades] ${msg}`, extra ?? ""),
   });
+  return alpacaTrades;
+}
 
-  // keep-alive ping
-  const pingTimer = setInterval(() => {
-    try { if (ws.readyState === WebSocket.OPEN) ws.ping(); } catch {}
-  }, 15000);
-
-  // Unsubscribe/cleanup
-  return () => {
-    try { clearInterval(pingTimer); } catch {}
-    try { ws.removeAllListeners(); } catch {}
-    try { if (ws.readyState === WebSocket.OPEN) ws.close(); } catch {}
-  };
+function reconcile(c: { symbols: string[]; subscribe(s: string[]): void; unsubscribe(s: string[]): void }, wanted: Set<string>) {
+  const current = new Set(c.symbols);
+  const drop = [...current].filter((s) => !wanted.has(s));
+  const add = [...wanted].filter((s) => !current.has(s));
+  if (drop.length) c.unsubscribe(drop);
+  if (add.length) c.subscribe(add);
 }
 
-/* Keep active subscriptions (max 2) in sync with /api/l2/track */
+/* Keep the live session's symbols in sync with /api/l2/track */
 export async function reconcileSubscriptions() {
-  const wanted = new Set(getActiveSymbols().symbols.map(s => s.toUpperCase()));
-
-  // Unsubscribe unwanted
-  for (const sym of Object.keys(currentSubs)) {
-    if (!wanted.has(sym)) {
-      try { currentSubs[sym]!(); } catch {}
-      delete currentSubs[sym];
-      console.log("[L2] unsubscribed", sym);
-    }
-  }
+  const wanted = new Set(getActiveSymbols().symbols.map((s) => s.toUpperCase()));
+  const c = client();
+  if (c) reconcile(c, wanted);
+  const t = tradesClient();
+  if (t) reconcile(t, wanted);
+}
 
-  // Subscribe new
-  for (const sym of wanted) {
-    if (!currentSubs[sym]) {
-      currentSubs[sym] = await subscribeOne(sym);
-      console.log("[L2] subscribed", sym);
-    }
-  }
+/** Session + per-symbol feed state (null until a key is configured and something was tracked). */
+export function l2FeedStatus(): DatabentoLiveStatus | null {
+  return live?.status() ?? null;
+}
+
+export type L2SymbolState = "subscribing" | "live" | "stale" | "error";
+
+export type L2SymbolStatus = TrackedSymbol & {
+  state: L2SymbolState;
+  /** last book received (ms) */
+  lastUpdateAt: number | null;
+  error: string | null;
+};
+
+/** Every tracked symbol with its holders and where its feed stands. */
+export function l2SymbolStatus(): L2SymbolStatus[] {
+  const feed = live?.status() ?? null;
+  const bySym = new Map((feed?.symbols ?? []).map((x) => [x.symbol, x]));
+  const down = !feed || feed.state === "backoff";
+  const now = Date.now();
+  return trackedSymbols().map((t) => {
+    const lastUpdateAt = bySym.get(t.symbol)?.lastAt ?? null;
+    if (!DB_KEY) return { ...t, state: "error", lastUpdateAt, error: "DATABENTO_API_KEY not set" };
+    const fresh = lastUpdateAt != null && now - lastUpdateAt < STALE_MS;
+    if (fresh) return { ...t, state: "live", lastUpdateAt, error: null };
+    if (down && feed?.lastError) return { ...t, state: "error", lastUpdateAt, error: feed.lastError };
+    return { ...t, state: lastUpdateAt == null ? "subscribing" : "stale", lastUpdateAt, error: null };
+  });
 }
 
 /* Optional background loop (safe to call multiple times) */
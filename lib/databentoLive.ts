@@ -0,0 +1,491 @@
+// lib/databentoLive.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Databento live client: one authenticated gateway session for every
+//  symbol, DBN-encoded (lib/dbn.ts).
+//  - raw TCP to <dataset>.lsg.databento.com:13000: read lsg_version +
+//    cram, answer auth=sha256(cram|key)-<bucket>, then subscription lines
+//    and start_session; the gateway replies with DBN metadata + records
+//  - instrument ids are resolved through the SymbolMapping records the
+//    gateway sends ahead of each symbol's data
+//  - subscribe() adds symbols to the running session. The gateway has no
+//    unsubscribe, so unsubscribe() mutes the symbols at once and restarts
+//    the session without them after a short debounce
+//  - no bytes for 2.5 heartbeat intervals counts as a dead session;
+//    reconnects use capped exponential backoff + jitter and resubscribe
+//    everything. When the outage was short the resubscription asks for
+//    intraday replay from the last record seen (start=ts+1); replayed
+//    records at or before a stream's last ts_recv are dropped as duplicates
+//  - trades come from a `trades` or `tbbo` subscription when tradeSchema
+//    is set, otherwise from the MBP-10 records whose action is T(rade)
+//  - every outage (and any slow-reader warning from the gateway) is kept
+//    as a gap; per-symbol last-update times tell the caller what is stale
+//  Driven by lib/databentoBridge.ts. Point DATABENTO_LIVE_HOST/PORT at
+//  scripts/mock-databento.ts to run it offline.
+// ─────────────────────────────────────────────────────────────
+
+import net from "node:net";
+import { createHash } from "node:crypto";
+import { DbnDecoder, SYSTEM_CODE, type BidAskPair, type DbnEvent, type DbnRecord, type Mbp10Msg } from "./dbn";
+
+export type DatabentoLiveState = "idle" | "connecting" | "authenticating" | "streaming" | "backoff" | "stopped";
+
+export type DatabentoGap = {
+  /** last record before the outage (ms) */
+  from: number;
+  /** first record after it (ms), null while still open */
+  to: number | null;
+  reason: string;
+  /** replay requested on resubscribe */
+  replayed: boolean;
+  symbols: string[];
+};
+
+export type DatabentoTrade = {
+  px: number;
+  sz: number;
+  /** UNIX ns */
+  tsRecv: bigint;
+  /** venue aggressor side: A(sk) B(id) N(one) */
+  side: string;
+  /** top of book the print hit, when the schema carries one */
+  bbo: BidAskPair | null;
+};
+
+export type DatabentoLiveOptions = {
+  key: string;
+  dataset: string;
+  host?: string;
+  port?: number;
+  schema?: string;
+  /** extra subscription for prints; null takes them from the book schema */
+  tradeSchema?: "trades" | "tbbo" | null;
+  onMbp10: (symbol: string, m: Mbp10Msg) => void;
+  onTrade?: (symbol: string, t: DatabentoTrade) => void;
+  onGap?: (g: DatabentoGap) => void;
+  heartbeatS?: number;
+  /** silence before the session counts as dead; default 2.5 heartbeats */
+  stallMs?: number;
+  /** replay outages up to this long on reconnect; 0 resubscribes live only */
+  replayMaxMs?: number;
+  /** unsubscribe → session restart debounce */
+  restartDebounceMs?: number;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+  log?: (msg: string, extra?: any) => void;
+};
+
+export type DatabentoSymbolStatus = { symbol: string; live: boolean; lastAt: number | null; records: number };
+
+export type DatabentoLiveStatus = {
+  state: DatabentoLiveState;
+  sessionId: string | null;
+  connectedAt: number | null;
+  lastByteAt: number | null;
+  records: number;
+  duplicates: number;
+  symbols: DatabentoSymbolStatus[];
+  gaps: DatabentoGap[];
+  lastError: string | null;
+};
+
+export type DatabentoLiveHandle = {
+  readonly state: DatabentoLiveState;
+  readonly symbols: string[];
+  subscribe(symbols: string[]): void;
+  unsubscribe(symbols: string[]): void;
+  status(): DatabentoLiveStatus;
+  stop(): Promise<void>;
+};
+
+const LSG_PORT = 13000;
+const KEEP_GAPS = 50;
+
+/** <dataset>.lsg.databento.com, e.g. XNAS.ITCH → xnas-itch.lsg.databento.com */
+export function gatewayHost(dataset: string) {
+  return `${dataset.toLowerCase().replace(/\./g, "-")}.lsg.databento.com`;
+}
+
+/** CRAM reply: sha256(cram|key) hex + "-" + last 5 chars of the key (bucket id). */
+export function cramResponse(cram: string, key: string) {
+  return `${createHash("sha256").update(`${cram}|${key}`).digest("hex")}-${key.slice(-5)}`;
+}
+
+/** "a=1|b=2" → { a: "1", b: "2" } */
+export function parseControl(line: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const part of line.trim().split("|")) {
+    const i = part.indexOf("=");
+    if (i > 0) out[part.slice(0, i)] = part.slice(i + 1);
+  }
+  return out;
+}
+
+const nsToMs = (ns: bigint) => Number(ns / BigInt(1_000_000));
+const msToNs = (ms: number) => BigInt(Math.floor(ms)) * BigInt(1_000_000);
+
+export function startDatabentoLive(opts: DatabentoLiveOptions): DatabentoLiveHandle {
+  const log = opts.log ?? ((msg: string, extra?: any) => console.log(`[databento] ${msg}`, extra ?? ""));
+  const host = opts.host || gatewayHost(opts.dataset);
+  const port = opts.port || LSG_PORT;
+  const schemas = [opts.schema || "mbp-10", ...(opts.tradeSchema ? [opts.tradeSchema] : [])];
+  const heartbeatS = Math.max(5, opts.heartbeatS ?? 30);
+  const stallMs = opts.stallMs ?? heartbeatS * 2500;
+  const replayMaxMs = opts.replayMaxMs ?? 5 * 60_000;
+  const debounceMs = opts.restartDebounceMs ?? 2_000;
+  const minMs = opts.minBackoffMs ?? 1_000;
+  const maxMs = opts.maxBackoffMs ?? 30_000;
+
+  let state: DatabentoLiveState = "idle";
+  let stopped = false;
+  let attempt = 0;
+  let sock: net.Socket | null = null;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let stallTimer: NodeJS.Timeout | null = null;
+  let restartTimer: NodeJS.Timeout | null = null;
+
+  /** what the caller wants */
+  const wanted = new Set<string>();
+  /** what the current session was asked for */
+  let sessionSymbols = new Set<string>();
+  /** per symbol; `streams` is keyed by record kind, `fence` = last ts_recv before a replay */
+  type SymState = { streams: Map<string, { lastNs: bigint; fence: bigint | null }>; lastAt: number | null; records: number };
+  const bySymbol = new Map<string, SymState>();
+  let instruments = new Map<number, string>();
+
+  let sessionId: string | null = null;
+  let connectedAt: number | null = null;
+  let lastByteAt: number | null = null;
+  let lastRecordMs: number | null = null;
+  let lastRecvNs: bigint | null = null;
+  let gapFromNs: bigint | null = null;
+  let records = 0;
+  let duplicates = 0;
+  let lastError: string | null = null;
+  const gaps: DatabentoGap[] = [];
+  let openGap: DatabentoGap | null = null;
+
+  const symState = (s: string) => {
+    let st = bySymbol.get(s);
+    if (!st) bySymbol.set(s, (st = { streams: new Map(), lastAt: null, records: 0 }));
+    return st;
+  };
+
+  function clearTimers() {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (stallTimer) clearTimeout(stallTimer);
+    retryTimer = stallTimer = null;
+  }
+
+  function armStall(s: net.Socket) {
+    if (stallTimer) clearTimeout(stallTimer);
+    stallTimer = setTimeout(() => {
+      log(`no data for ${stallMs}ms, dropping session`);
+      s.destroy(new Error("stalled"));
+    }, stallMs);
+  }
+
+  function openGapFor(reason: string) {
+    if (openGap || lastRecordMs == null || !wanted.size) return;
+    openGap = { from: lastRecordMs, to: null, reason, replayed: false, symbols: [...wanted] };
+    gapFromNs = lastRecvNs;
+    for (const st of bySymbol.values()) for (const x of st.streams.values()) x.fence = x.lastNs;
+    gaps.push(openGap);
+    if (gaps.length > KEEP_GAPS) gaps.shift();
+  }
+
+  function closeGap(at: number) {
+    if (!openGap) return;
+    openGap.to = at;
+    log(`gap closed: ${openGap.reason} ${at - openGap.from}ms${openGap.replayed ? " (replayed)" : ""}`);
+    opts.onGap?.(openGap);
+    openGap = null;
+  }
+
+  function scheduleReconnect(why: string) {
+    if (stopped) return;
+    clearTimers();
+    state = "backoff";
+    lastError = why;
+    openGapFor(why);
+    const cap = Math.min(maxMs, minMs * 2 ** attempt);
+    const delay = Math.round(cap / 2 + Math.random() * (cap / 2));
+    attempt++;
+    log(`reconnect in ${delay}ms (${why})`);
+    retryTimer = setTimeout(connect, delay);
+  }
+
+  function subscriptionLines(symbols: string[], startNs: bigint | null) {
+    return schemas
+      .map((schema) => {
+        const parts = [`schema=${schema}`, "stype_in=raw_symbol", `symbols=${symbols.join(",")}`];
+        if (startNs != null) parts.push(`start=${startNs}`);
+        return parts.join("|") + "\n";
+      })
+      .join("");
+  }
+
+  /** After auth: everything wanted, with replay from the last record when the outage was short. */
+  function sendInitialSubscriptions(s: net.Socket) {
+    sessionSymbols = new Set(wanted);
+    if (!sessionSymbols.size) return;
+    const replay = !!openGap && gapFromNs != null && replayMaxMs > 0 && Date.now() - openGap.from <= replayMaxMs;
+    if (replay) openGap!.replayed = true;
+    s.write(subscriptionLines([...sessionSymbols], replay ? gapFromNs! + BigInt(1) : null));
+  }
+
+  function onEvent(ev: DbnEvent) {
+    switch (ev.kind) {
+      case "metadata":
+        log(`session metadata ${ev.meta.dataset} v${ev.meta.version}`);
+        return;
+      case "mapping":
+        instruments.set(ev.hd.instrumentId, ev.inSymbol.toUpperCase());
+        return;
+      case "system":
+        if (ev.heartbeat) return;
+        if (ev.code === SYSTEM_CODE.SLOW_READER_WARNING) {
+          // the gateway is dropping data for us
+          const at = Date.now();
+          gaps.push({ from: lastRecordMs ?? at, to: at, reason: "slow_reader", replayed: false, symbols: [...wanted] });
+          if (gaps.length > KEEP_GAPS) gaps.shift();
+        }
+        log(`system: ${ev.msg}`);
+        return;
+      case "error":
+        lastError = ev.err;
+        log(`gateway error: ${ev.err}`);
+        return;
+      case "mbp10":
+      case "trade":
+      case "mbp1":
+        deliver(ev);
+        return;
+      default:
+        return;
+    }
+  }
+
+  function deliver(ev: Extract<DbnRecord, { tsRecv: bigint }>) {
+    const sym = instruments.get(ev.hd.instrumentId);
+    if (!sym || !wanted.has(sym)) return;
+    const st = symState(sym);
+    const stream = st.streams.get(ev.kind);
+    if (stream?.fence != null) {
+      if (ev.tsRecv <= stream.fence) {
+        duplicates++;
+        return;
+      }
+      stream.fence = null;
+    }
+    if (stream) stream.lastNs = ev.tsRecv;
+    else st.streams.set(ev.kind, { lastNs: ev.tsRecv, fence: null });
+    st.records++;
+    records++;
+    if (lastRecvNs == null || ev.tsRecv > lastRecvNs) lastRecvNs = ev.tsRecv;
+    lastRecordMs = nsToMs(ev.tsRecv);
+    if (openGap) closeGap(lastRecordMs);
+
+    try {
+      if (ev.kind === "mbp10") {
+        st.lastAt = Date.now();
+        if (ev.action === "T" && !opts.tradeSchema) emitTrade(sym, ev, ev.levels[0] ?? null);
+        opts.onMbp10(sym, ev);
+      } else if (ev.action === "T") {
+        emitTrade(sym, ev, ev.kind === "mbp1" ? ev.bbo : null);
+      }
+    } catch (e: any) {
+      log(`${ev.kind} handler threw`, e?.message || e);
+    }
+  }
+
+  function emitTrade(sym: string, ev: { price: number | null; size: number; tsRecv: bigint; side: string }, bbo: BidAskPair | null) {
+    if (!opts.onTrade || ev.price == null || !ev.size) return;
+    opts.onTrade(sym, { px: ev.price, sz: ev.size, tsRecv: ev.tsRecv, side: ev.side, bbo });
+  }
+
+  function connect() {
+    if (stopped) return;
+    state = "connecting";
+    instruments = new Map();
+    const s = net.connect({ host, port });
+    sock = s;
+    s.setNoDelay(true);
+    let lineBuf = "";
+    let decoder: DbnDecoder | null = null;
+    let phase: "greeting" | "auth" | "data" = "greeting";
+    let cram: string | null = null;
+
+    s.on("connect", () => {
+      state = "authenticating";
+      armStall(s);
+    });
+
+    s.on("data", (chunk: Buffer) => {
+      lastByteAt = Date.now();
+      armStall(s);
+      if (phase === "data") {
+        try {
+          for (const ev of decoder!.push(chunk)) onEvent(ev);
+        } catch (e: any) {
+          log("decode failed", e?.message || e);
+          s.destroy(e);
+        }
+        return;
+      }
+
+      // control phase: newline-terminated text until the session starts
+      lineBuf += chunk.toString("latin1");
+      let nl: number;
+      while (phase !== "data" && (nl = lineBuf.indexOf("\n")) >= 0) {
+        const line = lineBuf.slice(0, nl);
+        lineBuf = lineBuf.slice(nl + 1);
+        const kv = parseControl(line);
+        if (phase === "greeting") {
+          if (kv.lsg_version) log(`gateway ${kv.lsg_version}`);
+          if (kv.cram) {
+            cram = kv.cram;
+            phase = "auth";
+            s.write(
+              `auth=${cramResponse(cram, opts.key)}|dataset=${opts.dataset}|encoding=dbn|ts_out=0|heartbeat_interval_s=${heartbeatS}\n`
+            );
+          }
+          continue;
+        }
+        if (kv.success !== "1") {
+          lastError = kv.error || line;
+          log(`auth rejected: ${lastError}`);
+          s.destroy(new Error("auth_rejected"));
+          return;
+        }
+        sessionId = kv.session_id ?? null;
+        connectedAt = Date.now();
+        state = "streaming";
+        attempt = 0;
+        phase = "data";
+        decoder = new DbnDecoder();
+        sendInitialSubscriptions(s);
+        s.write("start_session=0\n");
+        log(`session ${sessionId ?? "?"} started (${sessionSymbols.size} symbols)`);
+      }
+      if (phase === "data" && lineBuf.length) {
+        const rest = Buffer.from(lineBuf, "latin1");
+        lineBuf = "";
+        for (const ev of decoder!.push(rest)) onEvent(ev);
+      }
+    });
+
+    s.on("error", (err: any) => log("socket error", err?.message || err));
+
+    s.on("close", () => {
+      if (sock === s) sock = null;
+      if (stallTimer) clearTimeout(stallTimer);
+      stallTimer = null;
+      if (!stopped) scheduleReconnect(lastError && phase !== "data" ? lastError : "connection closed");
+    });
+  }
+
+  function dropSocket() {
+    const old = sock;
+    sock = null;
+    clearTimers();
+    if (!old) return;
+    old.removeAllListeners();
+    old.on("error", () => {});
+    old.destroy();
+  }
+
+  /** Replace the session with one for the current wanted set (idle when it's empty). */
+  function restartSession() {
+    restartTimer = null;
+    if (stopped) return;
+    if (!wanted.size) {
+      log("no symbols left, closing session");
+      dropSocket();
+      sessionSymbols = new Set();
+      openGap = null;
+      state = "idle";
+      return;
+    }
+    // a pending reconnect already uses the wanted set
+    if (!sock) return;
+    const same = sessionSymbols.size === wanted.size && [...wanted].every((x) => sessionSymbols.has(x));
+    if (same) return;
+    log(`restarting session for ${wanted.size} symbols`);
+    dropSocket();
+    openGapFor("resubscribe");
+    connect();
+  }
+
+  const norm = (xs: string[]) => xs.map((x) => String(x || "").trim().toUpperCase()).filter(Boolean);
+
+  return {
+    get state() { return state; },
+    get symbols() { return [...wanted]; },
+
+    subscribe(symbols) {
+      const add = norm(symbols).filter((x) => !wanted.has(x));
+      if (!add.length) return;
+      for (const x of add) wanted.add(x);
+      if (state === "idle" && !stopped) {
+        connect();
+        return;
+      }
+      if (state !== "streaming" || !sock) return; // picked up by the next session
+      const fresh = add.filter((x) => !sessionSymbols.has(x));
+      if (!fresh.length) return;
+      for (const x of fresh) sessionSymbols.add(x);
+      sock.write(subscriptionLines(fresh, null));
+      log(`subscribed ${fresh.join(",")}`);
+    },
+
+    unsubscribe(symbols) {
+      const drop = norm(symbols).filter((x) => wanted.has(x));
+      if (!drop.length) return;
+      for (const x of drop) {
+        wanted.delete(x);
+        bySymbol.delete(x);
+      }
+      log(`unsubscribed ${drop.join(",")}`);
+      if (restartTimer) clearTimeout(restartTimer);
+      restartTimer = setTimeout(restartSession, debounceMs);
+    },
+
+    status() {
+      const now = Date.now();
+      return {
+        state,
+        sessionId,
+        connectedAt,
+        lastByteAt,
+        records,
+        duplicates,
+        symbols: [...wanted].map((symbol) => {
+          const st = bySymbol.get(symbol);
+          const lastAt = st?.lastAt ?? null;
+          return { symbol, live: state === "streaming" && lastAt != null && now - lastAt < stallMs, lastAt, records: st?.records ?? 0 };
+        }),
+        gaps: [...gaps],
+        lastError,
+      };
+    },
+
+    async stop() {
+      stopped = true;
+      state = "stopped";
+      clearTimers();
+      if (restartTimer) clearTimeout(restartTimer);
+      restartTimer = null;
+      const s = sock;
+      sock = null;
+      if (s && !s.destroyed) {
+        await new Promise<void>((resolve) => {
+          s.once("close", () => resolve());
+          s.end();
+          setTimeout(() => { s.destroy(); resolve(); }, 1_000).unref();
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,405 @@
+// lib/dbn.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Databento Binary Encoding (DBN), the subset the live L2 feed needs.
+//  - stream = metadata header ("DBN" + version u8 + length u32 LE + body)
+//    followed by records; every record starts with a 16-byte header whose
+//    first byte is the record length in 4-byte words, so unknown record
+//    types are skipped rather than desyncing the stream
+//  - decoded: MBP-10 (rtype 0x0A), trades (0x00), MBP-1/TBBO (0x01),
+//    symbol mapping (0x16), system (0x17, heartbeats and subscription
+//    acks) and error (0x15); v1 and v2/v3 layouts of the last three are
+//    told apart by record length
+//  - DbnDecoder takes arbitrary socket chunks and keeps partial records
+//  - prices are fixed-point i64 (1e-9); UNDEF_PRICE marks an empty level
+//  The encoders at the bottom build the same bytes for
+//  scripts/mock-databento.ts and scripts/databento-check.ts.
+//  Layouts: https://databento.com/docs/standards-and-conventions/databento-binary-encoding
+// ─────────────────────────────────────────────────────────────
+
+export const RTYPE = {
+  TRADE: 0x00,
+  MBP1: 0x01,
+  MBP10: 0x0a,
+  ERROR: 0x15,
+  SYMBOL_MAPPING: 0x16,
+  SYSTEM: 0x17,
+} as const;
+
+/** SystemMsg codes (DBN v2+); v1 only has the text. */
+export const SYSTEM_CODE = {
+  HEARTBEAT: 0,
+  SUBSCRIPTION_ACK: 1,
+  SLOW_READER_WARNING: 2,
+  REPLAY_COMPLETED: 3,
+  END_OF_INTERVAL: 4,
+} as const;
+
+const PX_SCALE = 1e9;
+export const UNDEF_PRICE = BigInt("9223372036854775807");
+
+const HEADER_LEN = 16;
+const TRADE_LEN = 48;
+const MBP1_LEN = 80;
+const MBP10_LEN = 368;
+const MBP10_LEVELS = 10;
+const LEVEL_LEN = 32;
+const MAPPING_V1_LEN = 80;
+const MAPPING_V2_LEN = 176;
+const SYSTEM_V1_LEN = 80;
+const SYSTEM_V2_LEN = 320;
+
+export type DbnMetadata = {
+  version: number;
+  dataset: string;
+  /** schema id (u16), 0xFFFF when the stream mixes schemas */
+  schema: number;
+  /** UNIX ns */
+  start: bigint;
+};
+
+export type RecordHeader = {
+  rtype: number;
+  publisherId: number;
+  instrumentId: number;
+  /** UNIX ns */
+  tsEvent: bigint;
+};
+
+export type BidAskPair = {
+  /** null when the level is empty */
+  bidPx: number | null;
+  askPx: number | null;
+  bidSz: number;
+  askSz: number;
+  bidCt: number;
+  askCt: number;
+};
+
+/** Body shared by trades, MBP-1 and MBP-10 records. */
+type EventFields = {
+  price: number | null;
+  size: number;
+  /** A(dd) C(ancel) M(odify) T(rade) F(ill) R(clear book) N(one) */
+  action: string;
+  /** A(sk) B(id) N(one) */
+  side: string;
+  flags: number;
+  depth: number;
+  /** gateway receive time, UNIX ns */
+  tsRecv: bigint;
+  tsInDelta: number;
+  sequence: number;
+};
+
+export type Mbp10Msg = { kind: "mbp10"; hd: RecordHeader; levels: BidAskPair[] } & EventFields;
+/** `trades` schema: the print alone. */
+export type TradeMsg = { kind: "trade"; hd: RecordHeader } & EventFields;
+/** `mbp-1` / `tbbo` schemas: the event plus the top of book (before it, for tbbo trades). */
+export type Mbp1Msg = { kind: "mbp1"; hd: RecordHeader; bbo: BidAskPair } & EventFields;
+
+export type SymbolMappingMsg = {
+  kind: "mapping";
+  hd: RecordHeader;
+  /** null in v1 records */
+  stypeIn: number | null;
+  inSymbol: string;
+  stypeOut: number | null;
+  outSymbol: string;
+  start: bigint;
+  end: bigint;
+};
+
+export type SystemMsg = { kind: "system"; hd: RecordHeader; msg: string; code: number | null; heartbeat: boolean };
+export type ErrorMsg = { kind: "error"; hd: RecordHeader; err: string; code: number | null; isLast: boolean };
+export type OtherMsg = { kind: "other"; hd: RecordHeader; length: number };
+
+export type DbnRecord = Mbp10Msg | TradeMsg | Mbp1Msg | SymbolMappingMsg | SystemMsg | ErrorMsg | OtherMsg;
+
+export type DbnEvent = { kind: "metadata"; meta: DbnMetadata } | DbnRecord;
+
+/* -------------------------- field helpers -------------------------- */
+function cstr(buf: Buffer, off: number, len: number) {
+  const end = buf.indexOf(0, off);
+  return buf.toString("latin1", off, end < 0 || end > off + len ? off + len : end);
+}
+
+function price(raw: bigint): number | null {
+  return raw === UNDEF_PRICE ? null : Number(raw) / PX_SCALE;
+}
+
+function readHeader(buf: Buffer, off: number): RecordHeader {
+  return {
+    rtype: buf.readUInt8(off + 1),
+    publisherId: buf.readUInt16LE(off + 2),
+    instrumentId: buf.readUInt32LE(off + 4),
+    tsEvent: buf.readBigUInt64LE(off + 8),
+  };
+}
+
+/* -------------------------- records -------------------------- */
+function readLevel(buf: Buffer, l: number): BidAskPair {
+  return {
+    bidPx: price(buf.readBigInt64LE(l)),
+    askPx: price(buf.readBigInt64LE(l + 8)),
+    bidSz: buf.readUInt32LE(l + 16),
+    askSz: buf.readUInt32LE(l + 20),
+    bidCt: buf.readUInt32LE(l + 24),
+    askCt: buf.readUInt32LE(l + 28),
+  };
+}
+
+function readEvent(buf: Buffer, b: number): EventFields {
+  return {
+    price: price(buf.readBigInt64LE(b)),
+    size: buf.readUInt32LE(b + 8),
+    action: String.fromCharCode(buf.readUInt8(b + 12)),
+    side: String.fromCharCode(buf.readUInt8(b + 13)),
+    flags: buf.readUInt8(b + 14),
+    depth: buf.readUInt8(b + 15),
+    tsRecv: buf.readBigUInt64LE(b + 16),
+    tsInDelta: buf.readInt32LE(b + 24),
+    sequence: buf.readUInt32LE(b + 28),
+  };
+}
+
+function readMbp10(buf: Buffer, off: number, hd: RecordHeader): Mbp10Msg {
+  const b = off + HEADER_LEN;
+  const levels: BidAskPair[] = [];
+  for (let i = 0; i < MBP10_LEVELS; i++) levels.push(readLevel(buf, b + 32 + i * LEVEL_LEN));
+  return { kind: "mbp10", hd, ...readEvent(buf, b), levels };
+}
+
+function readMapping(buf: Buffer, off: number, len: number, hd: RecordHeader): SymbolMappingMsg {
+  const b = off + HEADER_LEN;
+  if (len < MAPPING_V2_LEN) {
+    // v1: in[22] out[22] pad[4] start end
+    return {
+      kind: "mapping", hd, stypeIn: null, stypeOut: null,
+      inSymbol: cstr(buf, b, 22), outSymbol: cstr(buf, b + 22, 22),
+      start: buf.readBigUInt64LE(b + 48), end: buf.readBigUInt64LE(b + 56),
+    };
+  }
+  // v2/v3: stype_in u8, in[71], stype_out u8, out[71], start, end
+  return {
+    kind: "mapping", hd,
+    stypeIn: buf.readUInt8(b), inSymbol: cstr(buf, b + 1, 71),
+    stypeOut: buf.readUInt8(b + 72), outSymbol: cstr(buf, b + 73, 71),
+    start: buf.readBigUInt64LE(b + 144), end: buf.readBigUInt64LE(b + 152),
+  };
+}
+
+function readSystem(buf: Buffer, off: number, len: number, hd: RecordHeader): SystemMsg {
+  const b = off + HEADER_LEN;
+  const v1 = len < SYSTEM_V2_LEN;
+  const msg = cstr(buf, b, v1 ? 64 : 303);
+  const code = v1 ? null : buf.readUInt8(b + 303);
+  // older gateways leave the code unset (255) and only say so in the text
+  const heartbeat = code === SYSTEM_CODE.HEARTBEAT || msg === "Heartbeat";
+  return { kind: "system", hd, msg, code, heartbeat };
+}
+
+function readError(buf: Buffer, off: number, len: number, hd: RecordHeader): ErrorMsg {
+  const b = off + HEADER_LEN;
+  if (len < SYSTEM_V2_LEN) return { kind: "error", hd, err: cstr(buf, b, 64), code: null, isLast: true };
+  return { kind: "error", hd, err: cstr(buf, b, 302), code: buf.readUInt8(b + 302), isLast: buf.readUInt8(b + 303) === 1 };
+}
+
+export function readRecord(buf: Buffer, off = 0): DbnRecord {
+  const len = buf.readUInt8(off) * 4;
+  const hd = readHeader(buf, off);
+  if (hd.rtype === RTYPE.MBP10 && len >= MBP10_LEN) return readMbp10(buf, off, hd);
+  if (hd.rtype === RTYPE.TRADE && len >= TRADE_LEN) return { kind: "trade", hd, ...readEvent(buf, off + HEADER_LEN) };
+  if (hd.rtype === RTYPE.MBP1 && len >= MBP1_LEN) {
+    return { kind: "mbp1", hd, ...readEvent(buf, off + HEADER_LEN), bbo: readLevel(buf, off + HEADER_LEN + 32) };
+  }
+  if (hd.rtype === RTYPE.SYMBOL_MAPPING && len >= MAPPING_V1_LEN) return readMapping(buf, off, len, hd);
+  if (hd.rtype === RTYPE.SYSTEM && len >= SYSTEM_V1_LEN) return readSystem(buf, off, len, hd);
+  if (hd.rtype === RTYPE.ERROR && len >= SYSTEM_V1_LEN) return readError(buf, off, len, hd);
+  return { kind: "other", hd, length: len };
+}
+
+/* -------------------------- stream decoder -------------------------- */
+/**
+ * Incremental decoder: push() socket chunks, get back complete events.
+ * Expects the metadata header first (a live session or a .dbn file);
+ * construct with { metadata: false } for a bare record stream.
+ */
+export class DbnDecoder {
+  private buf: Buffer = Buffer.alloc(0);
+  private needMeta: boolean;
+  meta: DbnMetadata | null = null;
+
+  constructor(opts: { metadata?: boolean } = {}) {
+    this.needMeta = opts.metadata ?? true;
+  }
+
+  /** Bytes held back waiting for the rest of a record. */
+  get pending() {
+    return this.buf.length;
+  }
+
+  push(chunk: Buffer): DbnEvent[] {
+    this.buf = this.buf.length ? Buffer.concat([this.buf, chunk]) : chunk;
+    const out: DbnEvent[] = [];
+    let off = 0;
+
+    if (this.needMeta) {
+      if (this.buf.length >= 3 && this.buf.toString("latin1", 0, 3) !== "DBN") throw new Error("dbn: missing metadata prefix");
+      if (this.buf.length < 8) return out;
+      const total = 8 + this.buf.readUInt32LE(4);
+      if (this.buf.length < total) return out;
+      this.meta = {
+        version: this.buf.readUInt8(3),
+        dataset: cstr(this.buf, 8, 16),
+        schema: this.buf.readUInt16LE(24),
+        start: this.buf.readBigUInt64LE(26),
+      };
+      out.push({ kind: "metadata", meta: this.meta });
+      this.needMeta = false;
+      off = total;
+    }
+
+    while (this.buf.length - off >= 1) {
+      const len = this.buf.readUInt8(off) * 4;
+      if (len < HEADER_LEN) throw new Error(`dbn: bad record length ${len} at ${off}`);
+      if (this.buf.length - off < len) break;
+      out.push(readRecord(this.buf, off));
+      off += len;
+    }
+    this.buf = off ? this.buf.subarray(off) : this.buf;
+    return out;
+  }
+}
+
+/** Decodes a whole (uncompressed) .dbn file. */
+export function decodeDbn(bytes: Buffer): { meta: DbnMetadata | null; records: DbnRecord[]; trailing: number } {
+  const d = new DbnDecoder();
+  const records = d.push(bytes).filter((e): e is DbnRecord => e.kind !== "metadata");
+  return { meta: d.meta, records, trailing: d.pending };
+}
+
+/** Best-first [px, sz] ladders from an MBP-10 record, empty levels dropped. */
+export function mbp10Ladders(m: Mbp10Msg): { bids: Array<[number, number]>; asks: Array<[number, number]> } {
+  const bids: Array<[number, number]> = [];
+  const asks: Array<[number, number]> = [];
+  for (const l of m.levels) {
+    if (l.bidPx != null && l.bidSz > 0) bids.push([l.bidPx, l.bidSz]);
+    if (l.askPx != null && l.askSz > 0) asks.push([l.askPx, l.askSz]);
+  }
+  return { bids, asks };
+}
+
+/* -------------------------- encoders -------------------------- */
+function toFixed(px: number | null) {
+  return px == null ? UNDEF_PRICE : BigInt(Math.round(px * PX_SCALE));
+}
+
+function header(len: number, rtype: number, instrumentId: number, tsEvent: bigint, publisherId = 1) {
+  const buf = Buffer.alloc(len);
+  buf.writeUInt8(len / 4, 0);
+  buf.writeUInt8(rtype, 1);
+  buf.writeUInt16LE(publisherId, 2);
+  buf.writeUInt32LE(instrumentId, 4);
+  buf.writeBigUInt64LE(tsEvent, 8);
+  return buf;
+}
+
+/** v2 metadata with no symbol lists (what a live session sends). */
+export function encodeMetadata(dataset: string, start: bigint, schema = 0): Buffer {
+  // dataset[16] schema u16 start u64 end u64 limit u64 stype_in u8 stype_out u8 ts_out u8
+  // symbol_cstr_len u16 reserved[53] schema_definition_length u32 + four empty u32-counted lists
+  const body = Buffer.alloc(16 + 2 + 8 + 8 + 8 + 3 + 2 + 53 + 4 + 16);
+  body.write(dataset.slice(0, 15), 0, "latin1");
+  body.writeUInt16LE(schema, 16);
+  body.writeBigUInt64LE(start, 18);
+  body.writeBigUInt64LE(UNDEF_PRICE * BigInt(2) + BigInt(1), 26); // end: UNDEF_TIMESTAMP
+  body.writeUInt8(1, 42); // stype_in raw_symbol
+  body.writeUInt8(0, 43); // stype_out instrument_id
+  body.writeUInt16LE(71, 45);
+  const pre = Buffer.alloc(8);
+  pre.write("DBN", 0, "latin1");
+  pre.writeUInt8(2, 3);
+  pre.writeUInt32LE(body.length, 4);
+  return Buffer.concat([pre, body]);
+}
+
+export function encodeSymbolMapping(instrumentId: number, symbol: string, tsEvent: bigint): Buffer {
+  const buf = header(MAPPING_V2_LEN, RTYPE.SYMBOL_MAPPING, instrumentId, tsEvent);
+  const b = HEADER_LEN;
+  buf.writeUInt8(1, b);
+  buf.write(symbol.slice(0, 70), b + 1, "latin1");
+  buf.writeUInt8(0, b + 72);
+  buf.write(String(instrumentId), b + 73, "latin1");
+  buf.writeBigUInt64LE(tsEvent, b + 144);
+  buf.writeBigUInt64LE(UNDEF_PRICE * BigInt(2) + BigInt(1), b + 152);
+  return buf;
+}
+
+export function encodeSystem(msg: string, code: number, tsEvent: bigint): Buffer {
+  const buf = header(SYSTEM_V2_LEN, RTYPE.SYSTEM, 0, tsEvent);
+  buf.write(msg.slice(0, 302), HEADER_LEN, "latin1");
+  buf.writeUInt8(code, HEADER_LEN + 303);
+  return buf;
+}
+
+export function encodeError(err: string, tsEvent: bigint, code = 0): Buffer {
+  const buf = header(SYSTEM_V2_LEN, RTYPE.ERROR, 0, tsEvent);
+  buf.write(err.slice(0, 301), HEADER_LEN, "latin1");
+  buf.writeUInt8(code, HEADER_LEN + 302);
+  buf.writeUInt8(1, HEADER_LEN + 303);
+  return buf;
+}
+
+export type Mbp10Input = {
+  instrumentId: number;
+  tsEvent: bigint;
+  tsRecv?: bigint;
+  sequence?: number;
+  action?: string;
+  side?: string;
+  price?: number | null;
+  size?: number;
+  /** best first; up to 10 each */
+  bids: Array<[number, number]>;
+  asks: Array<[number, number]>;
+};
+
+type EventInput = Omit<Mbp10Input, "bids" | "asks">;
+
+function writeEvent(buf: Buffer, r: EventInput, dfltAction: string) {
+  const b = HEADER_LEN;
+  buf.writeBigInt64LE(toFixed(r.price ?? null), b);
+  buf.writeUInt32LE(r.size ?? 0, b + 8);
+  buf.writeUInt8((r.action ?? dfltAction).charCodeAt(0), b + 12);
+  buf.writeUInt8((r.side ?? "N").charCodeAt(0), b + 13);
+  buf.writeUInt8(0x80, b + 14); // F_LAST
+  buf.writeUInt8(0, b + 15);
+  buf.writeBigUInt64LE(r.tsRecv ?? r.tsEvent, b + 16);
+  buf.writeInt32LE(0, b + 24);
+  buf.writeUInt32LE(r.sequence ?? 0, b + 28);
+}
+
+function writeLevel(buf: Buffer, l: number, bid: [number, number] | undefined, ask: [number, number] | undefined) {
+  buf.writeBigInt64LE(toFixed(bid ? bid[0] : null), l);
+  buf.writeBigInt64LE(toFixed(ask ? ask[0] : null), l + 8);
+  buf.writeUInt32LE(bid ? bid[1] : 0, l + 16);
+  buf.writeUInt32LE(ask ? ask[1] : 0, l + 20);
+  buf.writeUInt32LE(bid ? 1 : 0, l + 24);
+  buf.writeUInt32LE(ask ? 1 : 0, l + 28);
+}
+
+export function encodeMbp10(r: Mbp10Input): Buffer {
+  const buf = header(MBP10_LEN, RTYPE.MBP10, r.instrumentId, r.tsEvent);
+  writeEvent(buf, r, "A");
+  for (let i = 0; i < MBP10_LEVELS; i++) writeLevel(buf, HEADER_LEN + 32 + i * LEVEL_LEN, r.bids[i], r.asks[i]);
+  return buf;
+}
+
+/** A `trades` record, or a `tbbo` one (MBP-1, action T) when the quote before it is given. */
+export function encodeTrade(r: EventInput & { price: number; size: number; bbo?: { bid: [number, number]; ask: [number, number] } }): Buffer {
+  const buf = header(r.bbo ? MBP1_LEN : TRADE_LEN, r.bbo ? RTYPE.MBP1 : RTYPE.TRADE, r.instrumentId, r.tsEvent);
+  writeEvent(buf, r, "T");
+  if (r.bbo) writeLevel(buf, HEADER_LEN + 32, r.bbo.bid, r.bbo.ask);
+  return buf;
+}
@@ -0,0 +1,244 @@
+// lib/decisionJournal.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Per-tick decision journal (TickDecision rows). The tick route fills a
+//  TickDecisionDraft as it runs and hands it to recordTickDecision() at
+//  the end. Quiet ticks (idle / holding / unchanged scans) are sampled so
+//  dashboard polling doesn't write a row every 200ms: a row is kept when
+//  anything in the decision changes, or once per ET minute otherwise.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { nowET, yyyyMmDdET } from "./market";
+import type { EntryEval, L2Check, ShortEval, Sentiment } from "./strategy";
+
+export type TickAction =
+  | "entered"      // an entry was placed this tick
+  | "exited"       // mandatory / manual exit this tick
+  | "skipped"      // a scan/force window ran and did not enter
+  | "holding"      // position open, ratchet only
+  | "idle"         // no window active (or day already locked)
+  | "closed"       // weekend / outside market hours
+  | "error";
+
+/** Compact per-symbol verdict: signal flags plus the spread/liquidity gates. */
+export type SymbolVerdict = {
+  eligible: boolean;
+  armed: boolean;
+  armedMomentum: boolean;
+  armedDip: boolean;
+  armedHigherLow: boolean;
+  refPrice: number | null;
+  /** why it was ineligible (price_band, spread_guard, liquidity, no_day_candles) */
+  reason: string | null;
+  spreadOK: boolean | null;
+  spreadLimitPct: number | null;
+  liquidityOK: boolean | null;
+  volPulse: number | null;
+  volMin: number | null;
+  qualityScore?: number;
+  /** scan windows: the entry setup that matched (lib/strategySetups.ts), null for none */
+  setup?: string | null;
+  /** force windows: veto / weak-flag outcome from assessObviousWeakAtForce */
+  force?: { proceed: boolean; veto: string | null; flags: string[] };
+  /** L2 composite at evaluation (lib/l2Store.ts l2Reading), recorded whether or not it's enforced */
+  l2?: L2Check;
+  /** red-breadth short scan (evaluateShortSignals) */
+  short?: { armed: boolean; failedBreakout: boolean; vwapReject: boolean; reason: string | null };
+};
+
+export type BreadthVerdict = {
+  sentiment: Sentiment;
+  above?: number;
+  denom?: number;
+  ratio?: number;
+  explain?: string;
+  reason?: string;
+};
+
+export type TickDecisionDraft = {
+  window: string | null;
+  candidates: string[];
+  picks: string[];
+  signals: Record<string, SymbolVerdict>;
+  breadth: BreadthVerdict | null;
+  action: TickAction;
+  ticker: string | null;
+};
+
+export type TickDecisionRow = {
+  id: number;
+  at: Date;
+  day: string;
+  window: string | null;
+  action: TickAction;
+  ticker: string | null;
+  candidates: string[] | null;
+  picks: string[] | null;
+  signals: Record<string, SymbolVerdict> | null;
+  breadth: BreadthVerdict | null;
+  reasons: string[] | null;
+  configVersion: number | null;
+};
+
+export function newTickDecision(): TickDecisionDraft {
+  return { window: null, candidates: [], picks: [], signals: {}, breadth: null, action: "idle", ticker: null };
+}
+
+/**
+ * Note that `name` ran this tick. Several can run in one tick (e.g. prescan
+ * + scan); keep them all. An entry window that ran without entering is
+ * "skipped" unless something later upgrades the action.
+ */
+export function markWindow(d: TickDecisionDraft, name: string, entryWindow = true) {
+  if (!d.window) d.window = name;
+  else if (!d.window.split(",").includes(name)) d.window = `${d.window},${name}`;
+  if (entryWindow && d.action === "idle") d.action = "skipped";
+}
+
+export function verdictFromEval(ev: EntryEval): SymbolVerdict {
+  const num = (x: any) => (Number.isFinite(Number(x)) ? Number(x) : null);
+  return {
+    eligible: !!ev.eligible,
+    armed: !!ev.armed,
+    armedMomentum: !!ev.armedMomentum,
+    armedDip: !!ev.armedDip,
+    armedHigherLow: !!ev.armedHigherLow,
+    refPrice: num(ev.refPrice),
+    reason: ev.meta?.reason ?? null,
+    spreadOK: typeof ev.debug?.spread?.spreadOK === "boolean" ? ev.debug.spread.spreadOK : null,
+    spreadLimitPct: num(ev.debug?.spread?.limitPct),
+    liquidityOK: typeof ev.debug?.liquidity?.ok === "boolean" ? ev.debug.liquidity.ok : null,
+    volPulse: num(ev.debug?.volPulse),
+    volMin: num(ev.debug?.VOL_MULT_MIN),
+    ...(ev.l2 ? { l2: ev.l2 } : {}),
+  };
+}
+
+/** Adds the short-scan outcome to whatever verdict the long side already recorded for the symbol. */
+export function withShortVerdict(prev: SymbolVerdict | undefined, ev: ShortEval): SymbolVerdict {
+  const num = (x: any) => (Number.isFinite(Number(x)) ? Number(x) : null);
+  const base: SymbolVerdict = prev ?? {
+    eligible: !!ev.eligible,
+    armed: false,
+    armedMomentum: false,
+    armedDip: false,
+    armedHigherLow: false,
+    refPrice: num(ev.refPrice),
+    reason: ev.meta?.reason ?? null,
+    spreadOK: typeof ev.debug?.spread?.spreadOK === "boolean" ? ev.debug.spread.spreadOK : null,
+    spreadLimitPct: num(ev.debug?.spread?.limitPct),
+    liquidityOK: typeof ev.debug?.liquidity?.ok === "boolean" ? ev.debug.liquidity.ok : null,
+    volPulse: num(ev.debug?.volPulse),
+    volMin: num(ev.debug?.VOL_MULT_MIN),
+  };
+  return {
+    ...base,
+    short: { armed: !!ev.armed, failedBreakout: !!ev.armedFailedBreakout, vwapReject: !!ev.armedVwapReject, reason: ev.meta?.reason ?? null },
+  };
+}
+
+export function breadthFromDetails(sentiment: Sentiment, details: any): BreadthVerdict {
+  const num = (x: any) => (Number.isFinite(Number(x)) ? Number(x) : undefined);
+  return {
+    sentiment,
+    above: num(details?.above),
+    denom: num(details?.denom),
+    ratio: num(details?.ratio),
+    explain: typeof details?.explain === "string" ? details.explain : undefined,
+    reason: typeof details?.reason === "string" ? details.reason : undefined,
+  };
+}
+
+/* -------------------------- write (sampled) -------------------------- */
+const ALWAYS_KEEP: TickAction[] = ["entered", "exited", "error"];
+let _lastKept: { sig: string; minute: string } | null = null;
+
+function signature(d: TickDecisionDraft) {
+  const sig = {
+    w: d.window,
+    a: d.action,
+    t: d.ticker,
+    p: d.picks,
+    s: Object.fromEntries(
+      Object.entries(d.signals).map(([k, v]) => [k, [v.eligible, v.armed, v.reason, v.spreadOK, v.liquidityOK, v.force?.proceed, v.setup, v.l2?.status]])
+    ),
+    b: d.breadth?.sentiment ?? null,
+  };
+  return JSON.stringify(sig);
+}
+
+/**
+ * Persist the draft (best-effort — a journal failure must never break a
+ * tick). Returns true when a row was written.
+ */
+export async function recordTickDecision(
+  d: TickDecisionDraft,
+  extra: { reasons?: string[]; configVersion?: number | null } = {}
+): Promise<boolean> {
+  try {
+    const et = nowET();
+    const minute = `${yyyyMmDdET()} ${et.getHours()}:${et.getMinutes()}`;
+    const sig = signature(d);
+    const keep =
+      ALWAYS_KEEP.includes(d.action) ||
+      !_lastKept ||
+      _lastKept.sig !== sig ||
+      _lastKept.minute !== minute;
+    if (!keep) return false;
+
+    await prisma.tickDecision.create({
+      data: {
+        day: yyyyMmDdET(),
+        window: d.window,
+        action: d.action,
+        ticker: d.ticker,
+        candidates: d.candidates,
+        picks: d.picks,
+        signals: d.signals,
+        breadth: d.breadth ?? undefined,
+        reasons: (extra.reasons ?? []).slice(0, 200),
+        configVersion: extra.configVersion ?? null,
+      },
+    });
+    _lastKept = { sig, minute };
+    return true;
+  } catch (e: any) {
+    console.warn("[decisionJournal] write failed:", e?.message || e);
+    return false;
+  }
+}
+
+/* -------------------------- read -------------------------- */
+export type TickDecisionQuery = {
+  /** ET day, YYYY-MM-DD (defaults to today) */
+  day?: string;
+  /** ISO bounds on `at` (override `day` when given) */
+  from?: string;
+  to?: string;
+  window?: string;
+  action?: TickAction;
+  ticker?: string;
+  /** rows with id < before (paging backwards) */
+  before?: number;
+  limit?: number;
+  order?: "asc" | "desc";
+};
+
+export async function listTickDecisions(q: TickDecisionQuery = {}): Promise<TickDecisionRow[]> {
+  const where: any = {};
+  if (q.from || q.to) {
+    where.at = {};
+    if (q.from) where.at.gte = new Date(q.from);
+    if (q.to) where.at.lte = new Date(q.to);
+  } else {
+    where.day = q.day || yyyyMmDdET();
+  }
+  if (q.window) where.window = { contains: q.window };
+  if (q.action) where.action = q.action;
+  if (q.ticker) where.OR = [{ ticker: q.ticker }, { picks: { array_contains: [q.ticker] } }];
+  if (q.before) where.id = { lt: q.before };
+
+  const take = Math.max(1, Math.min(Number(q.limit) || 200, 1000));
+  return prisma.tickDecision.findMany({ where, orderBy: { id: q.order === "asc" ? "asc" : "desc" }, take });
+}
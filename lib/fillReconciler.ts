@@ -0,0 +1,244 @@
+// lib/fillReconciler.ts
+
+// ─────────────────────────────────────────────────────────────
+//  The one path from a broker order update to the books.
+//  Callers: /api/alpaca/webhook and scripts/alpaca-listener.ts
+//  (trade_updates), /api/alpaca/sync (polled orders), and the tick /
+//  force-buy right after they submit.
+//  Each update is logged in LedgerEvent under an idempotency key:
+//    "exec:<execution id>"   when the update carries one (fill events)
+//    "<order id>:<hash>"     otherwise, over the order's state and legs
+//  An applied key is a no-op. A key whose first attempt died half-way is
+//  applied again, which is safe: the order ledger only books growth of
+//  the cumulative filled qty and settles each Fill once.
+// ─────────────────────────────────────────────────────────────
+
+import { createHash } from "crypto";
+import { prisma } from "./prisma";
+import { getBroker } from "./broker";
+import { getActiveStrategyConfig } from "./strategyConfig";
+import {
+  recordBrokerOrder,
+  settlePositions,
+  settlePending,
+  OPEN_ORDER_STATUSES,
+  type LedgerSource,
+  type LedgerUpdate,
+} from "./orderLedger";
+
+export type OrderUpdate = {
+  /** Alpaca wire shape, legs nested or not */
+  order: any;
+  source: LedgerSource;
+  event?: string | null;
+  executionId?: string | null;
+  positionId?: number | null;
+  /** Adopt a filled buy with no local position as a new long (polling only) */
+  adoptUnknown?: boolean;
+};
+
+export type ReconcileResult = LedgerUpdate & { key: string; duplicate: boolean; adopted: boolean };
+
+const NOTHING: LedgerUpdate = { orderId: null, positionId: null, newFills: 0, positions: [] };
+
+/* -------------------------- idempotency key -------------------------- */
+function stateOf(o: any): string {
+  const own = [
+    o?.id, o?.status, o?.filled_qty ?? 0, o?.filled_avg_price ?? "",
+    o?.limit_price ?? "", o?.stop_price ?? "", o?.replaced_by ?? "",
+  ].join("|");
+  const legs = Array.isArray(o?.legs) ? o.legs.map(stateOf).join(",") : "";
+  return legs ? `${own}[${legs}]` : own;
+}
+
+export function updateKey(u: OrderUpdate): string {
+  if (u.executionId) return `exec:${u.executionId}`;
+  const h = createHash("sha1")
+    .update([u.event ?? "", u.positionId ?? "", stateOf(u.order)].join("#"))
+    .digest("hex");
+  return `${String(u.order?.id ?? "")}:${h}`;
+}
+
+/* -------------------------- adoption -------------------------- */
+/** Longest the tick / force-buy wait for an entry fill after submitting. */
+export const ENTRY_FILL_WAIT_MS = 20_000;
+/**
+ * Younger orders may still be linked by the tick / force-buy that placed
+ * them; adopting first would race their Position insert.
+ */
+const ADOPT_MIN_AGE_MS = 3 * ENTRY_FILL_WAIT_MS;
+
+function orderAgeMs(o: any, now = Date.now()) {
+  const t = Date.parse(String(o?.submitted_at ?? o?.created_at ?? ""));
+  return Number.isFinite(t) ? now - t : Infinity;
+}
+
+// A filled buy we have no position for (placed outside the bot, or the
+// tick died between submit and insert) becomes a long.
+async function adoptAsLong(o: any) {
+  const qty = Math.floor(Number(o?.filled_qty));
+  const avg = Number(o?.filled_avg_price);
+  if (String(o?.side).toLowerCase() !== "buy" || o?.parent_order_id) return null;
+  if (!(qty > 0) || !(avg > 0)) return null;
+  const { version: configVersion } = await getActiveStrategyConfig();
+  return prisma.position.create({
+    data: {
+      ticker: String(o.symbol).toUpperCase(),
+      entryPrice: avg,
+      shares: qty,
+      open: true,
+      brokerOrderId: String(o.id),
+      configVersion,
+    },
+  });
+}
+
+/* -------------------------- reconcile -------------------------- */
+export async function reconcileOrderUpdate(u: OrderUpdate): Promise<ReconcileResult> {
+  const o = u.order;
+  const key = updateKey(u);
+  if (!o?.id) return { ...NOTHING, key, duplicate: false, adopted: false };
+
+  let ev = await prisma.ledgerEvent.findUnique({ where: { key } });
+  if (ev?.appliedAt) return { ...NOTHING, ...(ev.result as any), key, duplicate: true, adopted: false };
+  if (!ev) {
+    try {
+      ev = await prisma.ledgerEvent.create({
+        data: {
+          key,
+          source: u.source,
+          brokerOrderId: String(o.id),
+          event: u.event ?? null,
+          executionId: u.executionId ?? null,
+          payload: o,
+        },
+      });
+    } catch (e: any) {
+      if (e?.code !== "P2002") throw e;
+      // a concurrent delivery of the same update owns it
+      return { ...NOTHING, key, duplicate: true, adopted: false };
+    }
+  }
+
+  let r = await recordBrokerOrder(o, {
+    source: u.source,
+    positionId: u.positionId,
+    event: u.event,
+    executionId: u.executionId,
+  });
+
+  let adopted = false;
+  let deferred = false;
+  if (u.adoptUnknown && r.orderId != null && r.positionId == null) {
+    // left unapplied, so the next poll of the same state retries the adoption
+    deferred = orderAgeMs(o) < ADOPT_MIN_AGE_MS;
+  }
+  if (u.adoptUnknown && !deferred && r.orderId != null && r.positionId == null) {
+    const pos = await adoptAsLong(o);
+    if (pos) {
+      const linked = await recordBrokerOrder(o, { source: u.source, positionId: pos.id });
+      r = { ...linked, newFills: r.newFills + linked.newFills, positions: Array.from(new Set([...r.positions, ...linked.positions])) };
+      adopted = true;
+    }
+  }
+
+  if (r.positions.length) await settlePositions(r.positions);
+  if (deferred) return { ...r, key, duplicate: false, adopted: false };
+
+  await prisma.ledgerEvent.update({
+    where: { id: ev.id },
+    data: { appliedAt: new Date(), result: { orderId: r.orderId, positionId: r.positionId, newFills: r.newFills, positions: r.positions } },
+  });
+  return { ...r, key, duplicate: false, adopted };
+}
+
+/** A batch of polled orders, then any fills a crashed earlier pass left unsettled. */
+export async function reconcileOrders(orders: any[], opts: { source: LedgerSource; adoptUnknown?: boolean }) {
+  let applied = 0, duplicates = 0, newFills = 0, adopted = 0;
+  const positions = new Set<number>();
+  for (const order of orders) {
+    const r = await reconcileOrderUpdate({ order, ...opts });
+    if (r.duplicate) { duplicates++; continue; }
+    applied++;
+    newFills += r.newFills;
+    if (r.adopted) adopted++;
+    for (const id of r.positions) positions.add(id);
+  }
+  for (const id of await settlePending()) positions.add(id);
+  return { applied, duplicates, newFills, adopted, positions: positions.size };
+}
+
+/**
+ * Poll the broker for orders submitted in [after, until] and reconcile
+ * them (/api/alpaca/sync, and the stream listener after a reconnect).
+ */
+export async function reconcileRecentOrders(opts: { source: LedgerSource; afterISO: string; untilISO?: string }) {
+  const ordersRaw = await getBroker().listOrders({
+    status: "all",
+    limit: 200,
+    nested: true,
+    after: opts.afterISO,
+    ...(opts.untilISO ? { until: opts.untilISO } : {}),
+    direction: "asc", // oldest first so entries are linked before their exits
+  });
+
+  const parents = (Array.isArray(ordersRaw) ? ordersRaw : []).filter((o: any) => {
+    const side = String(o?.side ?? "").toLowerCase();
+    return !!o?.id && (side === "buy" || side === "sell");
+  });
+  const checked = parents.reduce((a: number, o: any) => a + 1 + (Array.isArray(o?.legs) ? o.legs.length : 0), 0);
+
+  const res = await reconcileOrders(parents, { source: opts.source, adoptUnknown: true });
+  return { checked, ...res, afterISO: opts.afterISO, untilISO: opts.untilISO || null };
+}
+
+/**
+ * Re-read every order the books still have as working and reconcile it.
+ * `after=` above filters on submit time, so a bracket leg of an older
+ * entry that filled while the stream was down only turns up here.
+ * An order the broker no longer knows is skipped; any other failure is
+ * thrown once the rest are done, so the caller can retry the pass.
+ */
+export async function reconcileOpenOrders(opts: { source: LedgerSource }) {
+  const rows = await prisma.order.findMany({
+    where: { status: { in: OPEN_ORDER_STATUSES } },
+    select: { brokerOrderId: true },
+    orderBy: { id: "asc" },
+  });
+
+  const orders: any[] = [];
+  let missing = 0;
+  const failed: string[] = [];
+  for (const { brokerOrderId } of rows) {
+    try {
+      const o = await getBroker().getOrder(brokerOrderId);
+      if (o) orders.push(o); else missing++;
+    } catch (e: any) {
+      if (e?.status === 404) missing++;
+      else failed.push(`${brokerOrderId}: ${e?.message || e}`);
+    }
+  }
+
+  const res = await reconcileOrders(orders, { source: opts.source });
+  if (failed.length) throw new Error(`open orders not re-read (${failed.length}): ${failed.join("; ")}`);
+  return { checked: rows.length, missing, ...res };
+}
+
+/** Re-read an order (legs nested) from the broker and reconcile it. */
+export async function syncOrderFromBroker(
+  brokerOrderId: string,
+  opts: { source: LedgerSource; positionId?: number | null }
+): Promise<ReconcileResult | null> {
+  const order = await getBroker().getOrder(brokerOrderId);
+  if (!order) return null;
+  return reconcileOrderUpdate({ order, ...opts });
+}
+
+/** New orders a TP/SL replace produced; best-effort, the poller catches anything missed. */
+export async function recordReplacements(orders: any[] | undefined, opts: { source: LedgerSource; positionId?: number | null }) {
+  for (const order of orders ?? []) {
+    try { await reconcileOrderUpdate({ order, ...opts }); } catch (e: any) {
+      console.warn("[fillReconciler] replace not recorded:", order?.id, e?.message || e);
+    }
+  }
+}
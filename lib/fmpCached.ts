@@ -9,6 +9,7 @@ const TTL_RATIOS_MS  = 60 * 60 * 1000; // 60 min
 const TTL_NEWS_MS    = 15 * 60 * 1000; // 15 min
 const TTL_QUOTE_MS   = 20 * 1000;      // 20 sec
 const TTL_AVGVOL_MS  = 30 * 60 * 1000; // 30 min
+const TTL_FLOAT_MS   = 60 * 60 * 1000; // 60 min
 
 // ---- Caches ----
 const cacheProfile = createTTLCache<any>(TTL_PROFILE_MS);
@@ -16,11 +17,16 @@ const cacheRatios  = createTTLCache<any>(TTL_RATIOS_MS);
 const cacheNews    = createTTLCache<any>(TTL_NEWS_MS);
 const cacheQuote   = createTTLCache<any>(TTL_QUOTE_MS);
 const cacheAvgVol  = createTTLCache<number | null>(TTL_AVGVOL_MS);
+const cacheFloat   = createTTLCache<any>(TTL_FLOAT_MS);
 
 // ---- Minimal fetcher ----
 async function _fmpFetchJSON(url: string) {
   const r = await fetch(url, { cache: "no-store" });
-  if (!r.ok) throw new Error(`FMP ${r.status}`);
+  if (!r.ok) {
+    const err = new Error(`FMP ${r.status}`);
+    (err as any).status = r.status; // 429 → lib/marketData.ts fails over
+    throw err;
+  }
   return r.json();
 }
 
@@ -50,6 +56,19 @@ async function _quote(ticker: string) {
   return Array.isArray(j) && j.length ? j[0] : null;
 }
 
+async function _float(ticker: string) {
+  const u = `https://financialmodelingprep.com/api/v4/shares_float?symbol=${ticker}&apikey=${FMP_API_KEY}`;
+  const j = await _fmpFetchJSON(u);
+  return Array.isArray(j) && j.length ? j[0] : null;
+}
+
+/** 1-minute bars, newest first, `date` in ET wall time ("YYYY-MM-DD HH:mm:ss"); not cached. */
+export async function fmpBars1m(ticker: string, fromYMD: string, toYMD: string): Promise<any[]> {
+  const u = `https://financialmodelingprep.com/api/v3/historical-chart/1min/${ticker}?from=${fromYMD}&to=${toYMD}&apikey=${FMP_API_KEY}`;
+  const j = await _fmpFetchJSON(u);
+  return Array.isArray(j) ? j : [];
+}
+
 // ---- NEW: batched quotes (1 call for many tickers) ----
 export async function fmpQuoteManyCached(tickers: string[]): Promise<Record<string, any>> {
   const wanted = Array.from(new Set(tickers.map(t => String(t).toUpperCase()).filter(Boolean)));
@@ -88,10 +107,26 @@ async function _avgVolFromHistory(ticker: string): Promise<number | null> {
   return n ? Math.round(sum / n) : null;
 }
 
+// ---- Cached wrappers that throw (lib/marketData.ts needs the HTTP status) ----
+export function fmpProfileCachedOrThrow(ticker: string) {
+  return cacheProfile.getOrSet(`profile:${ticker.toUpperCase()}`, () => _profile(ticker), TTL_PROFILE_MS);
+}
+
+export function fmpNewsCachedOrThrow(ticker: string, limit = 3) {
+  return cacheNews.getOrSet(`news:${ticker.toUpperCase()}:${limit}`, () => _news(ticker, limit), TTL_NEWS_MS);
+}
+
+export function fmpQuoteCachedOrThrow(ticker: string) {
+  return cacheQuote.getOrSet(`quote:${ticker.toUpperCase()}`, () => _quote(ticker), TTL_QUOTE_MS);
+}
+
+export function fmpFloatCachedOrThrow(ticker: string) {
+  return cacheFloat.getOrSet(`float:${ticker.toUpperCase()}`, () => _float(ticker), TTL_FLOAT_MS);
+}
+
 // ---- Cached wrappers (single) ----
 export async function fmpProfileCached(ticker: string) {
-  const key = `profile:${ticker.toUpperCase()}`;
-  return cacheProfile.getOrSet(key, () => _profile(ticker), TTL_PROFILE_MS).catch(() => null);
+  return fmpProfileCachedOrThrow(ticker).catch(() => null);
 }
 
 export async function fmpRatiosTTMCached(ticker: string) {
@@ -100,13 +135,11 @@ export async function fmpRatiosTTMCached(ticker: string) {
 }
 
 export async function fmpNewsCached(ticker: string, limit = 3) {
-  const key = `news:${ticker.toUpperCase()}:${limit}`;
-  return cacheNews.getOrSet(key, () => _news(ticker, limit), TTL_NEWS_MS).catch(() => []);
+  return fmpNewsCachedOrThrow(ticker, limit).catch(() => []);
 }
 
 export async function fmpQuoteCached(ticker: string) {
-  const key = `quote:${ticker.toUpperCase()}`;
-  return cacheQuote.getOrSet(key, () => _quote(ticker), TTL_QUOTE_MS).catch(() => null);
+  return fmpQuoteCachedOrThrow(ticker).catch(() => null);
 }
 
 /**
@@ -0,0 +1,589 @@
+// lib/ibkrBroker.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Interactive Brokers execution adapter (TWS / IB Gateway via `ib`).
+//  - Implements Broker (lib/broker.ts); selected with BROKER=ibkr.
+//  - Orders come back in Alpaca's wire shape so the tick route, the
+//    order ledger and the reconciler need no IB branches:
+//      id "ib-<clientId>-<orderId>", BUY/SELL → buy/sell,
+//      MKT/LMT/STP → market/limit/stop, IB status → Alpaca status
+//  - Brackets are the usual IB pattern: parent (transmit=false), LMT
+//    target and STP stop with parentId, the stop transmits all three.
+//  - TP/SL modification re-places the leg under the same orderId, so
+//    (like the sim) a replace keeps its id.
+//  - Execution reports (execDetails, once per execId) and status changes
+//    are pushed to the fill reconciler, which derives Position / Trade as
+//    for Alpaca. Exec times are read as New York time unless TWS says.
+//  Env: IB_HOST, IB_PORT (shared with lib/ibkrDepth.ts) and
+//  IB_TRADING_CLIENT_ID (default IB_CLIENT_ID + 1, so it can run next
+//  to the depth session). Pass `client` to run against a stub instead
+//  (scripts/ibkr-fake.ts).
+// ─────────────────────────────────────────────────────────────
+
+import type {
+  Broker,
+  BrokerOrder,
+  BrokerPosition,
+  BrokerAccount,
+  BrokerQuote,
+  BracketParams,
+  MarketParams,
+  ListOrdersParams,
+  ReplaceTpSlParams,
+  ReplaceTpSlResult,
+  Shortability,
+} from "./broker";
+import { tickSizeFor, ceilToTick, floorToTick, decsForTick } from "./alpaca";
+import { etWallToISO, wallToISO } from "./marketData";
+
+/** The part of the `ib` client this adapter uses (the fake in scripts/ibkr-fake.ts implements the same). */
+export interface IbClient {
+  connect(): unknown;
+  disconnect(): unknown;
+  on(event: string, fn: (...args: any[]) => void): unknown;
+  once(event: string, fn: (...args: any[]) => void): unknown;
+  removeListener(event: string, fn: (...args: any[]) => void): unknown;
+  reqIds(numIds: number): unknown;
+  placeOrder(id: number, contract: any, order: any): unknown;
+  cancelOrder(id: number): unknown;
+  reqGlobalCancel(): unknown;
+  reqAllOpenOrders(): unknown;
+  reqPositions(): unknown;
+  reqAccountSummary(reqId: number, group: string, tags: string): unknown;
+  cancelAccountSummary(reqId: number): unknown;
+  reqExecutions(reqId: number, filter: any): unknown;
+  reqMktData(tickerId: number, contract: any, genericTickList: string, snapshot: boolean, regulatorySnapshot: boolean): unknown;
+  cancelMktData(tickerId: number): unknown;
+}
+
+/** An order update for the books (same shape the Alpaca webhook delivers). */
+export type IbOrderUpdate = { order: BrokerOrder; event: string; executionId: string | null };
+
+export type IbkrBrokerOptions = {
+  client?: IbClient;
+  host?: string;
+  port?: number;
+  clientId?: number;
+  /** Where execution reports / status changes go; defaults to the fill reconciler */
+  onOrderUpdate?: (u: IbOrderUpdate) => Promise<void>;
+  /** ms to wait for a request's *End event */
+  timeoutMs?: number;
+};
+
+type IbOrderRow = {
+  orderId: number;
+  symbol: string;
+  order: any;             // IB order object as placed / reported
+  status: string;         // IB status
+  filled: number;
+  avgFillPrice: number;
+  parentId: number;
+  submittedAt: string;
+  filledAt: string | null;
+};
+
+/* -------------------------- mapping -------------------------- */
+const STATUS: Record<string, string> = {
+  ApiPending: "pending_new",
+  PendingSubmit: "pending_new",
+  PreSubmitted: "accepted",
+  Submitted: "new",
+  PendingCancel: "pending_cancel",
+  ApiCancelled: "canceled",
+  Cancelled: "canceled",
+  Filled: "filled",
+  Inactive: "rejected",
+};
+const OPEN_IB = new Set(["ApiPending", "PendingSubmit", "PreSubmitted", "Submitted"]);
+const TYPE: Record<string, BrokerOrder["type"]> = { MKT: "market", LMT: "limit", STP: "stop", "STP LMT": "stop_limit" };
+
+function stock(symbol: string) {
+  return { symbol: symbol.toUpperCase(), secType: "STK", exchange: "SMART", currency: "USD" };
+}
+
+/**
+ * execDetails time → ISO, else now. TWS sends "yyyymmdd  hh:mm:ss" in the
+ * login's time zone, newer versions append the zone ("… US/Eastern") or
+ * send UTC as "yyyymmdd-hh:mm:ss". Without a zone it's New York time (the
+ * US-equities login default), never this server's own zone.
+ */
+function execTimeISO(t: any): string {
+  const m = String(t ?? "").trim().match(/^(\d{4})(\d{2})(\d{2})(-|\s+)(\d{2}):(\d{2}):(\d{2})(?:\s+(\S+))?$/);
+  if (!m) return new Date().toISOString();
+  const wall = `${m[1]}-${m[2]}-${m[3]} ${m[5]}:${m[6]}:${m[7]}`;
+  const zone = m[8] ?? (m[4] === "-" ? "UTC" : null);
+  let iso: string | null = null;
+  if (zone) {
+    try {
+      iso = wallToISO(wall, zone);
+    } catch {
+      console.error("[IBKR] unknown time zone in execution time, assuming New York:", t);
+    }
+  }
+  return iso ?? etWallToISO(wall) ?? new Date().toISOString();
+}
+
+/* -------------------------- adapter -------------------------- */
+export class IbkrBroker implements Broker {
+  readonly name = "ibkr" as const;
+  private ib: IbClient | null = null;
+  private ready: Promise<void> | null = null;
+  private nextId = 0;
+  private reqSeq = 7000;
+  private rows = new Map<number, IbOrderRow>();
+  private execSeen = new Set<string>();
+  private readonly clientId: number;
+
+  constructor(private opts: IbkrBrokerOptions = {}) {
+    this.clientId = opts.clientId ?? Number(process.env.IB_TRADING_CLIENT_ID || Number(process.env.IB_CLIENT_ID || 33) + 1);
+  }
+
+  /* ---- connection ---- */
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+    this.ready = new Promise<void>((resolve, reject) => {
+      const ib: IbClient = this.opts.client ?? (() => {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const IB = require("ib");
+        return new IB({
+          host: this.opts.host ?? process.env.IB_HOST ?? "127.0.0.1",
+          port: this.opts.port ?? Number(process.env.IB_PORT || 7497),
+          clientId: this.clientId,
+        });
+      })();
+      this.ib = ib;
+
+      const timer = setTimeout(() => {
+        this.ready = null;
+        reject(new Error("IBKR: no nextValidId from TWS/Gateway"));
+      }, this.timeoutMs);
+
+      ib.on("nextValidId", (id: number) => {
+        this.nextId = Math.max(this.nextId, Number(id));
+        clearTimeout(timer);
+        resolve();
+      });
+      ib.on("error", (err: any, data?: any) => {
+        const msg = String(err?.message ?? err ?? "");
+        if (/farm connection is OK/i.test(msg)) return;
+        console.error("[IBKR]", msg, data?.id ?? "");
+      });
+      ib.on("disconnected", () => { this.ready = null; });
+      ib.on("openOrder", (orderId: number, contract: any, order: any, orderState: any) => {
+        this.upsertRow(orderId, contract?.symbol, order, orderState?.status);
+      });
+      ib.on("orderStatus", (orderId: number, status: string, filled: number, _remaining: number, avgFillPrice: number, _permId: number, parentId: number) => {
+        this.onStatus(orderId, status, Number(filled), Number(avgFillPrice), Number(parentId));
+      });
+      ib.on("execDetails", (_reqId: number, contract: any, exec: any) => this.onExecution(contract, exec));
+
+      ib.connect();
+    });
+    return this.ready;
+  }
+
+  private get timeoutMs() {
+    return this.opts.timeoutMs ?? 8_000;
+  }
+
+  private async client(): Promise<IbClient> {
+    await this.connect();
+    return this.ib!;
+  }
+
+  /** Fire a request and collect `event` payloads until `endEvent` (or the timeout). */
+  private async collect<T>(
+    send: (ib: IbClient, reqId: number) => void,
+    event: string,
+    endEvent: string,
+    pick: (reqId: number, ...args: any[]) => T | undefined,
+    endMatches: (reqId: number, ...args: any[]) => boolean = () => true
+  ): Promise<T[]> {
+    const ib = await this.client();
+    const reqId = ++this.reqSeq;
+    const out: T[] = [];
+    return new Promise<T[]>((resolve) => {
+      const onEvent = (...args: any[]) => {
+        const v = pick(reqId, ...args);
+        if (v !== undefined) out.push(v);
+      };
+      const finish = () => {
+        clearTimeout(timer);
+        ib.removeListener(event, onEvent);
+        ib.removeListener(endEvent, onEnd);
+        resolve(out);
+      };
+      const onEnd = (...args: any[]) => { if (endMatches(reqId, ...args)) finish(); };
+      const timer = setTimeout(finish, this.timeoutMs);
+      ib.on(event, onEvent);
+      ib.on(endEvent, onEnd);
+      send(ib, reqId);
+    });
+  }
+
+  /* ---- order book ---- */
+  private upsertRow(orderId: number, symbol: string | undefined, order: any, ibStatus?: string) {
+    const prev = this.rows.get(orderId);
+    const row: IbOrderRow = {
+      orderId,
+      symbol: String(symbol ?? prev?.symbol ?? "").toUpperCase(),
+      order: { ...(prev?.order ?? {}), ...(order ?? {}) },
+      status: ibStatus || prev?.status || "PendingSubmit",
+      filled: prev?.filled ?? 0,
+      avgFillPrice: prev?.avgFillPrice ?? 0,
+      parentId: Number(order?.parentId ?? prev?.parentId ?? 0),
+      submittedAt: prev?.submittedAt ?? new Date().toISOString(),
+      filledAt: prev?.filledAt ?? null,
+    };
+    this.rows.set(orderId, row);
+    return row;
+  }
+
+  private wireId(orderId: number) {
+    return `ib-${this.clientId}-${orderId}`;
+  }
+
+  private orderIdOf(id: string): number | null {
+    const m = String(id).match(/^ib-\d+-(\d+)$/);
+    return m ? Number(m[1]) : null;
+  }
+
+  private toWire(row: IbOrderRow, withLegs = true): BrokerOrder {
+    const o = row.order;
+    let status = STATUS[row.status] ?? String(row.status).toLowerCase();
+    if (status === "new" && row.filled > 0) status = "partially_filled";
+    const legs = withLegs
+      ? Array.from(this.rows.values()).filter((r) => r.parentId === row.orderId).map((r) => this.toWire(r, false))
+      : [];
+    return {
+      id: this.wireId(row.orderId),
+      client_order_id: this.wireId(row.orderId),
+      status,
+      symbol: row.symbol,
+      side: String(o.action).toUpperCase() === "BUY" ? "buy" : "sell",
+      type: TYPE[String(o.orderType)] ?? "market",
+      qty: String(o.totalQuantity ?? ""),
+      filled_qty: String(row.filled),
+      filled_avg_price: row.filled > 0 ? String(row.avgFillPrice) : undefined,
+      limit_price: o.lmtPrice != null && o.orderType !== "STP" ? String(o.lmtPrice) : undefined,
+      stop_price: o.auxPrice != null && String(o.orderType).startsWith("STP") ? String(o.auxPrice) : undefined,
+      order_class: legs.length ? "bracket" : row.parentId ? "bracket" : "simple",
+      legs: legs.length ? legs : undefined,
+      parent_order_id: row.parentId ? this.wireId(row.parentId) : undefined,
+      submitted_at: row.submittedAt,
+      filled_at: row.filledAt ?? undefined,
+    };
+  }
+
+  /* ---- reports → books ---- */
+  private push(row: IbOrderRow, event: string, executionId: string | null) {
+    const u: IbOrderUpdate = { order: this.toWire(row), event, executionId };
+    const deliver = this.opts.onOrderUpdate ?? (async (x: IbOrderUpdate) => {
+      // lazy: fillReconciler imports lib/broker, which imports this module
+      const { reconcileOrderUpdate } = await import("./fillReconciler");
+      await reconcileOrderUpdate({ order: x.order, source: "ibkr", event: x.event, executionId: x.executionId });
+    });
+    deliver(u).catch((e: any) => console.error("[IBKR] order update not recorded:", u.order.id, e?.message || e));
+  }
+
+  private onStatus(orderId: number, ibStatus: string, filled: number, avgFillPrice: number, parentId: number) {
+    const prev = this.rows.get(orderId);
+    const changed = !prev || prev.status !== ibStatus;
+    const row = this.upsertRow(orderId, prev?.symbol, parentId ? { parentId } : undefined, ibStatus);
+    if (filled >= row.filled) {
+      row.filled = filled;
+      if (avgFillPrice > 0) row.avgFillPrice = avgFillPrice;
+    }
+    // fills are pushed from execDetails (they carry the execution id)
+    if (changed && row.symbol && ibStatus !== "Filled") {
+      this.push(row, (STATUS[ibStatus] ?? ibStatus).toLowerCase(), null);
+    }
+  }
+
+  private onExecution(contract: any, exec: any) {
+    const orderId = Number(exec?.orderId);
+    if (!Number.isFinite(orderId)) return;
+    // reqExecutions replays today's reports through this same event
+    const execId = exec.execId ? String(exec.execId) : null;
+    if (execId) {
+      if (this.execSeen.has(execId)) return;
+      this.execSeen.add(execId);
+    }
+    // an order from before this session (backfill): all we know is what the execution says
+    const known = this.rows.get(orderId)?.order?.action;
+    const row = this.upsertRow(
+      orderId,
+      contract?.symbol,
+      known ? undefined : { action: exec.side === "SLD" ? "SELL" : "BUY", orderType: "MKT", totalQuantity: Number(exec.cumQty) }
+    );
+    const cum = Number(exec.cumQty);
+    if (Number.isFinite(cum) && cum >= row.filled) {
+      row.filled = cum;
+      const avg = Number(exec.avgPrice);
+      if (avg > 0) row.avgFillPrice = avg;
+    }
+    row.filledAt = execTimeISO(exec.time);
+    const qty = Number(row.order.totalQuantity);
+    const done = Number.isFinite(qty) && row.filled >= qty;
+    if (done) row.status = "Filled";
+    this.push(row, done ? "fill" : "partial_fill", execId);
+  }
+
+  /** Today's executions (TWS keeps them per day) replayed into the books, e.g. after a restart. */
+  async backfillExecutions(): Promise<number> {
+    const execs = await this.collect(
+      (ib, reqId) => ib.reqExecutions(reqId, { clientId: this.clientId }),
+      "execDetails",
+      "execDetailsEnd",
+      (reqId, r: number, contract: any, exec: any) => (r === reqId ? { contract, exec } : undefined),
+      (reqId, r: number) => r === reqId
+    );
+    // each one also went through the live execDetails handler, i.e. into the books
+    // (once per session: ones already seen live are skipped there)
+    return execs.length;
+  }
+
+  /* ---- orders ---- */
+  private async place(symbol: string, order: any): Promise<IbOrderRow> {
+    const ib = await this.client();
+    const id = this.nextId++;
+    const row = this.upsertRow(id, symbol, order, "PendingSubmit");
+    ib.placeOrder(id, stock(symbol), order);
+    return row;
+  }
+
+  async submitBracket(p: BracketParams): Promise<BrokerOrder> {
+    const symbol = p.symbol.toUpperCase();
+    const qty = Math.floor(p.qty);
+    if (!Number.isFinite(qty) || qty <= 0) throw new Error("IBKR: invalid qty");
+
+    const long = (p.side ?? "buy") === "buy";
+    const open = long ? "BUY" : "SELL";
+    const close = long ? "SELL" : "BUY";
+    const tif = (p.tif ?? "day").toUpperCase();
+    const tpTick = tickSizeFor(p.tp);
+    const slTick = tickSizeFor(p.sl);
+    const tp = Number((long ? ceilToTick(p.tp, tpTick) : floorToTick(p.tp, tpTick)).toFixed(decsForTick(tpTick)));
+    const sl = Number((long ? floorToTick(p.sl, slTick) : ceilToTick(p.sl, slTick)).toFixed(decsForTick(slTick)));
+
+    const entry =
+      p.entryType === "limit" && p.limit != null
+        ? { action: open, orderType: "LMT", lmtPrice: Number(p.limit.toFixed(decsForTick(tickSizeFor(p.limit)))), totalQuantity: qty, tif, transmit: false }
+        : { action: open, orderType: "MKT", totalQuantity: qty, tif, transmit: false };
+    const parent = await this.place(symbol, entry);
+    await this.place(symbol, { action: close, orderType: "LMT", lmtPrice: tp, totalQuantity: qty, tif, parentId: parent.orderId, transmit: false });
+    await this.place(symbol, { action: close, orderType: "STP", auxPrice: sl, totalQuantity: qty, tif, parentId: parent.orderId, transmit: true });
+    return this.toWire(parent);
+  }
+
+  async submitMarket(p: MarketParams): Promise<BrokerOrder> {
+    const qty = Math.floor(p.qty);
+    if (!p.symbol || !Number.isFinite(qty) || qty <= 0) throw new Error("IBKR: invalid market order");
+    const row = await this.place(p.symbol.toUpperCase(), {
+      action: p.side === "buy" ? "BUY" : "SELL",
+      orderType: "MKT",
+      totalQuantity: qty,
+      tif: (p.tif ?? "day").toUpperCase(),
+      transmit: true,
+    });
+    return this.toWire(row);
+  }
+
+  private openLegs(symbol: string) {
+    return Array.from(this.rows.values()).filter((r) => r.symbol === symbol && r.parentId && OPEN_IB.has(r.status));
+  }
+
+  async closePosition(symbol: string): Promise<BrokerOrder | null> {
+    const sym = symbol.toUpperCase();
+    const ib = await this.client();
+    for (const leg of this.openLegs(sym)) ib.cancelOrder(leg.orderId);
+    const pos = await this.getPosition(sym);
+    const qty = Number(pos?.qty);
+    if (!pos || !Number.isFinite(qty) || qty === 0) return null;
+    return this.submitMarket({ symbol: sym, qty: Math.abs(qty), side: qty > 0 ? "sell" : "buy" });
+  }
+
+  async cancelAllOrders() {
+    (await this.client()).reqGlobalCancel();
+  }
+
+  private async refreshOpenOrders() {
+    await this.collect((ib) => ib.reqAllOpenOrders(), "openOrder", "openOrderEnd", () => undefined);
+  }
+
+  async getOrder(id: string): Promise<BrokerOrder | null> {
+    const orderId = this.orderIdOf(id);
+    if (orderId == null) return null;
+    if (!this.rows.has(orderId)) await this.refreshOpenOrders();
+    const row = this.rows.get(orderId);
+    return row ? this.toWire(row) : null;
+  }
+
+  /** Orders placed or seen in this session (IB has no order history query in this API version). */
+  async listOrders(p: ListOrdersParams = {}): Promise<BrokerOrder[]> {
+    await this.refreshOpenOrders();
+    const status = p.status ?? "open";
+    const syms = p.symbols?.length ? new Set(p.symbols.map((s) => s.toUpperCase())) : null;
+    let rows = Array.from(this.rows.values()).filter((r) => {
+      if (p.nested && r.parentId) return false; // legs come back nested under the parent
+      if (syms && !syms.has(r.symbol)) return false;
+      if (p.after && r.submittedAt <= p.after) return false;
+      if (p.until && r.submittedAt > p.until) return false;
+      const legsOpen = Array.from(this.rows.values()).some((l) => l.parentId === r.orderId && OPEN_IB.has(l.status));
+      const isOpen = OPEN_IB.has(r.status) || legsOpen;
+      return status === "all" || (status === "open" ? isOpen : !isOpen);
+    });
+    rows.sort((a, b) => a.orderId - b.orderId);
+    if (p.direction !== "asc") rows = rows.reverse();
+    return rows.slice(0, p.limit ?? 500).map((r) => this.toWire(r, !!p.nested));
+  }
+
+  /** Same tighten-only rule as lib/alpaca.ts, modifying the leg in place (same orderId). */
+  async replaceTpSlIfBetter({ symbol, newTp, newSl, side = "long" }: ReplaceTpSlParams): Promise<ReplaceTpSlResult> {
+    const sym = symbol.toUpperCase();
+    const dir = side === "short" ? -1 : 1;
+    const closeAction = side === "short" ? "BUY" : "SELL";
+    const res: ReplaceTpSlResult = { raisedTp: false, raisedSl: false, replaced: [] };
+    const parts: string[] = [];
+
+    try {
+      const ib = await this.client();
+      const legs = this.openLegs(sym).filter((r) => String(r.order.action).toUpperCase() === closeAction);
+      const tpLeg = legs.filter((r) => r.order.orderType === "LMT").sort((a, b) => dir * (b.order.lmtPrice - a.order.lmtPrice))[0];
+      const slLeg = legs.filter((r) => r.order.orderType === "STP").sort((a, b) => dir * (b.order.auxPrice - a.order.auxPrice))[0];
+
+      if (tpLeg && newTp != null && Number.isFinite(newTp)) {
+        const tick = tickSizeFor(newTp);
+        const next = Number((dir > 0 ? ceilToTick(newTp, tick) : floorToTick(newTp, tick)).toFixed(decsForTick(tick)));
+        res.prevTp = Number(tpLeg.order.lmtPrice);
+        res.triedTp = next;
+        if (dir * (next - res.prevTp) > 0) {
+          tpLeg.order = { ...tpLeg.order, lmtPrice: next, transmit: true };
+          ib.placeOrder(tpLeg.orderId, stock(sym), tpLeg.order);
+          res.raisedTp = true;
+          res.replaced!.push(this.toWire(tpLeg, false));
+        }
+        parts.push(`TP ${res.prevTp}→${next}${res.raisedTp ? " (raised)" : " (skipped)"}`);
+      }
+      if (slLeg && newSl != null && Number.isFinite(newSl)) {
+        const tick = tickSizeFor(newSl);
+        const next = Number((dir > 0 ? floorToTick(newSl, tick) : ceilToTick(newSl, tick)).toFixed(decsForTick(tick)));
+        res.prevSl = Number(slLeg.order.auxPrice);
+        res.triedSl = next;
+        if (dir * (next - res.prevSl) > 0) {
+          slLeg.order = { ...slLeg.order, auxPrice: next, transmit: true };
+          ib.placeOrder(slLeg.orderId, stock(sym), slLeg.order);
+          res.raisedSl = true;
+          res.replaced!.push(this.toWire(slLeg, false));
+        }
+        parts.push(`SL ${res.prevSl}→${next}${res.raisedSl ? " (raised)" : " (skipped)"}`);
+      }
+    } catch { /* best-effort, like the Alpaca version */ }
+
+    res.message = parts.join(" | ") || "no changes";
+    return res;
+  }
+
+  /* ---- account / positions / data ---- */
+  async listPositions(): Promise<BrokerPosition[]> {
+    const rows = await this.collect(
+      (ib) => ib.reqPositions(),
+      "position",
+      "positionEnd",
+      (_reqId, _account: string, contract: any, pos: number, avgCost: number) =>
+        contract?.secType === "STK" && Number(pos) !== 0
+          ? { symbol: String(contract.symbol).toUpperCase(), qty: String(pos), avg_entry_price: String(avgCost) }
+          : undefined
+    );
+    // one row per symbol (multiple accounts are summed)
+    const bySym = new Map<string, BrokerPosition>();
+    for (const r of rows) {
+      const prev = bySym.get(r.symbol);
+      if (!prev) { bySym.set(r.symbol, r); continue; }
+      const q0 = Number(prev.qty), q1 = Number(r.qty);
+      const q = q0 + q1;
+      const avg = q !== 0 ? (Number(prev.avg_entry_price) * q0 + Number(r.avg_entry_price) * q1) / q : 0;
+      bySym.set(r.symbol, { symbol: r.symbol, qty: String(q), avg_entry_price: String(avg) });
+    }
+    return Array.from(bySym.values());
+  }
+
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    const sym = symbol.toUpperCase();
+    return (await this.listPositions()).find((p) => p.symbol === sym) ?? null;
+  }
+
+  async getAccount(): Promise<BrokerAccount> {
+    let summaryId = -1;
+    const tags = await this.collect(
+      (ib, reqId) => { summaryId = reqId; ib.reqAccountSummary(reqId, "All", "TotalCashValue,BuyingPower,NetLiquidation,PreviousDayEquityWithLoanValue"); },
+      "accountSummary",
+      "accountSummaryEnd",
+      (reqId, r: number, _account: string, tag: string, value: string) => (r === reqId ? { tag, value } : undefined),
+      (reqId, r: number) => r === reqId
+    );
+    try { this.ib?.cancelAccountSummary(summaryId); } catch { /* already done */ }
+    const v = (tag: string) => tags.find((t) => t.tag === tag)?.value ?? "0";
+    return {
+      cash: v("TotalCashValue"),
+      buying_power: v("BuyingPower"),
+      equity: v("NetLiquidation"),
+      last_equity: v("PreviousDayEquityWithLoanValue"),
+      portfolio_value: v("NetLiquidation"),
+      status: "ACTIVE",
+    };
+  }
+
+  async latestQuote(symbol: string): Promise<BrokerQuote | null> {
+    const ib = await this.client();
+    const q = { bid: 0, ask: 0, bidSize: 0, askSize: 0 };
+    let tickerId = -1;
+    const onSize = (id: number, tickType: number, size: number) => {
+      if (id !== tickerId) return;
+      if (tickType === 0) q.bidSize = Number(size);
+      if (tickType === 3) q.askSize = Number(size);
+    };
+    ib.on("tickSize", onSize);
+    try {
+      await this.collect(
+        (c, reqId) => { tickerId = reqId; c.reqMktData(reqId, stock(symbol), "", true, false); },
+        "tickPrice",
+        "tickSnapshotEnd",
+        (reqId, id: number, tickType: number, price: number) => {
+          if (id !== reqId) return undefined;
+          if (tickType === 1) q.bid = Number(price);
+          if (tickType === 2) q.ask = Number(price);
+          return undefined;
+        },
+        (reqId, id: number) => id === reqId
+      );
+    } finally {
+      ib.removeListener("tickSize", onSize);
+    }
+    return q.bid > 0 && q.ask > 0 ? { ...q, ts: new Date().toISOString() } : null;
+  }
+
+  /** Generic tick 46: > 2.5 easy to borrow, > 1.5 hard to borrow, else not shortable. */
+  async getShortability(symbol: string): Promise<Shortability> {
+    const ib = await this.client();
+    const tickerId = ++this.reqSeq;
+    const value = await new Promise<number | null>((resolve) => {
+      const onGeneric = (id: number, tickType: number, v: number) => {
+        if (id !== tickerId || tickType !== 46) return;
+        done(Number(v));
+      };
+      const done = (v: number | null) => {
+        clearTimeout(timer);
+        ib.removeListener("tickGeneric", onGeneric);
+        try { ib.cancelMktData(tickerId); } catch { /* not subscribed */ }
+        resolve(v);
+      };
+      const timer = setTimeout(() => done(null), this.timeoutMs);
+      ib.on("tickGeneric", onGeneric);
+      ib.reqMktData(tickerId, stock(symbol), "236", false, false);
+    });
+    if (value == null) throw new Error(`IBKR: no shortable tick for ${symbol}`);
+    return { shortable: value > 1.5, easyToBorrow: value > 2.5 };
+  }
+}
@@ -0,0 +1,339 @@
+// lib/indicators.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Indicator math shared by the bot (lib/strategy.ts), the backtester,
+//  the narrator, AI chat, VWAP breadth and the trade chart.
+//  - Every indicator is a small stateful class with push(bar) so it can
+//    follow a live bar stream; the batch helpers below just fold the same
+//    class over an array, so streaming and one-shot reads always agree.
+//  - VWAP is the typical price (h+l+c)/3 weighted by volume, from 09:30 ET.
+//  - Bar dates: a string without a zone ("2025-10-10 09:31:00", FMP and
+//    the bar store) is already ET wall time; an ISO string with Z/offset
+//    is converted. This keeps results the same on a UTC server and in an
+//    ET browser.
+//  - No imports: this file is also bundled into client components.
+// ─────────────────────────────────────────────────────────────
+
+export type Bar = { date: string; open: number; high: number; low: number; close: number; volume: number };
+
+export const OPEN_930 = 9 * 60 + 30;
+
+/* -------------------------- ET time -------------------------- */
+const NAIVE_RE = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/;
+
+/** Date whose local fields are the ET wall time of a bar date (same convention as nowET()). */
+export function etWallDate(date: string): Date {
+  const m = NAIVE_RE.exec(date.trim());
+  if (m) return new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] ?? 0));
+  return new Date(new Date(date).toLocaleString("en-US", { timeZone: "America/New_York" }));
+}
+
+export function ymdOf(d: Date) {
+  const mo = `${d.getMonth() + 1}`.padStart(2, "0");
+  const da = `${d.getDate()}`.padStart(2, "0");
+  return `${d.getFullYear()}-${mo}-${da}`;
+}
+
+/** ET session day and minute-of-day of a bar. */
+export function etStamp(date: string): { ymd: string; mins: number } {
+  const d = etWallDate(date);
+  return { ymd: ymdOf(d), mins: d.getHours() * 60 + d.getMinutes() };
+}
+
+/** Minutes since 09:30 on an ET wall-clock Date (negative before the open). */
+export function minutesSince930(d: Date) {
+  return d.getHours() * 60 + d.getMinutes() - OPEN_930;
+}
+
+/** Bars of one ET day, optionally only those at or before `throughMins` (minute of day). */
+export function barsOfDay<T extends Bar>(bars: T[], ymd: string, throughMins?: number): T[] {
+  return bars.filter((b) => {
+    const s = etStamp(b.date);
+    return s.ymd === ymd && (throughMins == null || s.mins <= throughMins);
+  });
+}
+
+export function typicalPrice(b: Bar) {
+  return (b.high + b.low + b.close) / 3;
+}
+
+/* -------------------------- session VWAP + bands -------------------------- */
+export type VwapPoint = { vwap: number; sd: number; volume: number };
+
+/**
+ * Session VWAP for one ET day, with the volume-weighted standard deviation
+ * of the typical price for bands (vwap ± k·sd).
+ */
+export class SessionVwap {
+  private pv = 0;
+  private pv2 = 0;
+  private vol = 0;
+  constructor(readonly ymd: string) {}
+
+  /** Adds a bar; false when it is outside the session or not a usable number. */
+  add(b: Bar): boolean {
+    const s = etStamp(b.date);
+    if (s.ymd !== this.ymd || s.mins < OPEN_930) return false;
+    const h = +b.high, l = +b.low, c = +b.close, v = +b.volume;
+    if (![h, l, c, v].every(Number.isFinite)) return false;
+    const tp = (h + l + c) / 3;
+    this.pv += tp * v;
+    this.pv2 += tp * tp * v;
+    this.vol += v;
+    return true;
+  }
+
+  push(b: Bar): VwapPoint | null {
+    this.add(b);
+    return this.value;
+  }
+
+  get value(): VwapPoint | null {
+    if (!(this.vol > 0)) return null;
+    const vwap = this.pv / this.vol;
+    const variance = Math.max(0, this.pv2 / this.vol - vwap * vwap);
+    return { vwap, sd: Math.sqrt(variance), volume: this.vol };
+  }
+
+  bands(k = 1) {
+    const v = this.value;
+    return v ? { upper: v.vwap + k * v.sd, lower: v.vwap - k * v.sd } : null;
+  }
+}
+
+/* -------------------------- opening range -------------------------- */
+export type OpeningRangeValue = { high: number; low: number; count: number };
+
+/** High/low of the first `minutes` one-minute bars from 09:30 (09:30–09:33 by default). */
+export class OpeningRange {
+  private high = -Infinity;
+  private low = Infinity;
+  private count = 0;
+  constructor(readonly ymd: string, readonly minutes = 4) {}
+
+  push(b: Bar): OpeningRangeValue | null {
+    const s = etStamp(b.date);
+    if (s.ymd === this.ymd && s.mins >= OPEN_930 && s.mins < OPEN_930 + this.minutes) {
+      this.high = Math.max(this.high, b.high);
+      this.low = Math.min(this.low, b.low);
+      this.count++;
+    }
+    return this.value;
+  }
+
+  get value(): OpeningRangeValue | null {
+    return this.count ? { high: this.high, low: this.low, count: this.count } : null;
+  }
+}
+
+/* -------------------------- relative volume -------------------------- */
+export type VolumePulseValue = { mult: number | null; latestVol: number; avgPrior: number };
+
+/** Latest bar's volume against the average of the `lookback` bars before it (same ET day). */
+export class RelativeVolume {
+  private vols: number[] = [];
+  constructor(readonly ymd: string, readonly lookback = 5) {}
+
+  push(b: Bar): VolumePulseValue | null {
+    if (etStamp(b.date).ymd === this.ymd) {
+      this.vols.push(b.volume);
+      if (this.vols.length > this.lookback + 1) this.vols.shift();
+    }
+    return this.value;
+  }
+
+  get value(): VolumePulseValue | null {
+    if (this.vols.length < this.lookback + 1) return null;
+    const latestVol = this.vols[this.vols.length - 1];
+    const avgPrior = this.vols.slice(0, -1).reduce((s, v) => s + v, 0) / this.lookback;
+    return { mult: avgPrior ? latestVol / avgPrior : null, latestVol, avgPrior };
+  }
+}
+
+/* -------------------------- EMA / ATR / RSI -------------------------- */
+/** Exponential moving average, seeded with the SMA of the first `period` values. */
+export class Ema {
+  private seed: number[] = [];
+  private cur: number | null = null;
+  constructor(readonly period: number) {}
+
+  push(x: number): number | null {
+    if (!Number.isFinite(x)) return this.cur;
+    if (this.cur == null) {
+      this.seed.push(x);
+      if (this.seed.length === this.period) this.cur = this.seed.reduce((s, v) => s + v, 0) / this.period;
+      return this.cur;
+    }
+    this.cur += (2 / (this.period + 1)) * (x - this.cur);
+    return this.cur;
+  }
+
+  get value() {
+    return this.cur;
+  }
+}
+
+/** Wilder's average true range. */
+export class Atr {
+  private prevClose: number | null = null;
+  private seed: number[] = [];
+  private cur: number | null = null;
+  constructor(readonly period = 14) {}
+
+  push(b: Bar): number | null {
+    const tr = this.prevClose == null
+      ? b.high - b.low
+      : Math.max(b.high - b.low, Math.abs(b.high - this.prevClose), Math.abs(b.low - this.prevClose));
+    this.prevClose = b.close;
+    if (this.cur == null) {
+      this.seed.push(tr);
+      if (this.seed.length === this.period) this.cur = this.seed.reduce((s, v) => s + v, 0) / this.period;
+      return this.cur;
+    }
+    this.cur = (this.cur * (this.period - 1) + tr) / this.period;
+    return this.cur;
+  }
+
+  get value() {
+    return this.cur;
+  }
+}
+
+/** Wilder's RSI on closes (0–100). */
+export class Rsi {
+  private prev: number | null = null;
+  private n = 0;
+  private gain = 0;
+  private loss = 0;
+  constructor(readonly period = 14) {}
+
+  push(close: number): number | null {
+    if (!Number.isFinite(close)) return this.value;
+    if (this.prev == null) {
+      this.prev = close;
+      return null;
+    }
+    const d = close - this.prev;
+    this.prev = close;
+    const up = Math.max(0, d), down = Math.max(0, -d);
+    if (this.n < this.period) {
+      this.gain += up / this.period;
+      this.loss += down / this.period;
+    } else {
+      this.gain = (this.gain * (this.period - 1) + up) / this.period;
+      this.loss = (this.loss * (this.period - 1) + down) / this.period;
+    }
+    this.n++;
+    return this.value;
+  }
+
+  get value(): number | null {
+    if (this.n < this.period) return null;
+    if (this.loss === 0) return this.gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + this.gain / this.loss);
+  }
+}
+
+/* -------------------------- higher low after the open -------------------------- */
+export type HigherLowValue =
+  | { ok: false }
+  | { ok: true; firstLow: number; higherLow: number; confirmBarClose: number };
+
+/**
+ * 09:30–09:44 pattern: the lowest low of the first eight bars, then a
+ * higher low after it, then a bar closing over the prior bar's high.
+ * Needs the 09:30 bar and at least five bars on the day.
+ */
+export class HigherLowAfterOpen {
+  private dayCount = 0;
+  private hasOpen = false;
+  private win: Bar[] = [];
+  constructor(readonly ymd: string) {}
+
+  push(b: Bar): HigherLowValue {
+    const s = etStamp(b.date);
+    if (s.ymd === this.ymd) {
+      this.dayCount++;
+      if (s.mins === OPEN_930) this.hasOpen = true;
+      if (s.mins >= OPEN_930 && s.mins <= OPEN_930 + 14) this.win.push(b);
+    }
+    return this.value;
+  }
+
+  get value(): HigherLowValue {
+    const win = this.win;
+    if (this.dayCount < 5 || !this.hasOpen || win.length < 3) return { ok: false };
+
+    let firstLow = Infinity, firstLowIdx = 0;
+    for (let i = 0; i < Math.min(win.length, 8); i++) {
+      if (win[i].low < firstLow) { firstLow = win[i].low; firstLowIdx = i; }
+    }
+    if (!Number.isFinite(firstLow)) return { ok: false };
+
+    let higherLow = Infinity, higherLowIdx = -1;
+    for (let i = firstLowIdx + 1; i < win.length; i++) {
+      if (win[i].low < higherLow && win[i].low > firstLow) { higherLow = win[i].low; higherLowIdx = i; }
+    }
+    if (higherLowIdx < 0) return { ok: false };
+
+    for (let i = higherLowIdx + 1; i < win.length; i++) {
+      if (win[i].close > win[i - 1].high) return { ok: true, firstLow, higherLow, confirmBarClose: win[i].close };
+    }
+    return { ok: false };
+  }
+}
+
+/* -------------------------- batch helpers -------------------------- */
+export function sessionVWAP(bars: Bar[], ymd: string): number | null {
+  const v = new SessionVwap(ymd);
+  for (const b of bars) v.push(b);
+  return v.value?.vwap ?? null;
+}
+
+/** One point per session bar, for charting (`date` is the bar's own date string). */
+export function vwapSeries(bars: Bar[], ymd: string, k = 1) {
+  const v = new SessionVwap(ymd);
+  const out: Array<{ date: string; vwap: number; upper: number; lower: number }> = [];
+  for (const b of bars) {
+    if (!v.add(b)) continue;
+    const p = v.value;
+    if (p) out.push({ date: b.date, vwap: p.vwap, upper: p.vwap + k * p.sd, lower: p.vwap - k * p.sd });
+  }
+  return out;
+}
+
+export function openingRange(bars: Bar[], ymd: string, minutes = 4) {
+  const r = new OpeningRange(ymd, minutes);
+  for (const b of bars) r.push(b);
+  return r.value;
+}
+
+export function volumePulse(bars: Bar[], ymd: string, lookback = 5) {
+  const r = new RelativeVolume(ymd, lookback);
+  for (const b of bars) r.push(b);
+  return r.value;
+}
+
+export function higherLowAfterOpen(bars: Bar[], ymd: string) {
+  const h = new HigherLowAfterOpen(ymd);
+  for (const b of bars) h.push(b);
+  return h.value;
+}
+
+export function ema(values: number[], period: number) {
+  const e = new Ema(period);
+  for (const x of values) e.push(x);
+  return e.value;
+}
+
+export function atr(bars: Bar[], period = 14) {
+  const a = new Atr(period);
+  for (const b of bars) a.push(b);
+  return a.value;
+}
+
+export function rsi(closes: number[], period = 14) {
+  const r = new Rsi(period);
+  for (const c of closes) r.push(c);
+  return r.value;
+}
@@ -28,7 +28,8 @@ function resilience(h: L2Book['history']){
   return clamp01((rise-fall+4)/8);
 }
 
-export function buyPressure(book:L2Book){
+// flow: buy share of signed trade notional (lib/tradeTape.ts tapeFlow), null when the tape is thin
+export function buyPressure(book:L2Book, flow:number|null = null){
   if(!book.bids.length || !book.asks.length) return { score: null as number|null, parts:null as any };
   const bb=book.bids[0].px, ba=book.asks[0].px;
   const wBid=proxWeighted(book.bids,bb,'bid'), wAsk=proxWeighted(book.asks,ba,'ask');
@@ -37,6 +38,36 @@ export function buyPressure(book:L2Book){
   const nt  = (ntb+nta)>0 ? ntb/(ntb+nta) : 0.5;               // 0..1
   const st  = stepTrend(book.history);                          // 0..1
   const rs  = resilience(book.history);                         // 0..1
-  const composite = 0.40*imb + 0.30*nt + 0.20*st + 0.10*rs;
-  return { score: Math.round(100*clamp01(composite)), parts: {imb:Math.round(imb*100), nt:Math.round(nt*100), st:Math.round(st*100), rs:Math.round(rs*100)} };
+  const tf  = flow==null ? null : clamp01(flow);                // 0..1, null = book only
+  const composite = tf==null
+    ? 0.40*imb + 0.30*nt + 0.20*st + 0.10*rs
+    : 0.30*imb + 0.20*nt + 0.15*st + 0.10*rs + 0.25*tf;
+  return { score: Math.round(100*clamp01(composite)), parts: {imb:Math.round(imb*100), nt:Math.round(nt*100), st:Math.round(st*100), rs:Math.round(rs*100), tf: tf==null ? null : Math.round(tf*100)} };
+}
+
+// CDI / ToB / microprice, as shown by the L2 tie-breaker panel (app/components/L2TieBreakerPanel.tsx)
+export type BookFeatures = { cdi:number; tob:number; microBiasBps:number; spreadBps:number; bidSum:number; askSum:number };
+
+export function bookFeatures(bids:L2Level[], asks:L2Level[]): BookFeatures|null {
+  const bestBid=bids[0]?.px ?? 0, bestAsk=asks[0]?.px ?? 0;
+  if(!(bestBid>0) || !(bestAsk>0)) return null;
+  const mid=(bestBid+bestAsk)/2;
+  const bidSum=bids.reduce((a,b)=>a+b.sz,0), askSum=asks.reduce((a,b)=>a+b.sz,0);
+  const cdi=(bidSum-askSum)/Math.max(1,bidSum+askSum);           // -1..+1 cumulative depth imbalance
+  const b1sz=bids[0]?.sz ?? 0, a1sz=asks[0]?.sz ?? 0;
+  const tob=(b1sz-a1sz)/Math.max(1,b1sz+a1sz);                    // -1..+1 top-of-book pressure
+  const microPx=(bestAsk*b1sz+bestBid*a1sz)/Math.max(1,b1sz+a1sz);
+  const microBiasBps=((microPx-mid)/mid)*10000;                   // positive = bullish (bid-heavy top pulls it toward the ask)
+  const spreadBps=((bestAsk-bestBid)/mid)*10000;
+  return { cdi, tob, microBiasBps, spreadBps, bidSum, askSum };
+}
+
+/** Panel heuristic, roughly -45..+45; ok=false when the spread fails the guardrails (≤0 or >20 bps). */
+export function tieBreakScore(f:BookFeatures){
+  if(!Number.isFinite(f.spreadBps) || f.spreadBps<=0 || f.spreadBps>20) return { ok:false, score:-999 };
+  const clip=(x:number,lo:number,hi:number)=>Math.max(lo,Math.min(hi,x));
+  const microZ=clip(f.microBiasBps/5,-2,2);                       // 5 bps ~= 1 "std" guess
+  const spreadBonus=f.spreadBps<=8 ? 5 : f.spreadBps<=12 ? 2 : -5;
+  const score=25*clip(f.cdi,-0.5,0.5) + 20*clip(f.tob,-0.5,0.5) + 15*microZ + spreadBonus;
+  return { ok:true, score:Math.round(score) };
 }
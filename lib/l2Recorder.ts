@@ -0,0 +1,236 @@
+// lib/l2Recorder.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Writes every MBP-10 update of the live session (lib/databentoBridge.ts)
+//  to gzip-compressed DBN segments on disk, and reads them back for
+//  lib/l2Replay.ts.
+//  - layout: <dir>/<ET day>/<SYMBOL>/<start ms>.dbn.gz; a segment is a
+//    standalone DBN stream (metadata, symbol mapping, MBP-10 records), so
+//    `gunzip -c seg.dbn.gz > seg.dbn` gives a file the dbn CLI and
+//    scripts/databento-check.ts read
+//  - records are buffered and appended as one gzip member every FLUSH_MS;
+//    gunzip reads concatenated members as one stream, and a crash loses
+//    at most the unflushed tail
+//  - a new segment every L2_RECORD_SEGMENT_MIN minutes and at each ET day
+//  - needs a long-lived Node host with a writable disk, like the live
+//    session itself
+//  Env:
+//   L2_RECORD=true          turn recording on (default off)
+//   L2_RECORD_DIR           default .data/l2
+//   L2_RECORD_SEGMENT_MIN   default 15
+// ─────────────────────────────────────────────────────────────
+
+import { createReadStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, gzipSync } from "node:zlib";
+import { DbnDecoder, encodeMbp10, encodeMetadata, encodeSymbolMapping, mbp10Ladders, type Mbp10Msg } from "./dbn";
+import { etWallDate, ymdOf } from "./indicators";
+
+export type L2RecorderConfig = { enabled: boolean; dir: string; segmentMs: number };
+
+let cfg: L2RecorderConfig = {
+  enabled: (process.env.L2_RECORD ?? "false").toLowerCase() === "true",
+  dir: process.env.L2_RECORD_DIR || path.join(process.cwd(), ".data", "l2"),
+  segmentMs: (Number(process.env.L2_RECORD_SEGMENT_MIN) > 0 ? Number(process.env.L2_RECORD_SEGMENT_MIN) : 15) * 60_000,
+};
+
+/** Overrides the env settings (scripts, checks). */
+export function configureL2Recorder(next: Partial<L2RecorderConfig>) {
+  cfg = { ...cfg, ...next };
+}
+
+export function l2RecorderConfig(): L2RecorderConfig {
+  return { ...cfg };
+}
+
+const FLUSH_MS = 2_000;
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const SYMBOL_RE = /^[A-Z0-9.\-]{1,16}$/;
+
+const nsToMs = (ns: bigint) => Number(ns / BigInt(1_000_000));
+const etDay = (ms: number) => ymdOf(etWallDate(new Date(ms).toISOString()));
+
+/* -------------------------- write -------------------------- */
+type Segment = {
+  file: string;
+  day: string;
+  startMs: number;
+  instrumentId: number | null;
+  pending: Buffer[];
+};
+
+const SEGMENTS = new Map<string, Segment>();
+let flushTimer: NodeJS.Timeout | null = null;
+let writing: Promise<void> = Promise.resolve();
+let lastError: string | null = null;
+let written = 0;
+
+function segmentFor(symbol: string, ms: number, dataset: string): Segment {
+  const day = etDay(ms);
+  let seg = SEGMENTS.get(symbol);
+  if (seg && (seg.day !== day || ms - seg.startMs >= cfg.segmentMs)) {
+    flushSegment(seg);
+    seg = undefined;
+  }
+  if (!seg) {
+    seg = { file: path.join(cfg.dir, day, symbol, `${ms}.dbn.gz`), day, startMs: ms, instrumentId: null, pending: [] };
+    seg.pending.push(encodeMetadata(dataset, BigInt(ms) * BigInt(1_000_000)));
+    SEGMENTS.set(symbol, seg);
+  }
+  return seg;
+}
+
+function flushSegment(seg: Segment) {
+  if (!seg.pending.length) return;
+  const bytes = gzipSync(Buffer.concat(seg.pending));
+  seg.pending = [];
+  // one append at a time so members never interleave
+  writing = writing
+    .then(async () => {
+      await fs.mkdir(path.dirname(seg.file), { recursive: true });
+      await fs.appendFile(seg.file, bytes);
+      written += bytes.length;
+    })
+    .catch((e: any) => {
+      lastError = e?.message || String(e);
+      console.warn("[L2][record] write failed:", lastError);
+    });
+}
+
+/** Buffers one MBP-10 update; a no-op unless recording is on. */
+export function recordMbp10(symbol: string, m: Mbp10Msg, dataset = "XNAS.ITCH") {
+  if (!cfg.enabled) return;
+  const sym = symbol.toUpperCase();
+  if (!SYMBOL_RE.test(sym)) return;
+  const seg = segmentFor(sym, nsToMs(m.tsRecv), dataset);
+  if (seg.instrumentId !== m.hd.instrumentId) {
+    seg.instrumentId = m.hd.instrumentId;
+    seg.pending.push(encodeSymbolMapping(m.hd.instrumentId, sym, m.hd.tsEvent));
+  }
+  const { bids, asks } = mbp10Ladders(m);
+  seg.pending.push(
+    encodeMbp10({
+      instrumentId: m.hd.instrumentId,
+      tsEvent: m.hd.tsEvent,
+      tsRecv: m.tsRecv,
+      sequence: m.sequence,
+      action: m.action,
+      side: m.side,
+      price: m.price,
+      size: m.size,
+      bids,
+      asks,
+    })
+  );
+  if (!flushTimer) {
+    flushTimer = setInterval(() => { for (const s of SEGMENTS.values()) flushSegment(s); }, FLUSH_MS);
+    flushTimer.unref?.();
+  }
+}
+
+/** Writes everything buffered; resolves once it's on disk. */
+export async function flushL2Recordings() {
+  for (const s of SEGMENTS.values()) flushSegment(s);
+  await writing;
+}
+
+export function l2RecorderStatus() {
+  return {
+    ...cfg,
+    open: [...SEGMENTS.entries()].map(([symbol, s]) => ({ symbol, file: s.file, startMs: s.startMs })),
+    bytesWritten: written,
+    lastError,
+  };
+}
+
+/* -------------------------- read -------------------------- */
+export type L2Recording = {
+  day: string;
+  symbol: string;
+  file: string;
+  startMs: number;
+  /** last write (file mtime) */
+  endMs: number;
+  bytes: number;
+};
+
+export type L2Frame = {
+  /** ts_recv, ms */
+  t: number;
+  bids: Array<[number, number]>;
+  asks: Array<[number, number]>;
+  /** set when the update was a print (action T) */
+  trade: { px: number; sz: number; side: string } | null;
+};
+
+async function dirs(p: string) {
+  try {
+    return (await fs.readdir(p, { withFileTypes: true })).filter((d) => d.isDirectory()).map((d) => d.name);
+  } catch {
+    return [];
+  }
+}
+
+/** Recorded segments, oldest first; `day` / `symbol` narrow the scan. */
+export async function listL2Recordings(q: { day?: string; symbol?: string } = {}): Promise<L2Recording[]> {
+  const symbol = q.symbol?.toUpperCase();
+  if (q.day && !DAY_RE.test(q.day)) return [];
+  if (symbol && !SYMBOL_RE.test(symbol)) return [];
+  const out: L2Recording[] = [];
+  for (const day of q.day ? [q.day] : (await dirs(cfg.dir)).filter((d) => DAY_RE.test(d))) {
+    for (const sym of symbol ? [symbol] : await dirs(path.join(cfg.dir, day))) {
+      const base = path.join(cfg.dir, day, sym);
+      let names: string[] = [];
+      try { names = await fs.readdir(base); } catch { continue; }
+      for (const name of names) {
+        const m = /^(\d+)\.dbn\.gz$/.exec(name);
+        if (!m) continue;
+        const file = path.join(base, name);
+        const st = await fs.stat(file).catch(() => null);
+        if (st) out.push({ day, symbol: sym, file, startMs: Number(m[1]), endMs: st.mtimeMs, bytes: st.size });
+      }
+    }
+  }
+  return out.sort((a, b) => a.startMs - b.startMs || a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Every book in one segment file, in recorded order. Streams through an
+ * async gunzip; a segment still being written can end mid-member, which
+ * keeps what decoded before it.
+ */
+export async function readL2Segment(file: string): Promise<L2Frame[]> {
+  const decoder = new DbnDecoder();
+  const frames: L2Frame[] = [];
+  try {
+    await pipeline(createReadStream(file), createGunzip(), async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) {
+        for (const r of decoder.push(chunk)) {
+          if (r.kind !== "mbp10") continue;
+          const { bids, asks } = mbp10Ladders(r);
+          const trade = r.action === "T" && r.price != null && r.size > 0 ? { px: r.price, sz: r.size, side: r.side } : null;
+          frames.push({ t: nsToMs(r.tsRecv), bids, asks, trade });
+        }
+      }
+    });
+  } catch (e: any) {
+    if (!(e?.code === "Z_BUF_ERROR" && frames.length)) throw e;
+  }
+  return frames;
+}
+
+/** One symbol's books for an ET day, optionally clipped to [fromMs, toMs]; all in memory (replays go segment by segment). */
+export async function loadL2Session(symbol: string, day: string, fromMs?: number | null, toMs?: number | null): Promise<L2Frame[]> {
+  const segs = await listL2Recordings({ day, symbol });
+  const frames: L2Frame[] = [];
+  for (const s of segs) {
+    if (toMs != null && s.startMs > toMs) continue;
+    if (fromMs != null && s.endMs < fromMs) continue;
+    for (const f of await readL2Segment(s.file)) {
+      if ((fromMs == null || f.t >= fromMs) && (toMs == null || f.t <= toMs)) frames.push(f);
+    }
+  }
+  return frames;
+}
@@ -0,0 +1,395 @@
+// lib/l2Replay.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Plays recorded books (lib/l2Recorder.ts) back through the same code as
+//  the live feed: upsertBook → pressure (buyPressure with trade flow), with
+//  prints (action T updates) going to the trade tape first.
+//  - each replay writes under its own store key (`REPLAY<n>:<SYMBOL>`),
+//    so live books, the tick engine and /api/l2/pressure never see it
+//  - speed is a multiple of recorded time; 0 runs as fast as it can
+//  - segments are decoded one at a time as the cursor reaches them (async
+//    gunzip), with the next one prefetched, so a session holds about two
+//    segments of books however long the day is
+//  - seek rebuilds the book from the 5 minutes before the target (the
+//    longest tape window), so a scrub shows the state a live reader
+//    would have had at that instant
+//  - every change of the pressure score is kept (capped) with the mid, to
+//    line score moves up against what the price did next
+//  Sessions that nobody reads for IDLE_MS are dropped (checked whenever
+//  any replay is started or read).
+// ─────────────────────────────────────────────────────────────
+
+import { dropBook, getBook, pressure, upsertBook, bestQuote } from "./l2Store";
+import { clearTape, recordTrade } from "./tradeTape";
+import { listL2Recordings, readL2Segment, type L2Frame, type L2Recording } from "./l2Recorder";
+
+export type ReplayPoint = { t: number; score: number; mid: number };
+
+export type ReplayState = {
+  id: string;
+  symbol: string;
+  day: string;
+  from: number;
+  to: number;
+  /** recorded time of the last frame applied (ms) */
+  t: number | null;
+  /** books applied since the start (or last seek) */
+  applied: number;
+  /** segment under the cursor, of `segments` */
+  segment: number;
+  segments: number;
+  speed: number;
+  playing: boolean;
+  done: boolean;
+  book: { bids: Array<{ px: number; sz: number }>; asks: Array<{ px: number; sz: number }> } | null;
+  pressure: { score: number | null; parts: any } | null;
+  /** pressure-score changes so far */
+  changes: number;
+};
+
+type Session = {
+  id: string;
+  key: string;
+  symbol: string;
+  day: string;
+  from: number | null;
+  to: number | null;
+  segs: L2Recording[];
+  /** segment whose books are in `frames` */
+  seg: number;
+  frames: L2Frame[];
+  /** next frame in `frames` */
+  index: number;
+  /** the segment after `seg`, decoding */
+  ahead: Promise<L2Frame[]> | null;
+  /** a segment load is in flight; the clock waits for it */
+  loading: boolean;
+  /** bumped by seek / restart so a load started before is dropped */
+  gen: number;
+  lastT: number | null;
+  applied: number;
+  speed: number;
+  playing: boolean;
+  /** recorded time ↔ wall clock anchor while playing */
+  anchorT: number;
+  anchorWall: number;
+  timer: NodeJS.Timeout | null;
+  lastScore: number | null;
+  series: ReplayPoint[];
+  readAt: number;
+};
+
+const SESSIONS = new Map<string, Session>();
+const MAX_SESSIONS = 4;
+const IDLE_MS = 10 * 60_000;
+const STEP_MS = 50;
+const MAX_BATCH = 5_000;
+const MAX_SERIES = 20_000;
+const REBUILD_MS = 5 * 60_000;
+let seq = 0;
+
+/* -------------------------- segments -------------------------- */
+/** Books of segment `i`, clipped to the session's window. */
+async function loadSegment(s: Session, i: number): Promise<L2Frame[]> {
+  const seg = s.segs[i];
+  if (!seg) return [];
+  const frames = await readL2Segment(seg.file);
+  return s.from == null && s.to == null ? frames : frames.filter((f) => (s.from == null || f.t >= s.from) && (s.to == null || f.t <= s.to));
+}
+
+function prefetch(s: Session, i: number): Promise<L2Frame[]> | null {
+  if (i >= s.segs.length) return null;
+  // a bad segment plays as empty rather than stopping the session
+  return loadSegment(s, i).catch((e) => {
+    console.error("[l2Replay] segment unreadable:", s.segs[i].file, e?.message || e);
+    return [];
+  });
+}
+
+/** Puts segment `i` under the cursor (at `t`, when given) and starts decoding the one after it. */
+async function enterSegment(s: Session, i: number, frames?: Promise<L2Frame[]> | null, t?: number) {
+  const gen = s.gen;
+  s.loading = true;
+  const got = await (frames ?? prefetch(s, i) ?? Promise.resolve([]));
+  if (gen !== s.gen) return false;
+  s.seg = i;
+  s.frames = got;
+  s.index = t == null ? 0 : indexAt(got, t);
+  s.ahead = prefetch(s, i + 1);
+  s.loading = false;
+  return true;
+}
+
+/** Index of the segment holding recorded time `t` (the last one starting at or before it). */
+function segmentAt(segs: L2Recording[], t: number) {
+  let i = 0;
+  while (i + 1 < segs.length && segs[i + 1].startMs <= t) i++;
+  return i;
+}
+
+const atEnd = (s: Session) => s.index >= s.frames.length && s.seg >= s.segs.length - 1;
+
+/* -------------------------- apply -------------------------- */
+function apply(s: Session, f: L2Frame, track = true) {
+  if (f.trade) recordTrade(s.key, { px: f.trade.px, sz: f.trade.sz, t: f.t, quote: bestQuote(s.key) });
+  upsertBook(
+    s.key,
+    f.bids.map(([px, sz]) => ({ px, sz })),
+    f.asks.map(([px, sz]) => ({ px, sz })),
+    f.t
+  );
+  s.lastT = f.t;
+  if (!track) return;
+  s.applied++;
+  const score = pressure(s.key, f.t)?.score ?? null;
+  if (score != null && score !== s.lastScore && f.bids.length && f.asks.length) {
+    s.series.push({ t: f.t, score, mid: (f.bids[0][0] + f.asks[0][0]) / 2 });
+    if (s.series.length > MAX_SERIES) s.series.shift();
+  }
+  s.lastScore = score;
+}
+
+function reset(s: Session) {
+  dropBook(s.key);
+  clearTape(s.key);
+  s.lastScore = null;
+  s.lastT = null;
+  s.applied = 0;
+  s.series = [];
+}
+
+/* -------------------------- clock -------------------------- */
+function schedule(s: Session) {
+  if (s.timer) clearTimeout(s.timer);
+  s.timer = null;
+  if (!s.playing || s.loading) return;
+  s.timer = setTimeout(() => step(s), s.speed > 0 ? STEP_MS : 0);
+  s.timer.unref?.();
+}
+
+function step(s: Session) {
+  s.timer = null;
+  if (!SESSIONS.has(s.id) || s.loading) return;
+  const due = s.speed > 0 ? s.anchorT + (Date.now() - s.anchorWall) * s.speed : Infinity;
+  let n = 0;
+  while (n < MAX_BATCH) {
+    if (s.index >= s.frames.length) {
+      if (atEnd(s)) {
+        s.playing = false;
+        break;
+      }
+      // next segment: usually already decoded; the clock resumes once it's in
+      enterSegment(s, s.seg + 1, s.ahead).then((ok) => { if (ok) schedule(s); });
+      return;
+    }
+    const f = s.frames[s.index];
+    if (f.t > due) break;
+    apply(s, f);
+    s.index++;
+    n++;
+  }
+  schedule(s);
+}
+
+function anchor(s: Session) {
+  s.anchorT = s.frames[s.index]?.t ?? s.lastT ?? s.from ?? s.segs[s.seg]?.startMs ?? 0;
+  s.anchorWall = Date.now();
+}
+
+/** First frame index at or after `t`. */
+function indexAt(frames: L2Frame[], t: number) {
+  let lo = 0;
+  let hi = frames.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/* -------------------------- sessions -------------------------- */
+function sweep(now = Date.now()) {
+  for (const s of [...SESSIONS.values()]) if (now - s.readAt > IDLE_MS) stopReplay(s.id);
+}
+
+function stateOf(s: Session): ReplayState {
+  const book = getBook(s.key);
+  const p = pressure(s.key, s.lastT ?? Date.now());
+  return {
+    id: s.id,
+    symbol: s.symbol,
+    day: s.day,
+    from: s.from ?? s.segs[0]?.startMs ?? 0,
+    to: s.to ?? s.segs[s.segs.length - 1]?.endMs ?? 0,
+    t: s.lastT,
+    applied: s.applied,
+    segment: s.seg,
+    segments: s.segs.length,
+    speed: s.speed,
+    playing: s.playing,
+    done: !s.loading && atEnd(s),
+    book: book && { bids: book.bids.slice(0, 10), asks: book.asks.slice(0, 10) },
+    pressure: p && { score: p.score, parts: p.parts },
+    changes: s.series.length,
+  };
+}
+
+export type StartReplayOptions = {
+  symbol: string;
+  /** ET day, YYYY-MM-DD */
+  day: string;
+  from?: number | null;
+  to?: number | null;
+  speed?: number;
+  autoplay?: boolean;
+};
+
+/** Speed multiple as given; anything but a finite number >= 0 is refused, not read as full speed. */
+export function isReplaySpeed(x: unknown): x is number {
+  return typeof x === "number" && Number.isFinite(x) && x >= 0;
+}
+
+function replaySpeed(x: unknown): number {
+  if (!isReplaySpeed(x)) throw new RangeError(`speed must be a finite number >= 0, got ${String(x)}`);
+  return x;
+}
+
+/** Opens the recorded session (first segment decoded) and starts it; null when nothing was recorded in the window. */
+export async function startReplay(o: StartReplayOptions): Promise<ReplayState | null> {
+  sweep();
+  const symbol = o.symbol.toUpperCase();
+  const from = o.from ?? null;
+  const to = o.to ?? null;
+  const segs = (await listL2Recordings({ day: o.day, symbol })).filter(
+    (r) => (to == null || r.startMs <= to) && (from == null || r.endMs >= from)
+  );
+  if (!segs.length) return null;
+
+  const id = `R${++seq}`;
+  const s: Session = {
+    id,
+    key: `REPLAY${seq}:${symbol}`,
+    symbol,
+    day: o.day,
+    from,
+    to,
+    segs,
+    seg: 0,
+    frames: [],
+    index: 0,
+    ahead: null,
+    loading: false,
+    gen: 0,
+    lastT: null,
+    applied: 0,
+    speed: replaySpeed(o.speed ?? 1),
+    playing: o.autoplay ?? true,
+    anchorT: 0,
+    anchorWall: 0,
+    timer: null,
+    lastScore: null,
+    series: [],
+    readAt: Date.now(),
+  };
+  // the first segment's read errors go to the caller
+  s.frames = await loadSegment(s, 0);
+  s.ahead = prefetch(s, 1);
+
+  // oldest goes first when the slots are full
+  while (SESSIONS.size >= MAX_SESSIONS) {
+    const oldest = [...SESSIONS.values()].sort((a, b) => a.readAt - b.readAt)[0];
+    stopReplay(oldest.id);
+  }
+  SESSIONS.set(id, s);
+  anchor(s);
+  schedule(s);
+  return stateOf(s);
+}
+
+export type ReplayAction =
+  | { action: "play" }
+  | { action: "pause" }
+  | { action: "seek"; t: number }
+  | { action: "speed"; speed: number }
+  | { action: "stop" };
+
+export async function controlReplay(id: string, a: ReplayAction): Promise<ReplayState | null> {
+  const s = SESSIONS.get(id);
+  if (!s) return null;
+  s.readAt = Date.now();
+  switch (a.action) {
+    case "play":
+      if (atEnd(s)) {
+        s.gen++;
+        reset(s);
+        await enterSegment(s, 0);
+      }
+      s.playing = true;
+      break;
+    case "pause":
+      s.playing = false;
+      break;
+    case "seek": {
+      const t = Number(a.t);
+      const gen = ++s.gen;
+      if (s.timer) clearTimeout(s.timer);
+      s.timer = null;
+      s.loading = true;
+      reset(s);
+      // rebuild quietly from the lookback (segment by segment), then count score changes from the target on
+      const target = segmentAt(s.segs, t);
+      for (let i = segmentAt(s.segs, t - REBUILD_MS); i < target; i++) {
+        const frames = (await prefetch(s, i)) ?? [];
+        if (gen !== s.gen) return stateOf(s);
+        for (let j = indexAt(frames, t - REBUILD_MS); j < frames.length && frames[j].t < t; j++) apply(s, frames[j], false);
+      }
+      if (!(await enterSegment(s, target, null, t))) return stateOf(s);
+      const from = indexAt(s.frames, t - REBUILD_MS);
+      for (let j = from; j < s.index; j++) apply(s, s.frames[j], false);
+      s.lastScore = s.lastT != null ? pressure(s.key, s.lastT)?.score ?? null : null;
+      break;
+    }
+    case "speed":
+      s.speed = replaySpeed(a.speed);
+      break;
+    case "stop":
+      stopReplay(id);
+      return null;
+  }
+  if (!SESSIONS.has(id)) return null;
+  anchor(s);
+  schedule(s);
+  return stateOf(s);
+}
+
+export function replayState(id: string): ReplayState | null {
+  sweep();
+  const s = SESSIONS.get(id);
+  if (!s) return null;
+  s.readAt = Date.now();
+  return stateOf(s);
+}
+
+/** Pressure-score changes since the start (or last seek), oldest first. */
+export function replaySeries(id: string): ReplayPoint[] {
+  const s = SESSIONS.get(id);
+  if (!s) return [];
+  s.readAt = Date.now();
+  return [...s.series];
+}
+
+export function listReplays(): ReplayState[] {
+  sweep();
+  return [...SESSIONS.values()].map(stateOf);
+}
+
+export function stopReplay(id: string) {
+  const s = SESSIONS.get(id);
+  if (!s) return;
+  if (s.timer) clearTimeout(s.timer);
+  s.gen++;
+  reset(s);
+  SESSIONS.delete(id);
+}
@@ -1,14 +1,16 @@
-import { buyPressure, type L2Book, type L2Level } from "./l2-Pressure";
+import { bookFeatures, buyPressure, tieBreakScore, type BookFeatures, type L2Book, type L2Level } from "./l2-Pressure";
+import { tapeFlow, type Quote } from "./tradeTape";
 
 const BOOKS = new Map<string, L2Book>();
 
-export function upsertBook(sym: string, bids: L2Level[], asks: L2Level[]) {
+/** `t` is the update time (ms); replays pass the recorded one. */
+export function upsertBook(sym: string, bids: L2Level[], asks: L2Level[], t = Date.now()) {
   bids.sort((a, b) => b.px - a.px); // highest bid first
   asks.sort((a, b) => a.px - b.px); // lowest ask first
 
   const prev = BOOKS.get(sym);
   const history = (prev?.history || []).concat({
-    t: Date.now(),
+    t,
     bidPx: bids[0]?.px ?? 0,
     askPx: asks[0]?.px ?? 0,
     bidSz: bids[0]?.sz ?? 0,
@@ -18,10 +20,61 @@ export function upsertBook(sym: string, bids: L2Level[], asks: L2Level[]) {
   BOOKS.set(sym, { bids, asks, history });
 }
 
-export function pressure(sym: string) {
+export function pressure(sym: string, now = Date.now()) {
   const book = BOOKS.get(sym);
   if (!book) return null;
-  return buyPressure(book);
+  return buyPressure(book, tapeFlow(sym, "1m", now));
+}
+
+export function getBook(sym: string): L2Book | null {
+  return BOOKS.get(sym) ?? null;
+}
+
+export function dropBook(sym: string) {
+  BOOKS.delete(sym);
+}
+
+/** Best bid/ask of the stored book (the quote trade prints are signed against). */
+export function bestQuote(sym: string): Quote | null {
+  const book = BOOKS.get(sym.toUpperCase());
+  const bid = book?.bids[0]?.px;
+  const ask = book?.asks[0]?.px;
+  return bid && ask ? { bid, ask } : null;
+}
+
+/** What the tick engine reads from the book (see l2Reading). */
+export type L2Reading = {
+  symbol: string;
+  /** ms since the last book update */
+  ageMs: number;
+  /** buyPressure score 0..100 (with trade flow when the tape has it) */
+  pressure: number | null;
+  /** L2 tie-breaker panel score, null when the spread fails its guardrails */
+  tieBreak: number | null;
+  features: BookFeatures;
+  /** 0..100: 60% pressure + 40% tie-breaker (centred on 50; failed guardrails count as 0) */
+  score: number;
+};
+
+/** Composite L2 view of `sym`, null without a book updated within maxAgeMs. */
+export function l2Reading(sym: string, maxAgeMs = 15_000, now = Date.now()): L2Reading | null {
+  const symbol = sym.toUpperCase();
+  const book = BOOKS.get(symbol);
+  const at = book?.history?.[book.history.length - 1]?.t;
+  if (!book || at == null || now - at > maxAgeMs) return null;
+  const features = bookFeatures(book.bids, book.asks);
+  const bp = buyPressure(book, tapeFlow(symbol));
+  if (!features || bp.score == null) return null;
+  const tb = tieBreakScore(features);
+  const tbPct = tb.ok ? Math.max(0, Math.min(100, 50 + tb.score)) : 0;
+  return {
+    symbol,
+    ageMs: now - at,
+    pressure: bp.score,
+    tieBreak: tb.ok ? tb.score : null,
+    features,
+    score: Math.round(0.6 * bp.score + 0.4 * tbPct),
+  };
 }
 
 // ✅ explicitly export the types so other files can import cleanly
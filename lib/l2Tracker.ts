@@ -1,11 +1,152 @@
-let ACTIVE: string[] = [];
+// lib/l2Tracker.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Which symbols the L2 feed carries, and for whom.
+//  - every consumer (tick engine, dashboard panel, narrator) holds its own
+//    set of symbols; a symbol stays subscribed while any consumer holds it
+//  - a hold lapses when its consumer hasn't refreshed it for L2_IDLE_MS
+//  - at most L2_SYMBOL_BUDGET symbols at once; past that the least
+//    recently used symbol is evicted (all its holds dropped)
+//  lib/databentoBridge.ts reconciles the live session against
+//  getActiveSymbols() and adds per-symbol feed state for /api/l2/track.
+// ─────────────────────────────────────────────────────────────
+
+export const L2_CONSUMERS = ["tick", "dashboard", "narrator"] as const;
+export type L2Consumer = (typeof L2_CONSUMERS)[number];
+
+export function isL2Consumer(x: unknown): x is L2Consumer {
+  return typeof x === "string" && (L2_CONSUMERS as readonly string[]).includes(x);
+}
+
+function envInt(name: string, dflt: number, lo: number, hi: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.max(lo, Math.min(hi, Math.floor(n))) : dflt;
+}
+
+export const L2_SYMBOL_BUDGET = envInt("L2_SYMBOL_BUDGET", 8, 1, 100);
+export const L2_IDLE_MS = envInt("L2_IDLE_MS", 5 * 60_000, 10_000, 24 * 60 * 60_000);
+
+type Holds = Map<L2Consumer, number>; // consumer → last refresh (ms)
+
+/** symbol → holds; Map order is LRU order (re-inserted on every use) */
+const TRACKED = new Map<string, Holds>();
+const EVICTED: Array<{ symbol: string; at: number; reason: "budget" | "idle" }> = [];
+const KEEP_EVICTED = 20;
 let lastSetAt = 0;
 
-export function getActiveSymbols(){ return { symbols:[...ACTIVE], lastSetAt }; }
-export function setActiveSymbols(symbols:string[]){
-  const next = symbols.map(s=>String(s||"").trim().toUpperCase()).filter(Boolean).slice(0,2);
-  const changed = next.length!==ACTIVE.length || next.some((s,i)=>s!==ACTIVE[i]);
-  ACTIVE = next;
-  if (changed) lastSetAt = Date.now();
-  return { symbols:[...ACTIVE], changed };
+const norm = (symbols: string[]) =>
+  Array.from(new Set(symbols.map((s) => String(s || "").trim().toUpperCase()).filter(Boolean)));
+
+function noteEvicted(symbol: string, at: number, reason: "budget" | "idle") {
+  EVICTED.push({ symbol, at, reason });
+  if (EVICTED.length > KEEP_EVICTED) EVICTED.shift();
+}
+
+function touch(symbol: string, consumer: L2Consumer, now: number) {
+  const holds = TRACKED.get(symbol) ?? new Map();
+  TRACKED.delete(symbol);
+  holds.set(consumer, now);
+  TRACKED.set(symbol, holds);
+}
+
+/** Drop holds not refreshed within L2_IDLE_MS, and symbols nobody holds any more. */
+function expire(now = Date.now()) {
+  let changed = false;
+  for (const [symbol, holds] of TRACKED) {
+    for (const [c, at] of holds) if (now - at >= L2_IDLE_MS) holds.delete(c);
+    if (!holds.size) {
+      TRACKED.delete(symbol);
+      noteEvicted(symbol, now, "idle");
+      changed = true;
+    }
+  }
+  if (changed) lastSetAt = now;
+}
+
+export type TrackMode = "set" | "add" | "remove";
+
+export type TrackResult = {
+  /** most recently used first */
+  active: string[];
+  /** symbols this call pushed out to stay within the budget */
+  evicted: string[];
+  changed: boolean;
+};
+
+/**
+ * Updates `consumer`'s holds. "set" replaces them (and refreshes the ones
+ * kept), "add" adds/refreshes, "remove" releases. Earlier symbols in the
+ * list win when a single call asks for more than the budget.
+ */
+export function trackSymbols(consumer: L2Consumer, symbols: string[], mode: TrackMode = "set"): TrackResult {
+  const now = Date.now();
+  expire(now);
+  const members = () => [...TRACKED.keys()].sort().join(",");
+  const before = members();
+  const want = norm(symbols);
+
+  if (mode === "remove" || mode === "set") {
+    const keep = mode === "set" ? new Set(want) : new Set<string>();
+    const drop = mode === "remove" ? new Set(want) : null;
+    for (const [symbol, holds] of TRACKED) {
+      if (!holds.has(consumer)) continue;
+      if (drop ? drop.has(symbol) : !keep.has(symbol)) holds.delete(consumer);
+      if (!holds.size) TRACKED.delete(symbol);
+    }
+  }
+
+  const evicted: string[] = [];
+  if (mode !== "remove") {
+    // touch in reverse so the first symbol ends up most recently used
+    for (const s of want.slice(0, L2_SYMBOL_BUDGET).reverse()) touch(s, consumer, now);
+    while (TRACKED.size > L2_SYMBOL_BUDGET) {
+      const lru = TRACKED.keys().next().value as string;
+      TRACKED.delete(lru);
+      noteEvicted(lru, now, "budget");
+      evicted.push(lru);
+    }
+  }
+
+  const changed = members() !== before;
+  if (changed) lastSetAt = now;
+  return { active: [...TRACKED.keys()].reverse(), evicted, changed };
+}
+
+/** Drops every hold of `consumer` (e.g. a narrator stream that ended). */
+export function releaseConsumer(consumer: L2Consumer) {
+  return trackSymbols(consumer, [], "set");
+}
+
+export function getActiveSymbols() {
+  expire();
+  return { symbols: [...TRACKED.keys()].reverse(), lastSetAt };
+}
+
+/** Tick engine's picks; kept for callers of the old single-list API. */
+export function setActiveSymbols(symbols: string[]) {
+  const r = trackSymbols("tick", symbols, "set");
+  return { symbols: r.active, changed: r.changed };
+}
+
+export type TrackedSymbol = {
+  symbol: string;
+  consumers: L2Consumer[];
+  refs: number;
+  lastUsedAt: number;
+  /** when the last hold lapses unless refreshed */
+  idleAt: number;
+};
+
+/** Most recently used first. */
+export function trackedSymbols(): TrackedSymbol[] {
+  expire();
+  return [...TRACKED.entries()].reverse().map(([symbol, holds]) => {
+    const times = [...holds.values()];
+    const lastUsedAt = Math.max(...times);
+    return { symbol, consumers: [...holds.keys()], refs: holds.size, lastUsedAt, idleAt: lastUsedAt + L2_IDLE_MS };
+  });
+}
+
+export function recentlyEvicted() {
+  return [...EVICTED].reverse();
 }
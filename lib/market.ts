@@ -1,8 +1,26 @@
 // lib/market.ts
+import { sessionFor, type MarketSession } from "./tradingCalendar";
 
 /** Current ET (handles DST) */
 export function nowET(): Date {
-  return new Date(new Date().toLocaleString("en-US", { timeZone: "America/New_York" }));
+  return etWallOf(new Date());
+}
+
+/**
+ * A real instant as a Date whose local fields are its ET wall time: the
+ * convention of nowET() and of the ledger's stored times (Fill.at,
+ * Position.exitAt, Trade.at). Stamps taken with new Date() need this
+ * before they're compared with those.
+ */
+export function etWallOf(d: Date): Date {
+  return new Date(d.toLocaleString("en-US", { timeZone: "America/New_York" }));
+}
+
+/** Midnight ET of `d`'s day, same wall-clock convention (the lower bound for "today" in stored times) */
+export function dayStartET(d: Date = nowET()): Date {
+  const s = new Date(d);
+  s.setHours(0, 0, 0, 0);
+  return s;
 }
 
 /** YYYY-MM-DD in ET */
@@ -13,18 +31,28 @@ export function yyyyMmDdET(): string {
   return `${d.getFullYear()}-${mo}-${da}`;
 }
 
-/** Mon–Fri (no holiday awareness) */
+/** Today's session (holidays / 13:00 early closes from lib/tradingCalendar) */
+export function sessionET(d: Date = nowET()): MarketSession {
+  return sessionFor(d);
+}
+
+/** Exchange trading day: Mon–Fri minus NYSE holidays */
 export function isWeekdayET(): boolean {
-  const dow = nowET().getDay();
-  return dow >= 1 && dow <= 5;
+  return sessionET().open;
 }
 
-/** Regular market hours 09:30–16:00 ET (true until 15:59:59) */
-export function isMarketHoursET(): boolean {
-  const d = nowET();
-  const h = d.getHours();
-  const m = d.getMinutes();
-  return (h > 9 || (h === 9 && m >= 30)) && h < 16;
+/** Regular market hours 09:30–close ET (16:00, or 13:00 on early-close days; true until close-1s) */
+export function isMarketHoursET(d: Date = nowET()): boolean {
+  const s = sessionFor(d);
+  const mins = d.getHours() * 60 + d.getMinutes();
+  return s.open && mins >= s.openMin && mins < s.closeMin;
+}
+
+/** Minutes until today's close (negative after close; null on non-trading days) */
+export function minutesToCloseET(d: Date = nowET()): number | null {
+  const s = sessionFor(d);
+  if (!s.open) return null;
+  return s.closeMin - (d.getHours() * 60 + d.getMinutes());
 }
 
 /** Generic ET window checker (inclusive minutes) */
@@ -43,31 +71,7 @@ export function minutesSinceOpenET(): number {
   return Math.max(0, mins - (9 * 60 + 30));
 }
 
-/** Named windows your bot uses */
-export function inPreScanWindowET(): boolean {
-  // 09:14:00–09:29:59
-  return isBetweenET(9, 14, 9, 29);
-}
-export function inScanWindowET(): boolean {
-  // 09:30:00–10:14:59
-  return isBetweenET(9, 30, 10, 14);
-}
-export function inForceWindowET(): boolean {
-  // 10:15:00–10:16:59
-  const d = nowET();
-  return d.getHours() === 10 && (d.getMinutes() === 15 || d.getMinutes() === 16);
-}
-export function inEndOfForceFailsafeET(): boolean {
-  // 10:16:30–10:16:59 (used to clear a stuck lock)
-  const d = nowET();
-  return d.getHours() === 10 && d.getMinutes() === 16 && d.getSeconds() >= 30;
-}
-export function isMandatoryExitET(): boolean {
-  // 15:55+
-  const d = nowET();
-  const mins = d.getHours() * 60 + d.getMinutes();
-  return mins >= (15 * 60 + 55);
-}
+// Prescan/scan/force/exit windows: lib/schedule.ts (SESSION_SCHEDULE).
 
 /** At/after a given ET time (minutes precision) */
 export function isAtOrAfterET(h: number, m: number): boolean {
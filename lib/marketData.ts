@@ -0,0 +1,499 @@
+// lib/marketData.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Market data behind one interface, with failover.
+//  - Providers: "fmp" (lib/fmpCached.ts), "alpaca" (IEX, lib/alpaca.ts),
+//    "yahoo" (yahoo-finance2). Each implements what it can of
+//    quote / batch quote / 1m bars / profile / float / news and returns
+//    the shared Quote / Candle / Profile / NewsItem shapes.
+//  - Each call walks the provider order for that capability and moves on
+//    when a provider throws, answers 429 (then sits out COOLDOWN_MS or
+//    Retry-After), returns nothing, or returns stale data during market
+//    hours. If every provider fails, the freshest stale answer is used.
+//  - Every response says which provider served it (`provider`) and why
+//    the ones before it were skipped (`skipped`).
+//  Order: MARKET_DATA_ORDER="fmp,alpaca,yahoo" overrides the defaults
+//  below for every capability; providers without keys are left out.
+// ─────────────────────────────────────────────────────────────
+
+import yahooFinance from "yahoo-finance2";
+import { alpacaConfigured, getBars1m, getLatestQuote } from "./alpaca";
+import {
+  fmpBars1m,
+  fmpFloatCachedOrThrow,
+  fmpNewsCachedOrThrow,
+  fmpProfileCachedOrThrow,
+  fmpQuoteCachedOrThrow,
+  fmpQuoteManyCached,
+} from "./fmpCached";
+import { isMarketHoursET } from "./market";
+
+/* -------------------------- types -------------------------- */
+export type ProviderName = "fmp" | "alpaca" | "yahoo";
+export type Capability = "quote" | "quotes" | "bars1m" | "profile" | "float" | "news";
+
+export type Quote = {
+  symbol: string;
+  price: number;
+  bid: number | null;
+  ask: number | null;
+  prevClose: number | null;
+  /** percent, e.g. 2.5 for +2.5% */
+  changePct: number | null;
+  volume: number | null;
+  avgVolume: number | null;
+  marketCap: number | null;
+  sharesOutstanding: number | null;
+  /** provider's quote time (ISO), null when it doesn't say */
+  ts: string | null;
+  provider: ProviderName;
+};
+
+/** One bar; `t` is the bar's start (ISO, UTC) — same as Alpaca's bars */
+export type Candle = { t: string; o: number; h: number; l: number; c: number; v: number };
+
+export type Profile = {
+  symbol: string;
+  name: string | null;
+  exchange: string | null;
+  sector: string | null;
+  industry: string | null;
+  marketCap: number | null;
+  sharesOutstanding: number | null;
+  provider: ProviderName;
+};
+
+export type NewsItem = { symbol: string; title: string; url: string | null; source: string | null; publishedAt: string | null };
+
+export type Skipped = { provider: ProviderName; reason: string };
+export type Served<T> = { data: T; provider: ProviderName; stale: boolean; skipped: Skipped[] };
+
+export interface MarketDataProvider {
+  readonly name: ProviderName;
+  /** false when keys are missing; the provider is left out of every order */
+  configured(): boolean;
+  quote?(symbol: string): Promise<Quote | null>;
+  quotes?(symbols: string[]): Promise<Record<string, Quote>>;
+  bars1m?(symbol: string, startISO: string, endISO: string, limit: number): Promise<Candle[]>;
+  profile?(symbol: string): Promise<Profile | null>;
+  float?(symbol: string): Promise<number | null>;
+  news?(symbol: string, limit: number): Promise<NewsItem[]>;
+}
+
+/* -------------------------- tuning -------------------------- */
+const DEFAULT_ORDER: Record<Capability, ProviderName[]> = {
+  quote: ["fmp", "alpaca", "yahoo"],
+  quotes: ["fmp", "yahoo", "alpaca"],
+  bars1m: ["fmp", "alpaca", "yahoo"], // Alpaca's free bars are IEX-only: a fallback, not the tape
+  profile: ["fmp", "yahoo"],
+  float: ["fmp", "yahoo"],
+  news: ["fmp", "yahoo"],
+};
+const COOLDOWN_MS = 60_000;          // after a 429 without Retry-After
+const QUOTE_STALE_MS = 2 * 60_000;   // market hours only
+const BARS_STALE_MS = 5 * 60_000;    // market hours, when the window ends ~now
+
+/* -------------------------- small utils -------------------------- */
+const num = (x: any): number | null => {
+  const n = Number(x);
+  return x != null && x !== "" && Number.isFinite(n) ? n : null;
+};
+
+const isoOf = (x: any): string | null => {
+  if (x == null || x === "") return null;
+  const d = x instanceof Date ? x : new Date(typeof x === "number" && x < 1e12 ? x * 1000 : x);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+};
+
+/** "YYYY-MM-DD HH:mm:ss" in New York wall time → ISO (UTC). */
+export function etWallToISO(s: string): string | null {
+  return wallToISO(s, "America/New_York");
+}
+
+/** "YYYY-MM-DD HH:mm:ss" wall time in an IANA zone → ISO (UTC); throws RangeError on an unknown zone. */
+export function wallToISO(s: string, timeZone: string): string | null {
+  const m = String(s).match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!m) return null;
+  const guess = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] ?? 0));
+  const wall = new Date(new Date(guess).toLocaleString("en-US", { timeZone }));
+  const offset = guess - Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds());
+  return new Date(guess + offset).toISOString();
+}
+
+const ymdET = (iso: string) => new Date(iso).toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+
+function statusOf(e: any): number {
+  return Number(e?.status ?? e?.response?.status) || (/\b429\b|too many requests/i.test(String(e?.message)) ? 429 : 0);
+}
+
+function retryAfterMs(e: any): number {
+  const h = e?.headers?.get?.("retry-after") ?? e?.retryAfter;
+  const s = Number(h);
+  return Number.isFinite(s) && s > 0 ? s * 1000 : COOLDOWN_MS;
+}
+
+/* -------------------------- FMP -------------------------- */
+function fmpQuoteOf(q: any): Quote | null {
+  const symbol = String(q?.symbol ?? "").toUpperCase();
+  const price = num(q?.price);
+  if (!symbol || price == null) return null;
+  return {
+    symbol,
+    price,
+    bid: null,
+    ask: null,
+    prevClose: num(q.previousClose),
+    changePct: num(q.changesPercentage),
+    volume: num(q.volume),
+    avgVolume: num(q.avgVolume),
+    marketCap: num(q.marketCap),
+    sharesOutstanding: num(q.sharesOutstanding),
+    ts: isoOf(q.timestamp),
+    provider: "fmp",
+  };
+}
+
+export const fmpProvider: MarketDataProvider = {
+  name: "fmp",
+  configured: () => !!process.env.FMP_API_KEY,
+  quote: async (symbol) => fmpQuoteOf(await fmpQuoteCachedOrThrow(symbol)),
+  quotes: async (symbols) => {
+    const raw = await fmpQuoteManyCached(symbols);
+    const out: Record<string, Quote> = {};
+    for (const q of Object.values(raw)) {
+      const n = fmpQuoteOf(q);
+      if (n) out[n.symbol] = n;
+    }
+    return out;
+  },
+  bars1m: async (symbol, startISO, endISO, limit) => {
+    const rows = await fmpBars1m(symbol, ymdET(startISO), ymdET(endISO));
+    const out: Candle[] = [];
+    for (const r of rows) {
+      const t = etWallToISO(r?.date);
+      if (!t || t < startISO || t > endISO) continue;
+      out.push({ t, o: Number(r.open), h: Number(r.high), l: Number(r.low), c: Number(r.close), v: Number(r.volume) });
+    }
+    return out.reverse().slice(0, limit); // FMP is newest-first
+  },
+  profile: async (symbol) => {
+    const p = await fmpProfileCachedOrThrow(symbol);
+    if (!p) return null;
+    return {
+      symbol: String(p.symbol ?? symbol).toUpperCase(),
+      name: p.companyName ?? null,
+      exchange: p.exchangeShortName ?? p.exchange ?? null,
+      sector: p.sector || null,
+      industry: p.industry || null,
+      marketCap: num(p.mktCap),
+      sharesOutstanding: null,
+      provider: "fmp",
+    };
+  },
+  float: async (symbol) => num((await fmpFloatCachedOrThrow(symbol))?.floatShares),
+  news: async (symbol, limit) =>
+    ((await fmpNewsCachedOrThrow(symbol, limit)) as any[]).map((n) => ({
+      symbol: String(n.symbol ?? symbol).toUpperCase(),
+      title: String(n.title ?? ""),
+      url: n.url ?? null,
+      source: n.site ?? null,
+      publishedAt: n.publishedDate ? etWallToISO(n.publishedDate) : null,
+    })),
+};
+
+/* -------------------------- Alpaca (IEX) -------------------------- */
+export const alpacaProvider: MarketDataProvider = {
+  name: "alpaca",
+  configured: () => alpacaConfigured(),
+  quote: async (symbol) => {
+    const q = await getLatestQuote(symbol);
+    if (!q || !(q.bid > 0) || !(q.ask > 0)) return null;
+    return {
+      symbol: symbol.toUpperCase(),
+      price: (q.bid + q.ask) / 2,
+      bid: q.bid,
+      ask: q.ask,
+      prevClose: null,
+      changePct: null,
+      volume: null,
+      avgVolume: null,
+      marketCap: null,
+      sharesOutstanding: null,
+      ts: isoOf(q.ts),
+      provider: "alpaca",
+    };
+  },
+  quotes: async (symbols) => {
+    const out: Record<string, Quote> = {};
+    await Promise.all(
+      symbols.map(async (s) => {
+        const q = await alpacaProvider.quote!(s).catch(() => null);
+        if (q) out[q.symbol] = q;
+      })
+    );
+    return out;
+  },
+  bars1m: async (symbol, startISO, endISO, limit) => getBars1m(symbol, startISO, endISO, limit),
+};
+
+/* -------------------------- Yahoo -------------------------- */
+const yf: any = yahooFinance;
+try { yf.suppressNotices?.(["yahooSurvey"]); } catch { /* older versions */ }
+
+function yahooQuoteOf(q: any): Quote | null {
+  const symbol = String(q?.symbol ?? "").toUpperCase();
+  const price = num(q?.regularMarketPrice);
+  if (!symbol || price == null) return null;
+  return {
+    symbol,
+    price,
+    bid: num(q.bid) || null,
+    ask: num(q.ask) || null,
+    prevClose: num(q.regularMarketPreviousClose),
+    changePct: num(q.regularMarketChangePercent),
+    volume: num(q.regularMarketVolume),
+    avgVolume: num(q.averageDailyVolume3Month),
+    marketCap: num(q.marketCap),
+    sharesOutstanding: num(q.sharesOutstanding),
+    ts: isoOf(q.regularMarketTime),
+    provider: "yahoo",
+  };
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: "yahoo",
+  configured: () => true,
+  quote: async (symbol) => yahooQuoteOf(await yf.quote(symbol)),
+  quotes: async (symbols) => {
+    const rows: any[] = await yf.quote(symbols);
+    const out: Record<string, Quote> = {};
+    for (const q of Array.isArray(rows) ? rows : [rows]) {
+      const n = yahooQuoteOf(q);
+      if (n) out[n.symbol] = n;
+    }
+    return out;
+  },
+  bars1m: async (symbol, startISO, endISO, limit) => {
+    const r = await yf.chart(symbol, { period1: new Date(startISO), period2: new Date(endISO), interval: "1m" });
+    const out: Candle[] = [];
+    for (const b of r?.quotes ?? []) {
+      const t = isoOf(b?.date);
+      if (!t || b.close == null) continue;
+      out.push({ t, o: Number(b.open), h: Number(b.high), l: Number(b.low), c: Number(b.close), v: Number(b.volume ?? 0) });
+    }
+    return out.slice(0, limit);
+  },
+  profile: async (symbol) => {
+    const r = await yf.quoteSummary(symbol, { modules: ["assetProfile", "price", "defaultKeyStatistics"] });
+    if (!r?.price) return null;
+    return {
+      symbol: symbol.toUpperCase(),
+      name: r.price.longName ?? r.price.shortName ?? null,
+      exchange: r.price.exchangeName ?? null,
+      sector: r.assetProfile?.sector ?? null,
+      industry: r.assetProfile?.industry ?? null,
+      marketCap: num(r.price.marketCap),
+      sharesOutstanding: num(r.defaultKeyStatistics?.sharesOutstanding),
+      provider: "yahoo",
+    };
+  },
+  float: async (symbol) => {
+    const r = await yf.quoteSummary(symbol, { modules: ["defaultKeyStatistics"] });
+    return num(r?.defaultKeyStatistics?.floatShares);
+  },
+  news: async (symbol, limit) => {
+    const r = await yf.search(symbol, { newsCount: limit, quotesCount: 0 });
+    return (r?.news ?? []).slice(0, limit).map((n: any) => ({
+      symbol: symbol.toUpperCase(),
+      title: String(n.title ?? ""),
+      url: n.link ?? null,
+      source: n.publisher ?? null,
+      publishedAt: isoOf(n.providerPublishTime),
+    }));
+  },
+};
+
+/* -------------------------- registry -------------------------- */
+const PROVIDERS: Record<ProviderName, MarketDataProvider> = {
+  fmp: fmpProvider,
+  alpaca: alpacaProvider,
+  yahoo: yahooProvider,
+};
+
+const cooldownUntil = new Map<ProviderName, number>();
+
+/** Providers to try for a capability, in order (env override, keys present, not cooling down). */
+export function providerOrder(cap: Capability): MarketDataProvider[] {
+  const env = (process.env.MARKET_DATA_ORDER || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is ProviderName => s in PROVIDERS);
+  const names = env.length ? env : DEFAULT_ORDER[cap];
+  return names.map((n) => PROVIDERS[n]).filter((p) => typeof p[cap] === "function" && p.configured());
+}
+
+/** Providers currently sitting out a 429, with ms left (for diagnostics). */
+export function providerCooldowns(): Partial<Record<ProviderName, number>> {
+  const out: Partial<Record<ProviderName, number>> = {};
+  const now = Date.now();
+  for (const [name, until] of cooldownUntil) if (until > now) out[name] = until - now;
+  return out;
+}
+
+/* -------------------------- failover -------------------------- */
+type Verdict = "ok" | "empty" | "stale";
+
+async function serve<T>(
+  cap: Capability,
+  what: string,
+  call: (p: MarketDataProvider) => Promise<T>,
+  judge: (v: T) => Verdict
+): Promise<Served<T>> {
+  const skipped: Skipped[] = [];
+  let staleBest: { data: T; provider: ProviderName } | null = null;
+
+  for (const p of providerOrder(cap)) {
+    const until = cooldownUntil.get(p.name) ?? 0;
+    if (until > Date.now()) {
+      skipped.push({ provider: p.name, reason: "cooldown" });
+      continue;
+    }
+    try {
+      const data = await call(p);
+      const v = judge(data);
+      if (v === "ok") return { data, provider: p.name, stale: false, skipped };
+      if (v === "stale" && !staleBest) staleBest = { data, provider: p.name };
+      skipped.push({ provider: p.name, reason: v });
+    } catch (e: any) {
+      const status = statusOf(e);
+      if (status === 429) cooldownUntil.set(p.name, Date.now() + retryAfterMs(e));
+      skipped.push({ provider: p.name, reason: status ? `http_${status}` : String(e?.message || e).slice(0, 120) });
+    }
+  }
+
+  if (staleBest) return { ...staleBest, stale: true, skipped };
+  const why = skipped.map((s) => `${s.provider}: ${s.reason}`).join(", ") || "no provider configured";
+  const err = new Error(`market data: no ${cap} for ${what} (${why})`);
+  (err as any).skipped = skipped;
+  throw err;
+}
+
+/**
+ * Served by a stand-in: a provider ahead of it in the order failed (429,
+ * error, cooldown, stale) rather than having nothing, or the answer is
+ * stale. Callers that keep data should treat it as provisional.
+ */
+export function servedByFallback(s: Served<unknown>): boolean {
+  return s.stale || s.skipped.some((x) => x.reason !== "empty");
+}
+
+function quoteVerdict(q: Quote | null): Verdict {
+  if (!q || !(q.price > 0)) return "empty";
+  if (q.ts && isMarketHoursET() && Date.now() - new Date(q.ts).getTime() > QUOTE_STALE_MS) return "stale";
+  return "ok";
+}
+
+/* -------------------------- public API -------------------------- */
+// "empty" answers are never served, so the data below is never null
+
+export function marketQuote(symbol: string): Promise<Served<Quote>> {
+  const sym = symbol.toUpperCase();
+  return serve("quote", sym, (p) => p.quote!(sym), quoteVerdict) as Promise<Served<Quote>>;
+}
+
+/**
+ * Many quotes; symbols a provider misses (or serves stale) go to the next
+ * one. `providers` says who served each symbol; `missing` got nothing.
+ */
+export async function marketQuotes(symbols: string[]): Promise<{
+  data: Record<string, Quote>;
+  providers: Record<string, ProviderName>;
+  missing: string[];
+  skipped: Skipped[];
+}> {
+  let left = Array.from(new Set(symbols.map((s) => String(s).toUpperCase()).filter(Boolean)));
+  const data: Record<string, Quote> = {};
+  const providers: Record<string, ProviderName> = {};
+  const skipped: Skipped[] = [];
+  const staleFallback: Record<string, Quote> = {};
+
+  for (const p of providerOrder("quotes")) {
+    if (!left.length) break;
+    if ((cooldownUntil.get(p.name) ?? 0) > Date.now()) {
+      skipped.push({ provider: p.name, reason: "cooldown" });
+      continue;
+    }
+    try {
+      const got = await p.quotes!(left);
+      for (const sym of left) {
+        const q = got[sym];
+        const v = quoteVerdict(q ?? null);
+        if (v === "ok") { data[sym] = q; providers[sym] = p.name; }
+        else if (v === "stale" && !staleFallback[sym]) staleFallback[sym] = q;
+      }
+      const before = left.length;
+      left = left.filter((s) => !data[s]);
+      if (left.length) skipped.push({ provider: p.name, reason: `missed ${left.length}/${before}` });
+    } catch (e: any) {
+      const status = statusOf(e);
+      if (status === 429) cooldownUntil.set(p.name, Date.now() + retryAfterMs(e));
+      skipped.push({ provider: p.name, reason: status ? `http_${status}` : String(e?.message || e).slice(0, 120) });
+    }
+  }
+
+  for (const sym of left) {
+    const q = staleFallback[sym];
+    if (q) { data[sym] = q; providers[sym] = q.provider; }
+  }
+  return { data, providers, missing: left.filter((s) => !data[s]), skipped };
+}
+
+/** 1-minute bars in [startISO, endISO], oldest first. */
+export function marketBars1m(symbol: string, startISO: string, endISO: string, limit = 10_000): Promise<Served<Candle[]>> {
+  const sym = symbol.toUpperCase();
+  const liveWindow = Date.now() - new Date(endISO).getTime() < BARS_STALE_MS;
+  return serve("bars1m", sym, (p) => p.bars1m!(sym, startISO, endISO, limit), (bars) => {
+    if (!bars.length) return "empty";
+    const lastAt = new Date(bars[bars.length - 1].t).getTime();
+    if (liveWindow && isMarketHoursET() && Date.now() - lastAt > BARS_STALE_MS) return "stale";
+    return "ok";
+  });
+}
+
+export function marketProfile(symbol: string): Promise<Served<Profile>> {
+  const sym = symbol.toUpperCase();
+  return serve("profile", sym, (p) => p.profile!(sym), (v) => (v ? "ok" : "empty")) as Promise<Served<Profile>>;
+}
+
+export function marketFloat(symbol: string): Promise<Served<number>> {
+  const sym = symbol.toUpperCase();
+  return serve("float", sym, (p) => p.float!(sym), (v) => (v != null && v > 0 ? "ok" : "empty")) as Promise<Served<number>>;
+}
+
+export function marketNews(symbol: string, limit = 5): Promise<Served<NewsItem[]>> {
+  const sym = symbol.toUpperCase();
+  return serve("news", sym, (p) => p.news!(sym, limit), (v) => (v.length ? "ok" : "empty"));
+}
+
+/** Roll 1m candles (oldest first) into N-minute candles aligned to the clock. */
+export function aggregateCandles(bars: Candle[], minutes: number): Candle[] {
+  const out: Candle[] = [];
+  const span = minutes * 60_000;
+  let cur: (Candle & { bucket: number }) | null = null;
+  for (const b of bars) {
+    const ms = new Date(b.t).getTime();
+    const bucket = Math.floor(ms / span) * span;
+    if (!cur || cur.bucket !== bucket) {
+      if (cur) out.push({ t: cur.t, o: cur.o, h: cur.h, l: cur.l, c: cur.c, v: cur.v });
+      cur = { t: new Date(bucket).toISOString(), o: b.o, h: b.h, l: b.l, c: b.c, v: b.v, bucket };
+      continue;
+    }
+    cur.h = Math.max(cur.h, b.h);
+    cur.l = Math.min(cur.l, b.l);
+    cur.c = b.c;
+    cur.v += b.v;
+  }
+  if (cur) out.push({ t: cur.t, o: cur.o, h: cur.h, l: cur.l, c: cur.c, v: cur.v });
+  return out;
+}
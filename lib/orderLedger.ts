@@ -0,0 +1,334 @@
+// lib/orderLedger.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Order / fill ledger.
+//  Every broker order we see (tick submits, the webhook, /api/alpaca/sync;
+//  all through lib/fillReconciler.ts) is upserted into Order by broker
+//  id, bracket legs linked to their parent, with an OrderEvent per status
+//  or price change.
+//  Fills come from the growth of the cumulative filled_qty, keyed
+//  "<brokerOrderId>:<cum qty>", so the webhook and the poller write the
+//  same Fill rows whichever sees an update first.
+//  Position and Trade are rebuilt from the fills (settlePositions):
+//    Position.shares / entryPrice      entry-side fills (qty, VWAP)
+//    Position.exitedShares / exitPrice exit-side fills; closed once flat
+//    Trade                             one row per filled order
+//  BotState cash / pnl move once per fill (Fill.settledAt), with the
+//  collateral convention of strategy.markValue.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { nowET } from "./market";
+import { getActiveStrategyConfig } from "./strategyConfig";
+import { sideOf, entryOrderSide, exitOrderSide, realizedPnl, openShares, TRADE_SIDES } from "./strategy";
+
+export type LedgerSource = "tick" | "webhook" | "listener" | "sync" | "force_buy" | "ibkr";
+
+export type RecordOpts = {
+  source: LedgerSource;
+  /** Position the order belongs to, when the caller knows (links legs and earlier fills too) */
+  positionId?: number | null;
+  /** Broker event name (webhook), kept on the OrderEvent */
+  event?: string | null;
+  /** Broker execution id of the fill this update reports, kept on the Fill */
+  executionId?: string | null;
+};
+
+export type LedgerUpdate = {
+  orderId: number | null;
+  positionId: number | null;
+  newFills: number;
+  /** positions whose fills changed and need settlePositions() */
+  positions: number[];
+};
+
+/** Statuses where the order can still fill. */
+export const OPEN_ORDER_STATUSES = [
+  "new", "accepted", "pending_new", "partially_filled", "held",
+  "accepted_for_bidding", "pending_replace", "pending_cancel",
+];
+
+/* -------------------------- helpers -------------------------- */
+function num(x: any): number | null {
+  if (x == null || x === "") return null;
+  const n = Number(x);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Broker timestamps → the ET wall-clock Dates the rest of the DB stores (see nowET). */
+function etWall(iso: any): Date | null {
+  if (!iso) return null;
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return null;
+  return new Date(d.toLocaleString("en-US", { timeZone: "America/New_York" }));
+}
+
+function isBracketParent(o: any) {
+  const cls = String(o?.order_class ?? "").toLowerCase();
+  return (Array.isArray(o?.legs) && o.legs.length > 0) || cls === "bracket" || cls === "oto";
+}
+
+/**
+ * Which local position an order belongs to:
+ * parent's → the position it opened → the order it replaced → for a
+ * standalone order, the newest open position it would close.
+ */
+async function resolvePositionId(tx: any, o: any, parent: any | null, replaced: any | null): Promise<number | null> {
+  if (parent?.positionId) return parent.positionId;
+  const opened = await tx.position.findFirst({ where: { brokerOrderId: String(o.id) }, select: { id: true } });
+  if (opened) return opened.id;
+  if (replaced?.positionId) return replaced.positionId;
+  if (parent || o?.parent_order_id || isBracketParent(o)) return null;
+
+  const side = String(o.side).toLowerCase();
+  const open = await tx.position.findMany({
+    where: { open: true, ticker: String(o.symbol).toUpperCase() },
+    orderBy: { id: "desc" },
+    select: { id: true, side: true },
+  });
+  return open.find((p: any) => exitOrderSide(sideOf(p)) === side)?.id ?? null;
+}
+
+/* -------------------------- record -------------------------- */
+async function recordOne(o: any, opts: RecordOpts, parentRowId: number | null): Promise<LedgerUpdate> {
+  const brokerOrderId = String(o?.id ?? "");
+  const ticker = String(o?.symbol ?? "").toUpperCase();
+  const side = String(o?.side ?? "").toLowerCase();
+  if (!brokerOrderId || !ticker || (side !== "buy" && side !== "sell")) {
+    return { orderId: null, positionId: null, newFills: 0, positions: [] };
+  }
+
+  const status = String(o?.status ?? "").toLowerCase() || "new";
+  const cum = Math.floor(num(o?.filled_qty) ?? 0);
+  const avg = num(o?.filled_avg_price);
+  const limitPrice = num(o?.limit_price);
+  const stopPrice = num(o?.stop_price);
+
+  const res = await prisma.$transaction(async (tx: any) => {
+    // webhook and poller may race on the same order
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${brokerOrderId}))`;
+
+    const prev = await tx.order.findUnique({ where: { brokerOrderId } });
+    const parent =
+      parentRowId != null ? await tx.order.findUnique({ where: { id: parentRowId } })
+      : prev?.parentId != null ? await tx.order.findUnique({ where: { id: prev.parentId } })
+      : o?.parent_order_id ? await tx.order.findUnique({ where: { brokerOrderId: String(o.parent_order_id) } })
+      : null;
+    const replaced = o?.replaces ? await tx.order.findUnique({ where: { brokerOrderId: String(o.replaces) } }) : null;
+
+    const positionId: number | null =
+      opts.positionId ?? prev?.positionId ?? (await resolvePositionId(tx, o, parent, replaced));
+
+    const data = {
+      clientOrderId: o?.client_order_id ?? prev?.clientOrderId ?? null,
+      parentId: parent?.id ?? replaced?.parentId ?? null,
+      replaces: o?.replaces ?? prev?.replaces ?? null,
+      replacedBy: o?.replaced_by ?? prev?.replacedBy ?? null,
+      positionId,
+      ticker,
+      side,
+      type: String(o?.type ?? prev?.type ?? "market").toLowerCase(),
+      orderClass: o?.order_class ?? prev?.orderClass ?? null,
+      qty: Math.floor(num(o?.qty) ?? prev?.qty ?? 0),
+      limitPrice,
+      stopPrice,
+      status,
+      submittedAt: etWall(o?.submitted_at) ?? prev?.submittedAt ?? null,
+    };
+    const row = prev
+      ? await tx.order.update({ where: { id: prev.id }, data })
+      : await tx.order.create({ data: { brokerOrderId, ...data } });
+
+    // transitions
+    const notes: string[] = [];
+    if (opts.event) notes.push(`event=${opts.event}`);
+    if (prev && num(prev.limitPrice) !== limitPrice) notes.push(`limit ${num(prev.limitPrice) ?? "-"}→${limitPrice ?? "-"}`);
+    if (prev && num(prev.stopPrice) !== stopPrice) notes.push(`stop ${num(prev.stopPrice) ?? "-"}→${stopPrice ?? "-"}`);
+    if (!prev || prev.status !== status || notes.length > (opts.event ? 1 : 0)) {
+      await tx.orderEvent.create({ data: { orderId: row.id, status, source: opts.source, note: notes.join(" ") || null } });
+    }
+
+    // the order this one replaced at the broker
+    if (!prev && replaced && replaced.status !== "replaced") {
+      await tx.order.update({ where: { id: replaced.id }, data: { status: "replaced", replacedBy: brokerOrderId } });
+      await tx.orderEvent.create({ data: { orderId: replaced.id, status: "replaced", source: opts.source, note: `by ${brokerOrderId}` } });
+    }
+
+    const positions = new Set<number>();
+
+    // earlier fills recorded before we knew the position
+    if (positionId != null && prev && prev.positionId !== positionId) {
+      await tx.fill.updateMany({ where: { orderId: row.id }, data: { positionId } });
+      positions.add(positionId);
+    }
+
+    // new execution = growth of the cumulative filled qty
+    let newFills = 0;
+    const q0 = Number(prev?.filledQty ?? 0);
+    if (cum > q0 && avg != null && avg > 0) {
+      const qty = cum - q0;
+      const a0 = num(prev?.filledAvgPrice) ?? avg;
+      let price = q0 > 0 ? (avg * cum - a0 * q0) / qty : avg;
+      if (!Number.isFinite(price) || price <= 0) price = avg;
+
+      const dup = await tx.fill.findUnique({ where: { execKey: `${brokerOrderId}:${cum}` }, select: { id: true } });
+      if (!dup) {
+        await tx.fill.create({
+          data: {
+            orderId: row.id,
+            execKey: `${brokerOrderId}:${cum}`,
+            executionId: opts.executionId ?? null,
+            positionId,
+            ticker,
+            side,
+            qty,
+            price,
+            at: etWall(o?.filled_at) ?? nowET(),
+          },
+        });
+        newFills++;
+      }
+      await tx.order.update({ where: { id: row.id }, data: { filledQty: cum, filledAvgPrice: avg } });
+      if (positionId != null) positions.add(positionId);
+    }
+
+    return { orderId: row.id as number, positionId, newFills, positions: Array.from(positions) };
+  });
+
+  // legs after the parent so they inherit its position
+  for (const leg of Array.isArray(o?.legs) ? o.legs : []) {
+    const r = await recordOne(leg, { source: opts.source }, res.orderId);
+    res.newFills += r.newFills;
+    res.positions = Array.from(new Set([...res.positions, ...r.positions]));
+  }
+  return res;
+}
+
+/**
+ * Upsert one broker order (Alpaca wire shape, legs nested or not) plus its
+ * new fills. Call settlePositions(result.positions) afterwards.
+ */
+export async function recordBrokerOrder(o: any, opts: RecordOpts): Promise<LedgerUpdate> {
+  return recordOne(o, opts, null);
+}
+
+/* -------------------------- settle -------------------------- */
+/** BotState row 1, created at the configured startCash when missing. */
+export async function ensureBotState() {
+  const s = await prisma.botState.findUnique({ where: { id: 1 } });
+  if (s) return s;
+  const { startCash } = (await getActiveStrategyConfig()).params;
+  return prisma.botState.create({ data: { id: 1, cash: startCash, pnl: 0, equity: startCash } });
+}
+
+function vwap(rows: { qty: number; price: any }[]) {
+  const q = rows.reduce((a, f) => a + f.qty, 0);
+  return q > 0 ? rows.reduce((a, f) => a + f.qty * Number(f.price), 0) / q : null;
+}
+
+/**
+ * Rebuild each position (and its Trade rows) from its fills, then book
+ * the cash / P&L of fills not settled yet.
+ */
+export async function settlePositions(positionIds: number[]): Promise<void> {
+  let cashDelta = 0;
+  let pnlDelta = 0;
+
+  for (const id of Array.from(new Set(positionIds))) {
+    const pos = await prisma.position.findUnique({ where: { id } });
+    if (!pos) continue;
+    const fills = await prisma.fill.findMany({ where: { positionId: id }, orderBy: [{ at: "asc" }, { id: "asc" }] });
+    if (!fills.length) continue;
+
+    const side = sideOf(pos);
+    const entrySide = entryOrderSide(side);
+    const entries = fills.filter((f: any) => f.side === entrySide);
+    const exits = fills.filter((f: any) => f.side !== entrySide);
+
+    const entryQty = entries.reduce((a: number, f: any) => a + f.qty, 0);
+    const exitQty = exits.reduce((a: number, f: any) => a + f.qty, 0);
+    const entryPrice = vwap(entries) ?? Number(pos.entryPrice);
+    const shares = entryQty > 0 ? entryQty : Number(pos.shares);
+    const exitedShares = Math.min(exitQty, shares);
+
+    const data: any = { exitedShares };
+    if (entryQty > 0) { data.shares = shares; data.entryPrice = entryPrice; }
+    if (exitQty > 0) data.exitPrice = vwap(exits);
+    if (entryQty > 0 && exitedShares >= shares) {
+      data.open = false;
+      data.exitAt = exits[exits.length - 1].at;
+    }
+    await prisma.position.update({ where: { id }, data });
+
+    // one Trade per order
+    const byOrder = new Map<number, any[]>();
+    for (const f of fills) byOrder.set(f.orderId, [...(byOrder.get(f.orderId) ?? []), f]);
+    const orders = await prisma.order.findMany({ where: { id: { in: Array.from(byOrder.keys()) } }, select: { id: true, brokerOrderId: true } });
+    for (const ord of orders) {
+      const rows = byOrder.get(ord.id)!;
+      const price = vwap(rows)!;
+      const qty = rows.reduce((a: number, f: any) => a + f.qty, 0);
+      const label = rows[0].side === entrySide ? TRADE_SIDES[side].open : TRADE_SIDES[side].close;
+      const filledAt = rows[rows.length - 1].at;
+      await prisma.trade.upsert({
+        where: { brokerOrderId: ord.brokerOrderId },
+        update: { side: label, ticker: pos.ticker, price, shares: qty, filledAt, filledPrice: price },
+        create: {
+          side: label, ticker: pos.ticker, price, shares: qty, at: rows[0].at,
+          brokerOrderId: ord.brokerOrderId, filledAt, filledPrice: price, configVersion: pos.configVersion ?? null,
+        },
+      });
+    }
+
+    // cash / P&L, once per fill
+    const stamp = nowET();
+    for (const f of fills) {
+      if (f.settledAt) continue;
+      const claimed = await prisma.fill.updateMany({ where: { id: f.id, settledAt: null }, data: { settledAt: stamp } });
+      if (claimed.count !== 1) continue;
+      const px = Number(f.price);
+      if (f.side === entrySide) {
+        cashDelta -= f.qty * px;
+      } else {
+        const realized = realizedPnl(side, entryPrice, px, f.qty);
+        cashDelta += f.qty * entryPrice + realized;
+        pnlDelta += realized;
+      }
+    }
+  }
+
+  if (cashDelta === 0 && pnlDelta === 0) return;
+  await ensureBotState();
+  const st = await prisma.botState.update({
+    where: { id: 1 },
+    data: { cash: { increment: cashDelta }, pnl: { increment: pnlDelta } },
+  });
+  const open = await prisma.position.findMany({ where: { open: true }, select: { shares: true, exitedShares: true, entryPrice: true } });
+  const held = open.reduce((a: number, p: any) => a + openShares(p) * Number(p.entryPrice), 0);
+  await prisma.botState.update({ where: { id: 1 }, data: { equity: Number(st.cash) + held } });
+}
+
+/** Positions with fills whose cash effect was never booked (e.g. a crash between record and settle). */
+export async function settlePending(): Promise<number[]> {
+  const rows = await prisma.fill.findMany({
+    where: { settledAt: null, positionId: { not: null } },
+    distinct: ["positionId"],
+    select: { positionId: true },
+  });
+  const ids = rows.map((r: any) => r.positionId as number);
+  if (ids.length) await settlePositions(ids);
+  return ids;
+}
+
+/** A still-working exit order for the position (bracket legs excluded). */
+export async function pendingExitOrder(pos: { id: number; side?: string | null }) {
+  return prisma.order.findFirst({
+    where: {
+      positionId: pos.id,
+      parentId: null,
+      side: exitOrderSide(sideOf(pos)),
+      status: { in: OPEN_ORDER_STATUSES },
+    },
+    orderBy: { id: "desc" },
+  });
+}
@@ -0,0 +1,77 @@
+// lib/positionSlots.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Concurrent-position bookkeeping for the tick engine.
+//  - params.maxConcurrentPositions slots; each slot gets an equal share
+//    of params.investBudget, capped by what's left undeployed
+//  - a symbol is entered at most once per ET day (SymbolDayLock row);
+//    the number of locks also caps entries per day at the slot count,
+//    which is the old single "lastRunDay" lock when max = 1
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { dayStartET } from "./market";
+import { openShares, type StrategyParams } from "./strategy";
+
+export type SlotPlan = {
+  max: number;
+  open: number;
+  /** symbols claimed today (entered, or entry in flight) */
+  lockedToday: string[];
+  /** entries we may still make right now */
+  free: number;
+  /** $ currently in open positions (entry cost) */
+  deployed: number;
+  perSlot: number;
+  /** $ cap for the next entry */
+  entryBudget: number;
+};
+
+export async function listOpenPositions() {
+  return prisma.position.findMany({ where: { open: true }, orderBy: { id: "desc" } });
+}
+
+export function planSlots(p: StrategyParams, openPositions: any[], lockedToday: string[]): SlotPlan {
+  const max = Math.max(1, Math.floor(p.maxConcurrentPositions || 1));
+  const open = openPositions.length;
+  const deployed = openPositions.reduce((a, x) => a + openShares(x) * Number(x.entryPrice), 0);
+  const perSlot = p.investBudget / max;
+  const free = Math.max(0, Math.min(max - open, max - lockedToday.length));
+  const entryBudget = free > 0 ? Math.max(0, Math.min(perSlot, p.investBudget - deployed)) : 0;
+  return { max, open, lockedToday, free, deployed, perSlot, entryBudget };
+}
+
+/* -------------------------- per-symbol day lock -------------------------- */
+export async function lockedSymbols(day: string): Promise<string[]> {
+  const rows = await prisma.symbolDayLock.findMany({ where: { day }, select: { ticker: true } });
+  return rows.map((r: { ticker: string }) => r.ticker);
+}
+
+/**
+ * Symbols used up today: SymbolDayLock claims plus any BUY / SHORT recorded
+ * today (sync/webhook fills don't take a lock).
+ */
+export async function claimedSymbolsToday(day: string): Promise<string[]> {
+  const [locks, buys] = await Promise.all([
+    lockedSymbols(day),
+    prisma.trade
+      .findMany({ where: { side: { in: ["BUY", "SHORT"] }, at: { gte: dayStartET() } }, select: { ticker: true } })
+      .catch(() => [] as { ticker: string }[]),
+  ]);
+  return Array.from(new Set([...locks, ...buys.map((b: { ticker: string }) => b.ticker)]));
+}
+
+/** Claim `ticker` for `day`. False when it's already claimed (unique key). */
+export async function acquireSymbolLock(day: string, ticker: string): Promise<boolean> {
+  try {
+    await prisma.symbolDayLock.create({ data: { day, ticker } });
+    return true;
+  } catch (e: any) {
+    if (e?.code === "P2002") return false;
+    throw e;
+  }
+}
+
+export async function releaseSymbolLock(day: string, ticker: string): Promise<void> {
+  try { await prisma.symbolDayLock.deleteMany({ where: { day, ticker } }); } catch {}
+}
@@ -0,0 +1,180 @@
+// lib/ratchetStore.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Durable trailing-stop ladder. RatchetState (lib/strategy.ts) lives on
+//  the Position row (ratchet* columns) so a cold start or redeploy picks
+//  up the high-water mark, rung, runner flag and last SL/TP instead of
+//  dropping back to the entry stop.
+//  - loadRatchet(): Position row → fresh initialRatchet(), read on every
+//    tick (ticks move between instances, so no process holds the truth).
+//    Unless the row is exactly what this process last wrote, it is
+//    reconciled with the live bracket legs at the broker (the legs are
+//    what will actually trigger), then written back.
+//  - saveRatchet(): writes only when something changed. The only thing
+//    kept in memory is the signature of the last write, per position.
+//  Shorts (Position.side = "short") keep the low-water mark in ratchetHigh
+//  and their bracket legs are BUYs.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { getBroker } from "./broker";
+import { initialRatchet, round2, sideOf, bracketLevels, type PositionSide, type RatchetState, type StrategyParams } from "./strategy";
+
+export type BracketLegs = { tp: number | null; sl: number | null; found: boolean };
+
+const g = globalThis as unknown as { __ratchetSaved?: Map<number, string> };
+const saved = (g.__ratchetSaved ??= new Map<number, string>());
+
+/* -------------------------- row <-> state -------------------------- */
+function num(x: any): number | null {
+  const n = Number(x);
+  return x != null && Number.isFinite(n) ? n : null;
+}
+
+export function ratchetFromRow(pos: any): RatchetState | null {
+  const entry = num(pos?.entryPrice);
+  const high = num(pos?.ratchetHigh);
+  const lastSL = num(pos?.ratchetSL);
+  const lastTP = num(pos?.ratchetTP);
+  if (entry == null || high == null || lastSL == null || lastTP == null) return null;
+  return {
+    entry,
+    high,
+    lastRung: Number(pos.ratchetRung ?? 0),
+    lastLiftAt: pos.ratchetLiftAt ? new Date(pos.ratchetLiftAt).getTime() : 0,
+    runner: !!pos.ratchetRunner,
+    lastSL,
+    lastTP,
+    side: sideOf(pos),
+  };
+}
+
+function rowData(rs: RatchetState) {
+  return {
+    ratchetHigh: rs.high,
+    ratchetRung: rs.lastRung,
+    ratchetRunner: rs.runner,
+    ratchetSL: rs.lastSL,
+    ratchetTP: rs.lastTP,
+    ratchetLiftAt: rs.lastLiftAt ? new Date(rs.lastLiftAt) : null,
+  };
+}
+
+/** What the row holds after a write of `rs` (Decimal(18, 6) columns, ms timestamps). */
+function signature(rs: RatchetState) {
+  const d6 = (x: number) => Math.round(x * 1e6) / 1e6;
+  return JSON.stringify([d6(rs.high), rs.lastRung, rs.runner, d6(rs.lastSL), d6(rs.lastTP), rs.lastLiftAt || 0]);
+}
+
+/* -------------------------- broker legs -------------------------- */
+/**
+ * Tightest open closing limit (TP) and stop (SL) for `symbol`, incl. bracket
+ * children: the highest SELLs for a long, the lowest BUYs for a short.
+ */
+export async function readBracketLegs(symbol: string, side: PositionSide = "long"): Promise<BracketLegs> {
+  const orders: any[] = await getBroker().listOrders({ status: "open", nested: true, symbols: [symbol] });
+  const parents = orders.filter((o) => o?.symbol === symbol);
+  const all = [...parents, ...parents.flatMap((o) => (Array.isArray(o?.legs) ? o.legs : []))];
+  const closeSide = side === "short" ? "buy" : "sell";
+  const openSell = all.filter(
+    (o) => o?.side === closeSide && ["new", "accepted", "partially_filled", "open", "held"].includes(String(o?.status || "").toLowerCase())
+  );
+  const best = side === "short" ? Math.min : Math.max;
+
+  const tps = openSell
+    .filter((o) => String(o?.type || "").toLowerCase() === "limit")
+    .map((o) => num(o.limit_price))
+    .filter((x): x is number => x != null);
+  const sls = openSell
+    .filter((o) => ["stop", "stop_limit"].includes(String(o?.type || "").toLowerCase()))
+    .map((o) => num(o.stop_price))
+    .filter((x): x is number => x != null);
+
+  return {
+    tp: tps.length ? best(...tps) : null,
+    sl: sls.length ? best(...sls) : null,
+    found: tps.length + sls.length > 0,
+  };
+}
+
+/**
+ * Make `rs` agree with the broker. The broker's legs win: if a lift was
+ * lost (restart mid-PATCH) lastSL drops back so the ladder re-lifts; if
+ * the broker is higher (manual edit, earlier lift) we adopt it. A TP
+ * beyond the weak target means the position was running in runner mode.
+ * Shorts mirror every comparison. Returns human-readable change notes.
+ */
+export function reconcileWithLegs(rs: RatchetState, legs: BracketLegs, p: StrategyParams): string[] {
+  const notes: string[] = [];
+  const dir = rs.side === "short" ? -1 : 1;
+  if (legs.sl != null && Math.abs(legs.sl - rs.lastSL) >= 0.01) {
+    notes.push(`sl ${rs.lastSL}→${legs.sl}`);
+    // looser at the broker → our lift never landed; let the ladder climb again
+    if (dir * (legs.sl - rs.lastSL) < 0) rs.lastRung = 0;
+    rs.lastSL = round2(legs.sl);
+  }
+  if (legs.tp != null && Math.abs(legs.tp - rs.lastTP) >= 0.01) {
+    notes.push(`tp ${rs.lastTP}→${legs.tp}`);
+    rs.lastTP = round2(legs.tp);
+  }
+  const weakTp = round2(bracketLevels(rs.entry, "weak", p, rs.side).tp);
+  if (!rs.runner && legs.tp != null && dir * (legs.tp - weakTp) > 0.01) {
+    notes.push("runner");
+    rs.runner = true;
+  }
+  return notes;
+}
+
+/* -------------------------- load / save -------------------------- */
+export async function saveRatchet(positionId: number, rs: RatchetState, opts: { synced?: boolean } = {}) {
+  const sig = signature(rs);
+  if (!opts.synced && saved.get(positionId) === sig) return;
+  try {
+    await prisma.position.update({
+      where: { id: positionId },
+      data: { ...rowData(rs), ...(opts.synced ? { ratchetSyncedAt: new Date() } : {}) },
+    });
+    saved.set(positionId, sig);
+  } catch (e: any) {
+    console.warn("[ratchetStore] save failed:", e?.message || e);
+  }
+}
+
+/**
+ * Ratchet state for an open Position, from `pos` as just read from the
+ * database. `price` seeds the high-water mark when nothing was persisted
+ * yet. "warm": the row is our own last write, used as is.
+ */
+export async function loadRatchet(
+  pos: any,
+  price: number,
+  p: StrategyParams
+): Promise<{ rs: RatchetState; source: "warm" | "db" | "init"; reconciled: string[] }> {
+  const fromRow = ratchetFromRow(pos);
+  if (fromRow && saved.get(pos.id) === signature(fromRow)) return { rs: fromRow, source: "warm", reconciled: [] };
+
+  // cold process, or another instance moved the ladder since our last write
+  const rs = fromRow ?? initialRatchet(Number(pos.entryPrice), price, !!pos.ratchetRunner, p, sideOf(pos));
+  if (fromRow) saved.set(pos.id, signature(fromRow));
+
+  let reconciled: string[] = [];
+  try {
+    const legs = await readBracketLegs(pos.ticker, sideOf(pos));
+    if (legs.found) reconciled = reconcileWithLegs(rs, legs, p);
+  } catch (e: any) {
+    reconciled = [`legs_unavailable:${e?.message || "unknown"}`];
+  }
+
+  await saveRatchet(pos.id, rs, { synced: true });
+  return { rs, source: fromRow ? "db" : "init", reconciled };
+}
+
+export function forgetRatchet(positionId: number) {
+  saved.delete(positionId);
+}
+
+/** Drops write signatures of positions that are no longer open (closed by TP/SL, sync, another instance). */
+export function retainRatchets(openIds: number[]) {
+  const keep = new Set(openIds);
+  for (const id of saved.keys()) if (!keep.has(id)) saved.delete(id);
+}
@@ -0,0 +1,175 @@
+// lib/riskManager.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Portfolio risk gate. Every entry path (tick entries in lib/slotEntry.ts,
+//  /api/bot/force-buy, any manual order route) calls checkEntryRisk()
+//  before it talks to the broker.
+//  Limits come from StrategyParams:
+//    maxDailyLossUsd       realized loss since midnight ET  → trips kill switch
+//    maxConsecutiveLosses  losing closes in a row           → trips kill switch
+//    maxNotionalPerSymbol  open + new $ in one ticker       → rejects the order
+//    maxBuyingPowerPct     new $ vs broker buying power     → rejects the order
+//  Only the two loss limits flip the kill switch. The sizing limits are
+//  about one order, not the account: that entry is refused and the next
+//  candidate (or a smaller one) may still go.
+//  The kill switch is persisted on BotState and stays on until someone
+//  re-arms it (POST /api/bot/risk). Losses before the re-arm no longer
+//  count, otherwise the same breach would trip it again immediately.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { dayStartET, etWallOf } from "./market";
+import { ensureBotState } from "./orderLedger";
+import { getActiveStrategyConfig } from "./strategyConfig";
+import { openShares, realizedPnl, sideOf, type StrategyParams } from "./strategy";
+
+export type RiskStatus = {
+  killed: boolean;
+  reason: string | null;
+  killedAt: Date | null;
+  rearmedAt: Date | null;
+  /** realized P&L counted against the daily limit (negative = loss) */
+  dailyRealized: number;
+  consecutiveLosses: number;
+  limits: {
+    maxDailyLossUsd: number;
+    maxConsecutiveLosses: number;
+    maxNotionalPerSymbol: number;
+    maxBuyingPowerPct: number;
+  };
+};
+
+export type RiskCheck = { ok: true; status: RiskStatus } | { ok: false; reason: string; status: RiskStatus };
+
+/* -------------------------- kill switch -------------------------- */
+async function readSwitch() {
+  const s = await prisma.botState.findUnique({
+    where: { id: 1 },
+    select: { killSwitch: true, killReason: true, killedAt: true, rearmedAt: true },
+  });
+  return {
+    killed: !!s?.killSwitch,
+    reason: (s?.killReason as string | null) ?? null,
+    killedAt: (s?.killedAt as Date | null) ?? null,
+    rearmedAt: (s?.rearmedAt as Date | null) ?? null,
+  };
+}
+
+export async function tripKillSwitch(reason: string): Promise<void> {
+  await ensureBotState();
+  // only the first breach is recorded; later ones don't overwrite the cause
+  await prisma.botState.updateMany({
+    where: { id: 1, killSwitch: false },
+    data: { killSwitch: true, killReason: reason, killedAt: new Date() },
+  });
+  console.warn("[riskManager] kill switch tripped:", reason);
+}
+
+export async function rearmKillSwitch(): Promise<void> {
+  const data = { killSwitch: false, killReason: null, rearmedAt: new Date() };
+  // a fresh database has no BotState row yet
+  const { startCash } = (await getActiveStrategyConfig()).params;
+  await prisma.botState.upsert({
+    where: { id: 1 },
+    update: data,
+    create: { id: 1, cash: startCash, pnl: 0, equity: startCash, ...data },
+  });
+}
+
+/* -------------------------- realized P&L -------------------------- */
+/**
+ * Closed positions counted toward the limits: since midnight ET and since
+ * the last re-arm. exitAt is stored as ET wall time while rearmedAt is a
+ * real instant, so the re-arm is brought into exitAt's convention first.
+ */
+async function closedSince(rearmedAt: Date | null) {
+  const dayStart = dayStartET();
+  const rearm = rearmedAt ? etWallOf(rearmedAt) : null;
+  const from = rearm && rearm > dayStart ? rearm : dayStart;
+  return prisma.position.findMany({
+    where: { open: false, exitAt: { gte: from } },
+    orderBy: { exitAt: "desc" },
+    select: { entryPrice: true, exitPrice: true, shares: true, side: true },
+  });
+}
+
+function realizedOf(p: { entryPrice: any; exitPrice: any; shares: any; side?: string | null }) {
+  const exit = Number(p.exitPrice);
+  const entry = Number(p.entryPrice);
+  if (!Number.isFinite(exit) || !Number.isFinite(entry)) return 0;
+  return realizedPnl(sideOf(p), entry, exit, Number(p.shares));
+}
+
+/**
+ * Current status; trips the switch if a loss limit is already breached.
+ * Consecutive losses only look at today's closes (since re-arm), so a bad
+ * Friday doesn't block Monday.
+ */
+export async function evaluateRisk(p: StrategyParams): Promise<RiskStatus> {
+  let sw = await readSwitch();
+  const closed = await closedSince(sw.rearmedAt);
+
+  const dailyRealized = closed.reduce((a: number, x: any) => a + realizedOf(x), 0);
+  let consecutiveLosses = 0;
+  for (const x of closed) {
+    if (realizedOf(x) < 0) consecutiveLosses++;
+    else break;
+  }
+
+  if (!sw.killed) {
+    let breach: string | null = null;
+    if (-dailyRealized >= p.maxDailyLossUsd) {
+      breach = `daily_loss ${dailyRealized.toFixed(2)} <= -${p.maxDailyLossUsd}`;
+    } else if (consecutiveLosses >= p.maxConsecutiveLosses) {
+      breach = `consecutive_losses ${consecutiveLosses} >= ${p.maxConsecutiveLosses}`;
+    }
+    if (breach) {
+      await tripKillSwitch(breach);
+      sw = await readSwitch();
+    }
+  }
+
+  return {
+    ...sw,
+    dailyRealized: Math.round(dailyRealized * 100) / 100,
+    consecutiveLosses,
+    limits: {
+      maxDailyLossUsd: p.maxDailyLossUsd,
+      maxConsecutiveLosses: p.maxConsecutiveLosses,
+      maxNotionalPerSymbol: p.maxNotionalPerSymbol,
+      maxBuyingPowerPct: p.maxBuyingPowerPct,
+    },
+  };
+}
+
+/* -------------------------- entry gate -------------------------- */
+/**
+ * Gate for one prospective entry of `notional` $ in `symbol`.
+ * `buyingPower` is the broker's figure when the caller has it.
+ */
+export async function checkEntryRisk(opts: {
+  symbol: string;
+  notional: number;
+  params: StrategyParams;
+  buyingPower?: number | null;
+}): Promise<RiskCheck> {
+  const { symbol, notional, params: p } = opts;
+  const status = await evaluateRisk(p);
+  if (status.killed) return { ok: false, reason: `kill_switch:${status.reason ?? "manual"}`, status };
+
+  const open = await prisma.position.findMany({
+    where: { open: true, ticker: symbol },
+    select: { entryPrice: true, shares: true, exitedShares: true },
+  });
+  const held = open.reduce((a: number, x: any) => a + Number(x.entryPrice) * openShares(x), 0);
+  if (held + notional > p.maxNotionalPerSymbol) {
+    return { ok: false, reason: `symbol_notional ${symbol} ${(held + notional).toFixed(2)} > ${p.maxNotionalPerSymbol}`, status };
+  }
+
+  const bp = Number(opts.buyingPower);
+  if (Number.isFinite(bp) && bp > 0 && notional > bp * p.maxBuyingPowerPct) {
+    return { ok: false, reason: `buying_power_pct ${(notional / bp).toFixed(2)} > ${p.maxBuyingPowerPct}`, status };
+  }
+
+  return { ok: true, status };
+}
@@ -0,0 +1,255 @@
+// lib/schedule.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Session schedule: the ordered list of intraday phases the bot runs
+//  (prescan → scan/force windows → hold → pre-close exit). The tick route
+//  and the backtester walk the phases in order, and scripts/gen-crons.ts
+//  turns the same list into the /api/bot/tick entries in vercel.json, so a
+//  window is defined in exactly one place.
+//  - start/end are ET wall clock "HH:MM", both inclusive, or relative to
+//    the day's close ("close-10") so 13:00 early closes move with it.
+//  - Phases may overlap (the 10:15 force and the 10:15–10:29 scan); every
+//    active phase runs, in list order.
+//  - "exit" flattens everything from `start` on; its `end` only bounds the
+//    cron triggers.
+//  - SESSION_SCHEDULE env (JSON list) replaces DEFAULT_SCHEDULE; rerun
+//    `npm run crons:gen` after changing it.
+// ─────────────────────────────────────────────────────────────
+
+import { nowET } from "./market";
+import { sessionFor } from "./tradingCalendar";
+
+/* -------------------------- types -------------------------- */
+export const PHASE_KINDS = ["prescan", "scan", "force", "hold", "exit"] as const;
+export type PhaseKind = (typeof PHASE_KINDS)[number];
+
+export type PhaseParams = {
+  /** force: banner for the debug message / narrator */
+  banner?: string;
+  /** prescan: snapshot leaders handed to the AI pick (default 8) */
+  candidates?: number;
+  /** scan: also run the red-breadth short scan when params.allowShorts (default true) */
+  shorts?: boolean;
+  /** cron: trigger the tick every N minutes of the phase; 0 = no cron (default 1, hold 0) */
+  everyMin?: number;
+  /** scripts/tick-scheduler.ts: ms between ticks in the phase (default SCHEDULER_TICK_MS) */
+  tickMs?: number;
+};
+
+export type SessionPhase = {
+  name: string;
+  kind: PhaseKind;
+  /** "HH:MM" ET or "close±N" */
+  start: string;
+  end: string;
+  params?: PhaseParams;
+};
+
+export const DEFAULT_SCHEDULE: SessionPhase[] = [
+  { name: "prescan", kind: "prescan", start: "09:14", end: "09:29", params: { candidates: 8 } },
+  { name: "scan_early", kind: "scan", start: "09:30", end: "09:44" },
+  { name: "force_0945", kind: "force", start: "09:45", end: "09:46", params: { banner: "09:45 FORCE BUY (PRIMARY→SECONDARY)" } },
+  { name: "scan_mid", kind: "scan", start: "09:46", end: "09:59" },
+  { name: "force_1000", kind: "force", start: "10:00", end: "10:01", params: { banner: "10:00 SECOND FORCE BUY (PRIMARY→SECONDARY)" } },
+  { name: "scan_late", kind: "scan", start: "10:01", end: "10:14" },
+  { name: "force_1015", kind: "force", start: "10:15", end: "10:16", params: { banner: "10:15 THIRD FORCE BUY (PRIMARY→SECONDARY)" } },
+  { name: "scan_1015_1029", kind: "scan", start: "10:15", end: "10:29" },
+  { name: "force_1030", kind: "force", start: "10:30", end: "10:31", params: { banner: "10:30 FOURTH FORCE BUY (PRIMARY→SECONDARY)" } },
+  { name: "hold", kind: "hold", start: "10:32", end: "close-11" },
+  { name: "preclose_exit", kind: "exit", start: "close-10", end: "close+5" },
+];
+
+/* -------------------------- time specs -------------------------- */
+const HHMM_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const CLOSE_RE = /^close(?:([+-])(\d{1,3}))?$/;
+const REGULAR_CLOSE = 16 * 60;
+const EARLY_CLOSE = 13 * 60;
+
+/** Minute of the ET day for a time spec, given the day's close; null when unparseable. */
+export function specMinutes(spec: string, closeMin: number): number | null {
+  const t = HHMM_RE.exec(spec);
+  if (t) return Number(t[1]) * 60 + Number(t[2]);
+  const c = CLOSE_RE.exec(spec);
+  if (!c) return null;
+  const off = c[2] ? Number(c[2]) * (c[1] === "-" ? -1 : 1) : 0;
+  return closeMin + off;
+}
+
+const isCloseRelative = (p: SessionPhase) => p.start.startsWith("close") || p.end.startsWith("close");
+
+/* -------------------------- validation -------------------------- */
+export type ScheduleValidation =
+  | { ok: true; schedule: SessionPhase[] }
+  | { ok: false; errors: string[] };
+
+export function validateSchedule(input: unknown): ScheduleValidation {
+  if (!Array.isArray(input)) return { ok: false, errors: ["schedule must be a list"] };
+  const errors: string[] = [];
+  if (!input.length) errors.push("schedule: at least one phase is required");
+
+  const names = new Set<string>();
+  input.forEach((p: any, i) => {
+    const at = `schedule[${i}]`;
+    if (p == null || typeof p !== "object" || Array.isArray(p)) { errors.push(`${at}: expected an object`); return; }
+    for (const k of Object.keys(p)) {
+      if (!["name", "kind", "start", "end", "params"].includes(k)) errors.push(`${at}.${k}: unknown field`);
+    }
+    const name = typeof p.name === "string" ? p.name.trim() : "";
+    if (!name) errors.push(`${at}.name: required`);
+    else if (names.has(name)) errors.push(`${at}.name: "${name}" is used twice`);
+    names.add(name);
+
+    if (!PHASE_KINDS.includes(p.kind)) errors.push(`${at}.kind: one of ${PHASE_KINDS.join("/")}`);
+    for (const k of ["start", "end"] as const) {
+      if (typeof p[k] !== "string" || specMinutes(p[k], REGULAR_CLOSE) == null) errors.push(`${at}.${k}: "HH:MM" or "close±N"`);
+    }
+    if (typeof p.start === "string" && typeof p.end === "string") {
+      for (const close of [REGULAR_CLOSE, EARLY_CLOSE]) {
+        const s = specMinutes(p.start, close), e = specMinutes(p.end, close);
+        if (s != null && e != null && (e < s || s < 0 || e >= 24 * 60)) {
+          errors.push(`${at}: ends before it starts (or leaves the day) with a ${close / 60}:00 close`);
+          break;
+        }
+      }
+    }
+
+    if (p.params != null) {
+      const q = p.params;
+      if (typeof q !== "object" || Array.isArray(q)) { errors.push(`${at}.params: expected an object`); return; }
+      for (const k of Object.keys(q)) {
+        if (!["banner", "candidates", "shorts", "everyMin", "tickMs"].includes(k)) errors.push(`${at}.params.${k}: unknown field`);
+      }
+      if (q.banner != null && typeof q.banner !== "string") errors.push(`${at}.params.banner: must be text`);
+      if (q.candidates != null && !(Number.isInteger(q.candidates) && q.candidates >= 1 && q.candidates <= 50)) {
+        errors.push(`${at}.params.candidates: whole number between 1 and 50`);
+      }
+      if (q.shorts != null && typeof q.shorts !== "boolean") errors.push(`${at}.params.shorts: true or false`);
+      if (q.everyMin != null && !(Number.isInteger(q.everyMin) && q.everyMin >= 0 && q.everyMin <= 60)) {
+        errors.push(`${at}.params.everyMin: whole number between 0 and 60`);
+      }
+      if (q.tickMs != null && !(Number.isInteger(q.tickMs) && q.tickMs >= 500 && q.tickMs <= 60_000)) {
+        errors.push(`${at}.params.tickMs: whole number of ms between 500 and 60000`);
+      }
+    }
+  });
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    schedule: input.map((p: any) => ({
+      name: p.name.trim(),
+      kind: p.kind,
+      start: p.start,
+      end: p.end,
+      ...(p.params ? { params: { ...p.params } } : {}),
+    })),
+  };
+}
+
+function loadSchedule(): SessionPhase[] {
+  const raw = process.env.SESSION_SCHEDULE;
+  if (!raw) return DEFAULT_SCHEDULE;
+  try {
+    const v = validateSchedule(JSON.parse(raw));
+    if (v.ok) return v.schedule;
+    console.warn("[schedule] SESSION_SCHEDULE rejected, using the default:", v.errors.join("; "));
+  } catch (e: any) {
+    console.warn("[schedule] SESSION_SCHEDULE is not JSON, using the default:", e?.message || e);
+  }
+  return DEFAULT_SCHEDULE;
+}
+
+export const SESSION_SCHEDULE: SessionPhase[] = loadSchedule();
+
+/* -------------------------- lookups -------------------------- */
+/**
+ * Start/end minute of the ET day for `d`'s session. Close-relative phases
+ * don't exist on a closed day; fixed-time phases are plain clock windows
+ * (the tick route checks the trading day separately).
+ */
+export function phaseBounds(p: SessionPhase, d: Date = nowET()): { start: number; end: number } | null {
+  const s = sessionFor(d);
+  if (!s.open && isCloseRelative(p)) return null;
+  const close = s.open ? s.closeMin : REGULAR_CLOSE;
+  const start = specMinutes(p.start, close), end = specMinutes(p.end, close);
+  return start == null || end == null ? null : { start, end };
+}
+
+export function phaseActive(p: SessionPhase, d: Date = nowET()): boolean {
+  const b = phaseBounds(p, d);
+  if (!b) return false;
+  const mins = d.getHours() * 60 + d.getMinutes();
+  return p.kind === "exit" ? mins >= b.start : mins >= b.start && mins <= b.end;
+}
+
+/** Active phases at `d`, in schedule order. */
+export function activePhases(d: Date = nowET(), schedule: SessionPhase[] = SESSION_SCHEDULE): SessionPhase[] {
+  return schedule.filter((p) => phaseActive(p, d));
+}
+
+export function inPhaseKind(kind: PhaseKind, d: Date = nowET(), schedule: SessionPhase[] = SESSION_SCHEDULE) {
+  return schedule.some((p) => p.kind === kind && phaseActive(p, d));
+}
+
+/** Phase name → active flag, for status payloads. */
+export function phaseFlags(d: Date = nowET(), schedule: SessionPhase[] = SESSION_SCHEDULE): Record<string, boolean> {
+  return Object.fromEntries(schedule.map((p) => [p.name, phaseActive(p, d)]));
+}
+
+/** First minute of the ET day any phase starts (the backtester's replay start). */
+export function scheduleStartMin(schedule: SessionPhase[] = SESSION_SCHEDULE, closeMin = REGULAR_CLOSE) {
+  return Math.min(...schedule.map((p) => specMinutes(p.start, closeMin) ?? Infinity));
+}
+
+/* -------------------------- cron entries -------------------------- */
+// Vercel crons run in UTC with no DST, so every phase is emitted for both
+// EDT (UTC-4) and EST (UTC-5), and close-relative phases for both the
+// 16:00 and the 13:00 close. The tick re-checks the ET clock, so the
+// off-season triggers are idle ticks.
+const UTC_OFFSETS = [4, 5];
+const DAY = 24 * 60;
+
+function ranges(xs: number[]) {
+  const out: string[] = [];
+  for (let i = 0; i < xs.length; ) {
+    let j = i;
+    while (j + 1 < xs.length && xs[j + 1] === xs[j] + 1) j++;
+    out.push(j === i ? `${xs[i]}` : j === i + 1 ? `${xs[i]},${xs[j]}` : `${xs[i]}-${xs[j]}`);
+    i = j + 1;
+  }
+  return out.join(",");
+}
+
+/** Cron expressions (UTC, Mon–Fri ET) that trigger the tick during every phase with everyMin > 0. */
+export function cronSchedulesFor(schedule: SessionPhase[] = SESSION_SCHEDULE): string[] {
+  const utc = new Set<number>(); // minute of the UTC week-day, may spill past midnight
+  for (const p of schedule) {
+    const every = p.params?.everyMin ?? (p.kind === "hold" ? 0 : 1);
+    if (!every) continue;
+    const closes = isCloseRelative(p) ? [REGULAR_CLOSE, EARLY_CLOSE] : [REGULAR_CLOSE];
+    for (const close of closes) {
+      const start = specMinutes(p.start, close), end = specMinutes(p.end, close);
+      if (start == null || end == null) continue;
+      for (let m = start; m <= end; m += every) {
+        for (const off of UTC_OFFSETS) utc.add(m + off * 60);
+      }
+    }
+  }
+
+  // hour → minutes, then group hours that share the same minute list
+  const out: string[] = [];
+  for (const [dow, lo, hi] of [["1-5", 0, DAY], ["2-6", DAY, 2 * DAY]] as const) {
+    const byHour = new Map<number, number[]>();
+    for (const m of [...utc].filter((x) => x >= lo && x < hi).sort((a, b) => a - b)) {
+      const h = Math.floor((m - lo) / 60);
+      byHour.set(h, [...(byHour.get(h) ?? []), (m - lo) % 60]);
+    }
+    const byMinutes = new Map<string, number[]>();
+    for (const [h, mins] of byHour) {
+      const key = ranges(mins);
+      byMinutes.set(key, [...(byMinutes.get(key) ?? []), h]);
+    }
+    for (const [mins, hours] of byMinutes) out.push(`${mins} ${ranges(hours)} * * ${dow}`);
+  }
+  return out;
+}
@@ -0,0 +1,246 @@
+// lib/slotEntry.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Entry orders for the tick engine (app/api/bot/tick).
+//  - enterSlot: slot plan → lease check → SymbolDayLock claim → risk
+//    gate → bracket; the claim is given back only if nothing reached
+//    the broker
+//  - once the bracket is submitted the entry is linked (Position row,
+//    order ledger, TP/SL re-anchored on the fill, ratchet); a failure
+//    there leaves the order to the ledger / sync to adopt
+//  The tick builds the context per run; scripts/tick-lease-check.ts
+//  drives the same path against the simulator.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { getBroker } from "./broker";
+import {
+  type EntryMode,
+  type PositionSide,
+  type StrategyParams,
+  round2,
+  entryOrderSide,
+  bracketLevels,
+  sharesForBudget,
+  initialRatchet,
+} from "./strategy";
+import type { ActiveStrategyConfig } from "./strategyConfig";
+import type { HeldLease } from "./tickLease";
+import { saveRatchet } from "./ratchetStore";
+import { checkEntryRisk } from "./riskManager";
+import { ENTRY_FILL_WAIT_MS, syncOrderFromBroker, recordReplacements } from "./fillReconciler";
+import { type SlotPlan, acquireSymbolLock, releaseSymbolLock } from "./positionSlots";
+import type { TickDecisionDraft } from "./decisionJournal";
+
+/** What an entry needs from the tick that makes it. */
+export type SlotEntryCtx = {
+  today: string;
+  cfg: ActiveStrategyConfig;
+  decision: TickDecisionDraft;
+  debug: any;
+  /** re-checked right before every entry order */
+  lease: HeldLease;
+  stateRef: () => any;
+  openPositionsRef: () => any[];
+  refreshOpen: () => Promise<void>;
+  slotPlan: () => Promise<SlotPlan>;
+};
+
+/* -------------------------- account cache -------------------------- */
+const ACCOUNT_TTL_MS = 3000;
+let _acctMemo: { t: number; v: any } | null = null;
+export async function memoGetAccount() {
+  const now = Date.now();
+  if (_acctMemo && now - _acctMemo.t < ACCOUNT_TTL_MS) return _acctMemo.v;
+  const v = await getBroker().getAccount();
+  _acctMemo = { t: now, v };
+  return v;
+}
+
+/* -------------------------- wait for broker fill -------------------------- */
+export async function waitForFillAvgPrice(orderId: string, timeoutMs = ENTRY_FILL_WAIT_MS, pollMs = 300): Promise<{ price: number | null; filledAt?: string }> {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs) {
+    try {
+      const o = await getBroker().getOrder(orderId);
+      const px = Number(o?.filled_avg_price);
+      if (o?.status === "filled" && Number.isFinite(px) && px > 0) {
+        return { price: px, filledAt: o.filled_at };
+      }
+      if ((o?.status === "partially_filled" || o?.status === "done_for_day") && Number.isFinite(px) && px > 0) {
+        return { price: px, filledAt: o.filled_at };
+      }
+    } catch { /* ignore */ }
+    await new Promise(r => setTimeout(r, pollMs));
+  }
+  return { price: null };
+}
+
+/* -------------------------- order helper -------------------------- */
+async function placeEntryNow(
+  ticker: string,
+  ref: number,
+  state: any,
+  sizeMult = 1.0,
+  mode: EntryMode,
+  cfg: ActiveStrategyConfig,
+  budget: number,
+  side: PositionSide = "long"
+): Promise<{ ok: boolean; shares?: number; reason?: string }> {
+  const params = cfg.params;
+  let cashNum = 0;
+  try {
+    const acct = await memoGetAccount();
+    const raw = Number(acct?.buying_power ?? acct?.cash ?? 0);
+    cashNum = Number.isFinite(raw) ? raw : 0;
+  } catch {
+    const raw = Number(state?.cash ?? 0);
+    cashNum = Number.isFinite(raw) ? raw : 0;
+  }
+
+  const shares = sharesForBudget(cashNum, budget, sizeMult, ref);
+  if (shares <= 0) return { ok: false, reason: `insufficient_cash_${ticker}_${ref.toFixed(2)}` };
+
+  const risk = await checkEntryRisk({ symbol: ticker, notional: shares * ref, params, buyingPower: cashNum });
+  if (!risk.ok) return { ok: false, reason: `risk_blocked_${ticker}:${risk.reason}` };
+
+  if (side === "short") {
+    try {
+      const a = await getBroker().getShortability(ticker);
+      if (!a.shortable || !a.easyToBorrow) {
+        return { ok: false, reason: `not_shortable_${ticker}:${a.shortable ? "hard_to_borrow" : "not_shortable"}` };
+      }
+    } catch (e: any) {
+      return { ok: false, reason: `shortability_check_failed_${ticker}:${e?.message || "unknown"}` };
+    }
+  }
+
+  const { tp: tmpTp, sl: tmpSl } = bracketLevels(ref, mode, params, side);
+
+  let order;
+  try {
+    order = await getBroker().submitBracket({
+      symbol: ticker,
+      qty: shares,
+      side: entryOrderSide(side),
+      entryType: "market",
+      tp: tmpTp,
+      sl: tmpSl,
+      tif: "day",
+      refPrice: ref,
+    });
+  } catch (e: any) {
+    const msg = e?.message || "unknown";
+    const body = e?.body ? JSON.stringify(e.body).slice(0, 300) : "";
+    return { ok: false, reason: `broker_submit_failed_${ticker}:${msg}${body ? " body="+body : ""}` };
+  }
+
+  // the order is live from here on: a failure below must not free the slot or the symbol
+  try {
+    return await linkEntry(order.id, ticker, ref, shares, mode, cfg, side);
+  } catch (e: any) {
+    console.error("[tick] entry submitted but not linked:", ticker, order.id, e?.message || e);
+    return { ok: true, shares, reason: `submitted_unlinked_${ticker}:${order.id}:${e?.message || "unknown"}` };
+  }
+}
+
+/** Position row, ledger link and ratchet for a submitted entry (the ledger / sync adopt it if this fails). */
+async function linkEntry(
+  orderId: string,
+  ticker: string,
+  ref: number,
+  shares: number,
+  mode: EntryMode,
+  cfg: ActiveStrategyConfig,
+  side: PositionSide
+) {
+  const params = cfg.params;
+  // the row goes in before the fill wait so sync / listener find the order linked (upsert: they may have adopted it)
+  const pos = await prisma.position.upsert({
+    where: { brokerOrderId: orderId },
+    update: {},
+    create: { ticker, side, entryPrice: ref, shares, open: true, brokerOrderId: orderId, configVersion: cfg.version },
+  });
+
+  let entry = Number.isFinite(ref) ? ref : NaN;
+  try {
+    const { price } = await waitForFillAvgPrice(orderId);
+    if (Number.isFinite(Number(price)) && Number(price) > 0) entry = Number(price);
+  } catch {}
+  if (!Number.isFinite(entry)) {
+    try {
+      const pos = await getBroker().getPosition(ticker);
+      const px = Number(pos?.avg_entry_price);
+      if (Number.isFinite(px) && px > 0) entry = px;
+    } catch {}
+  }
+  if (!Number.isFinite(entry)) entry = ref;
+
+  const levels = bracketLevels(entry, mode, params, side);
+  const newTp = round2(levels.tp);
+  const newSl = round2(levels.sl);
+  // shares/entryPrice here are the plan; the order ledger rewrites them (and books the Trade + cash) from fills
+  if (entry !== ref) await prisma.position.update({ where: { id: pos.id }, data: { entryPrice: entry } });
+  try { await syncOrderFromBroker(orderId, { source: "tick", positionId: pos.id }); } catch (e: any) {
+    console.warn("[tick] entry not in ledger yet:", ticker, e?.message || e);
+  }
+
+  try {
+    const r = await getBroker().replaceTpSlIfBetter({ symbol: ticker, newTp, newSl, side });
+    await recordReplacements(r.replaced, { source: "tick", positionId: pos.id });
+  } catch {}
+
+  await saveRatchet(pos.id, { ...initialRatchet(entry, entry, mode === "strong", params, side), lastSL: newSl, lastTP: newTp }, { synced: true });
+
+  return { ok: true, shares };
+}
+
+/* -------------------------- slot entry -------------------------- */
+export function isHeldOrClaimed(sym: string, ctx: SlotEntryCtx, plan: SlotPlan) {
+  return plan.lockedToday.includes(sym) || ctx.openPositionsRef().some((p) => p.ticker === sym);
+}
+
+/**
+ * Claim `sym` for today, size against the current slot plan and place the
+ * bracket. Releases the claim only if no order reached the broker.
+ */
+export async function enterSlot(
+  ctx: SlotEntryCtx,
+  sym: string,
+  ref: number,
+  sizeMult: number,
+  mode: EntryMode,
+  side: PositionSide = "long",
+  params?: StrategyParams
+): Promise<{ ok: boolean; reason?: string }> {
+  const { today, decision, debug } = ctx;
+  // a matched setup's exit overrides ride along as params; the version stays the row's
+  const cfg = params ? { ...ctx.cfg, params } : ctx.cfg;
+  const plan = await ctx.slotPlan();
+  if (plan.free <= 0) return { ok: false, reason: "no_free_slot" };
+  if (isHeldOrClaimed(sym, ctx, plan)) return { ok: false, reason: "symbol_claimed_today" };
+
+  if (!(await ctx.lease.held())) return { ok: false, reason: "tick_lease_lost" };
+
+  const claimed = await acquireSymbolLock(today, sym);
+  if (!claimed) return { ok: false, reason: "symbol_lock_not_acquired" };
+
+  try {
+    const placed = await placeEntryNow(sym, ref, ctx.stateRef(), sizeMult, mode, cfg, plan.entryBudget, side);
+    if (!placed.ok) {
+      await releaseSymbolLock(today, sym);
+      if (placed.reason) debug.reasons.push(placed.reason);
+      return { ok: false, reason: placed.reason };
+    }
+    if (placed.reason) debug.reasons.push(placed.reason); // submitted_unlinked_*: keeps the claim
+    decision.action = "entered";
+    decision.ticker = decision.ticker ?? sym;
+    await ctx.refreshOpen();
+    return { ok: true };
+  } catch (e: any) {
+    // placeEntryNow doesn't throw once the bracket is submitted, so nothing is live here
+    await releaseSymbolLock(today, sym);
+    return { ok: false, reason: e?.message || "entry_exception" };
+  }
+}
@@ -1,5 +1,7 @@
 // /lib/stocksWorker.ts
 
+import { isMarketHoursET } from "./market";
+
 // ---------- Types ----------
 type QuoteMap = Map<string, { data: any; ts: number }>;
 type ProfileMap = Map<string, { data: any; ts: number }>;
@@ -40,14 +42,8 @@ function num(v: any): number | null {
 }
 
 function isMarketOpenNow(): boolean {
-  const now = new Date();
-  const ny = new Date(now.toLocaleString("en-US", { timeZone: "America/New_York" }));
-  const d = ny.getDay();
-  const h = ny.getHours();
-  const m = ny.getMinutes();
-  const isWeekday = d >= 1 && d <= 5;
-  const isHours = (h > 9 || (h === 9 && m >= 30)) && h < 16;
-  return isWeekday && isHours;
+  // holiday / early-close aware (lib/tradingCalendar)
+  return isMarketHoursET();
 }
 
 async function jfetch(url: string, timeoutMs = 12000) {
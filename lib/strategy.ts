@@ -0,0 +1,972 @@
+// lib/strategy.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Entry/exit decision code shared by the live tick route and the
+//  backtester. Nothing in here touches Prisma, Alpaca or fetch directly:
+//  the clock and every data source come in through a StrategyEnv, so a
+//  replay can swap nowET() for a simulated clock and the broker for bars.
+// ─────────────────────────────────────────────────────────────
+
+import { nowET } from "./market";
+import { inPhaseKind } from "./schedule";
+import {
+  etWallDate,
+  ymdOf,
+  minutesSince930,
+  openingRange,
+  sessionVWAP,
+  volumePulse,
+  higherLowAfterOpen,
+} from "./indicators";
+import type { L2Reading } from "./l2Store";
+
+/* -------------------------- types -------------------------- */
+export type Candle = { date: string; open: number; high: number; low: number; close: number; volume: number };
+
+export type SnapStock = {
+  ticker: string;
+  price?: number | null;
+  changesPercentage?: number | null;
+  volume?: number | null;
+  avgVolume?: number | null;
+  marketCap?: number | null;
+  float?: number | null;
+};
+export type Snapshot = { stocks: SnapStock[]; updatedAt?: string };
+
+export type Sentiment = "green" | "neutral" | "red";
+export type EntryMode = "weak" | "strong";
+export type PositionSide = "long" | "short";
+
+/** Everything the decision code needs from the outside world. */
+export type StrategyEnv = {
+  /** ET wall clock (nowET() live, simulated in replays) */
+  now: () => Date;
+  /** Oldest→newest 1-minute candles, at most `limit` */
+  candles1m: (symbol: string, limit: number) => Promise<Candle[]>;
+  /** true when the current spread is within `limitPct` */
+  spreadOK: (symbol: string, limitPct: number) => Promise<boolean>;
+  /** Float shares (or a best-effort estimate) */
+  floatShares: (symbol: string, lastPrice: number | null, snapshot: Snapshot | null) => Promise<number | null>;
+  /** Fresh L2 composite, null without a book; absent in replays (no book data) */
+  l2?: (symbol: string) => L2Reading | null;
+  /** Tunables in effect for this run */
+  params: StrategyParams;
+};
+
+/* -------------------------- tunables -------------------------- */
+/**
+ * Every knob the decision code reads. The live values come from the active
+ * StrategyConfig row (lib/strategyConfig.ts); DEFAULT_STRATEGY_PARAMS is what
+ * runs when no row exists yet and what partial rows are merged over.
+ */
+export type StrategyParams = {
+  // account
+  startCash: number;
+  /** total capital the bot may have deployed at once (split across slots) */
+  investBudget: number;
+  /** open positions allowed at the same time (also entries per day) */
+  maxConcurrentPositions: number;
+  // risk limits (lib/riskManager.ts)
+  maxDailyLossUsd: number;
+  maxConsecutiveLosses: number;
+  maxNotionalPerSymbol: number;
+  maxBuyingPowerPct: number;
+  // sizing tiers
+  sizeFull: number;
+  sizeHalf: number;
+  sizeMicro: number;
+  // exit / target rules
+  stopPct: number;
+  targetPctWeak: number;
+  targetPctStrong: number;
+  forceBuyTargetPct: number;
+  // time-decay tuning (9:30 + decayStartMin … 9:30 + decayEndMin)
+  decayStartMin: number;
+  decayEndMin: number;
+  volMultStart: number;
+  volMultEnd: number;
+  nearOrStart: number;
+  nearOrEnd: number;
+  vwapBandStart: number;
+  vwapBandEnd: number;
+  priceMin: number;
+  priceMax: number;
+  // liquidity
+  minSharesAbs: number;
+  floatMinPctPerMin: number;
+  minDollarVol: number;
+  // breadth
+  breadthGreen: number;
+  breadthRed: number;
+  minEligible: number;
+  topNForBreadth: number;
+  // dip
+  dipMinPct: number;
+  dipMaxPct: number;
+  dipConfirmEither: boolean;
+  // shorts (red VWAP breadth only)
+  allowShorts: boolean;
+  /** size multiplier applied on top of the score tier for short entries */
+  shortSizeMult: number;
+  // L2 order book (symbols without a fresh book are never vetoed or reordered)
+  /** veto long entries whose L2 composite is below l2MinScore */
+  l2Confirm: boolean;
+  l2MinScore: number;
+  /** let the L2 composite put the runner-up (secondary) first */
+  l2TieBreak: boolean;
+  /** composite points the runner-up must lead by */
+  l2TieMargin: number;
+};
+
+export const DEFAULT_STRATEGY_PARAMS: StrategyParams = {
+  startCash: 5000,
+  investBudget: 5000,
+  maxConcurrentPositions: 1,
+
+  maxDailyLossUsd: 500,
+  maxConsecutiveLosses: 3,
+  maxNotionalPerSymbol: 5000,
+  maxBuyingPowerPct: 1.0,
+
+  sizeFull: 1.0,
+  sizeHalf: 0.9,
+  sizeMicro: 0.8,
+
+  stopPct: -0.05,
+  targetPctWeak: 0.05,
+  targetPctStrong: 0.50,
+  forceBuyTargetPct: 0.10,
+
+  decayStartMin: 0,
+  decayEndMin: 14,
+  volMultStart: 1.20,
+  volMultEnd: 1.10,
+  nearOrStart: 0.003,
+  nearOrEnd: 0.0045,
+  vwapBandStart: 0.002,
+  vwapBandEnd: 0.003,
+  priceMin: 1,
+  priceMax: 70,
+
+  minSharesAbs: 3_000,
+  floatMinPctPerMin: 0.001,
+  minDollarVol: 75_000,
+
+  breadthGreen: 0.60,
+  breadthRed: 0.45,
+  minEligible: 4,
+  topNForBreadth: 13,
+
+  dipMinPct: 0.07,
+  dipMaxPct: 0.20,
+  dipConfirmEither: true,
+
+  allowShorts: false,
+  shortSizeMult: 0.5,
+
+  l2Confirm: false,
+  l2MinScore: 45,
+  l2TieBreak: false,
+  l2TieMargin: 10,
+};
+
+export function classifyBreadth(above: number, denom: number, p: StrategyParams = DEFAULT_STRATEGY_PARAMS): Sentiment {
+  const r = denom > 0 ? above / denom : 0;
+  if (r >= p.breadthGreen) return "green";
+  if (r <= p.breadthRed) return "red";
+  return "neutral";
+}
+
+/* -------------------------- small utils -------------------------- */
+export function round2(x: number) {
+  return Math.round(x * 100) / 100;
+}
+function clamp01(x: number) { return Math.max(0, Math.min(1, x)); }
+function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
+
+/** Candle date → ET wall-clock Date (see lib/indicators.ts for the date conventions). */
+export function toET(dateIso: string) {
+  return etWallDate(dateIso);
+}
+export function isSameETDay(d: Date, ymd: string) {
+  return ymdOf(d) === ymd;
+}
+
+/** Minutes since 09:30 ET, clamped to the decay window [0, decayEndMin]. */
+export function minutesSince930ET(d: Date = nowET(), p: StrategyParams = DEFAULT_STRATEGY_PARAMS) {
+  return Math.max(0, Math.min(p.decayEndMin, minutesSince930(d)));
+}
+
+/** 0 → 1 progress through the decay window, used to lerp the scan thresholds. */
+function decayT(now: Date, p: StrategyParams) {
+  return clamp01((minutesSince930ET(now, p) - p.decayStartMin) / (p.decayEndMin - p.decayStartMin));
+}
+
+/* -------------------------- time windows -------------------------- */
+// Scan/force/prescan windows live in lib/schedule.ts (SESSION_SCHEDULE).
+/** From the schedule's exit phase on: 15:50, or close-10m on early-close days (12:50) */
+export function isMandatoryExitET(d: Date = nowET()) {
+  return inPhaseKind("exit", d);
+}
+function inWindow930to945ET(d: Date) {
+  const mins = d.getHours() * 60 + d.getMinutes();
+  return mins >= 9 * 60 + 30 && mins <= 9 * 60 + 45;
+}
+
+/* -------------------------- signals & metrics -------------------------- */
+// Implemented in lib/indicators.ts; kept under these names for the tick route and backtester.
+export const computeOpeningRange = openingRange;
+export const computeSessionVWAP = sessionVWAP;
+export const computeVolumePulse = volumePulse;
+export const computeHigherLowAfterOpen = higherLowAfterOpen;
+
+/* -------------------------- dip helpers -------------------------- */
+export function sessionOpenAt930(candles: Candle[], todayYMD: string): number | null {
+  const c = candles.find((k) => {
+    const d = toET(k.date);
+    return isSameETDay(d, todayYMD) && d.getHours() === 9 && d.getMinutes() === 30;
+  });
+  return c ? c.open : null;
+}
+function dayMinLowSoFar(candles: Candle[], todayYMD: string): number | null {
+  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
+  if (!day.length) return null;
+  return Math.min(...day.map((c) => c.low));
+}
+export function dipArmedNow(params: { candles: Candle[]; todayYMD: string; vwap: number | null; p?: StrategyParams }) {
+  const { candles, todayYMD, vwap, p = DEFAULT_STRATEGY_PARAMS } = params;
+  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
+  if (day.length < 2) return { armed: false, meta: { reason: "not_enough_bars" } };
+  const last = day[day.length - 1]; const prev = day[day.length - 2];
+  const open930 = sessionOpenAt930(candles, todayYMD);
+  const minLow = dayMinLowSoFar(candles, todayYMD);
+  if (open930 == null || minLow == null || open930 <= 0) return { armed: false, meta: { reason: "missing_open_or_min" } };
+  const pullbackPct = (open930 - minLow) / open930;
+  const withinDipBand = pullbackPct >= p.dipMinPct && p.dipMaxPct >= pullbackPct;
+  const brokePrevHigh = last.close > prev.high;
+  const reclaimedVWAP = vwap != null ? last.close >= vwap : false;
+  const confirmOK = p.dipConfirmEither ? (brokePrevHigh || reclaimedVWAP) : (brokePrevHigh && reclaimedVWAP);
+  const lastGreen = last.close >= last.open;
+  const armed = !!(withinDipBand && confirmOK && lastGreen);
+  return { armed, meta: { open930, minLow, pullbackPct, withinDipBand, brokePrevHigh, reclaimedVWAP, lastGreen } };
+}
+
+/* ---------- liquidity gates ---------- */
+function lastNBarsOfDay(candles: Candle[], todayYMD: string, n: number): Candle[] {
+  const day = candles.filter((c) => isSameETDay(toET(c.date), todayYMD));
+  if (!day.length) return [];
+  return day.slice(-n);
+}
+function sumVolAndDollars(bars: Candle[], priceHint?: number | null) {
+  let vol = 0;
+  let dollars = 0;
+  for (const b of bars) {
+    vol += Number(b.volume) || 0;
+    const px = Number.isFinite(Number(b.close)) ? Number(b.close) : Number(priceHint ?? 0);
+    if (px > 0) dollars += (Number(b.volume) || 0) * px;
+  }
+  return { vol, dollars };
+}
+export function passesRelaxedLiquidity(
+  todayYMD: string,
+  candles: Candle[],
+  lastClose: number,
+  floatShares: number | null,
+  volPulseMult: number | null,
+  volPulseMin: number,
+  p: StrategyParams = DEFAULT_STRATEGY_PARAMS
+) {
+  let minSharesReq = p.minSharesAbs;
+  if (Number.isFinite(Number(floatShares)) && floatShares! > 0) {
+    const byFloat = Math.floor(floatShares! * p.floatMinPctPerMin);
+    minSharesReq = Math.max(p.minSharesAbs, byFloat);
+  } else {
+    minSharesReq = Math.max(3_000, p.minSharesAbs);
+  }
+
+  const last1 = lastNBarsOfDay(candles, todayYMD, 1);
+  const last3 = lastNBarsOfDay(candles, todayYMD, 3);
+
+  const one = sumVolAndDollars(last1, lastClose);
+  const three = sumVolAndDollars(last3, lastClose);
+
+  const gateA = (one.vol >= minSharesReq) && (one.dollars >= p.minDollarVol);
+  const gateB = (three.vol >= (2 * minSharesReq)) && (three.dollars >= (2 * p.minDollarVol));
+  const gateC = (volPulseMult ?? 0) >= volPulseMin;
+
+  const trueCount = [gateA, gateB, gateC].filter(Boolean).length;
+  return {
+    ok: trueCount >= 2,
+    details: {
+      minSharesReq,
+      last1: { shares: one.vol, dollars: Math.round(one.dollars) },
+      last3: { shares: three.vol, dollars: Math.round(three.dollars) },
+      gates: { gateA, gateB, gateC, trueCount },
+    }
+  };
+}
+
+/* ---------------- dynamic spread ---------------- */
+export function dynamicSpreadLimitPct(now: Date, price?: number | null, phase: "scan" | "force" = "scan"): number {
+  if (inWindow930to945ET(now)) return 0.013;
+  const clamp = (v: number) => Math.max(0.001, Math.min(0.022, v));
+  let base =
+    phase === "force"
+      ? 0.011
+      : (function () {
+          const mins = now.getHours() * 60 + now.getMinutes();
+          if (mins <= 9 * 60 + 34) return 0.011;
+          if (mins <= 9 * 60 + 39) return 0.009;
+          return 0.008;
+        })();
+  const p = Number(price);
+  if (Number.isFinite(p)) {
+    if (p < 2) base = Math.min(base, 0.015);
+    else if (p < 5) base = Math.min(base, 0.012);
+  }
+  return clamp(base);
+}
+
+/** Float straight from the snapshot row, else 80% of marketCap/price. */
+export function floatFromSnapshot(symbol: string, lastPrice: number | null, snapshot: Snapshot | null): number | null {
+  const snap = snapshot?.stocks?.find(s => s.ticker === symbol);
+  if (snap && Number.isFinite(Number(snap.float))) return Number(snap.float);
+  const mcap = Number(snap?.marketCap);
+  const p = Number(lastPrice);
+  if (Number.isFinite(mcap) && Number.isFinite(p) && p > 0) {
+    const so = mcap / p;
+    if (Number.isFinite(so) && so > 0) return Math.floor(so * 0.8);
+  }
+  return null;
+}
+
+/* ---------------- evaluate entry ---------------- */
+export type EntryEval = {
+  eligible: boolean;
+  armed: boolean;
+  armedMomentum: boolean;
+  armedDip: boolean;
+  armedHigherLow: boolean;
+  refPrice: number | null;
+  meta: any;
+  debug: any;
+  /** L2 read at evaluation time (set once the price/spread/liquidity gates pass) */
+  l2?: L2Check;
+};
+
+/* ---------------- L2 confirmation ---------------- */
+export type L2Check = {
+  /** pass/fail against l2MinScore whether or not l2Confirm enforces it */
+  status: "no_book" | "pass" | "fail";
+  /** l2Confirm is on and the composite failed */
+  veto: boolean;
+  score: number | null;
+  pressure: number | null;
+  tieBreak: number | null;
+  cdi: number | null;
+  tob: number | null;
+  microBiasBps: number | null;
+  spreadBps: number | null;
+  ageMs: number | null;
+};
+
+export function l2CheckFor(symbol: string, env: StrategyEnv): L2Check {
+  const p = env.params;
+  let r: L2Reading | null = null;
+  try { r = env.l2?.(symbol) ?? null; } catch { r = null; }
+  if (!r) {
+    return { status: "no_book", veto: false, score: null, pressure: null, tieBreak: null, cdi: null, tob: null, microBiasBps: null, spreadBps: null, ageMs: null };
+  }
+  const pass = r.score >= p.l2MinScore;
+  const f = r.features;
+  const r2 = (x: number) => Math.round(x * 100) / 100;
+  return {
+    status: pass ? "pass" : "fail",
+    veto: p.l2Confirm && !pass,
+    score: r.score,
+    pressure: r.pressure,
+    tieBreak: r.tieBreak,
+    cdi: r2(f.cdi),
+    tob: r2(f.tob),
+    microBiasBps: r2(f.microBiasBps),
+    spreadBps: r2(f.spreadBps),
+    ageMs: r.ageMs,
+  };
+}
+
+/**
+ * Primary/secondary tie-breaker: `second` goes first when l2TieBreak is on,
+ * both have a book and its composite leads by at least l2TieMargin.
+ */
+export function l2TieBreak(first: string, second: string, checks: Record<string, L2Check | undefined>, p: StrategyParams) {
+  const a = checks[first]?.score ?? null;
+  const b = checks[second]?.score ?? null;
+  const keep = (reason: string) => ({ order: [first, second] as [string, string], swapped: false, reason });
+  if (!p.l2TieBreak) return keep("off");
+  if (a == null || b == null) return keep("no_book");
+  if (b - a < p.l2TieMargin) return keep(`${first} ${a} vs ${second} ${b} (margin ${p.l2TieMargin})`);
+  return { order: [second, first] as [string, string], swapped: true, reason: `${second} ${b} leads ${first} ${a} by ≥${p.l2TieMargin}` };
+}
+
+export async function evaluateEntrySignals(
+  ticker: string,
+  snapshot: Snapshot | null,
+  today: string,
+  env: StrategyEnv
+): Promise<EntryEval> {
+  const dbg: any = {};
+  const p = env.params;
+  const candles = await env.candles1m(ticker, 240);
+  const day = candles.filter((c) => isSameETDay(toET(c.date), today));
+  if (!day.length) {
+    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: null, meta: { reason: "no_day_candles" }, debug: dbg };
+  }
+  const last = day[day.length - 1];
+
+  if (last.close < p.priceMin || last.close > p.priceMax) {
+    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: last.close, meta: { reason: "price_band" }, debug: dbg };
+  }
+
+  const now = env.now();
+  const spreadLimit = dynamicSpreadLimitPct(now, last?.close ?? null, "scan");
+  const spreadOK = await env.spreadOK(ticker, spreadLimit);
+  dbg.spread = { limitPct: spreadLimit, spreadOK };
+  if (!spreadOK) {
+    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: last.close, meta: { reason: "spread_guard" }, debug: dbg };
+  }
+
+  const floatShares = await env.floatShares(
+    ticker,
+    Number.isFinite(Number(last.close)) ? Number(last.close) : null,
+    snapshot
+  );
+
+  const m = minutesSince930ET(now, p);
+  const t = decayT(now, p);
+  const VOL_MULT_MIN = lerp(p.volMultStart, p.volMultEnd, t);
+
+  const vwap = computeSessionVWAP(candles, today);
+  const volPulse = computeVolumePulse(candles, today, 5);
+
+  const liq = passesRelaxedLiquidity(
+    today,
+    candles,
+    last.close,
+    floatShares,
+    volPulse?.mult ?? null,
+    VOL_MULT_MIN,
+    p
+  );
+  dbg.liquidity = {
+    relaxed: true,
+    float: floatShares ?? null,
+    lastClose: last.close,
+    details: liq.details,
+    ok: liq.ok
+  };
+  if (!liq.ok) {
+    return { eligible: false, armed: false, armedMomentum: false, armedDip: false, armedHigherLow: false, refPrice: last.close, meta: { reason: "liquidity" }, debug: dbg };
+  }
+
+  const orRange = computeOpeningRange(candles, today);
+  const open930 = sessionOpenAt930(candles, today);
+  const aboveVWAP = vwap != null && last ? last.close >= vwap : false;
+
+  const NEAR_OR_PCT = lerp(p.nearOrStart, p.nearOrEnd, t);
+  const VWAP_RECLAIM_BAND = lerp(p.vwapBandStart, p.vwapBandEnd, t);
+  const breakORH = !!(orRange && last && last.close > orRange.high);
+  const nearOR = !!(orRange && last && last.close >= orRange.high * (1 - NEAR_OR_PCT));
+  const vwapRecl = !!(vwap != null && last && last.close >= vwap && last.low >= vwap * (1 - VWAP_RECLAIM_BAND));
+  const volOK = (volPulse?.mult ?? 0) >= VOL_MULT_MIN;
+
+  const hl = computeHigherLowAfterOpen(candles, today);
+  const armedHigherLow = !!hl.ok;
+
+  let notOverextended = true;
+  if (open930 != null && Number.isFinite(open930) && open930 > 0) {
+    const ext = (last.close - open930) / open930;
+    notOverextended = ext <= 0.12;
+    dbg.overextension = { fromOpenPct: Number((ext * 100).toFixed(2)), notOverextended };
+  }
+
+  const signals: Record<string, boolean> = { volPulseOK: volOK, breakORH, nearOR, vwapReclaim: vwapRecl, higherLow: armedHigherLow, aboveVWAP };
+  const armedMomentum = !!(aboveVWAP && vwapRecl && volOK && notOverextended && (breakORH || nearOR));
+  const dip = dipArmedNow({ candles, todayYMD: today, vwap: vwap ?? null, p });
+
+  dbg.volPulse = volPulse?.mult ?? null;
+  dbg.VOL_MULT_MIN = VOL_MULT_MIN;
+  dbg.signals = { ...signals, VOL_MULT_MIN, NEAR_OR_PCT, VWAP_RECLAIM_BAND, mSince930: m, armedMomentum, armedDip: dip.armed, armedHigherLow };
+  dbg.dipMeta = dip.meta;
+
+  const eligible = true;
+  const armed = armedMomentum || dip.armed || armedHigherLow;
+  const l2 = l2CheckFor(ticker, env);
+  dbg.l2 = l2;
+
+  return {
+    eligible,
+    armed,
+    armedMomentum,
+    armedDip: dip.armed,
+    armedHigherLow,
+    refPrice: last.close ?? null,
+    meta: { dipMeta: dip.meta, vwap, orRange, higherLow: hl, open930 },
+    debug: dbg,
+    l2,
+  };
+}
+
+/* ---------------- evaluate short entry ---------------- */
+/**
+ * Short setups for red-breadth days. Same price/spread/liquidity gates as
+ * evaluateEntrySignals, then:
+ *  - failed ORH breakout: traded above the opening-range high after 09:33,
+ *    now closed back below it and below VWAP on a red bar
+ *  - VWAP rejection: was below VWAP, last bar tagged it from below and
+ *    closed red under it on a volume pulse
+ */
+export type ShortEval = {
+  eligible: boolean;
+  armed: boolean;
+  armedFailedBreakout: boolean;
+  armedVwapReject: boolean;
+  refPrice: number | null;
+  meta: any;
+  debug: any;
+};
+
+export async function evaluateShortSignals(
+  ticker: string,
+  snapshot: Snapshot | null,
+  today: string,
+  env: StrategyEnv
+): Promise<ShortEval> {
+  const dbg: any = {};
+  const p = env.params;
+  const none = (refPrice: number | null, reason: string): ShortEval => ({
+    eligible: false, armed: false, armedFailedBreakout: false, armedVwapReject: false, refPrice, meta: { reason }, debug: dbg,
+  });
+
+  const candles = await env.candles1m(ticker, 240);
+  const day = candles.filter((c) => isSameETDay(toET(c.date), today));
+  if (day.length < 2) return none(null, "not_enough_bars");
+  const last = day[day.length - 1];
+  const prev = day[day.length - 2];
+
+  if (last.close < p.priceMin || last.close > p.priceMax) return none(last.close, "price_band");
+
+  const now = env.now();
+  const spreadLimit = dynamicSpreadLimitPct(now, last.close, "scan");
+  const spreadOK = await env.spreadOK(ticker, spreadLimit);
+  dbg.spread = { limitPct: spreadLimit, spreadOK };
+  if (!spreadOK) return none(last.close, "spread_guard");
+
+  const floatShares = await env.floatShares(ticker, last.close, snapshot);
+  const t = decayT(now, p);
+  const VOL_MULT_MIN = lerp(p.volMultStart, p.volMultEnd, t);
+  const vwap = computeSessionVWAP(candles, today);
+  const volPulse = computeVolumePulse(candles, today, 5);
+  const liq = passesRelaxedLiquidity(today, candles, last.close, floatShares, volPulse?.mult ?? null, VOL_MULT_MIN, p);
+  dbg.liquidity = { float: floatShares ?? null, details: liq.details, ok: liq.ok };
+  if (!liq.ok) return none(last.close, "liquidity");
+
+  const orRange = computeOpeningRange(candles, today);
+  const open930 = sessionOpenAt930(candles, today);
+  const VWAP_BAND = lerp(p.vwapBandStart, p.vwapBandEnd, t);
+  const volOK = (volPulse?.mult ?? 0) >= VOL_MULT_MIN;
+  const lastRed = last.close < last.open;
+  const belowVWAP = vwap != null && last.close < vwap;
+
+  const afterOR = day.filter((c) => {
+    const d = toET(c.date);
+    return d.getHours() * 60 + d.getMinutes() > 9 * 60 + 33;
+  });
+  const brokeOutEarlier = !!(orRange && afterOR.slice(0, -1).some((c) => c.high > orRange.high));
+  const failedBreakout = !!(orRange && brokeOutEarlier && last.close < orRange.high && belowVWAP && lastRed);
+
+  const taggedVWAP = vwap != null && last.high >= vwap * (1 - VWAP_BAND);
+  const vwapReject = !!(vwap != null && prev.close < vwap && taggedVWAP && belowVWAP && lastRed && volOK);
+
+  // don't press a stock that already flushed
+  let notOverextended = true;
+  if (open930 != null && open930 > 0) {
+    const ext = (open930 - last.close) / open930;
+    notOverextended = ext <= 0.12;
+    dbg.overextension = { belowOpenPct: Number((ext * 100).toFixed(2)), notOverextended };
+  }
+
+  const armedFailedBreakout = failedBreakout && notOverextended;
+  const armedVwapReject = vwapReject && notOverextended;
+
+  dbg.volPulse = volPulse?.mult ?? null;
+  dbg.VOL_MULT_MIN = VOL_MULT_MIN;
+  dbg.signals = { brokeOutEarlier, failedBreakout, taggedVWAP, vwapReject, belowVWAP, lastRed, volOK, VWAP_BAND };
+
+  return {
+    eligible: true,
+    armed: armedFailedBreakout || armedVwapReject,
+    armedFailedBreakout,
+    armedVwapReject,
+    refPrice: last.close,
+    meta: { vwap, orRange, open930 },
+    debug: dbg,
+  };
+}
+
+/** Armed short candidates, best first: failed breakout > VWAP rejection, volume pulse breaks ties. */
+export function rankShortPicks(picks: string[], evals: Record<string, ShortEval>) {
+  return picks
+    .filter((s) => evals[s]?.eligible && evals[s]?.armed)
+    .map((sym) => {
+      const ev = evals[sym]!;
+      const volMult = Number(ev.debug?.volPulse ?? 0);
+      const volMin = Number(ev.debug?.VOL_MULT_MIN ?? 1);
+      const score = (ev.armedFailedBreakout ? 2 : 0) + (ev.armedVwapReject ? 1 : 0) + Math.max(0, Math.min(2, volMult / (volMin || 1)));
+      return { sym, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Size + bracket mode for a short; both setups at once runs the strong target. */
+export function shortEntryPlanFor(e: ShortEval, p: StrategyParams = DEFAULT_STRATEGY_PARAMS) {
+  const both = e.armedFailedBreakout && e.armedVwapReject;
+  const sizeMult = (both ? p.sizeFull : p.sizeHalf) * p.shortSizeMult;
+  const mode: EntryMode = both ? "strong" : "weak";
+  return { sizeMult, mode };
+}
+
+/* -------------------------- setup scoring -------------------------- */
+type SetupScore = { score: number; reasons: string[] };
+export function scoreSetup(e: EntryEval): SetupScore {
+  const r: string[] = [];
+  let score = 0;
+
+  const volMult = Number(e?.debug?.volPulse ?? 0);
+  const volMin  = Number(e?.debug?.VOL_MULT_MIN ?? 999);
+  if (Number.isFinite(volMult) && Number.isFinite(volMin) && volMult >= volMin) {
+    score++; r.push(`volOK(${volMult.toFixed(2)}≥${volMin.toFixed(2)})`);
+  } else {
+    r.push(`volWeak(${(volMult||0).toFixed(2)}<${(volMin||0).toFixed(2)})`);
+  }
+
+  if (e?.debug?.signals?.vwapReclaim) { score++; r.push("vwapReclaim"); } else r.push("noVwapReclaim");
+  if (e?.debug?.signals?.breakORH || e?.debug?.signals?.nearOR) { score++; r.push("ORH/nearOR"); } else r.push("noORH");
+  if (e?.debug?.aboveVWAP) { score++; r.push("aboveVWAP"); } else r.push("belowVWAP");
+
+  if (e.armedDip)       { score++; r.push("armedDip"); }
+  if (e.armedHigherLow) { score++; r.push("higherLow"); }
+
+  return { score, reasons: r };
+}
+
+/* -------- map score -> size -------- */
+export function sizeForScoreOptionA(
+  score: number,
+  e: EntryEval,
+  p: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): { sizeMult: number; label: "full"|"half"|"micro" } {
+  if (e.armedHigherLow || e.armedDip) return { sizeMult: p.sizeFull, label: "full" };
+  if (score >= 2) return { sizeMult: p.sizeFull, label: "full" };
+  if (score === 1) return { sizeMult: p.sizeHalf, label: "half" };
+  return { sizeMult: p.sizeMicro, label: "micro" };
+}
+
+/** Score → size multiplier + bracket mode, as used by every entry path. */
+export function entryPlanFor(e: EntryEval, p: StrategyParams = DEFAULT_STRATEGY_PARAMS) {
+  const { score, reasons } = scoreSetup(e);
+  const { sizeMult, label } = sizeForScoreOptionA(score, e, p);
+  const mode: EntryMode = score >= 2 ? "strong" : "weak";
+  return { score, reasons, sizeMult, sizeLabel: label, mode };
+}
+
+/* -------------------------- entry quality scoring -------------------------- */
+export function entryQualityScore(e: EntryEval) {
+  let score = 0;
+  if (e.armedHigherLow) score += 3;
+  if (e.armedDip)       score += 2;
+  if (e.armedMomentum)  score += 1;
+
+  const volMult = Number(e?.debug?.volPulse ?? 0);
+  const volMin  = Number(e?.debug?.VOL_MULT_MIN ?? 1);
+  const volBoost = Math.max(0, Math.min(2, volMult / (volMin || 1)));
+  score += volBoost;
+
+  const extPct = Number(e?.meta?.open930 ? ((e.refPrice! - e.meta.open930) / e.meta.open930) : 0);
+  const notOverextended = e?.debug?.overextension?.notOverextended ?? true;
+  const extBoost = notOverextended ? Math.max(0, Math.min(4, 4 * (0.12 - Math.max(0, extPct)))) : 0;
+  score += (isNaN(extBoost) ? 2 : extBoost);
+
+  return {
+    score,
+    features: {
+      armedHigherLow: e.armedHigherLow,
+      armedDip: e.armedDip,
+      armedMomentum: e.armedMomentum,
+      volMult,
+      volMin,
+      extPct: Number((extPct*100).toFixed(2)),
+    }
+  };
+}
+
+export function isArmedEval(ev: EntryEval | undefined | null) {
+  return !!(ev?.eligible && !ev.l2?.veto && (ev.armedHigherLow || ev.armedDip || ev.armedMomentum));
+}
+
+/** Armed picks, best entry quality first (volume pulse breaks ties). */
+export function rankArmedPicks(picks: string[], evals: Record<string, EntryEval>) {
+  return picks
+    .filter((s) => isArmedEval(evals[s]))
+    .map((sym) => {
+      const eq = entryQualityScore(evals[sym]!);
+      return { sym, eq, vol: Number(evals[sym]?.debug?.volPulse ?? 0) };
+    })
+    .sort((a, b) => {
+      if (b.eq.score !== a.eq.score) return b.eq.score - a.eq.score;
+      return (b.vol || 0) - (a.vol || 0);
+    });
+}
+
+/* ---------------- gentle gate for force windows ---------------- */
+export async function assessObviousWeakAtForce(opts: {
+  symbol: string;
+  today: string;
+  snapshot: Snapshot | null;
+  env: StrategyEnv;
+}) {
+  const { symbol, today, snapshot, env } = opts;
+  const p = env.params;
+
+  const ev = await evaluateEntrySignals(symbol, snapshot, today, env);
+  const lastPrice = Number(ev.refPrice ?? NaN);
+  const priceBandOK = Number.isFinite(lastPrice) && lastPrice >= p.priceMin && lastPrice <= p.priceMax;
+
+  if (!priceBandOK) {
+    return { proceed: false, instantVeto: true, veto: "price_band", flagsCount: 0, flags: [] as string[], overrides: { dipArmed: ev.armedDip, microBounce: false }, ev };
+  }
+
+  const now = env.now();
+  const forceSpreadLimit = dynamicSpreadLimitPct(now, lastPrice, "force");
+  const forceSpreadOK = await env.spreadOK(symbol, forceSpreadLimit);
+  if (!forceSpreadOK) {
+    return { proceed: false, instantVeto: true, veto: "spread_guard", flagsCount: 0, flags: [] as string[], overrides: { dipArmed: ev.armedDip, microBounce: false }, ev, forceSpreadLimit };
+  }
+
+  const vwap: number | null = ev.meta?.vwap ?? null;
+  const orh: number | undefined = ev.meta?.orRange?.high;
+  const open930: number | undefined = ev.meta?.open930;
+
+  const t = decayT(now, p);
+  const NEAR_OR_PCT = Math.max(0, lerp(p.nearOrStart, p.nearOrEnd, t) + 0.001);
+  const volMult = Number(ev.debug?.volPulse ?? 0);
+  const volMin  = Number(ev.debug?.VOL_MULT_MIN ?? 1);
+
+  const underVWAP_noReclaim = (vwap != null && lastPrice < vwap) && !(ev.debug?.signals?.vwapReclaim === true);
+  const notNearOR = !!(orh && lastPrice < orh * (1 - NEAR_OR_PCT));
+  const volSoft = volMult < 0.9 * (volMin || 1);
+  const liqTrueCount = Number(ev.debug?.liquidity?.details?.gates?.trueCount ?? 0);
+  const liqThinNow = liqTrueCount <= 1;
+  const bleedFromOpen = (Number.isFinite(open930) && (open930 as number) > 0)
+    ? ((lastPrice - (open930 as number)) / (open930 as number))
+    : 0;
+  const mildBleed = bleedFromOpen <= -0.06;
+
+  const dipArmed = !!ev.armedDip;
+
+  // micro-bounce detection
+  const dayCandles = await env.candles1m(symbol, 8);
+  const day = dayCandles.filter((c) => isSameETDay(toET(c.date), today));
+  const last = day[day.length - 1];
+  const prev = day[day.length - 2];
+  let microBounce = false;
+  if (last && prev) {
+    const rng = Math.max(0.000001, last.high - last.low);
+    const posInRange = (last.close - last.low) / rng; // 0..1
+    microBounce = (posInRange >= 0.60) && (last.close > prev.high);
+  }
+
+  const flags = [
+    underVWAP_noReclaim ? "underVWAP_noReclaim" : null,
+    notNearOR ? "notNearOR" : null,
+    volSoft ? "volSoft" : null,
+    liqThinNow ? "liqThinNow" : null,
+    mildBleed ? "mildBleed" : null,
+  ].filter(Boolean) as string[];
+
+  const shouldSkip = flags.length >= 3 && !(dipArmed || microBounce);
+
+  return {
+    proceed: !shouldSkip,
+    instantVeto: false,
+    veto: null as string | null,
+    flagsCount: flags.length,
+    flags,
+    overrides: { dipArmed, microBounce },
+    ev,
+    meta: {
+      priceBandOK, forceSpreadOK, forceSpreadLimit,
+      vwap, orh, volMult, volMin, liqTrueCount,
+      bleedFromOpenPct: Number((bleedFromOpen * 100).toFixed(2)),
+    }
+  };
+}
+
+/* -------------------------- brackets & sizing -------------------------- */
+/** Shorts mirror the long bracket: target below entry, stop above. */
+export function bracketLevels(
+  entry: number,
+  mode: EntryMode,
+  p: StrategyParams = DEFAULT_STRATEGY_PARAMS,
+  side: PositionSide = "long"
+) {
+  const dir = side === "short" ? -1 : 1;
+  return {
+    tp: entry * (1 + dir * (mode === "strong" ? p.targetPctStrong : p.targetPctWeak)),
+    sl: entry * (1 + dir * p.stopPct),
+  };
+}
+
+/* -------------------------- position side helpers -------------------------- */
+export function sideOf(pos: { side?: string | null } | null | undefined): PositionSide {
+  return pos?.side === "short" ? "short" : "long";
+}
+/** Broker order side that opens / closes a position of `side`. */
+export function entryOrderSide(side: PositionSide): "buy" | "sell" {
+  return side === "short" ? "sell" : "buy";
+}
+export function exitOrderSide(side: PositionSide): "buy" | "sell" {
+  return side === "short" ? "buy" : "sell";
+}
+/** Trade.side labels: BUY/SELL for longs, SHORT/COVER for shorts. */
+export const TRADE_SIDES: Record<PositionSide, { open: string; close: string }> = {
+  long: { open: "BUY", close: "SELL" },
+  short: { open: "SHORT", close: "COVER" },
+};
+/** Shares still held: filled entry qty minus filled exit qty (Position.exitedShares). */
+export function openShares(pos: { shares: any; exitedShares?: any }) {
+  return Math.max(0, Number(pos.shares) - Number(pos.exitedShares ?? 0));
+}
+export function realizedPnl(side: PositionSide, entry: number, exit: number, shares: number) {
+  return (side === "short" ? entry - exit : exit - entry) * shares;
+}
+/**
+ * What a position adds to equity at `price`. BotState.cash is debited by
+ * shares × entry on either side, so a short carries that collateral plus
+ * its unrealized P&L.
+ */
+export function markValue(side: PositionSide, entry: number, price: number, shares: number) {
+  return shares * entry + realizedPnl(side, entry, price, shares);
+}
+
+/** Whole shares for `cash` capped at `cap`, scaled by the size multiplier. */
+export function sharesForBudget(cash: number, cap: number, sizeMult: number, ref: number) {
+  const clampedMult = Math.max(0.1, Math.min(sizeMult, 1.0));
+  const budget = Math.max(0, Math.min(cash, cap) * clampedMult);
+  let shares = Math.floor(budget / ref);
+  if (shares <= 0 && budget >= ref) shares = 1;
+  return Math.max(0, shares);
+}
+
+/* -------------------------- ratchet -------------------------- */
+/**
+ * `high` is the best price seen since entry: the high-water mark for a
+ * long, the low-water mark for a short. Every level moves the other way
+ * for shorts (stops come down, targets go lower).
+ */
+export type RatchetState = {
+  entry: number;
+  high: number;
+  lastRung: number;
+  lastLiftAt: number;
+  runner: boolean;
+  lastSL: number;
+  lastTP: number;
+  side?: PositionSide;
+};
+export type RatchetLift = { newSl?: number; newTp?: number; force: boolean };
+
+export function initialRatchet(
+  entry: number,
+  price: number,
+  runner = false,
+  p: StrategyParams = DEFAULT_STRATEGY_PARAMS,
+  side: PositionSide = "long"
+): RatchetState {
+  const { tp, sl } = bracketLevels(entry, runner ? "strong" : "weak", p, side);
+  const weak = bracketLevels(entry, "weak", p, side);
+  return {
+    entry,
+    high: side === "short" ? Math.min(entry, price) : Math.max(entry, price),
+    lastRung: 0,
+    lastLiftAt: 0,
+    runner,
+    lastSL: round2(sl),
+    lastTP: round2(runner ? tp : weak.tp),
+    side,
+  };
+}
+
+/**
+ * One ratchet step at price `p`. Lifts go through `apply` (broker call in
+ * the live route, simulated legs in replays); a throw leaves state untouched.
+ */
+export async function ratchetTick(
+  rs: RatchetState,
+  p: number,
+  nowMs: number,
+  apply: (lift: RatchetLift) => Promise<void>
+) {
+  const dir = rs.side === "short" ? -1 : 1;
+  /** entry moved `pct` in our favour */
+  const at = (pct: number) => round2(rs.entry * (1 + dir * pct));
+  /** how far `a` is past `b` in our favour */
+  const beyond = (a: number, b: number) => dir * (a - b);
+
+  rs.high = dir > 0 ? Math.max(rs.high, p) : Math.min(rs.high, p);
+
+  const gainPct = beyond(rs.high, rs.entry) / rs.entry;
+  const rungIndex = Math.floor(gainPct / 0.05); // 5% steps
+  const candidatePctFromEntry = Math.max(0, (rungIndex - 1) * 0.05);
+  const candidateSL = at(candidatePctFromEntry);
+  const maxTightStop = round2(rs.high * (1 - dir * 0.05));
+  const targetSL = beyond(candidateSL, maxTightStop) <= 0 ? candidateSL : maxTightStop;
+  const improvedBy = beyond(targetSL, rs.lastSL);
+  const cooldownOK = nowMs - (rs.lastLiftAt || 0) >= 12000;
+
+  if (rungIndex > rs.lastRung && improvedBy >= 0.02 && cooldownOK) {
+    try {
+      await apply({ newSl: targetSL, force: false });
+      rs.lastRung = rungIndex;
+      rs.lastLiftAt = nowMs;
+      rs.lastSL = targetSL;
+    } catch {}
+  }
+
+  if (rs.runner) {
+    const steps = [0.05, 0.10, 0.15, 0.20, 0.30];
+    for (const step of steps) {
+      if (gainPct >= step && nowMs - rs.lastLiftAt >= 6000) {
+        let targetRunnerSL = at(step - 0.05);
+        if (beyond(targetRunnerSL, rs.entry) < 0) targetRunnerSL = rs.entry;
+        const targetRunnerTP = at(step + 0.10);
+
+        const needSL = beyond(targetRunnerSL, rs.lastSL) > 0.01;
+        const needTP = beyond(targetRunnerTP, rs.lastTP) > 0.01;
+
+        if (needSL || needTP) {
+          try {
+            await apply({
+              newSl: needSL ? targetRunnerSL : undefined,
+              newTp: needTP ? targetRunnerTP : undefined,
+              force: true,
+            });
+            if (needSL) rs.lastSL = targetRunnerSL;
+            if (needTP) rs.lastTP = targetRunnerTP;
+            rs.lastLiftAt = nowMs;
+          } catch {}
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,272 @@
+// lib/strategyConfig.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Versioned strategy tunables. Every save writes a new StrategyConfig
+//  row (version = max + 1); exactly one row is active. Rows are validated
+//  on write AND on load, so a hand-edited bad row can't reach the bot —
+//  it falls back to DEFAULT_STRATEGY_PARAMS (version 0) and says why.
+//  A row may also carry entry `setups` (lib/strategySetups.ts); null
+//  means the built-in DEFAULT_SETUPS.
+// ─────────────────────────────────────────────────────────────
+
+import { prisma } from "./prisma";
+import { DEFAULT_STRATEGY_PARAMS, type StrategyParams } from "./strategy";
+import { DEFAULT_SETUPS, validateStrategySetups, type StrategySetup } from "./strategySetups";
+
+export type ActiveStrategyConfig = {
+  /** 0 = built-in defaults (no valid active row) */
+  version: number;
+  params: StrategyParams;
+  /** entry setups the scan windows match against */
+  setups: StrategySetup[];
+  /** "builtin" when the row has no setups of its own */
+  setupsSource: "db" | "builtin";
+  source: "db" | "default";
+  /** Validation/load problems that forced the default fallback */
+  errors?: string[];
+};
+
+export type StrategyConfigRow = {
+  id: number;
+  version: number;
+  params: unknown;
+  setups: unknown;
+  active: boolean;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+};
+
+/* -------------------------- validation -------------------------- */
+type NumRule = { min: number; max: number; int?: boolean };
+type Rule = NumRule | "boolean";
+
+const RULES: Record<keyof StrategyParams, Rule> = {
+  startCash: { min: 0, max: 10_000_000 },
+  investBudget: { min: 1, max: 10_000_000 },
+  maxConcurrentPositions: { min: 1, max: 10, int: true },
+
+  maxDailyLossUsd: { min: 1, max: 10_000_000 },
+  maxConsecutiveLosses: { min: 1, max: 50, int: true },
+  maxNotionalPerSymbol: { min: 1, max: 10_000_000 },
+  maxBuyingPowerPct: { min: 0.01, max: 1 },
+
+  sizeFull: { min: 0.1, max: 1 },
+  sizeHalf: { min: 0.1, max: 1 },
+  sizeMicro: { min: 0.1, max: 1 },
+
+  stopPct: { min: -0.5, max: -0.001 },
+  targetPctWeak: { min: 0.001, max: 5 },
+  targetPctStrong: { min: 0.001, max: 5 },
+  forceBuyTargetPct: { min: 0.001, max: 5 },
+
+  decayStartMin: { min: 0, max: 60, int: true },
+  decayEndMin: { min: 1, max: 60, int: true },
+  volMultStart: { min: 0, max: 20 },
+  volMultEnd: { min: 0, max: 20 },
+  nearOrStart: { min: 0, max: 0.2 },
+  nearOrEnd: { min: 0, max: 0.2 },
+  vwapBandStart: { min: 0, max: 0.2 },
+  vwapBandEnd: { min: 0, max: 0.2 },
+  priceMin: { min: 0.01, max: 10_000 },
+  priceMax: { min: 0.01, max: 10_000 },
+
+  minSharesAbs: { min: 0, max: 10_000_000, int: true },
+  floatMinPctPerMin: { min: 0, max: 0.1 },
+  minDollarVol: { min: 0, max: 1_000_000_000 },
+
+  breadthGreen: { min: 0, max: 1 },
+  breadthRed: { min: 0, max: 1 },
+  minEligible: { min: 1, max: 50, int: true },
+  topNForBreadth: { min: 1, max: 50, int: true },
+
+  dipMinPct: { min: 0, max: 1 },
+  dipMaxPct: { min: 0, max: 1 },
+  dipConfirmEither: "boolean",
+
+  allowShorts: "boolean",
+  shortSizeMult: { min: 0.1, max: 1 },
+
+  l2Confirm: "boolean",
+  l2MinScore: { min: 0, max: 100 },
+  l2TieBreak: "boolean",
+  l2TieMargin: { min: 0, max: 100 },
+};
+
+export type StrategyParamsValidation =
+  | { ok: true; params: StrategyParams }
+  | { ok: false; errors: string[] };
+
+/**
+ * Merge `input` over the defaults and check every field. Keys missing from
+ * older rows pick up the current default; unknown keys are rejected so a
+ * typo doesn't silently do nothing.
+ */
+export function validateStrategyParams(input: unknown): StrategyParamsValidation {
+  if (input == null || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: ["params must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const k of Object.keys(raw)) {
+    if (!(k in RULES)) errors.push(`${k}: unknown parameter`);
+  }
+
+  const out: any = { ...DEFAULT_STRATEGY_PARAMS };
+  for (const key of Object.keys(RULES) as (keyof StrategyParams)[]) {
+    if (!(key in raw)) continue;
+    const rule = RULES[key];
+    const v = raw[key];
+    if (rule === "boolean") {
+      if (typeof v !== "boolean") errors.push(`${key}: expected true/false`);
+      else out[key] = v;
+      continue;
+    }
+    const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+    if (typeof n !== "number" || !Number.isFinite(n)) { errors.push(`${key}: expected a number`); continue; }
+    if (rule.int && !Number.isInteger(n)) { errors.push(`${key}: expected a whole number`); continue; }
+    if (n < rule.min || n > rule.max) { errors.push(`${key}: must be between ${rule.min} and ${rule.max}`); continue; }
+    out[key] = n;
+  }
+
+  const p = out as StrategyParams;
+  if (p.priceMin >= p.priceMax) errors.push("priceMin must be below priceMax");
+  if (p.decayStartMin >= p.decayEndMin) errors.push("decayStartMin must be below decayEndMin");
+  if (p.breadthRed >= p.breadthGreen) errors.push("breadthRed must be below breadthGreen");
+  if (p.dipMinPct >= p.dipMaxPct) errors.push("dipMinPct must be below dipMaxPct");
+  if (!(p.sizeMicro <= p.sizeHalf && p.sizeHalf <= p.sizeFull)) errors.push("sizes must satisfy sizeMicro ≤ sizeHalf ≤ sizeFull");
+  if (p.minEligible > p.topNForBreadth) errors.push("minEligible can't exceed topNForBreadth");
+
+  return errors.length ? { ok: false, errors } : { ok: true, params: p };
+}
+
+/* -------------------------- load (cached) -------------------------- */
+const ACTIVE_TTL_MS = 15_000;
+let _active: { t: number; v: ActiveStrategyConfig } | null = null;
+
+function defaults(errors?: string[]): ActiveStrategyConfig {
+  return {
+    version: 0,
+    params: { ...DEFAULT_STRATEGY_PARAMS },
+    setups: DEFAULT_SETUPS,
+    setupsSource: "builtin",
+    source: "default",
+    ...(errors ? { errors } : {}),
+  };
+}
+
+/** Active config (15s memo). Never throws: DB or validation trouble → defaults. */
+export async function getActiveStrategyConfig(opts: { fresh?: boolean } = {}): Promise<ActiveStrategyConfig> {
+  const now = Date.now();
+  if (!opts.fresh && _active && now - _active.t < ACTIVE_TTL_MS) return _active.v;
+
+  let v: ActiveStrategyConfig;
+  try {
+    const row = await prisma.strategyConfig.findFirst({ where: { active: true }, orderBy: { version: "desc" } });
+    if (!row) {
+      v = defaults();
+    } else {
+      const res = validateStrategyParams(row.params);
+      const setups = row.setups == null ? null : validateStrategySetups(row.setups);
+      const errors = [...(res.ok ? [] : res.errors), ...(setups && !setups.ok ? setups.errors : [])];
+      if (res.ok && (!setups || setups.ok)) {
+        v = {
+          version: row.version,
+          params: res.params,
+          setups: setups?.ok ? setups.setups : DEFAULT_SETUPS,
+          setupsSource: setups ? "db" : "builtin",
+          source: "db",
+        };
+      } else {
+        console.warn(`[strategyConfig] v${row.version} failed validation, using defaults:`, errors.join("; "));
+        v = defaults(errors.map((e) => `v${row.version}: ${e}`));
+      }
+    }
+  } catch (e: any) {
+    v = defaults([`load_failed: ${e?.message || String(e)}`]);
+  }
+
+  _active = { t: now, v };
+  return v;
+}
+
+export function invalidateStrategyConfigCache() {
+  _active = null;
+}
+
+/* -------------------------- history / writes -------------------------- */
+export async function listStrategyConfigs(limit = 20): Promise<StrategyConfigRow[]> {
+  return prisma.strategyConfig.findMany({ orderBy: { version: "desc" }, take: Math.max(1, Math.min(limit, 200)) });
+}
+
+function configError(msg: string, errors: string[]) {
+  const err = new Error(`StrategyConfig: ${msg}`);
+  (err as any).errors = errors;
+  return err;
+}
+
+/**
+ * Save `input` as a new version. Throws with `err.errors` holding the
+ * validation messages when the params or setups are bad.
+ * `setups`: a list replaces them, null resets to the built-in setups,
+ * undefined carries over the active row's setups.
+ */
+export async function saveStrategyConfig(
+  input: unknown,
+  opts: { note?: string | null; createdBy?: string | null; activate?: boolean; setups?: unknown } = {}
+): Promise<StrategyConfigRow> {
+  const res = validateStrategyParams(input);
+  if (!res.ok) throw configError("invalid params", res.errors);
+  let setups: StrategySetup[] | null = null;
+  if (opts.setups != null) {
+    const sv = validateStrategySetups(opts.setups);
+    if (!sv.ok) throw configError("invalid setups", sv.errors);
+    setups = sv.setups;
+  }
+  const activate = opts.activate ?? true;
+
+  const row = await prisma.$transaction(async (tx: any) => {
+    const latest = await tx.strategyConfig.findFirst({ orderBy: { version: "desc" }, select: { version: true } });
+    const version = (latest?.version ?? 0) + 1;
+    if (opts.setups === undefined) {
+      const current = await tx.strategyConfig.findFirst({ where: { active: true }, orderBy: { version: "desc" }, select: { setups: true } });
+      const carried = current?.setups == null ? null : validateStrategySetups(current.setups);
+      if (carried?.ok) setups = carried.setups;
+    }
+    if (activate) await tx.strategyConfig.updateMany({ where: { active: true }, data: { active: false } });
+    return tx.strategyConfig.create({
+      data: {
+        version,
+        params: res.params,
+        setups: setups ?? undefined,
+        active: activate,
+        note: opts.note?.trim() || null,
+        createdBy: opts.createdBy ?? null,
+      },
+    });
+  });
+
+  invalidateStrategyConfigCache();
+  return row;
+}
+
+/** Re-activate an existing version (rollback). The row is re-validated first. */
+export async function activateStrategyConfig(version: number): Promise<StrategyConfigRow> {
+  const row = await prisma.strategyConfig.findUnique({ where: { version } });
+  if (!row) throw configError("version not found", [`no StrategyConfig v${version}`]);
+  const res = validateStrategyParams(row.params);
+  if (!res.ok) throw configError(`v${version} has invalid params`, res.errors);
+  if (row.setups != null) {
+    const sv = validateStrategySetups(row.setups);
+    if (!sv.ok) throw configError(`v${version} has invalid setups`, sv.errors);
+  }
+
+  const [, updated] = await prisma.$transaction([
+    prisma.strategyConfig.updateMany({ where: { active: true }, data: { active: false } }),
+    prisma.strategyConfig.update({ where: { version }, data: { active: true } }),
+  ]);
+
+  invalidateStrategyConfigCache();
+  return updated;
+}
@@ -0,0 +1,361 @@
+// lib/strategySetups.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Declarative entry setups. A StrategyConfig row may carry a `setups`
+//  list next to its params; each setup names a condition over the signal
+//  primitives evaluateEntrySignals already computes, plus sizing and exits:
+//
+//    { "name": "orb_volume",
+//      "when": { "all": ["aboveVWAP", "breakORH",
+//                        { "metric": "volMult", "op": ">=", "value": 2 },
+//                        { "time": { "from": "09:33", "to": "09:59" } }] },
+//      "size": "half",
+//      "exit": { "mode": "strong", "stopPct": -0.03 } }
+//
+//  - Setups are tried in order; the first match decides size and exits.
+//    A symbol that matches none is not armed.
+//  - Conditions: a signal name (or { "signal": name }), { metric, op,
+//    value }, { breadth: [...] }, { time: { from, to } } (ET, inclusive),
+//    combined with { all }, { any }, { not }.
+//  - Breadth is only fetched when some setup asks for it; until then it
+//    reads as "unknown" and a breadth condition is false.
+//  - DEFAULT_SETUPS reproduces entryPlanFor() for rows saved without setups.
+//  - Long entries in scan windows only: force windows and shorts keep
+//    their own sizing.
+//  Pure code (no Prisma) so the backtester evaluates the same definitions.
+// ─────────────────────────────────────────────────────────────
+
+import {
+  DEFAULT_STRATEGY_PARAMS,
+  entryQualityScore,
+  scoreSetup,
+  type EntryEval,
+  type EntryMode,
+  type Sentiment,
+  type StrategyParams,
+} from "./strategy";
+import { minutesSince930 } from "./indicators";
+
+/* -------------------------- types -------------------------- */
+export const SETUP_SIGNALS = [
+  "aboveVWAP",
+  "breakORH",
+  "nearOR",
+  "vwapReclaim",
+  "volPulse",
+  "higherLow",
+  "armedDip",
+  "armedMomentum",
+  "notOverextended",
+] as const;
+export type SetupSignal = (typeof SETUP_SIGNALS)[number];
+
+export const SETUP_METRICS = [
+  "price",
+  "volMult",
+  "volMultMin",
+  "extFromOpenPct",
+  "minutesSince930",
+  "setupScore",
+  "qualityScore",
+] as const;
+export type SetupMetric = (typeof SETUP_METRICS)[number];
+
+const OPS = [">=", ">", "<=", "<", "=="] as const;
+type Op = (typeof OPS)[number];
+
+export type SetupCondition =
+  | SetupSignal
+  | { signal: SetupSignal }
+  | { metric: SetupMetric; op: Op; value: number }
+  | { breadth: Sentiment[] }
+  | { time: { from: string; to: string } }
+  | { all: SetupCondition[] }
+  | { any: SetupCondition[] }
+  | { not: SetupCondition };
+
+export type SizeTier = "full" | "half" | "micro";
+
+export type StrategySetup = {
+  name: string;
+  when: SetupCondition;
+  /** tier from params (sizeFull/sizeHalf/sizeMicro) or a multiplier 0.1–1 */
+  size: SizeTier | number;
+  exit?: {
+    /** bracket target tier; default weak */
+    mode?: EntryMode;
+    /** overrides targetPctWeak/targetPctStrong for this entry */
+    targetPct?: number;
+    /** overrides stopPct for this entry */
+    stopPct?: number;
+  };
+};
+
+/** What conditions read; built once per symbol from its EntryEval. */
+export type SetupFacts = {
+  signals: Record<SetupSignal, boolean>;
+  metrics: Record<SetupMetric, number | null>;
+  breadth: Sentiment | "unknown";
+  /** ET minute of day */
+  minuteOfDay: number;
+};
+
+export type SetupPlan = {
+  setup: string;
+  sizeMult: number;
+  sizeLabel: SizeTier | "custom";
+  mode: EntryMode;
+  /** params with this setup's exit overrides applied (brackets + ratchet) */
+  params: StrategyParams;
+};
+
+/* -------------------------- built-in definition -------------------------- */
+const ARMED: SetupCondition = { any: ["higherLow", "armedDip", "armedMomentum"] };
+
+export const DEFAULT_SETUPS: StrategySetup[] = [
+  {
+    name: "strong_confluence",
+    when: { all: [ARMED, { metric: "setupScore", op: ">=", value: 2 }] },
+    size: "full",
+    exit: { mode: "strong" },
+  },
+  { name: "dip_or_higher_low", when: { any: ["higherLow", "armedDip"] }, size: "full" },
+  {
+    name: "momentum_half",
+    when: { all: ["armedMomentum", { metric: "setupScore", op: "==", value: 1 }] },
+    size: "half",
+  },
+  { name: "momentum_micro", when: "armedMomentum", size: "micro" },
+];
+
+/* -------------------------- validation -------------------------- */
+const MAX_SETUPS = 20;
+const MAX_DEPTH = 8;
+const HHMM_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const SENTIMENTS: Sentiment[] = ["green", "neutral", "red"];
+
+export type StrategySetupsValidation =
+  | { ok: true; setups: StrategySetup[] }
+  | { ok: false; errors: string[] };
+
+function checkCondition(c: unknown, path: string, depth: number, errors: string[]) {
+  if (depth > MAX_DEPTH) { errors.push(`${path}: nested deeper than ${MAX_DEPTH}`); return; }
+  if (typeof c === "string") {
+    if (!(SETUP_SIGNALS as readonly string[]).includes(c)) errors.push(`${path}: unknown signal "${c}"`);
+    return;
+  }
+  if (c == null || typeof c !== "object" || Array.isArray(c)) { errors.push(`${path}: expected a condition object`); return; }
+  const o = c as Record<string, any>;
+  const keys = Object.keys(o);
+
+  if ("all" in o || "any" in o) {
+    const k = "all" in o ? "all" : "any";
+    if (keys.length !== 1) errors.push(`${path}: "${k}" can't be combined with other keys`);
+    if (!Array.isArray(o[k]) || !o[k].length) { errors.push(`${path}.${k}: expected a non-empty list`); return; }
+    o[k].forEach((x: unknown, i: number) => checkCondition(x, `${path}.${k}[${i}]`, depth + 1, errors));
+    return;
+  }
+  if ("not" in o) {
+    if (keys.length !== 1) errors.push(`${path}: "not" can't be combined with other keys`);
+    checkCondition(o.not, `${path}.not`, depth + 1, errors);
+    return;
+  }
+  if ("signal" in o) {
+    if (!(SETUP_SIGNALS as readonly string[]).includes(o.signal)) errors.push(`${path}: unknown signal "${o.signal}"`);
+    return;
+  }
+  if ("metric" in o) {
+    if (!(SETUP_METRICS as readonly string[]).includes(o.metric)) errors.push(`${path}: unknown metric "${o.metric}"`);
+    if (!(OPS as readonly string[]).includes(o.op)) errors.push(`${path}: op must be one of ${OPS.join(" ")}`);
+    if (typeof o.value !== "number" || !Number.isFinite(o.value)) errors.push(`${path}: value must be a number`);
+    return;
+  }
+  if ("breadth" in o) {
+    const list = Array.isArray(o.breadth) ? o.breadth : [o.breadth];
+    if (!list.length || list.some((s: unknown) => !SENTIMENTS.includes(s as Sentiment))) {
+      errors.push(`${path}: breadth must list green/neutral/red`);
+    }
+    return;
+  }
+  if ("time" in o) {
+    const t = o.time ?? {};
+    if (!HHMM_RE.test(String(t.from)) || !HHMM_RE.test(String(t.to))) errors.push(`${path}: time needs from/to as HH:MM`);
+    else if (t.from > t.to) errors.push(`${path}: time.from must not be after time.to`);
+    return;
+  }
+  errors.push(`${path}: unknown condition (${keys.join(", ") || "empty"})`);
+}
+
+/** Check a setups list; normalises { breadth: "green" } to a list. */
+export function validateStrategySetups(input: unknown): StrategySetupsValidation {
+  if (!Array.isArray(input)) return { ok: false, errors: ["setups must be a list"] };
+  const errors: string[] = [];
+  if (!input.length) errors.push("setups: at least one setup is required");
+  if (input.length > MAX_SETUPS) errors.push(`setups: at most ${MAX_SETUPS}`);
+
+  const names = new Set<string>();
+  input.forEach((s: any, i) => {
+    const at = `setups[${i}]`;
+    if (s == null || typeof s !== "object" || Array.isArray(s)) { errors.push(`${at}: expected an object`); return; }
+    for (const k of Object.keys(s)) {
+      if (!["name", "when", "size", "exit"].includes(k)) errors.push(`${at}.${k}: unknown field`);
+    }
+    const name = typeof s.name === "string" ? s.name.trim() : "";
+    if (!name) errors.push(`${at}.name: required`);
+    else if (names.has(name)) errors.push(`${at}.name: "${name}" is used twice`);
+    names.add(name);
+
+    checkCondition(s.when, `${at}.when`, 0, errors);
+
+    const okTier = s.size === "full" || s.size === "half" || s.size === "micro";
+    const okMult = typeof s.size === "number" && s.size >= 0.1 && s.size <= 1;
+    if (!okTier && !okMult) errors.push(`${at}.size: full/half/micro or a number between 0.1 and 1`);
+
+    if (s.exit != null) {
+      const e = s.exit;
+      if (typeof e !== "object" || Array.isArray(e)) { errors.push(`${at}.exit: expected an object`); return; }
+      for (const k of Object.keys(e)) {
+        if (!["mode", "targetPct", "stopPct"].includes(k)) errors.push(`${at}.exit.${k}: unknown field`);
+      }
+      if (e.mode != null && e.mode !== "weak" && e.mode !== "strong") errors.push(`${at}.exit.mode: weak or strong`);
+      if (e.targetPct != null && !(typeof e.targetPct === "number" && e.targetPct >= 0.001 && e.targetPct <= 5)) {
+        errors.push(`${at}.exit.targetPct: must be between 0.001 and 5`);
+      }
+      if (e.stopPct != null && !(typeof e.stopPct === "number" && e.stopPct >= -0.5 && e.stopPct <= -0.001)) {
+        errors.push(`${at}.exit.stopPct: must be between -0.5 and -0.001`);
+      }
+    }
+  });
+  if (errors.length) return { ok: false, errors };
+
+  const normalise = (c: any): SetupCondition => {
+    if (typeof c === "string") return c as SetupSignal;
+    if ("all" in c) return { all: c.all.map(normalise) };
+    if ("any" in c) return { any: c.any.map(normalise) };
+    if ("not" in c) return { not: normalise(c.not) };
+    if ("breadth" in c) return { breadth: Array.isArray(c.breadth) ? c.breadth : [c.breadth] };
+    return c;
+  };
+  return {
+    ok: true,
+    setups: input.map((s: any) => ({
+      name: s.name.trim(),
+      when: normalise(s.when),
+      size: s.size,
+      ...(s.exit ? { exit: { ...s.exit } } : {}),
+    })),
+  };
+}
+
+/* -------------------------- evaluation -------------------------- */
+function conditionUses(c: SetupCondition, key: "breadth"): boolean {
+  if (typeof c === "string") return false;
+  if ("all" in c) return c.all.some((x) => conditionUses(x, key));
+  if ("any" in c) return c.any.some((x) => conditionUses(x, key));
+  if ("not" in c) return conditionUses(c.not, key);
+  return key in c;
+}
+
+/** true when some setup reads breadth (so the caller should fetch it). */
+export function setupsUseBreadth(setups: StrategySetup[]) {
+  return setups.some((s) => conditionUses(s.when, "breadth"));
+}
+
+export function setupFacts(
+  ev: EntryEval,
+  ctx: { now: Date; breadth?: Sentiment | null }
+): SetupFacts {
+  const num = (x: any) => (x != null && Number.isFinite(Number(x)) ? Number(x) : null);
+  const s = ev.debug?.signals ?? {};
+  const open930 = num(ev.meta?.open930);
+  const price = num(ev.refPrice);
+  return {
+    signals: {
+      aboveVWAP: !!s.aboveVWAP,
+      breakORH: !!s.breakORH,
+      nearOR: !!s.nearOR,
+      vwapReclaim: !!s.vwapReclaim,
+      volPulse: !!s.volPulseOK,
+      higherLow: !!ev.armedHigherLow,
+      armedDip: !!ev.armedDip,
+      armedMomentum: !!ev.armedMomentum,
+      notOverextended: ev.debug?.overextension?.notOverextended ?? true,
+    },
+    metrics: {
+      price,
+      volMult: num(ev.debug?.volPulse),
+      volMultMin: num(ev.debug?.VOL_MULT_MIN),
+      extFromOpenPct: open930 && price != null ? ((price - open930) / open930) * 100 : null,
+      minutesSince930: minutesSince930(ctx.now),
+      setupScore: scoreSetup(ev).score,
+      qualityScore: entryQualityScore(ev).score,
+    },
+    breadth: ctx.breadth ?? "unknown",
+    minuteOfDay: ctx.now.getHours() * 60 + ctx.now.getMinutes(),
+  };
+}
+
+const hhmm = (s: string) => Number(s.slice(0, 2)) * 60 + Number(s.slice(3, 5));
+
+export function evalCondition(c: SetupCondition, f: SetupFacts): boolean {
+  if (typeof c === "string") return f.signals[c];
+  if ("all" in c) return c.all.every((x) => evalCondition(x, f));
+  if ("any" in c) return c.any.some((x) => evalCondition(x, f));
+  if ("not" in c) return !evalCondition(c.not, f);
+  if ("signal" in c) return f.signals[c.signal];
+  if ("breadth" in c) return f.breadth !== "unknown" && c.breadth.includes(f.breadth);
+  if ("time" in c) return f.minuteOfDay >= hhmm(c.time.from) && f.minuteOfDay <= hhmm(c.time.to);
+  const v = f.metrics[c.metric];
+  if (v == null) return false;
+  switch (c.op) {
+    case ">=": return v >= c.value;
+    case ">": return v > c.value;
+    case "<=": return v <= c.value;
+    case "<": return v < c.value;
+    case "==": return v === c.value;
+  }
+}
+
+/** First matching setup → size and exits; null when none match (not armed). */
+export function matchSetup(
+  setups: StrategySetup[],
+  facts: SetupFacts,
+  p: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): SetupPlan | null {
+  const s = setups.find((x) => evalCondition(x.when, facts));
+  if (!s) return null;
+  const tiers: Record<SizeTier, number> = { full: p.sizeFull, half: p.sizeHalf, micro: p.sizeMicro };
+  const exit = s.exit ?? {};
+  return {
+    setup: s.name,
+    sizeMult: typeof s.size === "number" ? s.size : tiers[s.size],
+    sizeLabel: typeof s.size === "number" ? "custom" : s.size,
+    mode: exit.mode ?? "weak",
+    params: {
+      ...p,
+      ...(exit.targetPct != null ? { targetPctWeak: exit.targetPct, targetPctStrong: exit.targetPct } : {}),
+      ...(exit.stopPct != null ? { stopPct: exit.stopPct } : {}),
+    },
+  };
+}
+
+/**
+ * Eligible picks that match a setup, best entry quality first (volume pulse
+ * breaks ties) — the setup-driven counterpart of rankArmedPicks(). Picks
+ * vetoed by the L2 confirmation (EntryEval.l2) are left out.
+ */
+export function rankSetupPicks(
+  picks: string[],
+  evals: Record<string, EntryEval>,
+  setups: StrategySetup[],
+  ctx: { now: Date; breadth?: Sentiment | null; params: StrategyParams }
+) {
+  const out: Array<{ sym: string; plan: SetupPlan; eq: ReturnType<typeof entryQualityScore>; vol: number }> = [];
+  for (const sym of picks) {
+    const ev = evals[sym];
+    if (!ev?.eligible || ev.l2?.veto) continue;
+    const plan = matchSetup(setups, setupFacts(ev, ctx), ctx.params);
+    if (plan) out.push({ sym, plan, eq: entryQualityScore(ev), vol: Number(ev.debug?.volPulse ?? 0) });
+  }
+  return out.sort((a, b) => (b.eq.score !== a.eq.score ? b.eq.score - a.eq.score : (b.vol || 0) - (a.vol || 0)));
+}
@@ -0,0 +1,168 @@
+// lib/tickLease.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Lease lock around the tick's decision-and-order section. pendingTick
+//  in the tick route only dedupes inside one serverless instance; cron,
+//  the self-hosted scheduler and dashboard polls on other instances would
+//  otherwise all see "no open position" and buy together.
+//  - One TickLease row per lease name. Acquiring inserts it, or takes it
+//    over once `expiresAt` has passed (a crashed holder), bumping `token`.
+//  - The holder renews in the background every ttl/3. If a renewal fails
+//    the lease is marked lost; held() re-checks owner + token + expiry in
+//    the database and is called right before any broker order, so a
+//    holder that stalled past its expiry can't place one after takeover.
+//  - memoryLeaseStore() has the same semantics in-process for
+//    scripts/tick-lease-check.ts.
+// ─────────────────────────────────────────────────────────────
+
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+import { prisma } from "./prisma";
+
+export type LeaseGrant = { owner: string; token: number; expiresAt: Date };
+export type LeaseHolder = { owner: string; expiresAt: Date } | null;
+
+export interface LeaseStore {
+  /** Take the lease if free or expired; null while someone else holds it. */
+  tryAcquire(name: string, owner: string, ttlMs: number): Promise<LeaseGrant | null>;
+  /** Extend our lease; false once it expired or was taken over. */
+  renew(name: string, grant: LeaseGrant, ttlMs: number): Promise<boolean>;
+  held(name: string, grant: LeaseGrant): Promise<boolean>;
+  release(name: string, grant: LeaseGrant): Promise<void>;
+  holder(name: string): Promise<LeaseHolder>;
+}
+
+/* -------------------------- Postgres store -------------------------- */
+export const pgLeaseStore: LeaseStore = {
+  async tryAcquire(name, owner, ttlMs) {
+    const rows: LeaseGrant[] = await prisma.$queryRaw`
+      INSERT INTO "TickLease" ("name", "owner", "token", "acquiredAt", "expiresAt")
+      VALUES (${name}, ${owner}, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP + ${ttlMs} * interval '1 millisecond')
+      ON CONFLICT ("name") DO UPDATE
+        SET "owner" = EXCLUDED."owner",
+            "token" = "TickLease"."token" + 1,
+            "acquiredAt" = EXCLUDED."acquiredAt",
+            "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "TickLease"."expiresAt" <= CURRENT_TIMESTAMP
+      RETURNING "owner", "token", "expiresAt"`;
+    return rows[0] ?? null;
+  },
+
+  async renew(name, grant, ttlMs) {
+    const n = await prisma.$executeRaw`
+      UPDATE "TickLease" SET "expiresAt" = CURRENT_TIMESTAMP + ${ttlMs} * interval '1 millisecond'
+      WHERE "name" = ${name} AND "owner" = ${grant.owner} AND "token" = ${grant.token}
+        AND "expiresAt" > CURRENT_TIMESTAMP`;
+    return n > 0;
+  },
+
+  async held(name, grant) {
+    const rows: Array<{ n: number }> = await prisma.$queryRaw`
+      SELECT count(*)::int AS n FROM "TickLease"
+      WHERE "name" = ${name} AND "owner" = ${grant.owner} AND "token" = ${grant.token}
+        AND "expiresAt" > CURRENT_TIMESTAMP`;
+    return Number(rows[0]?.n) > 0;
+  },
+
+  async release(name, grant) {
+    await prisma.$executeRaw`
+      UPDATE "TickLease" SET "expiresAt" = CURRENT_TIMESTAMP
+      WHERE "name" = ${name} AND "owner" = ${grant.owner} AND "token" = ${grant.token}`;
+  },
+
+  async holder(name) {
+    const row = await prisma.tickLease.findUnique({ where: { name } });
+    return row && new Date(row.expiresAt).getTime() > Date.now() ? { owner: row.owner, expiresAt: row.expiresAt } : null;
+  },
+};
+
+/* -------------------------- in-process store -------------------------- */
+/** Same rules as pgLeaseStore, for checks and replays (one process only). */
+export function memoryLeaseStore(now: () => number = Date.now): LeaseStore {
+  const rows = new Map<string, { owner: string; token: number; expiresAt: number }>();
+  const live = (name: string, g: LeaseGrant) => {
+    const r = rows.get(name);
+    return !!r && r.owner === g.owner && r.token === g.token && r.expiresAt > now();
+  };
+  return {
+    async tryAcquire(name, owner, ttlMs) {
+      const r = rows.get(name);
+      if (r && r.expiresAt > now()) return null;
+      const next = { owner, token: (r?.token ?? 0) + 1, expiresAt: now() + ttlMs };
+      rows.set(name, next);
+      return { owner, token: next.token, expiresAt: new Date(next.expiresAt) };
+    },
+    async renew(name, g, ttlMs) {
+      if (!live(name, g)) return false;
+      rows.get(name)!.expiresAt = now() + ttlMs;
+      return true;
+    },
+    async held(name, g) {
+      return live(name, g);
+    },
+    async release(name, g) {
+      const r = rows.get(name);
+      if (r && r.owner === g.owner && r.token === g.token) r.expiresAt = now();
+    },
+    async holder(name) {
+      const r = rows.get(name);
+      return r && r.expiresAt > now() ? { owner: r.owner, expiresAt: new Date(r.expiresAt) } : null;
+    },
+  };
+}
+
+/* -------------------------- lease runner -------------------------- */
+/** Lease every order-placing bot path takes (tick route, /api/bot/force-buy). */
+export const TICK_LEASE = "tick";
+export const TICK_LEASE_TTL_MS = 30_000;
+
+/** This process, as a lease owner (one id per serverless instance / worker). */
+export const LEASE_OWNER = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export type HeldLease = {
+  name: string;
+  grant: LeaseGrant;
+  /** true once a background renewal failed */
+  readonly lost: boolean;
+  /** Database check; call right before placing an order. */
+  held(): Promise<boolean>;
+};
+
+export type LeaseRun<T> = { acquired: true; value: T } | { acquired: false; holder: LeaseHolder };
+
+/**
+ * Runs `fn` while holding lease `name`, renewing it every ttl/3 and
+ * releasing it afterwards (also on throw). Returns { acquired: false }
+ * without running `fn` when another owner holds an unexpired lease.
+ */
+export async function withLease<T>(
+  store: LeaseStore,
+  name: string,
+  opts: { ttlMs: number; owner?: string },
+  fn: (lease: HeldLease) => Promise<T>
+): Promise<LeaseRun<T>> {
+  const owner = opts.owner ?? LEASE_OWNER;
+  const grant = await store.tryAcquire(name, owner, opts.ttlMs);
+  if (!grant) return { acquired: false, holder: await store.holder(name).catch(() => null) };
+
+  let lost = false;
+  const lease: HeldLease = {
+    name,
+    grant,
+    get lost() { return lost; },
+    held: async () => {
+      if (!lost && !(await store.held(name, grant).catch(() => false))) lost = true;
+      return !lost;
+    },
+  };
+  const timer = setInterval(() => {
+    store.renew(name, grant, opts.ttlMs).then((ok) => { if (!ok) lost = true; }, () => { lost = true; });
+  }, Math.max(50, Math.floor(opts.ttlMs / 3)));
+
+  try {
+    return { acquired: true, value: await fn(lease) };
+  } finally {
+    clearInterval(timer);
+    await store.release(name, grant).catch(() => {});
+  }
+}
@@ -0,0 +1,157 @@
+// lib/tickScheduler.ts
+// SERVER-ONLY MODULE
+
+// ─────────────────────────────────────────────────────────────
+//  Support for scripts/tick-scheduler.ts, the self-hosted alternative to
+//  the Vercel tick crons:
+//  - LeaderLock: a Postgres session advisory lock on its own one-connection
+//    Prisma client. Only the instance holding it ticks; Postgres drops the
+//    lock with the connection, and verify() notices that before each tick.
+//  - tickCadence: sub-minute tick interval for the active session phase
+//    (lib/schedule.ts), null when nothing is scheduled.
+//  - SchedulerHeartbeat rows, one per instance, for the dashboard.
+// ─────────────────────────────────────────────────────────────
+
+import { PrismaClient } from "@prisma/client";
+import { prisma } from "./prisma";
+import { nowET, sessionET } from "./market";
+import { SESSION_SCHEDULE, activePhases, phaseBounds, type SessionPhase } from "./schedule";
+
+/* -------------------------- leader lock -------------------------- */
+// pg_try_advisory_lock(int4, int4): "SB" namespace, lock 1 = tick scheduler
+const LOCK_NS = 0x5342;
+const LOCK_TICK_SCHEDULER = 1;
+
+function lockDatabaseUrl() {
+  // session locks need a real session: bypass pgbouncer (DIRECT_URL) and pin one connection
+  const raw = process.env.DIRECT_URL || process.env.DATABASE_URL;
+  if (!raw) throw new Error("DATABASE_URL is not set");
+  const u = new URL(raw);
+  u.searchParams.set("connection_limit", "1");
+  return u.toString();
+}
+
+export class LeaderLock {
+  private db: PrismaClient | null = null;
+  private held = false;
+  constructor(readonly ns = LOCK_NS, readonly id = LOCK_TICK_SCHEDULER) {}
+
+  get isLeader() {
+    return this.held;
+  }
+
+  private client() {
+    if (!this.db) this.db = new PrismaClient({ datasources: { db: { url: lockDatabaseUrl() } }, log: ["warn", "error"] });
+    return this.db;
+  }
+
+  /** Non-blocking; true when this instance holds (or already held) the lock. */
+  async acquire(): Promise<boolean> {
+    if (this.held) return this.verify();
+    const rows: Array<{ ok: boolean }> = await this.client().$queryRaw`
+      SELECT pg_try_advisory_lock(${this.ns}::int4, ${this.id}::int4) AS ok`;
+    this.held = !!rows[0]?.ok;
+    return this.held;
+  }
+
+  /** Still ours? False once the lock connection dropped and Postgres released it. */
+  async verify(): Promise<boolean> {
+    if (!this.held) return false;
+    try {
+      const rows: Array<{ n: number }> = await this.client().$queryRaw`
+        SELECT count(*)::int AS n FROM pg_locks
+        WHERE locktype = 'advisory' AND granted AND pid = pg_backend_pid()
+          AND classid = ${this.ns}::int4::oid AND objid = ${this.id}::int4::oid AND objsubid = 2`;
+      this.held = Number(rows[0]?.n) > 0;
+    } catch {
+      this.held = false;
+    }
+    return this.held;
+  }
+
+  async release() {
+    if (!this.db) return;
+    try {
+      if (this.held) await this.db.$queryRaw`SELECT pg_advisory_unlock(${this.ns}::int4, ${this.id}::int4)`;
+    } catch {
+      // closing the connection releases it anyway
+    }
+    this.held = false;
+    await this.db.$disconnect();
+    this.db = null;
+  }
+}
+
+/* -------------------------- cadence -------------------------- */
+export const DEFAULT_TICK_MS = 5_000;
+const HOLD_TICK_MS = 15_000;
+
+/**
+ * Tick interval for `d`: the shortest tickMs among the active phases
+ * (hold phases only ratchet, so they default slower). Null on closed days,
+ * between phases and after the exit phase's `end`.
+ */
+export function tickCadence(
+  d: Date = nowET(),
+  opts: { schedule?: SessionPhase[]; defaultMs?: number } = {}
+): { ms: number; phases: string[] } | null {
+  if (!sessionET(d).open) return null;
+  const mins = d.getHours() * 60 + d.getMinutes();
+  const phases = activePhases(d, opts.schedule ?? SESSION_SCHEDULE).filter((p) => {
+    const b = p.kind === "exit" ? phaseBounds(p, d) : null;
+    return !b || mins <= b.end;
+  });
+  if (!phases.length) return null;
+  const base = opts.defaultMs ?? DEFAULT_TICK_MS;
+  const ms = Math.min(...phases.map((p) => p.params?.tickMs ?? (p.kind === "hold" ? Math.max(base, HOLD_TICK_MS) : base)));
+  return { ms, phases: phases.map((p) => p.name) };
+}
+
+/* -------------------------- heartbeat -------------------------- */
+export const HEARTBEAT_MS = 10_000;
+/** A row older than this is shown as down. */
+const STALE_MS = 3 * HEARTBEAT_MS;
+const KEEP_MS = 24 * 60 * 60_000;
+
+export type SchedulerInstance = { instanceId: string; host: string; pid: number; startedAt: Date };
+
+export type SchedulerBeat = {
+  leader: boolean;
+  cadenceMs: number | null;
+  phase: string | null;
+  ticks: number;
+  lastTickAt: Date | null;
+  lastTickMs: number | null;
+  lastError: string | null;
+};
+
+export async function writeHeartbeat(inst: SchedulerInstance, beat: SchedulerBeat) {
+  const data = { ...beat, lastError: beat.lastError?.slice(0, 500) ?? null, beatAt: new Date() };
+  await prisma.schedulerHeartbeat.upsert({
+    where: { instanceId: inst.instanceId },
+    create: { instanceId: inst.instanceId, host: inst.host, pid: inst.pid, startedAt: inst.startedAt, ...data },
+    update: data,
+  });
+}
+
+/** Marks the instance as stopped (beatAt in the past) so the dashboard doesn't wait for it to go stale. */
+export async function retireHeartbeat(instanceId: string) {
+  await prisma.schedulerHeartbeat
+    .update({ where: { instanceId }, data: { leader: false, beatAt: new Date(Date.now() - STALE_MS) } })
+    .catch(() => null);
+}
+
+export type SchedulerStatus = {
+  alive: boolean;
+  leader: (SchedulerBeat & SchedulerInstance & { beatAt: Date }) | null;
+  instances: Array<SchedulerBeat & SchedulerInstance & { beatAt: Date; alive: boolean }>;
+};
+
+export async function schedulerStatus(): Promise<SchedulerStatus> {
+  await prisma.schedulerHeartbeat.deleteMany({ where: { beatAt: { lt: new Date(Date.now() - KEEP_MS) } } });
+  const rows = await prisma.schedulerHeartbeat.findMany({ orderBy: { beatAt: "desc" } });
+  const now = Date.now();
+  const instances = rows.map((r: any) => ({ ...r, alive: now - new Date(r.beatAt).getTime() < STALE_MS }));
+  const leader = instances.find((r: any) => r.alive && r.leader) ?? null;
+  return { alive: instances.some((r: any) => r.alive), leader, instances };
+}
@@ -0,0 +1,163 @@
+// lib/tradeTape.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Time & sales per symbol, with each print signed buy/sell by Lee-Ready:
+//  - quote rule: above the prevailing mid is a buy, below it a sell
+//  - tick rule for prints at the mid (or with no quote): up from the last
+//    different price is a buy, down a sell; a zero tick keeps the last
+//    direction
+//  The quote is whatever the print arrived with (Databento tbbo carries
+//  the book just before the trade) or else the stored L2 book, with no
+//  quote lag (the original 5s lag corrected for late quote reports).
+//  Prints are kept for the longest window (5m); stats are rolled up on
+//  read for 10s / 1m / 5m. tapeFlow() is the 1m buy share of notional,
+//  the trade-flow component of buyPressure (lib/l2-Pressure.ts).
+// ─────────────────────────────────────────────────────────────
+
+export type TradeSide = "buy" | "sell";
+export type LeeReadyRule = "quote" | "tick" | "none";
+
+export type Quote = { bid: number; ask: number };
+
+export type TradePrint = {
+  /** ms */
+  t: number;
+  px: number;
+  sz: number;
+  side: TradeSide | null;
+  rule: LeeReadyRule;
+};
+
+export const TAPE_WINDOWS = { "10s": 10_000, "1m": 60_000, "5m": 300_000 } as const;
+export type TapeWindow = keyof typeof TAPE_WINDOWS;
+
+const KEEP_MS = TAPE_WINDOWS["5m"];
+const MAX_PRINTS = 50_000;
+/** fewer prints than this in the flow window → no flow reading */
+const MIN_FLOW_PRINTS = 5;
+
+type Tape = {
+  prints: TradePrint[];
+  /** last print price that differed from the one before (tick rule) */
+  lastPx: number | null;
+  lastDir: TradeSide | null;
+};
+
+const TAPES = new Map<string, Tape>();
+
+/* -------------------------- Lee-Ready -------------------------- */
+export function classifyLeeReady(
+  px: number,
+  quote: Quote | null,
+  prev: { lastPx: number | null; lastDir: TradeSide | null }
+): { side: TradeSide | null; rule: LeeReadyRule } {
+  if (quote && quote.bid > 0 && quote.ask > 0 && quote.ask >= quote.bid) {
+    const mid = (quote.bid + quote.ask) / 2;
+    if (px > mid) return { side: "buy", rule: "quote" };
+    if (px < mid) return { side: "sell", rule: "quote" };
+  }
+  if (prev.lastPx != null) {
+    if (px > prev.lastPx) return { side: "buy", rule: "tick" };
+    if (px < prev.lastPx) return { side: "sell", rule: "tick" };
+    if (prev.lastDir) return { side: prev.lastDir, rule: "tick" };
+  }
+  return { side: null, rule: "none" };
+}
+
+/* -------------------------- ingest -------------------------- */
+function prune(tape: Tape, now: number) {
+  let i = 0;
+  while (i < tape.prints.length && now - tape.prints[i].t > KEEP_MS) i++;
+  if (tape.prints.length - i > MAX_PRINTS) i = tape.prints.length - MAX_PRINTS;
+  if (i) tape.prints.splice(0, i);
+}
+
+/** Signs and stores one print; returns it as stored (null for unusable input). */
+export function recordTrade(
+  symbol: string,
+  p: { px: number; sz: number; t?: number; quote?: Quote | null }
+): TradePrint | null {
+  if (!(p.px > 0) || !(p.sz > 0)) return null;
+  const sym = symbol.toUpperCase();
+  let tape = TAPES.get(sym);
+  if (!tape) TAPES.set(sym, (tape = { prints: [], lastPx: null, lastDir: null }));
+
+  const { side, rule } = classifyLeeReady(p.px, p.quote ?? null, tape);
+  // the tick rule runs on price changes only
+  if (tape.lastPx == null || p.px !== tape.lastPx) {
+    if (tape.lastPx != null) tape.lastDir = p.px > tape.lastPx ? "buy" : "sell";
+    tape.lastPx = p.px;
+  }
+
+  const print: TradePrint = { t: p.t ?? Date.now(), px: p.px, sz: p.sz, side, rule };
+  tape.prints.push(print);
+  prune(tape, print.t);
+  return print;
+}
+
+export function clearTape(symbol?: string) {
+  if (symbol) TAPES.delete(symbol.toUpperCase());
+  else TAPES.clear();
+}
+
+/* -------------------------- stats -------------------------- */
+export type TapeWindowStats = {
+  buyCount: number;
+  sellCount: number;
+  /** prints neither rule could sign */
+  unknownCount: number;
+  buyVolume: number;
+  sellVolume: number;
+  buyNotional: number;
+  sellNotional: number;
+};
+
+export type TapeStats = {
+  symbol: string;
+  lastTradeAt: number | null;
+  lastPx: number | null;
+  windows: Record<TapeWindow, TapeWindowStats>;
+};
+
+const emptyWindow = (): TapeWindowStats => ({
+  buyCount: 0, sellCount: 0, unknownCount: 0, buyVolume: 0, sellVolume: 0, buyNotional: 0, sellNotional: 0,
+});
+
+export function tapeStats(symbol: string, now = Date.now()): TapeStats {
+  const sym = symbol.toUpperCase();
+  const prints = TAPES.get(sym)?.prints ?? [];
+  const windows = { "10s": emptyWindow(), "1m": emptyWindow(), "5m": emptyWindow() };
+  const names = Object.keys(TAPE_WINDOWS) as TapeWindow[];
+
+  // newest first, so each print lands in every window still covering it
+  for (let i = prints.length - 1; i >= 0; i--) {
+    const p = prints[i];
+    const age = now - p.t;
+    if (age > KEEP_MS) break;
+    for (const w of names) {
+      if (age > TAPE_WINDOWS[w]) continue;
+      const s = windows[w];
+      if (p.side === "buy") {
+        s.buyCount++; s.buyVolume += p.sz; s.buyNotional += p.px * p.sz;
+      } else if (p.side === "sell") {
+        s.sellCount++; s.sellVolume += p.sz; s.sellNotional += p.px * p.sz;
+      } else {
+        s.unknownCount++;
+      }
+    }
+  }
+  for (const s of Object.values(windows)) {
+    s.buyNotional = Math.round(s.buyNotional * 100) / 100;
+    s.sellNotional = Math.round(s.sellNotional * 100) / 100;
+  }
+  const last = prints[prints.length - 1] ?? null;
+  return { symbol: sym, lastTradeAt: last?.t ?? null, lastPx: last?.px ?? null, windows };
+}
+
+/** Buy share of signed notional over `window` (0..1), null on a thin or empty tape. */
+export function tapeFlow(symbol: string, window: TapeWindow = "1m", now = Date.now()): number | null {
+  const s = tapeStats(symbol, now).windows[window];
+  if (s.buyCount + s.sellCount < MIN_FLOW_PRINTS) return null;
+  const total = s.buyNotional + s.sellNotional;
+  return total > 0 ? s.buyNotional / total : null;
+}
@@ -0,0 +1,279 @@
+// lib/tradeUpdatesStream.ts
+
+// ─────────────────────────────────────────────────────────────
+//  Alpaca trade_updates websocket client.
+//  - connect → {"action":"auth"} → {"action":"listen", trade_updates}
+//  - frames are JSON (text or binary) or msgpack; both are decoded
+//  - each update is normalized (fill / cancel / replace / status) and
+//    handed to onUpdate one at a time, in arrival order
+//  - reconnects with capped exponential backoff + jitter; a missed pong
+//    counts as a dead socket
+//  - the last handled event is persisted in StreamCursor and passed to
+//    onResume after every (re)authorization so the gap can be backfilled
+//  - once a handler fails the cursor stops moving; a backfill from the
+//    failed event is retried until one succeeds
+//  Driven by scripts/alpaca-listener.ts. Point ALPACA_STREAM_URL at
+//  scripts/mock-trade-stream.ts to run it offline.
+// ─────────────────────────────────────────────────────────────
+
+import WebSocket from "ws";
+import { decode } from "@msgpack/msgpack";
+import { prisma } from "./prisma";
+
+export type TradeUpdateKind = "fill" | "cancel" | "replace" | "status";
+
+export type TradeUpdate = {
+  kind: TradeUpdateKind;
+  /** Alpaca event: new, partial_fill, fill, canceled, replaced, ... */
+  event: string;
+  executionId: string | null;
+  /** Alpaca order, wire shape */
+  order: any;
+  /** broker timestamp of the event (ISO) */
+  at: string | null;
+};
+
+export type TradeStreamState = "connecting" | "authenticating" | "listening" | "backoff" | "stopped";
+
+export type TradeStreamOptions = {
+  url: string;
+  key: string;
+  secret: string;
+  onUpdate: (u: TradeUpdate) => Promise<void>;
+  /**
+   * Backfill after every (re)authorization and after a failed handler, from
+   * the last persisted event or the earliest failed one (null on the first run)
+   */
+  onResume?: (since: Date | null) => Promise<void>;
+  /** StreamCursor row */
+  cursorName?: string;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+  pingMs?: number;
+  log?: (msg: string, extra?: any) => void;
+};
+
+export type TradeStreamHandle = {
+  readonly state: TradeStreamState;
+  stop(): Promise<void>;
+};
+
+const KIND: Record<string, TradeUpdateKind> = {
+  fill: "fill",
+  partial_fill: "fill",
+  canceled: "cancel",
+  expired: "cancel",
+  rejected: "cancel",
+  done_for_day: "cancel",
+  replaced: "replace",
+  pending_replace: "replace",
+  order_replace_rejected: "replace",
+};
+
+/* -------------------------- frames -------------------------- */
+function decodeFrame(data: WebSocket.RawData, isBinary: boolean): any | null {
+  const buf = Array.isArray(data) ? Buffer.concat(data) : Buffer.isBuffer(data) ? data : Buffer.from(data);
+  const text = buf.toString("utf8").trim();
+  if (text.startsWith("{") || text.startsWith("[")) {
+    try { return JSON.parse(text); } catch { /* maybe msgpack after all */ }
+  }
+  if (!isBinary) return null;
+  try { return decode(buf); } catch { return null; }
+}
+
+/** Alpaca trade_updates message → TradeUpdate (null for anything else). */
+export function normalizeTradeUpdate(msg: any): TradeUpdate | null {
+  if (msg?.stream !== "trade_updates") return null;
+  const d = msg.data ?? {};
+  if (!d.order?.id) return null;
+  const event = String(d.event ?? "").toLowerCase();
+  return {
+    kind: KIND[event] ?? "status",
+    event,
+    executionId: d.execution_id ? String(d.execution_id) : null,
+    order: d.order,
+    at: d.timestamp ?? d.order.updated_at ?? null,
+  };
+}
+
+/* -------------------------- cursor -------------------------- */
+// eventAt is the broker's instant (not ET wall time): it feeds `after=` on REST.
+export async function readStreamCursor(name: string) {
+  return prisma.streamCursor.findUnique({ where: { name } });
+}
+
+function eventTime(u: TradeUpdate): Date {
+  return u.at && !Number.isNaN(new Date(u.at).getTime()) ? new Date(u.at) : new Date();
+}
+
+/** The earlier of two times; null (the first-run window) is earliest. */
+function earlier(a: Date | null, b: Date | null): Date | null {
+  return !a || !b ? null : a < b ? a : b;
+}
+
+async function saveStreamCursor(name: string, u: TradeUpdate) {
+  const cursor = u.executionId ?? `${u.order.id}:${u.event}`;
+  const eventAt = eventTime(u);
+  await prisma.streamCursor.upsert({
+    where: { name },
+    update: { cursor, eventAt },
+    create: { name, cursor, eventAt },
+  });
+}
+
+/* -------------------------- stream -------------------------- */
+export function startTradeUpdatesStream(opts: TradeStreamOptions): TradeStreamHandle {
+  const cursorName = opts.cursorName ?? "alpaca_trade_updates";
+  const minMs = opts.minBackoffMs ?? 1_000;
+  const maxMs = opts.maxBackoffMs ?? 30_000;
+  const pingMs = opts.pingMs ?? 15_000;
+  const log = opts.log ?? ((msg: string, extra?: any) => console.log(`[trade-stream] ${msg}`, extra ?? ""));
+
+  let state: TradeStreamState = "connecting";
+  let ws: WebSocket | null = null;
+  let attempt = 0;
+  let stopped = false;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let pingTimer: NodeJS.Timeout | null = null;
+  let backfillTimer: NodeJS.Timeout | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  // set while an update (or backfill) from `since` on isn't in the books:
+  // the cursor stays put until a backfill from there succeeds
+  let gap: { since: Date | null } | null = null;
+
+  // one job at a time
+  const enqueue = (job: () => Promise<void>) => {
+    queue = queue.then(job).catch((e: any) => log("handler failed", e?.message || e));
+  };
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (pingTimer) clearInterval(pingTimer);
+    if (backfillTimer) clearTimeout(backfillTimer);
+    retryTimer = pingTimer = backfillTimer = null;
+  };
+
+  /** Keep the earliest unbooked time (null: the first-run window) and retry a backfill from it. */
+  function holdCursor(since: Date | null) {
+    gap = { since: gap ? earlier(gap.since, since) : since };
+    if (!opts.onResume || backfillTimer || stopped) return;
+    backfillTimer = setTimeout(() => {
+      backfillTimer = null;
+      // a reconnect backfills on its own
+      if (state === "listening") enqueue(backfill);
+    }, maxMs);
+  }
+
+  async function backfill() {
+    const c = await readStreamCursor(cursorName).catch(() => null);
+    const cursorAt = (c?.eventAt as Date | null) ?? null;
+    const since = gap ? earlier(cursorAt, gap.since) : cursorAt;
+    try {
+      await opts.onResume!(since);
+    } catch (e) {
+      holdCursor(since);
+      throw e;
+    }
+    gap = null;
+  }
+
+  function scheduleReconnect(why: string) {
+    clearTimers();
+    if (stopped) return;
+    state = "backoff";
+    const cap = Math.min(maxMs, minMs * 2 ** attempt);
+    const delay = Math.round(cap / 2 + Math.random() * (cap / 2));
+    attempt++;
+    log(`reconnect in ${delay}ms (${why})`);
+    retryTimer = setTimeout(connect, delay);
+  }
+
+  function onMessage(sock: WebSocket, m: any) {
+    if (m?.stream === "authorization") {
+      if (String(m.data?.status ?? "").toLowerCase() !== "authorized") {
+        log("auth rejected", m.data);
+        sock.close(4001, "unauthorized");
+        return;
+      }
+      sock.send(JSON.stringify({ action: "listen", data: { streams: ["trade_updates"] } }));
+      return;
+    }
+
+    if (m?.stream === "listening") {
+      const streams: string[] = Array.isArray(m.data?.streams) ? m.data.streams : [];
+      if (!streams.includes("trade_updates")) {
+        log("listen not acknowledged", m.data);
+        return;
+      }
+      state = "listening";
+      attempt = 0;
+      log("listening");
+      if (opts.onResume) enqueue(backfill);
+      return;
+    }
+
+    const u = normalizeTradeUpdate(m);
+    if (!u) return;
+    enqueue(async () => {
+      try {
+        await opts.onUpdate(u);
+      } catch (e) {
+        holdCursor(eventTime(u));
+        throw e;
+      }
+      if (!gap) await saveStreamCursor(cursorName, u);
+    });
+  }
+
+  function connect() {
+    if (stopped) return;
+    state = "connecting";
+    const sock = new WebSocket(opts.url);
+    ws = sock;
+    let alive = true;
+
+    sock.on("open", () => {
+      state = "authenticating";
+      sock.send(JSON.stringify({ action: "auth", key: opts.key, secret: opts.secret }));
+      pingTimer = setInterval(() => {
+        if (!alive) {
+          log("pong timeout");
+          sock.terminate();
+          return;
+        }
+        alive = false;
+        try { sock.ping(); } catch { /* close handler reconnects */ }
+      }, pingMs);
+    });
+
+    sock.on("pong", () => { alive = true; });
+
+    sock.on("message", (data: WebSocket.RawData, isBinary: boolean) => {
+      alive = true;
+      const msg = decodeFrame(data, isBinary);
+      if (!msg) return;
+      for (const m of Array.isArray(msg) ? msg : [msg]) onMessage(sock, m);
+    });
+
+    sock.on("error", (err: any) => log("ws error", err?.message || err));
+
+    sock.on("close", (code: number, reason: Buffer) => {
+      if (ws === sock) ws = null;
+      if (!stopped) scheduleReconnect(`closed ${code} ${reason?.toString?.() || ""}`.trim());
+    });
+  }
+
+  connect();
+
+  return {
+    get state() { return state; },
+    async stop() {
+      stopped = true;
+      state = "stopped";
+      clearTimers();
+      try { ws?.close(1000, "stop"); } catch { /* already gone */ }
+      ws = null;
+      await queue;
+    },
+  };
+}
@@ -0,0 +1,197 @@
+// lib/tradingCalendar.ts
+
+// ─────────────────────────────────────────────────────────────
+//  NYSE trading calendar (full-day holidays + 13:00 early closes).
+//  Lookups are synchronous so the ET helpers in lib/market.ts and the
+//  strategy windows can stay sync:
+//    1) days refreshed from Alpaca /v2/calendar (if a refresh ran)
+//    2) the seeded exchange table below
+//    3) plain Mon–Fri 09:30–16:00
+//  refreshTradingCalendar() is best-effort — when Alpaca isn't configured
+//  or is down, the seed table is what we trade on. Extend the seed every
+//  year when NYSE publishes the next calendar.
+// ─────────────────────────────────────────────────────────────
+
+import { alpacaConfigured, getCalendar } from "./alpaca";
+
+export type MarketSession = {
+  /** YYYY-MM-DD (ET) */
+  date: string;
+  open: boolean;
+  /** minutes after ET midnight; 0 when closed */
+  openMin: number;
+  closeMin: number;
+  earlyClose: boolean;
+  /** holiday name / "weekend" when closed or early */
+  note: string | null;
+  source: "alpaca" | "seed" | "default";
+};
+
+const OPEN_MIN = 9 * 60 + 30;
+const CLOSE_MIN = 16 * 60;
+const EARLY_CLOSE_MIN = 13 * 60;
+
+/* -------------------------- seed (NYSE) -------------------------- */
+const HOLIDAYS: Record<string, string> = {
+  "2025-01-01": "New Year's Day",
+  "2025-01-09": "National Day of Mourning (Carter)",
+  "2025-01-20": "Martin Luther King Jr. Day",
+  "2025-02-17": "Washington's Birthday",
+  "2025-04-18": "Good Friday",
+  "2025-05-26": "Memorial Day",
+  "2025-06-19": "Juneteenth",
+  "2025-07-04": "Independence Day",
+  "2025-09-01": "Labor Day",
+  "2025-11-27": "Thanksgiving Day",
+  "2025-12-25": "Christmas Day",
+
+  "2026-01-01": "New Year's Day",
+  "2026-01-19": "Martin Luther King Jr. Day",
+  "2026-02-16": "Washington's Birthday",
+  "2026-04-03": "Good Friday",
+  "2026-05-25": "Memorial Day",
+  "2026-06-19": "Juneteenth",
+  "2026-07-03": "Independence Day (observed)",
+  "2026-09-07": "Labor Day",
+  "2026-11-26": "Thanksgiving Day",
+  "2026-12-25": "Christmas Day",
+
+  "2027-01-01": "New Year's Day",
+  "2027-01-18": "Martin Luther King Jr. Day",
+  "2027-02-15": "Washington's Birthday",
+  "2027-03-26": "Good Friday",
+  "2027-05-31": "Memorial Day",
+  "2027-06-18": "Juneteenth (observed)",
+  "2027-07-05": "Independence Day (observed)",
+  "2027-09-06": "Labor Day",
+  "2027-11-25": "Thanksgiving Day",
+  "2027-12-24": "Christmas Day (observed)",
+};
+
+/** 13:00 ET close */
+const EARLY_CLOSES: Record<string, string> = {
+  "2025-07-03": "Day before Independence Day",
+  "2025-11-28": "Day after Thanksgiving",
+  "2025-12-24": "Christmas Eve",
+
+  "2026-11-27": "Day after Thanksgiving",
+  "2026-12-24": "Christmas Eve",
+
+  "2027-11-26": "Day after Thanksgiving",
+};
+
+/* -------------------------- refreshed days -------------------------- */
+type Refreshed = {
+  /** trading days keyed by date → [openMin, closeMin] */
+  days: Map<string, [number, number]>;
+  /** inclusive range the refresh covered (weekdays inside it that are missing are holidays) */
+  from: string;
+  to: string;
+  at: number;
+};
+
+const g = globalThis as unknown as { __tradingCalendar?: Refreshed | null; __tradingCalendarTriedAt?: number };
+const REFRESH_EVERY_MS = 12 * 60 * 60 * 1000;
+const RETRY_AFTER_FAIL_MS = 10 * 60 * 1000;
+const REFRESH_AHEAD_DAYS = 60;
+
+/* -------------------------- helpers -------------------------- */
+/** YYYY-MM-DD from a Date whose local fields are ET wall time (see nowET()). */
+export function ymdOf(d: Date): string {
+  const mo = String(d.getMonth() + 1).padStart(2, "0");
+  const da = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mo}-${da}`;
+}
+
+function hhmmToMin(s: string): number | null {
+  const m = /^(\d{1,2}):(\d{2})/.exec(String(s || ""));
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+function dayOfWeek(ymd: string): number {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+function addDaysYMD(ymd: string, n: number): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d + n));
+  return t.toISOString().slice(0, 10);
+}
+
+/* -------------------------- lookup -------------------------- */
+/** Session for an ET calendar day (YYYY-MM-DD) or an ET-wall Date. */
+export function sessionFor(day: string | Date): MarketSession {
+  const date = typeof day === "string" ? day : ymdOf(day);
+  const closed = (note: string | null, source: MarketSession["source"]): MarketSession => ({
+    date, open: false, openMin: 0, closeMin: 0, earlyClose: false, note, source,
+  });
+
+  const dow = dayOfWeek(date);
+  if (dow === 0 || dow === 6) return closed("weekend", "default");
+
+  const r = g.__tradingCalendar;
+  if (r && date >= r.from && date <= r.to) {
+    const hit = r.days.get(date);
+    if (!hit) return closed(HOLIDAYS[date] ?? "holiday", "alpaca");
+    const [openMin, closeMin] = hit;
+    const earlyClose = closeMin < CLOSE_MIN;
+    return { date, open: true, openMin, closeMin, earlyClose, note: earlyClose ? EARLY_CLOSES[date] ?? "early close" : null, source: "alpaca" };
+  }
+
+  if (HOLIDAYS[date]) return closed(HOLIDAYS[date], "seed");
+  if (EARLY_CLOSES[date]) {
+    return { date, open: true, openMin: OPEN_MIN, closeMin: EARLY_CLOSE_MIN, earlyClose: true, note: EARLY_CLOSES[date], source: "seed" };
+  }
+  return { date, open: true, openMin: OPEN_MIN, closeMin: CLOSE_MIN, earlyClose: false, note: null, source: "default" };
+}
+
+export function isTradingDay(day: string | Date): boolean {
+  return sessionFor(day).open;
+}
+
+/** Next trading day strictly after `day` (looks ahead up to two weeks). */
+export function nextTradingDay(day: string | Date): string | null {
+  let ymd = typeof day === "string" ? day : ymdOf(day);
+  for (let i = 0; i < 14; i++) {
+    ymd = addDaysYMD(ymd, 1);
+    if (isTradingDay(ymd)) return ymd;
+  }
+  return null;
+}
+
+/* -------------------------- refresh (Alpaca) -------------------------- */
+/**
+ * Pull [today-7d, today+60d] from Alpaca /v2/calendar. Never throws;
+ * returns false when nothing was refreshed.
+ */
+export async function refreshTradingCalendar(todayYMD: string): Promise<boolean> {
+  if (!alpacaConfigured()) return false;
+  const from = addDaysYMD(todayYMD, -7);
+  const to = addDaysYMD(todayYMD, REFRESH_AHEAD_DAYS);
+  try {
+    const rows = await getCalendar(from, to);
+    if (!rows.length) return false;
+    const days = new Map<string, [number, number]>();
+    for (const row of rows) {
+      const o = hhmmToMin(row.open);
+      const c = hhmmToMin(row.close);
+      if (row.date && o != null && c != null) days.set(row.date, [o, c]);
+    }
+    g.__tradingCalendar = { days, from, to, at: Date.now() };
+    return true;
+  } catch (e: any) {
+    console.warn("[tradingCalendar] refresh failed:", e?.message || e);
+    return false;
+  }
+}
+
+/** Refresh at most every 12h (and whenever `today` falls outside the cached range). */
+export async function ensureTradingCalendar(todayYMD: string): Promise<void> {
+  const r = g.__tradingCalendar;
+  const now = Date.now();
+  const stale = !r || now - r.at > REFRESH_EVERY_MS || todayYMD < r.from || todayYMD > r.to;
+  if (!stale || now - (g.__tradingCalendarTriedAt ?? 0) < RETRY_AFTER_FAIL_MS) return;
+  g.__tradingCalendarTriedAt = now;
+  await refreshTradingCalendar(todayYMD);
+}
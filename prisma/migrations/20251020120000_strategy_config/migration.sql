@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."Position" ADD COLUMN     "configVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."Trade" ADD COLUMN     "configVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."StrategyConfig" (
+    "id" SERIAL NOT NULL,
+    "version" INTEGER NOT NULL,
+    "params" JSONB NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StrategyConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StrategyConfig_version_key" ON "public"."StrategyConfig"("version");
+
+-- CreateIndex
+CREATE INDEX "StrategyConfig_active_idx" ON "public"."StrategyConfig"("active");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."TickDecision" (
+    "id" SERIAL NOT NULL,
+    "at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "day" VARCHAR(10) NOT NULL,
+    "window" TEXT,
+    "action" TEXT NOT NULL,
+    "ticker" TEXT,
+    "candidates" JSONB,
+    "picks" JSONB,
+    "signals" JSONB,
+    "breadth" JSONB,
+    "reasons" JSONB,
+    "configVersion" INTEGER,
+
+    CONSTRAINT "TickDecision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TickDecision_day_id_idx" ON "public"."TickDecision"("day", "id");
+
+-- CreateIndex
+CREATE INDEX "TickDecision_at_idx" ON "public"."TickDecision"("at");
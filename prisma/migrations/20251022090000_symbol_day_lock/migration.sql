@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."SymbolDayLock" (
+    "id" SERIAL NOT NULL,
+    "day" VARCHAR(10) NOT NULL,
+    "ticker" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SymbolDayLock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SymbolDayLock_day_idx" ON "public"."SymbolDayLock"("day");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SymbolDayLock_day_ticker_key" ON "public"."SymbolDayLock"("day", "ticker");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Position" ADD COLUMN     "ratchetHigh" DECIMAL(18,6),
+ADD COLUMN     "ratchetRung" INTEGER,
+ADD COLUMN     "ratchetRunner" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "ratchetSL" DECIMAL(18,6),
+ADD COLUMN     "ratchetTP" DECIMAL(18,6),
+ADD COLUMN     "ratchetLiftAt" TIMESTAMP(3),
+ADD COLUMN     "ratchetSyncedAt" TIMESTAMP(3);
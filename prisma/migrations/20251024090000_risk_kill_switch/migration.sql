@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."BotState" ADD COLUMN     "killSwitch" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "killReason" TEXT,
+ADD COLUMN     "killedAt" TIMESTAMP(3),
+ADD COLUMN     "rearmedAt" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Position" ADD COLUMN     "side" TEXT NOT NULL DEFAULT 'long';
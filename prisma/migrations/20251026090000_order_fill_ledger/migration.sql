@@ -0,0 +1,90 @@
+-- AlterTable
+ALTER TABLE "public"."Position" ADD COLUMN     "exitedShares" INTEGER NOT NULL DEFAULT 0;
+
+-- Closed rows written before the ledger existed: everything that was entered was exited
+UPDATE "public"."Position" SET "exitedShares" = "shares" WHERE "open" = false;
+
+-- CreateTable
+CREATE TABLE "public"."Order" (
+    "id" SERIAL NOT NULL,
+    "brokerOrderId" TEXT NOT NULL,
+    "clientOrderId" TEXT,
+    "parentId" INTEGER,
+    "replaces" TEXT,
+    "replacedBy" TEXT,
+    "positionId" INTEGER,
+    "ticker" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "orderClass" TEXT,
+    "qty" INTEGER NOT NULL,
+    "limitPrice" DECIMAL(18,6),
+    "stopPrice" DECIMAL(18,6),
+    "status" TEXT NOT NULL,
+    "filledQty" INTEGER NOT NULL DEFAULT 0,
+    "filledAvgPrice" DECIMAL(18,6),
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Order_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."OrderEvent" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Fill" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "execKey" TEXT NOT NULL,
+    "positionId" INTEGER,
+    "ticker" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "qty" INTEGER NOT NULL,
+    "price" DECIMAL(18,6) NOT NULL,
+    "at" TIMESTAMP(3) NOT NULL,
+    "settledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Fill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_brokerOrderId_key" ON "public"."Order"("brokerOrderId");
+
+-- CreateIndex
+CREATE INDEX "Order_positionId_idx" ON "public"."Order"("positionId");
+
+-- CreateIndex
+CREATE INDEX "Order_ticker_createdAt_idx" ON "public"."Order"("ticker", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OrderEvent_orderId_at_idx" ON "public"."OrderEvent"("orderId", "at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Fill_execKey_key" ON "public"."Fill"("execKey");
+
+-- CreateIndex
+CREATE INDEX "Fill_positionId_idx" ON "public"."Fill"("positionId");
+
+-- CreateIndex
+CREATE INDEX "Fill_ticker_at_idx" ON "public"."Fill"("ticker", "at");
+
+-- AddForeignKey
+ALTER TABLE "public"."Order" ADD CONSTRAINT "Order_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderEvent" ADD CONSTRAINT "OrderEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Fill" ADD CONSTRAINT "Fill_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
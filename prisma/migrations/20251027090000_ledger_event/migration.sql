@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."Fill" ADD COLUMN     "executionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."LedgerEvent" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "brokerOrderId" TEXT NOT NULL,
+    "event" TEXT,
+    "executionId" TEXT,
+    "payload" JSONB,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "appliedAt" TIMESTAMP(3),
+    "result" JSONB,
+
+    CONSTRAINT "LedgerEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Fill_executionId_key" ON "public"."Fill"("executionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerEvent_key_key" ON "public"."LedgerEvent"("key");
+
+-- CreateIndex
+CREATE INDEX "LedgerEvent_brokerOrderId_receivedAt_idx" ON "public"."LedgerEvent"("brokerOrderId", "receivedAt");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "public"."StreamCursor" (
+    "name" TEXT NOT NULL,
+    "cursor" TEXT,
+    "eventAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StreamCursor_pkey" PRIMARY KEY ("name")
+);
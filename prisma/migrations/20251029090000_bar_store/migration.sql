@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."Bar" (
+    "id" SERIAL NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "t" TIMESTAMP(3) NOT NULL,
+    "o" DOUBLE PRECISION NOT NULL,
+    "h" DOUBLE PRECISION NOT NULL,
+    "l" DOUBLE PRECISION NOT NULL,
+    "c" DOUBLE PRECISION NOT NULL,
+    "v" DOUBLE PRECISION NOT NULL,
+    "provider" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Bar_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."BarCoverage" (
+    "id" SERIAL NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BarCoverage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Bar_symbol_t_key" ON "public"."Bar"("symbol", "t");
+
+-- CreateIndex
+CREATE INDEX "Bar_t_idx" ON "public"."Bar"("t");
+
+-- CreateIndex
+CREATE INDEX "BarCoverage_symbol_start_idx" ON "public"."BarCoverage"("symbol", "start");
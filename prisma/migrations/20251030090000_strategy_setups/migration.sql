@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."StrategyConfig" ADD COLUMN     "setups" JSONB;
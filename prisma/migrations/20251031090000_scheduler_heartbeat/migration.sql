@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."SchedulerHeartbeat" (
+    "instanceId" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "pid" INTEGER NOT NULL,
+    "leader" BOOLEAN NOT NULL DEFAULT false,
+    "cadenceMs" INTEGER,
+    "phase" TEXT,
+    "ticks" INTEGER NOT NULL DEFAULT 0,
+    "lastTickAt" TIMESTAMP(3),
+    "lastTickMs" INTEGER,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "beatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SchedulerHeartbeat_pkey" PRIMARY KEY ("instanceId")
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulerHeartbeat_beatAt_idx" ON "public"."SchedulerHeartbeat"("beatAt");
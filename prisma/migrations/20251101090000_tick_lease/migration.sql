@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "public"."TickLease" (
+    "name" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "token" INTEGER NOT NULL DEFAULT 1,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TickLease_pkey" PRIMARY KEY ("name")
+);
@@ -1,74 +1,60 @@
-// app/lib/alpaca.ts
-const BASE = (process.env.ALPACA_BASE_URL?.trim() || "https://paper-api.alpaca.markets").replace(/\/+$/,'');
-const KEY  = process.env.ALPACA_API_KEY_ID!;
-const SEC  = process.env.ALPACA_API_SECRET_KEY!;
+// scripts/alpaca-listener.ts
+//
+// Long-running worker: Alpaca trade_updates → the same reconciliation the
+// webhook uses (lib/fillReconciler.ts).
+//   npm run alpaca:listen
+// Offline, against scripts/mock-trade-stream.ts:
+//   npm run alpaca:mock-stream
+//   ALPACA_STREAM_URL=ws://localhost:8765 BROKER=sim npm run alpaca:listen
+//
+// After every (re)connect it backfills over REST: orders submitted since
+// the last persisted event, then every order the books still have as
+// working (a bracket leg filled during the outage was submitted long
+// before it, so the first pass alone would miss it).
 
-function headers() {
-  return {
-    "APCA-API-KEY-ID": KEY,
-    "APCA-API-SECRET-KEY": SEC,
-    "Content-Type": "application/json",
-  };
-}
+import { alpacaStreamConfig } from "../lib/alpaca";
+import { startTradeUpdatesStream } from "../lib/tradeUpdatesStream";
+import { reconcileOpenOrders, reconcileOrderUpdate, reconcileRecentOrders } from "../lib/fillReconciler";
+import { prisma } from "../lib/prisma";
 
-export type AlpacaOrder = {
-  id: string;
-  client_order_id: string;
-  status: string;
-  symbol: string;
-  side: "buy" | "sell";
-  type: "market" | "limit" | "stop" | "stop_limit";
-  qty?: string;
-  filled_qty?: string;
-  limit_price?: string;
-  stop_price?: string;
-  order_class?: "simple" | "bracket" | "oco" | "oto";
-  legs?: AlpacaOrder[];
-};
+const BACKFILL_OVERLAP_MS = 60_000;
+const FIRST_RUN_LOOKBACK_MS = 90 * 60_000; // same default window as /api/alpaca/sync
 
-export async function submitBracketBuy(params: {
-  symbol: string;
-  qty: number;          // whole shares
-  limit: number;        // entry limit
-  tp: number;           // take-profit limit
-  sl: number;           // stop-loss stop
-  tif?: "day" | "gtc";
-}) {
-  const body = {
-    symbol: params.symbol,
-    qty: String(params.qty),
-    side: "buy",
-    type: "limit",
-    time_in_force: params.tif || "day",
-    limit_price: Number(params.limit).toFixed(4),
-    extended_hours: false,
-    order_class: "bracket",
-    take_profit: { limit_price: Number(params.tp).toFixed(4) },
-    stop_loss:   { stop_price:  Number(params.sl).toFixed(4) },
-  };
-
-  const res = await fetch(`${BASE}/v2/orders`, {
-    method: "POST",
-    headers: headers(),
-    body: JSON.stringify(body),
-    cache: "no-store",
-  });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    throw new Error(`Alpaca order failed (${res.status}): ${txt}`);
+function main() {
+  const { url, key, secret } = alpacaStreamConfig();
+  const mock = !!process.env.ALPACA_STREAM_URL;
+  if (!mock && (!key || !secret)) {
+    console.error("[alpaca-listener] Alpaca keys missing (set ALPACA_STREAM_URL to use the mock stream)");
+    process.exit(1);
   }
-  return (await res.json()) as AlpacaOrder;
-}
 
-export async function closePositionMarket(symbol: string) {
-  const res = await fetch(`${BASE}/v2/positions/${encodeURIComponent(symbol)}`, {
-    method: "DELETE",
-    headers: headers(),
-    cache: "no-store",
+  const stream = startTradeUpdatesStream({
+    url,
+    key: key || "mock",
+    secret: secret || "mock",
+    log: (msg, extra) => console.log(`[alpaca-listener] ${msg}`, extra ?? ""),
+    onUpdate: async (u) => {
+      const r = await reconcileOrderUpdate({ order: u.order, source: "listener", event: u.event, executionId: u.executionId });
+      const note = r.duplicate ? "duplicate" : r.newFills ? `+${r.newFills} fill` : "recorded";
+      console.log(`[alpaca-listener] ${u.kind.padEnd(7)} ${u.event} ${u.order.symbol} ${u.order.side} ${u.order.id} → ${note}`);
+    },
+    onResume: async (since) => {
+      const from = (since?.getTime() ?? Date.now() - FIRST_RUN_LOOKBACK_MS) - BACKFILL_OVERLAP_MS;
+      const r = await reconcileRecentOrders({ source: "listener", afterISO: new Date(from).toISOString() });
+      console.log(`[alpaca-listener] backfill since ${r.afterISO}: ${r.applied} applied, ${r.duplicates} unchanged, ${r.newFills} fills`);
+      const o = await reconcileOpenOrders({ source: "listener" });
+      console.log(`[alpaca-listener] backfill of ${o.checked} working orders: ${o.applied} applied, ${o.duplicates} unchanged, ${o.newFills} fills, ${o.missing} gone`);
+    },
   });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    throw new Error(`Alpaca close position failed (${res.status}): ${txt}`);
-  }
-  return res.json().catch(() => ({}));
+
+  const shutdown = async (sig: string) => {
+    console.log(`[alpaca-listener] ${sig}, draining`);
+    await stream.stop();
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => { void shutdown("SIGINT"); });
+  process.on("SIGTERM", () => { void shutdown("SIGTERM"); });
 }
+
+main();
@@ -0,0 +1,85 @@
+// scripts/backtest.ts
+//
+// Replays stored sessions through the tick strategy.
+//   npm run backtest -- data/2025-09-10.json data/2025-09-11.json
+//   npm run backtest -- --cash 10000 --budget 5000 --json data/*.json
+//   npm run backtest -- --setups my-setups.json data/*.json
+//
+// Each file holds one BacktestDay or an array of them (see lib/backtest.ts).
+// --setups takes a JSON list of entry setups (lib/strategySetups.ts).
+
+import { readFileSync } from "node:fs";
+import { runBacktest, type BacktestDay } from "../lib/backtest";
+import { validateStrategySetups, type StrategySetup } from "../lib/strategySetups";
+
+function parseArgs(argv: string[]) {
+  const files: string[] = [];
+  let cash: number | undefined;
+  let budget: number | undefined;
+  let json = false;
+  let setupsFile: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--cash") cash = Number(argv[++i]);
+    else if (a === "--budget") budget = Number(argv[++i]);
+    else if (a === "--json") json = true;
+    else if (a === "--setups") setupsFile = argv[++i];
+    else files.push(a);
+  }
+  return { files, cash, budget, json, setupsFile };
+}
+
+async function main() {
+  const { files, cash, budget, json, setupsFile } = parseArgs(process.argv.slice(2));
+  if (!files.length) {
+    console.error("usage: npm run backtest -- [--cash N] [--budget N] [--setups file.json] [--json] <day.json ...>");
+    process.exit(1);
+  }
+
+  let setups: StrategySetup[] | undefined;
+  if (setupsFile) {
+    const res = validateStrategySetups(JSON.parse(readFileSync(setupsFile, "utf8")));
+    if (!res.ok) {
+      console.error(`[backtest] ${setupsFile}:\n  ${res.errors.join("\n  ")}`);
+      process.exit(1);
+    }
+    setups = res.setups;
+  }
+
+  const days: BacktestDay[] = [];
+  for (const f of files) {
+    const parsed = JSON.parse(readFileSync(f, "utf8"));
+    days.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+
+  const report = await runBacktest(days, { startingCash: cash, investBudget: budget, setups });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  for (const d of report.days) {
+    console.log(`${d.date}  pnl ${d.pnl.toFixed(2).padStart(9)}  equity ${d.equityEnd.toFixed(2)}`);
+    for (const t of d.trades) {
+      console.log(
+        `   ${t.window.padEnd(15)} ${t.ticker.padEnd(6)} ${t.shares} @ ${t.entryPrice} (${t.entryAt.slice(11)}) → ` +
+        `${t.exitPrice} (${t.exitAt.slice(11)}, ${t.exitReason})  ${t.pnl >= 0 ? "+" : ""}${t.pnl} / ${t.returnPct}%` +
+        (t.setup ? `  [${t.setup}]` : "")
+      );
+    }
+    if (!d.trades.length) console.log(`   no trade — ${d.reasons.slice(-3).join("; ")}`);
+  }
+
+  console.log("");
+  console.log(`trades      ${report.trades} (${report.wins}W / ${report.losses}L)`);
+  console.log(`hit rate    ${(report.hitRate * 100).toFixed(1)}%`);
+  console.log(`total P&L   ${report.totalPnl.toFixed(2)}`);
+  console.log(`equity      ${report.startingCash.toFixed(2)} → ${report.endingEquity.toFixed(2)}`);
+  console.log(`max DD      ${report.maxDrawdown.toFixed(2)} (${report.maxDrawdownPct}%)`);
+}
+
+main().catch((e) => {
+  console.error("[backtest] failed:", e?.message || e);
+  process.exit(1);
+});
@@ -0,0 +1,369 @@
+// scripts/databento-check.ts
+//
+// Checks the DBN decoder (lib/dbn.ts) and the live client
+// (lib/databentoLive.ts); exits non-zero on a failure.
+//   npm run databento:check
+//   npm run databento:check -- capture.dbn other.dbn     (extra fixtures)
+//   npm run databento:check -- --update                  (rewrite .json expectations)
+//
+// - MBP-10, v1/v2 symbol mappings and system records laid out by hand
+//   from the DBN spec decode to the right fields
+// - a stream cut into random chunk sizes decodes the same as in one piece
+// - every fixture in scripts/fixtures/databento (and any file given) is a
+//   clean DBN stream: mappings before data, ordered ladders, no crossed
+//   books; fixtures with a .json beside them must match it. Real captures
+//   must be uncompressed (`dbn file.dbn.zst -o file.dbn`); the bundled one
+//   is a mock-databento --capture session
+// - against scripts/mock-databento.ts: auth rejection, one connection for
+//   several subscriptions, reconnect + replay after a drop with no
+//   duplicates or holes, stall detection, unsubscribe restarts the session
+// - prints: trades / tbbo records and MBP-10 action T reach onTrade, and
+//   the trade tape (lib/tradeTape.ts) signs them by Lee-Ready
+
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  DbnDecoder,
+  decodeDbn,
+  encodeMbp10,
+  encodeMetadata,
+  encodeSymbolMapping,
+  encodeSystem,
+  encodeTrade,
+  mbp10Ladders,
+  readRecord,
+  type DbnEvent,
+  type Mbp10Msg,
+} from "../lib/dbn";
+import { startDatabentoLive, type DatabentoLiveHandle, type DatabentoTrade } from "../lib/databentoLive";
+import { classifyLeeReady, clearTape, recordTrade, tapeFlow, tapeStats } from "../lib/tradeTape";
+import { startMockGateway } from "./mock-databento";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "databento");
+const KEY = "db-check-key-XYZ12";
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const ns = (ms: number) => BigInt(ms) * BigInt(1_000_000);
+
+async function until(what: string, cond: () => boolean, timeoutMs = 5_000) {
+  const end = Date.now() + timeoutMs;
+  while (!cond()) {
+    if (Date.now() > end) throw new Error(`timed out waiting for ${what}`);
+    await sleep(10);
+  }
+}
+
+/* -------------------------- hand-laid records -------------------------- */
+function handLayout() {
+  // MBP-10: 16-byte header + 32-byte body + 10 × 32-byte levels
+  const b = Buffer.alloc(368);
+  b.writeUInt8(92, 0); b.writeUInt8(0x0a, 1); b.writeUInt16LE(2, 2); b.writeUInt32LE(4242, 4);
+  b.writeBigUInt64LE(BigInt("1727793000000000001"), 8);
+  b.writeBigInt64LE(BigInt("187450000000"), 16); // 187.45
+  b.writeUInt32LE(300, 24);
+  b.write("T", 28, "latin1"); b.write("B", 29, "latin1");
+  b.writeUInt8(0x80, 30); b.writeUInt8(0, 31);
+  b.writeBigUInt64LE(BigInt("1727793000000000900"), 32);
+  b.writeInt32LE(-15, 40); b.writeUInt32LE(77, 44);
+  b.writeBigInt64LE(BigInt("187440000000"), 48); b.writeBigInt64LE(BigInt("187460000000"), 56);
+  b.writeUInt32LE(500, 64); b.writeUInt32LE(200, 68); b.writeUInt32LE(3, 72); b.writeUInt32LE(1, 76);
+  for (let i = 1; i < 10; i++) {
+    b.writeBigInt64LE(BigInt("9223372036854775807"), 48 + i * 32);
+    b.writeBigInt64LE(BigInt("9223372036854775807"), 56 + i * 32);
+  }
+  const m = readRecord(b) as Mbp10Msg;
+  assert.equal(m.kind, "mbp10");
+  assert.deepEqual([m.hd.publisherId, m.hd.instrumentId, m.hd.tsEvent], [2, 4242, BigInt("1727793000000000001")]);
+  assert.deepEqual([m.price, m.size, m.action, m.side, m.flags, m.tsInDelta, m.sequence], [187.45, 300, "T", "B", 0x80, -15, 77]);
+  assert.equal(m.tsRecv, BigInt("1727793000000000900"));
+  assert.deepEqual(m.levels[0], { bidPx: 187.44, askPx: 187.46, bidSz: 500, askSz: 200, bidCt: 3, askCt: 1 });
+  assert.equal(m.levels[1].bidPx, null);
+  assert.deepEqual(mbp10Ladders(m), { bids: [[187.44, 500]], asks: [[187.46, 200]] });
+
+  // v1 symbol mapping: in[22] out[22] pad[4] start end
+  const v1 = Buffer.alloc(80);
+  v1.writeUInt8(20, 0); v1.writeUInt8(0x16, 1); v1.writeUInt32LE(4242, 4);
+  v1.write("AAPL", 16, "latin1"); v1.write("4242", 38, "latin1");
+  v1.writeBigUInt64LE(BigInt(5), 64);
+  const mv1 = readRecord(v1);
+  assert.ok(mv1.kind === "mapping" && mv1.inSymbol === "AAPL" && mv1.outSymbol === "4242" && mv1.start === BigInt(5) && mv1.stypeIn === null);
+
+  // v2 symbol mapping: stype_in u8, in[71], stype_out u8, out[71], start, end
+  const v2 = Buffer.alloc(176);
+  v2.writeUInt8(44, 0); v2.writeUInt8(0x16, 1); v2.writeUInt32LE(7, 4);
+  v2.writeUInt8(1, 16); v2.write("MSFT", 17, "latin1"); v2.writeUInt8(0, 88); v2.write("7", 89, "latin1");
+  v2.writeBigUInt64LE(BigInt(9), 160);
+  const mv2 = readRecord(v2);
+  assert.ok(mv2.kind === "mapping" && mv2.inSymbol === "MSFT" && mv2.outSymbol === "7" && mv2.stypeIn === 1 && mv2.start === BigInt(9));
+
+  // system: v1 text heartbeat, v2 coded
+  const s1 = Buffer.alloc(80);
+  s1.writeUInt8(20, 0); s1.writeUInt8(0x17, 1); s1.write("Heartbeat", 16, "latin1");
+  const sv1 = readRecord(s1);
+  assert.ok(sv1.kind === "system" && sv1.heartbeat && sv1.code === null);
+  const sv2 = readRecord(encodeSystem("Subscription request 0 for mbp-10 data succeeded", 1, BigInt(1)));
+  assert.ok(sv2.kind === "system" && !sv2.heartbeat && sv2.code === 1);
+
+  // unknown rtype is skipped by its length
+  const other = Buffer.alloc(24);
+  other.writeUInt8(6, 0); other.writeUInt8(0x99, 1);
+  assert.equal(readRecord(other).kind, "other");
+
+  // trades (48 bytes) and tbbo (mbp-1, 80 bytes) share the event body
+  const tr = readRecord(encodeTrade({ instrumentId: 9, tsEvent: BigInt(1), tsRecv: BigInt(2), side: "B", price: 10.02, size: 300 }));
+  assert.ok(tr.kind === "trade" && tr.action === "T" && tr.price === 10.02 && tr.size === 300 && tr.side === "B");
+  const tbBytes = encodeTrade({ instrumentId: 9, tsEvent: BigInt(1), side: "A", price: 10, size: 100, bbo: { bid: [10, 500], ask: [10.02, 200] } });
+  assert.equal(tbBytes.length, 80);
+  const tb = readRecord(tbBytes);
+  assert.ok(tb.kind === "mbp1" && tb.bbo.bidPx === 10 && tb.bbo.askSz === 200);
+
+  // encoder agrees with the hand layout
+  const enc = encodeMbp10({ instrumentId: 4242, tsEvent: BigInt(1), bids: [[187.44, 500]], asks: [[187.46, 200]] });
+  assert.equal(enc.readBigInt64LE(48), BigInt("187440000000"));
+  assert.equal(enc.readUInt32LE(68), 200);
+}
+
+/* -------------------------- chunked stream -------------------------- */
+function chunking() {
+  const t0 = Date.UTC(2025, 9, 1, 14, 30);
+  const parts = [encodeMetadata("XNAS.ITCH", ns(t0)), encodeSymbolMapping(1, "AAPL", ns(t0))];
+  for (let i = 0; i < 40; i++) {
+    parts.push(encodeMbp10({ instrumentId: 1, tsEvent: ns(t0 + i), sequence: i, bids: [[10 - i / 100, 100 + i]], asks: [[10.01 + i / 100, 200]] }));
+    if (i % 10 === 0) parts.push(encodeSystem("Heartbeat", 0, ns(t0 + i)));
+  }
+  const bytes = Buffer.concat(parts);
+  const whole = new DbnDecoder().push(bytes);
+
+  let seed = 7;
+  const rand = () => ((seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff);
+  for (let round = 0; round < 20; round++) {
+    const d = new DbnDecoder();
+    const got: DbnEvent[] = [];
+    for (let off = 0; off < bytes.length; ) {
+      const n = 1 + Math.floor(rand() * 400);
+      got.push(...d.push(bytes.subarray(off, off + n)));
+      off += n;
+    }
+    assert.equal(d.pending, 0);
+    assert.deepEqual(got, whole);
+  }
+  assert.equal(whole[0].kind, "metadata");
+  assert.equal(whole.filter((e) => e.kind === "mbp10").length, 40);
+  assert.throws(() => new DbnDecoder().push(Buffer.from("JSON{}\n")), /metadata prefix/);
+}
+
+/* -------------------------- fixtures -------------------------- */
+function summarize(file: string) {
+  const { meta, records, trailing } = decodeDbn(readFileSync(file));
+  assert.ok(meta, `${file}: no metadata`);
+  assert.equal(trailing, 0, `${file}: ${trailing} trailing bytes`);
+  const symbols = new Map<number, string>();
+  const counts: Record<string, number> = {};
+  const books: Record<string, { first: any; last: any; n: number }> = {};
+  for (const r of records) {
+    counts[r.kind] = (counts[r.kind] ?? 0) + 1;
+    if (r.kind === "mapping") symbols.set(r.hd.instrumentId, r.inSymbol);
+    if (r.kind !== "mbp10") continue;
+    const sym = symbols.get(r.hd.instrumentId);
+    assert.ok(sym, `${file}: instrument ${r.hd.instrumentId} before its mapping`);
+    const { bids, asks } = mbp10Ladders(r);
+    for (let i = 1; i < bids.length; i++) assert.ok(bids[i][0] < bids[i - 1][0], `${file}: bids out of order`);
+    for (let i = 1; i < asks.length; i++) assert.ok(asks[i][0] > asks[i - 1][0], `${file}: asks out of order`);
+    if (bids.length && asks.length) assert.ok(bids[0][0] < asks[0][0], `${file}: crossed book ${sym}`);
+    const top = { ts: String(r.tsRecv), bid: bids[0] ?? null, ask: asks[0] ?? null };
+    const b = (books[sym!] ??= { first: top, last: top, n: 0 });
+    b.last = top;
+    b.n++;
+  }
+  return { dataset: meta!.dataset, version: meta!.version, rtypes: counts, books };
+}
+
+function fixtures(extra: string[], update: boolean) {
+  const files = [
+    ...(existsSync(FIXTURE_DIR) ? readdirSync(FIXTURE_DIR).filter((f) => f.endsWith(".dbn")).map((f) => path.join(FIXTURE_DIR, f)) : []),
+    ...extra,
+  ];
+  assert.ok(files.length, "no DBN fixtures found");
+  for (const f of files) {
+    const got = summarize(f);
+    const expectFile = f.replace(/\.dbn$/, ".json");
+    if (update) writeFileSync(expectFile, JSON.stringify(got, null, 2) + "\n");
+    else if (existsSync(expectFile)) assert.deepEqual(got, JSON.parse(readFileSync(expectFile, "utf8")), `${f} differs from ${expectFile}`);
+    const n = Object.values(got.books).reduce((a, b) => a + b.n, 0);
+    console.log(`  ${path.basename(f)}: ${got.dataset} v${got.version}, ${n} books over ${Object.keys(got.books).join(",")}`);
+  }
+}
+
+/* -------------------------- live client vs mock -------------------------- */
+async function liveSession() {
+  const gw = await startMockGateway({ port: 0, key: KEY, intervalMs: 20, log: () => {} });
+  const seen = new Map<string, bigint[]>();
+  const handles: DatabentoLiveHandle[] = [];
+  const client = (key: string, extra: Partial<Parameters<typeof startDatabentoLive>[0]> = {}) => {
+    const h = startDatabentoLive({
+      key, dataset: "XNAS.ITCH", host: "127.0.0.1", port: gw.port, heartbeatS: 5, stallMs: 300,
+      minBackoffMs: 20, maxBackoffMs: 100, restartDebounceMs: 50, log: () => {},
+      onMbp10: (sym, m) => {
+        if (!seen.has(sym)) seen.set(sym, []);
+        seen.get(sym)!.push(m.tsRecv);
+      },
+      ...extra,
+    });
+    handles.push(h);
+    return h;
+  };
+
+  try {
+    // wrong key: rejected, keeps retrying in backoff
+    {
+      const bad = client("db-wrong-key-00000");
+      bad.subscribe(["AAPL"]);
+      await until("auth rejection", () => /Authentication failed/.test(bad.status().lastError ?? ""));
+      await bad.stop();
+      assert.equal(gw.sessions.length, 0);
+    }
+
+    const gaps: any[] = [];
+    const c = client(KEY, { onGap: (g) => gaps.push(g) });
+    assert.equal(c.state, "idle");
+
+    // one connection, symbols added mid-session
+    const conns0 = gw.connections;
+    c.subscribe(["aapl"]);
+    await until("AAPL books", () => (seen.get("AAPL")?.length ?? 0) >= 5);
+    c.subscribe(["MSFT", "AAPL"]);
+    await until("MSFT books", () => (seen.get("MSFT")?.length ?? 0) >= 5);
+    assert.equal(gw.connections - conns0, 1);
+    assert.equal(c.state, "streaming");
+    assert.deepEqual(c.symbols.sort(), ["AAPL", "MSFT"]);
+
+    // dropped session: reconnect, replay the outage, nothing twice, nothing missing
+    gw.drop();
+    await until("gap replayed", () => gaps.length === 1);
+    assert.equal(gaps[0].replayed, true);
+    await until("books after reconnect", () => c.status().symbols.every((s) => s.live));
+    await sleep(100);
+    for (const sym of ["AAPL", "MSFT"]) {
+      const got = seen.get(sym)!;
+      for (let i = 1; i < got.length; i++) assert.ok(got[i] > got[i - 1], `${sym}: duplicate or out-of-order record`);
+      const gen = gw.generated.get(sym)!.filter((t) => t >= got[0] && t <= got[got.length - 1]);
+      assert.deepEqual(got, gen, `${sym}: records missing across the reconnect`);
+    }
+    assert.deepEqual(gw.sessions[gw.sessions.length - 1].sort(), ["AAPL", "MSFT"]);
+
+    // stalled gateway: the client notices the silence and reconnects
+    const conns1 = gw.connections;
+    gw.stall();
+    await until("stall reconnect", () => gw.connections > conns1 && c.state === "streaming", 3_000);
+    assert.equal(gaps.length >= 1, true);
+
+    // unsubscribe: muted at once, session restarted without it
+    c.unsubscribe(["MSFT"]);
+    const msftAt = seen.get("MSFT")!.length;
+    await until("session restart", () => gw.sessions[gw.sessions.length - 1].join() === "AAPL");
+    const aaplAt = seen.get("AAPL")!.length;
+    await sleep(150);
+    assert.equal(seen.get("MSFT")!.length, msftAt);
+    assert.ok(seen.get("AAPL")!.length > aaplAt);
+    assert.deepEqual(c.status().symbols.map((s) => s.symbol), ["AAPL"]);
+
+    // nothing left: session closed, idle until the next subscribe
+    c.unsubscribe(["AAPL"]);
+    await until("idle", () => c.state === "idle");
+  } finally {
+    for (const h of handles) await h.stop();
+    await gw.close();
+  }
+}
+
+/* -------------------------- prints -------------------------- */
+function tape() {
+  const q = { bid: 10, ask: 10.02 };
+  const none = { lastPx: null, lastDir: null };
+  assert.deepEqual(classifyLeeReady(10.02, q, none), { side: "buy", rule: "quote" });
+  assert.deepEqual(classifyLeeReady(10, q, none), { side: "sell", rule: "quote" });
+  assert.deepEqual(classifyLeeReady(10.01, q, { lastPx: 10, lastDir: null }), { side: "buy", rule: "tick" });
+  assert.deepEqual(classifyLeeReady(10.01, null, { lastPx: 10.01, lastDir: "sell" }), { side: "sell", rule: "tick" });
+  assert.deepEqual(classifyLeeReady(10.01, q, none), { side: null, rule: "none" });
+
+  clearTape();
+  const t0 = 1_000_000;
+  recordTrade("abc", { px: 10.02, sz: 100, t: t0, quote: q });
+  recordTrade("ABC", { px: 10, sz: 200, t: t0 + 30_000, quote: q });
+  for (let i = 0; i < 4; i++) recordTrade("ABC", { px: 10.02, sz: 100, t: t0 + 55_000 + i, quote: q });
+  const s = tapeStats("ABC", t0 + 61_000);
+  assert.deepEqual([s.windows["10s"].buyCount, s.windows["10s"].sellCount], [4, 0]);
+  assert.deepEqual([s.windows["1m"].buyCount, s.windows["1m"].sellCount, s.windows["1m"].sellNotional], [4, 1, 2000]);
+  assert.deepEqual([s.windows["5m"].buyCount, s.windows["5m"].buyVolume], [5, 500]);
+  assert.equal(tapeFlow("ABC", "1m", t0 + 61_000)!.toFixed(3), (4008 / 6008).toFixed(3));
+  assert.equal(tapeFlow("ABC", "10s", t0 + 61_000), null); // 4 signed prints: too thin
+  clearTape();
+}
+
+async function prints() {
+  const gw = await startMockGateway({ port: 0, key: KEY, intervalMs: 10, log: () => {} });
+  const got = new Map<string, DatabentoTrade[]>();
+  const handles: DatabentoLiveHandle[] = [];
+  const client = (tradeSchema: "trades" | "tbbo" | null) => {
+    const h = startDatabentoLive({
+      key: KEY, dataset: "XNAS.ITCH", host: "127.0.0.1", port: gw.port, log: () => {}, tradeSchema,
+      onMbp10: () => {},
+      onTrade: (_sym, t) => { got.get(String(tradeSchema))!.push(t); },
+    });
+    got.set(String(tradeSchema), []);
+    handles.push(h);
+    h.subscribe(["AAPL"]);
+    return h;
+  };
+
+  try {
+    client(null);
+    client("trades");
+    client("tbbo");
+    await until("prints", () => [...got.values()].every((x) => x.length >= 20));
+
+    // MBP-10 prints carry the book as their quote, trades none, tbbo the quote before
+    for (const [schema, ts] of got) {
+      for (const t of ts) {
+        assert.ok(t.px > 0 && t.sz > 0 && (t.side === "A" || t.side === "B"));
+        assert.equal(t.bbo == null, schema === "trades", `${schema}: bbo`);
+        if (t.bbo) assert.equal(t.px, t.side === "B" ? t.bbo.askPx : t.bbo.bidPx, `${schema}: aggressor vs quote`);
+      }
+    }
+    // tbbo prints signed against their own quote agree with the venue's aggressor flag
+    for (const t of got.get("tbbo")!) {
+      const p = recordTrade("AAPL", { px: t.px, sz: t.sz, quote: { bid: t.bbo!.bidPx!, ask: t.bbo!.askPx! } });
+      assert.equal(p?.side, t.side === "B" ? "buy" : "sell");
+    }
+    const w = tapeStats("AAPL").windows["1m"];
+    assert.equal(w.buyCount + w.sellCount, got.get("tbbo")!.length);
+    assert.equal(w.buyCount, got.get("tbbo")!.filter((t) => t.side === "B").length);
+  } finally {
+    for (const h of handles) await h.stop();
+    await gw.close();
+    clearTape();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes("--update");
+  handLayout();
+  console.log("hand-laid records: ok");
+  chunking();
+  console.log("chunked stream: ok");
+  fixtures(args.filter((a) => !a.startsWith("--")), update);
+  console.log("fixtures: ok");
+  await liveSession();
+  console.log("live client vs mock gateway: ok");
+  tape();
+  console.log("trade tape: ok");
+  await prints();
+  console.log("prints: ok");
+  console.log("databento: all checks passed");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,49 @@
+// scripts/gen-crons.ts
+//
+// Rewrites the /api/bot/tick cron entries in vercel.json from the session
+// schedule (lib/schedule.ts). Other cron paths are left as they are.
+//   npm run crons:gen
+//   npm run crons:gen -- --check     (exit 1 when vercel.json is stale)
+//
+// SESSION_SCHEDULE (JSON list of phases) overrides the default schedule,
+// the same as in the tick route.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { SESSION_SCHEDULE, cronSchedulesFor } from "../lib/schedule";
+
+const TICK_PATH = "/api/bot/tick";
+const FILE = join(process.cwd(), "vercel.json");
+
+type Cron = { path: string; schedule: string };
+
+function render(config: { crons?: Cron[] }) {
+  // one cron per line, like the hand-written file
+  const { crons = [], ...rest } = config;
+  const head = JSON.stringify(rest, null, 2).replace(/\n}$/, "");
+  const lines = crons.map((c) => `    { "path": ${JSON.stringify(c.path)}, "schedule": ${JSON.stringify(c.schedule)} }`);
+  return `${head},\n  "crons": [\n${lines.join(",\n")}\n  ]\n}\n`;
+}
+
+function main() {
+  const check = process.argv.includes("--check");
+  const before = readFileSync(FILE, "utf8");
+  const config = JSON.parse(before);
+  const others: Cron[] = (config.crons ?? []).filter((c: Cron) => c.path !== TICK_PATH);
+  const ticks: Cron[] = cronSchedulesFor(SESSION_SCHEDULE).map((schedule) => ({ path: TICK_PATH, schedule }));
+  const after = render({ ...config, crons: [...ticks, ...others] });
+
+  if (after === before) {
+    console.log(`vercel.json is up to date (${ticks.length} tick crons)`);
+    return;
+  }
+  if (check) {
+    console.error("vercel.json tick crons differ from the session schedule — run `npm run crons:gen`");
+    process.exit(1);
+  }
+  writeFileSync(FILE, after);
+  for (const t of ticks) console.log(`${t.path}  ${t.schedule}`);
+  console.log(`wrote ${ticks.length} tick crons to vercel.json`);
+}
+
+main();
@@ -0,0 +1,332 @@
+// scripts/ibkr-fake.ts
+//
+// Drives lib/ibkrBroker.ts against an in-memory stand-in for the `ib`
+// client, so the IBKR adapter can be exercised without TWS / IB Gateway.
+//   npm run ibkr:fake
+//   npm run ibkr:fake -- --symbol ABCD --qty 25 --price 12.40
+//
+// FakeIbClient speaks the events the adapter listens to (nextValidId,
+// openOrder/orderStatus, execDetails, position, accountSummary, tick*)
+// and fills market orders at the ask/bid, resting legs when the price
+// set with move() crosses them. Exec times are New York wall time with no
+// zone, like a US login's TWS. Exits non-zero on a failure:
+// - a bracket goes out as parent + target + stop, only the stop transmits
+// - tightening the stop re-places it under the same orderId; loosening
+//   places nothing; the lifted stop is the one that fills
+// - every execution reaches the books exactly once, also when TWS replays
+//   them (backfillExecutions), stamped with the right time
+// - a short opens with a market sell and closePosition buys it back
+
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { IbkrBroker, type IbClient, type IbOrderUpdate } from "../lib/ibkrBroker";
+
+type FakeOrder = { id: number; symbol: string; order: any; status: string; filled: number; avg: number };
+
+export class FakeIbClient extends EventEmitter implements IbClient {
+  private orders = new Map<number, FakeOrder>();
+  private positions = new Map<string, { qty: number; avg: number }>();
+  private prices = new Map<string, number>();
+  private execSeq = 0;
+  private readonly nextValidId: number;
+  private readonly execZone: string | null;
+  cash: number;
+  /** Every placeOrder call, modifies included, in order. */
+  readonly placed: Array<{ id: number; order: any }> = [];
+  /** Every execution report sent. */
+  readonly execs: Array<{ contract: any; exec: any }> = [];
+
+  constructor(opts: { cash?: number; nextValidId?: number; execZone?: string } = {}) {
+    super();
+    this.cash = opts.cash ?? 25_000;
+    this.nextValidId = opts.nextValidId ?? 1000;
+    this.execZone = opts.execZone ?? null;
+  }
+
+  private later(fn: () => void) { setImmediate(fn); }
+
+  /* ---- connection ---- */
+  connect() { this.later(() => { this.emit("connected"); this.emit("nextValidId", this.nextValidId); }); }
+  disconnect() { this.later(() => this.emit("disconnected")); }
+  reqIds(_n: number) { this.later(() => this.emit("nextValidId", Math.max(this.nextValidId, ...this.orders.keys()) + 1)); }
+
+  /* ---- market ---- */
+  /** Set the last price; bid/ask are one cent either side. Re-checks resting legs. */
+  move(symbol: string, price: number) {
+    this.prices.set(symbol, price);
+    for (const o of this.orders.values()) if (o.symbol === symbol) this.tryFill(o);
+  }
+
+  private quote(symbol: string) {
+    const px = this.prices.get(symbol) ?? 10;
+    return { bid: Number((px - 0.01).toFixed(2)), ask: Number((px + 0.01).toFixed(2)) };
+  }
+
+  /* ---- orders ---- */
+  order(id: number) {
+    return this.orders.get(id);
+  }
+
+  placeOrder(id: number, contract: any, order: any) {
+    this.placed.push({ id, order: { ...order } });
+    const prev = this.orders.get(id);
+    const o: FakeOrder = prev
+      ? { ...prev, order: { ...prev.order, ...order } } // modify: same id
+      : { id, symbol: contract.symbol, order: { ...order }, status: "PreSubmitted", filled: 0, avg: 0 };
+    this.orders.set(id, o);
+    this.later(() => {
+      this.emit("openOrder", id, contract, o.order, { status: o.status });
+      // IB holds a bracket until its transmitting child arrives
+      if (!order.transmit) return;
+      const family = [o, ...Array.from(this.orders.values()).filter((x) => x.id === o.order.parentId || x.order.parentId === o.order.parentId)];
+      for (const x of new Set(family)) if (x.status === "PreSubmitted") this.setStatus(x, "Submitted");
+      for (const x of new Set(family)) this.tryFill(x);
+    });
+  }
+
+  cancelOrder(id: number) {
+    const o = this.orders.get(id);
+    if (o && !["Filled", "Cancelled"].includes(o.status)) this.later(() => this.setStatus(o, "Cancelled"));
+  }
+
+  reqGlobalCancel() {
+    for (const o of this.orders.values()) this.cancelOrder(o.id);
+  }
+
+  reqAllOpenOrders() {
+    this.later(() => {
+      for (const o of this.orders.values()) {
+        if (["Filled", "Cancelled"].includes(o.status)) continue;
+        this.emit("openOrder", o.id, { symbol: o.symbol, secType: "STK" }, o.order, { status: o.status });
+      }
+      this.emit("openOrderEnd");
+    });
+  }
+
+  /** "yyyymmdd  hh:mm:ss" New York wall time, or "yyyymmdd hh:mm:ss <zone>". */
+  private execTime() {
+    const wall = new Date().toLocaleString("sv-SE", { timeZone: this.execZone ?? "America/New_York" }).replace(/-/g, "");
+    return this.execZone ? `${wall} ${this.execZone}` : wall.replace(" ", "  ");
+  }
+
+  private setStatus(o: FakeOrder, status: string) {
+    o.status = status;
+    this.emit("orderStatus", o.id, status, o.filled, Number(o.order.totalQuantity) - o.filled, o.avg, 0, Number(o.order.parentId ?? 0), o.avg, 0, "");
+  }
+
+  private tryFill(o: FakeOrder) {
+    if (o.status !== "Submitted") return;
+    const parent = o.order.parentId ? this.orders.get(o.order.parentId) : null;
+    if (parent && parent.status !== "Filled") return;
+    const q = this.quote(o.symbol);
+    const buy = o.order.action === "BUY";
+    const mkt = buy ? q.ask : q.bid;
+    let px: number | null = null;
+    if (o.order.orderType === "MKT") px = mkt;
+    else if (o.order.orderType === "LMT" && (buy ? mkt <= o.order.lmtPrice : mkt >= o.order.lmtPrice)) px = o.order.lmtPrice;
+    else if (o.order.orderType === "STP" && (buy ? mkt >= o.order.auxPrice : mkt <= o.order.auxPrice)) px = mkt;
+    if (px == null) return;
+
+    const qty = Number(o.order.totalQuantity);
+    o.filled = qty;
+    o.avg = px;
+    const signed = buy ? qty : -qty;
+    const pos = this.positions.get(o.symbol) ?? { qty: 0, avg: 0 };
+    if (pos.qty === 0 || Math.sign(pos.qty) === Math.sign(signed)) pos.avg = (pos.avg * Math.abs(pos.qty) + px * qty) / Math.abs(pos.qty + signed);
+    pos.qty += signed;
+    this.positions.set(o.symbol, pos);
+    this.cash -= signed * px;
+
+    const report = {
+      contract: { symbol: o.symbol, secType: "STK" },
+      exec: {
+        execId: `fake.${++this.execSeq}`,
+        orderId: o.id,
+        time: this.execTime(),
+        side: buy ? "BOT" : "SLD",
+        shares: qty,
+        price: px,
+        cumQty: qty,
+        avgPrice: px,
+      },
+    };
+    this.execs.push(report);
+    this.emit("execDetails", -1, report.contract, report.exec);
+    this.setStatus(o, "Filled");
+
+    // OCA: the other child goes once one fills
+    if (parent) {
+      for (const x of this.orders.values()) {
+        if (x !== o && x.order.parentId === parent.id && x.status === "Submitted") this.setStatus(x, "Cancelled");
+      }
+    }
+    for (const x of this.orders.values()) if (x.order.parentId === o.id) this.tryFill(x);
+  }
+
+  /* ---- account / data ---- */
+  reqPositions() {
+    this.later(() => {
+      for (const [symbol, p] of this.positions) this.emit("position", "DU000000", { symbol, secType: "STK" }, p.qty, p.avg);
+      this.emit("positionEnd");
+    });
+  }
+
+  reqAccountSummary(reqId: number, _group: string, _tags: string) {
+    this.later(() => {
+      let mv = 0;
+      for (const [sym, p] of this.positions) mv += p.qty * this.quote(sym).bid;
+      const nlv = this.cash + mv;
+      this.emit("accountSummary", reqId, "DU000000", "TotalCashValue", this.cash.toFixed(2), "USD");
+      this.emit("accountSummary", reqId, "DU000000", "BuyingPower", (Math.max(0, this.cash) * 4).toFixed(2), "USD");
+      this.emit("accountSummary", reqId, "DU000000", "NetLiquidation", nlv.toFixed(2), "USD");
+      this.emit("accountSummaryEnd", reqId);
+    });
+  }
+
+  cancelAccountSummary(_reqId: number) {}
+
+  /** Replays today's executions, as TWS does. */
+  reqExecutions(reqId: number, _filter: any) {
+    this.later(() => {
+      for (const x of this.execs) this.emit("execDetails", reqId, x.contract, x.exec);
+      this.emit("execDetailsEnd", reqId);
+    });
+  }
+
+  reqMktData(tickerId: number, contract: any, genericTickList: string, snapshot: boolean, _regulatory: boolean) {
+    this.later(() => {
+      if (genericTickList.split(",").includes("236")) this.emit("tickGeneric", tickerId, 46, 3);
+      const q = this.quote(contract.symbol);
+      this.emit("tickPrice", tickerId, 1, q.bid, {});
+      this.emit("tickSize", tickerId, 0, 300);
+      this.emit("tickPrice", tickerId, 2, q.ask, {});
+      this.emit("tickSize", tickerId, 3, 200);
+      if (snapshot) this.emit("tickSnapshotEnd", tickerId);
+    });
+  }
+
+  cancelMktData(_tickerId: number) {}
+}
+
+/* -------------------------- checks -------------------------- */
+function parseArgs(argv: string[]) {
+  const a = { symbol: "FAKE", qty: 10, price: 10 };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--symbol") a.symbol = String(argv[++i]).toUpperCase();
+    else if (argv[i] === "--qty") a.qty = Number(argv[++i]);
+    else if (argv[i] === "--price") a.price = Number(argv[++i]);
+  }
+  return a;
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 20));
+
+function recentISO(iso: string | undefined, what: string) {
+  const age = Date.now() - new Date(String(iso)).getTime();
+  assert.ok(age >= -1_000 && age < 60_000, `${what}: filled_at ${iso} is ${Math.round(age / 1000)}s from now`);
+}
+
+function fakeBroker(ib: FakeIbClient) {
+  const updates: IbOrderUpdate[] = [];
+  const broker = new IbkrBroker({ client: ib, clientId: 99, timeoutMs: 1_000, onOrderUpdate: async (u) => { updates.push(u); } });
+  return { broker, updates };
+}
+
+async function lifecycle(symbol: string, qty: number, price: number) {
+  const ib = new FakeIbClient();
+  ib.move(symbol, price);
+  const { broker, updates } = fakeBroker(ib);
+
+  const q = await broker.latestQuote(symbol);
+  assert.ok(q && q.bid > 0 && q.bid < q.ask, `quote ${JSON.stringify(q)}`);
+  assert.deepEqual(await broker.getShortability(symbol), { shortable: true, easyToBorrow: true });
+
+  /* ---- bracket: parent + two legs, the stop transmits the family ---- */
+  const parent = await broker.submitBracket({ symbol, qty, tp: price * 1.05, sl: price * 0.97 });
+  const [p, tp, sl] = ib.placed;
+  assert.equal(ib.placed.length, 3);
+  assert.deepEqual(
+    ib.placed.map((x) => [x.order.action, x.order.orderType, x.order.totalQuantity, x.order.transmit]),
+    [["BUY", "MKT", qty, false], ["SELL", "LMT", qty, false], ["SELL", "STP", qty, true]]
+  );
+  assert.deepEqual([tp.order.parentId, sl.order.parentId], [p.id, p.id]);
+  assert.ok(tp.order.lmtPrice > price && sl.order.auxPrice < price);
+  assert.equal(parent.id, `ib-99-${p.id}`);
+  await tick();
+  const entry = await broker.getOrder(parent.id);
+  assert.equal(entry?.status, "filled");
+  assert.deepEqual(entry?.legs?.map((l) => [l.type, l.status]), [["limit", "new"], ["stop", "new"]]);
+  assert.equal(Number((await broker.getPosition(symbol))?.qty), qty);
+  console.log("bracket: ok");
+
+  /* ---- the stop modify lands on the same orderId; a looser one goes nowhere ---- */
+  const r1 = await broker.replaceTpSlIfBetter({ symbol, newSl: price * 0.99 });
+  assert.equal(r1.raisedSl, true, r1.message);
+  assert.equal(ib.placed.length, 4);
+  assert.deepEqual([ib.placed[3].id, ib.placed[3].order.auxPrice], [sl.id, r1.triedSl]);
+  await tick();
+  assert.equal(ib.order(sl.id)?.order.auxPrice, r1.triedSl);
+  assert.equal(ib.order(sl.id)?.status, "Submitted");
+  const r2 = await broker.replaceTpSlIfBetter({ symbol, newSl: price * 0.95 });
+  assert.equal(r2.raisedSl, false, r2.message);
+  assert.equal(ib.placed.length, 4);
+
+  // between the old stop and the lifted one: only the lifted one fills
+  ib.move(symbol, price * 0.985);
+  await tick();
+  assert.equal(ib.order(sl.id)?.status, "Filled");
+  assert.equal(ib.order(tp.id)?.status, "Cancelled");
+  assert.equal(await broker.getPosition(symbol), null);
+  assert.equal((await broker.listOrders({ status: "open" })).length, 0);
+  console.log("stop modify: ok");
+
+  /* ---- short: market sell, closePosition buys it back ---- */
+  await broker.submitMarket({ symbol, qty, side: "sell" });
+  await tick();
+  assert.equal(Number((await broker.getPosition(symbol))?.qty), -qty);
+  const cover = await broker.closePosition(symbol);
+  assert.equal(cover?.side, "buy");
+  assert.equal(cover?.qty, String(qty));
+  await tick();
+  assert.equal(await broker.getPosition(symbol), null);
+  console.log("short open / close: ok");
+
+  /* ---- every execution reaches the books once, replays included ---- */
+  assert.equal(ib.execs.length, 4);
+  assert.equal(await broker.backfillExecutions(), 4);
+  await tick();
+  const fills = updates.filter((u) => u.executionId);
+  assert.deepEqual(fills.map((u) => u.executionId).sort(), ib.execs.map((x) => String(x.exec.execId)).sort());
+  assert.deepEqual(fills.map((u) => u.order.side), ["buy", "sell", "sell", "buy"]);
+  for (const u of fills) {
+    assert.equal(u.event, "fill");
+    recentISO(u.order.filled_at, u.executionId!);
+  }
+  console.log("executions, once each: ok");
+}
+
+/** Exec times with a zone suffix are read in that zone. */
+async function zonedExecTimes(symbol: string) {
+  for (const execZone of ["US/Eastern", "Europe/London", "UTC", "Asia/Tokyo"]) {
+    const ib = new FakeIbClient({ execZone });
+    const { broker, updates } = fakeBroker(ib);
+    await broker.submitMarket({ symbol, qty: 1, side: "buy" });
+    await tick();
+    const fill = updates.find((u) => u.executionId);
+    assert.ok(fill, execZone);
+    recentISO(fill.order.filled_at, execZone);
+  }
+  console.log("exec time zones: ok");
+}
+
+async function main() {
+  const { symbol, qty, price } = parseArgs(process.argv.slice(2));
+  await lifecycle(symbol, qty, price);
+  await zonedExecTimes(symbol);
+  console.log("ibkr adapter: all checks passed");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,116 @@
+// scripts/indicators-check.ts
+//
+// Fixture checks for lib/indicators.ts (exits non-zero on a mismatch).
+//   npm run indicators:check
+//
+// - hand-computed values for VWAP, opening range, relative volume, EMA,
+//   ATR, RSI and the higher-low pattern on a small synthetic session
+// - streaming (push per bar) equals the batch helpers at every bar
+// - ET wall-time dates and the same instants as UTC ISO strings agree
+
+import assert from "node:assert/strict";
+import {
+  Atr, Ema, HigherLowAfterOpen, OpeningRange, RelativeVolume, Rsi, SessionVwap,
+  atr, ema, etStamp, higherLowAfterOpen, openingRange, rsi, sessionVWAP, volumePulse, vwapSeries,
+  type Bar,
+} from "../lib/indicators";
+
+const DAY = "2025-10-10"; // EDT, UTC-4
+const near = (a: number | null | undefined, b: number, eps = 1e-9) =>
+  assert.ok(a != null && Math.abs(a - b) < eps, `expected ${b}, got ${a}`);
+
+function bar(hhmm: string, o: number, h: number, l: number, c: number, v: number, ymd = DAY): Bar {
+  return { date: `${ymd} ${hhmm}:00`, open: o, high: h, low: l, close: c, volume: v };
+}
+
+// premarket bar + prior day bar must be ignored by the session indicators
+const session: Bar[] = [
+  bar("09:31", 10, 11, 9, 10, 100, "2025-10-09"),
+  bar("09:25", 9, 9.5, 8.5, 9, 500),
+  bar("09:30", 10.0, 10.4, 9.8, 10.2, 1000), // first low 9.8
+  bar("09:31", 10.2, 10.5, 10.0, 10.1, 800),
+  bar("09:32", 10.1, 10.3, 9.9, 10.0, 600),  // higher low 9.9
+  bar("09:33", 10.0, 10.6, 10.0, 10.5, 1200), // closes over 10.3 → confirm
+  bar("09:34", 10.5, 10.8, 10.4, 10.7, 900),
+  bar("09:35", 10.7, 10.9, 10.6, 10.8, 3000),
+];
+
+/* ---- session VWAP ---- */
+{
+  const inSession = session.slice(2);
+  const tp = inSession.map((b) => (b.high + b.low + b.close) / 3);
+  const vol = inSession.reduce((s, b) => s + b.volume, 0);
+  const want = inSession.reduce((s, b, i) => s + tp[i] * b.volume, 0) / vol;
+  near(sessionVWAP(session, DAY), want);
+
+  const v = new SessionVwap(DAY);
+  for (const b of session) v.push(b);
+  const sd = Math.sqrt(inSession.reduce((s, b, i) => s + b.volume * (tp[i] - want) ** 2, 0) / vol);
+  near(v.value?.sd, sd);
+  near(v.bands(2)?.upper, want + 2 * sd);
+
+  const series = vwapSeries(session, DAY);
+  assert.equal(series.length, inSession.length);
+  near(series[series.length - 1].vwap, want);
+}
+
+/* ---- opening range / relative volume ---- */
+assert.deepEqual(openingRange(session, DAY), { high: 10.6, low: 9.8, count: 4 });
+{
+  const r = volumePulse(session, DAY, 5);
+  // counts premarket bars of the day too: prior five = 09:30..09:34
+  const prior = (1000 + 800 + 600 + 1200 + 900) / 5;
+  near(r?.avgPrior, prior);
+  near(r?.mult, 3000 / prior);
+  assert.equal(volumePulse(session.slice(0, 4), DAY, 5), null);
+}
+
+/* ---- higher low after the open ---- */
+assert.deepEqual(higherLowAfterOpen(session, DAY), { ok: true, firstLow: 9.8, higherLow: 9.9, confirmBarClose: 10.5 });
+assert.deepEqual(higherLowAfterOpen(session.slice(0, 5), DAY), { ok: false });
+
+/* ---- EMA / ATR / RSI ---- */
+near(ema([1, 2, 3], 3), 2);
+near(ema([1, 2, 3, 4], 3), 3); // 2 + 0.5 * (4 - 2)
+assert.equal(ema([1, 2], 3), null);
+
+{
+  const bars = [bar("10:00", 10, 11, 9, 10, 1), bar("10:01", 10, 12, 10, 11, 1), bar("10:02", 11, 11.5, 8, 9, 1)];
+  // TR: 2, max(2, 2, 0)=2, max(3.5, 0.5, 3)=3.5 → seed(2) = 2, then (2 + 3.5) / 2
+  near(atr(bars, 2), 2.75);
+}
+
+assert.equal(rsi([1, 2, 3, 4, 5, 6], 5), 100);
+assert.equal(rsi([5, 4, 3, 2, 1, 0], 5), 0);
+// gains 1, 0, 1 / losses 0, 1, 0 over period 2: seed g=0.5 l=0.5, then g=(0.5+1)/2=0.75 l=0.25
+near(rsi([1, 2, 1, 2], 2), 100 - 100 / (1 + 0.75 / 0.25));
+
+/* ---- streaming equals batch at every bar ---- */
+{
+  const v = new SessionVwap(DAY), o = new OpeningRange(DAY), rv = new RelativeVolume(DAY, 3);
+  const hl = new HigherLowAfterOpen(DAY), e = new Ema(3), a = new Atr(3), r = new Rsi(3);
+  session.forEach((b, i) => {
+    const upTo = session.slice(0, i + 1);
+    assert.equal(v.push(b)?.vwap ?? null, sessionVWAP(upTo, DAY));
+    assert.deepEqual(o.push(b), openingRange(upTo, DAY));
+    assert.deepEqual(rv.push(b), volumePulse(upTo, DAY, 3));
+    assert.deepEqual(hl.push(b), higherLowAfterOpen(upTo, DAY));
+    assert.equal(e.push(b.close), ema(upTo.map((x) => x.close), 3));
+    assert.equal(a.push(b), atr(upTo, 3));
+    assert.equal(r.push(b.close), rsi(upTo.map((x) => x.close), 3));
+  });
+}
+
+/* ---- ET wall time vs UTC ISO ---- */
+{
+  const iso = session.map((b) => {
+    const [d, t] = b.date.split(" ");
+    const [hh, mm] = t.split(":").map(Number);
+    return { ...b, date: `${d}T${String(hh + 4).padStart(2, "0")}:${String(mm).padStart(2, "0")}:00.000Z` };
+  });
+  assert.deepEqual(etStamp(iso[2].date), { ymd: DAY, mins: 9 * 60 + 30 });
+  assert.equal(sessionVWAP(iso, DAY), sessionVWAP(session, DAY));
+  assert.deepEqual(openingRange(iso, DAY), openingRange(session, DAY));
+}
+
+console.log("indicators: all checks passed");
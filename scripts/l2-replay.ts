@@ -0,0 +1,205 @@
+// scripts/l2-replay.ts
+//
+// Records L2 books to disk and plays them back (lib/l2Recorder.ts,
+// lib/l2Replay.ts); exits non-zero on a failure.
+//   npm run l2:replay                                     (self-check against the mock gateway)
+//   npm run l2:replay -- --symbol AAPL --day 2025-10-01   (evaluate a recorded session)
+//     [--dir .data/l2] [--horizon 5000] [--from ms] [--to ms]
+//
+// - self-check: the live client records the mock gateway into a temp dir;
+//   the segments (several, rotated) read back as exactly the books that
+//   arrived, prints included; a full-speed replay ends on the last
+//   recorded book (segments decoded one by one as it goes); seek rebuilds
+//   the book at the target from earlier segments; pause holds
+// - both modes: every change of the pressure score is lined up against
+//   the mid --horizon ms later and summed up per score bucket (the mock's
+//   books are a random walk, so expect no edge there)
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { mbp10Ladders } from "../lib/dbn";
+import { startDatabentoLive } from "../lib/databentoLive";
+import {
+  configureL2Recorder,
+  flushL2Recordings,
+  listL2Recordings,
+  loadL2Session,
+  recordMbp10,
+  type L2Frame,
+} from "../lib/l2Recorder";
+import { controlReplay, replaySeries, replayState, startReplay, stopReplay, type ReplayPoint } from "../lib/l2Replay";
+import { getBook } from "../lib/l2Store";
+import { etWallDate, ymdOf } from "../lib/indicators";
+import { startMockGateway } from "./mock-databento";
+
+const KEY = "db-check-key-XYZ12";
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function until(what: string, cond: () => boolean, timeoutMs = 10_000) {
+  const end = Date.now() + timeoutMs;
+  while (!cond()) {
+    if (Date.now() > end) throw new Error(`timed out waiting for ${what}`);
+    await sleep(20);
+  }
+}
+
+function arg(name: string) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+/* -------------------------- evaluation -------------------------- */
+/** Score changes vs. the forward mid move, bucketed by score. */
+function evaluate(frames: L2Frame[], series: ReplayPoint[], horizonMs: number) {
+  const mids = frames
+    .filter((f) => f.bids.length && f.asks.length)
+    .map((f) => ({ t: f.t, mid: (f.bids[0][0] + f.asks[0][0]) / 2 }));
+  const buckets = [0, 20, 40, 60, 80].map((lo) => ({ lo, n: 0, sumBps: 0, hits: 0, calls: 0 }));
+  let j = 0;
+  let scored = 0;
+  for (const p of series) {
+    const until = p.t + horizonMs;
+    // the horizon has to fall inside the recording
+    if (!mids.length || mids[mids.length - 1].t < until) break;
+    while (j + 1 < mids.length && mids[j + 1].t <= until) j++;
+    const bps = ((mids[j].mid - p.mid) / p.mid) * 10_000;
+    const b = buckets[Math.min(4, Math.floor(p.score / 20))];
+    b.n++;
+    b.sumBps += bps;
+    // above 50 calls up, below 50 calls down; flat outcomes don't count
+    if (p.score !== 50 && bps !== 0) {
+      b.calls++;
+      if (p.score > 50 === bps > 0) b.hits++;
+    }
+    scored++;
+  }
+
+  console.log(`pressure changes: ${series.length} (${scored} with a ${horizonMs}ms horizon)`);
+  console.log("score     n   mean fwd bps   hit rate");
+  for (const b of buckets) {
+    const mean = b.n ? (b.sumBps / b.n).toFixed(2) : "—";
+    const hit = b.calls ? `${((b.hits / b.calls) * 100).toFixed(1)}%` : "—";
+    console.log(`${String(b.lo).padStart(2)}-${String(b.lo + 20).padEnd(3)} ${String(b.n).padStart(5)}   ${mean.padStart(12)}   ${hit.padStart(8)}`);
+  }
+}
+
+async function replayAll(symbol: string, day: string, from?: number, to?: number) {
+  const st = await startReplay({ symbol, day, from, to, speed: 0 });
+  if (!st) throw new Error(`nothing recorded for ${symbol} on ${day}`);
+  await until("replay", () => !!replayState(st.id)?.done, 120_000);
+  return { id: st.id, series: replaySeries(st.id) };
+}
+
+/* -------------------------- self-check -------------------------- */
+async function selfCheck(horizonMs: number) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "l2-record-"));
+  configureL2Recorder({ enabled: true, dir, segmentMs: 1_000 });
+  const gw = await startMockGateway({ port: 0, key: KEY, intervalMs: 5, log: () => {} });
+  const got = new Map<string, Array<{ t: number; bids: Array<[number, number]>; asks: Array<[number, number]>; print: boolean }>>();
+  const h = startDatabentoLive({
+    key: KEY, dataset: "XNAS.ITCH", host: "127.0.0.1", port: gw.port, log: () => {},
+    onMbp10: (sym, m) => {
+      recordMbp10(sym, m, "XNAS.ITCH");
+      const { bids, asks } = mbp10Ladders(m);
+      const t = Number(m.tsRecv / BigInt(1_000_000));
+      if (!got.has(sym)) got.set(sym, []);
+      got.get(sym)!.push({ t, bids, asks, print: m.action === "T" });
+    },
+  });
+
+  try {
+    h.subscribe(["AAPL", "MSFT"]);
+    await until("books", () => (got.get("AAPL")?.length ?? 0) >= 400 && (got.get("MSFT")?.length ?? 0) >= 400);
+    await h.stop();
+    await flushL2Recordings();
+    console.log(`recorded: ${[...got].map(([s, xs]) => `${s} ${xs.length}`).join(", ")}`);
+
+    // segments read back as exactly what arrived
+    for (const [sym, sent] of got) {
+      const day = ymdOf(etWallDate(new Date(sent[0].t).toISOString()));
+      const segs = await listL2Recordings({ day, symbol: sym });
+      assert.ok(segs.length > 1, `${sym}: segments rotate`);
+      const frames = await loadL2Session(sym, day);
+      assert.equal(frames.length, sent.length, `${sym}: frame count`);
+      frames.forEach((f, i) => {
+        assert.equal(f.t, sent[i].t);
+        assert.deepEqual(f.bids, sent[i].bids);
+        assert.deepEqual(f.asks, sent[i].asks);
+        assert.equal(f.trade != null, sent[i].print);
+      });
+    }
+    console.log("segments round-trip: ok");
+
+    const sent = got.get("AAPL")!;
+    const day = ymdOf(etWallDate(new Date(sent[0].t).toISOString()));
+    const frames = await loadL2Session("AAPL", day);
+    const levels = (xs: Array<[number, number]>) => xs.slice(0, 10).map(([px, sz]) => ({ px, sz }));
+
+    // full speed: ends on the last book, under its own key
+    const { id, series } = await replayAll("AAPL", day);
+    const done = replayState(id)!;
+    assert.equal(done.t, frames[frames.length - 1].t);
+    assert.deepEqual(done.book?.bids, levels(frames[frames.length - 1].bids));
+    assert.deepEqual(done.book?.asks, levels(frames[frames.length - 1].asks));
+    assert.ok(series.length > 0 && series.every((p) => p.score >= 0 && p.score <= 100));
+    assert.equal(getBook("AAPL"), null, "replay stays off the live key");
+
+    // seek lands just before the target with the book rebuilt there (across segments)
+    const target = frames[Math.floor(frames.length / 2)].t;
+    const before = frames[frames.findIndex((f) => f.t >= target) - 1];
+    const sk = (await controlReplay(id, { action: "seek", t: target }))!;
+    assert.equal(sk.t, before.t);
+    assert.deepEqual(sk.book?.bids, levels(before.bids));
+    assert.ok(sk.segment > 0 && sk.segment < sk.segments, `segment ${sk.segment}/${sk.segments}`);
+    assert.equal(sk.applied, 0);
+    assert.equal(replaySeries(id).length, 0);
+
+    // pause holds; real-time play advances by about the wall clock
+    await controlReplay(id, { action: "pause" });
+    await sleep(100);
+    assert.equal(replayState(id)!.t, sk.t);
+    await controlReplay(id, { action: "speed", speed: 1 });
+    await controlReplay(id, { action: "play" });
+    await sleep(300);
+    const rt = replayState(id)!;
+    assert.ok(rt.applied > 0 && rt.t! - sk.t! < 1_500, "1x playback");
+    stopReplay(id);
+    assert.equal(replayState(id), null);
+    console.log("replay / seek / pause: ok");
+
+    evaluate(frames, series, horizonMs);
+  } finally {
+    await h.stop();
+    await gw.close();
+    configureL2Recorder({ enabled: false });
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const horizonMs = Number(arg("horizon")) > 0 ? Number(arg("horizon")) : 5_000;
+  const symbol = arg("symbol");
+  const day = arg("day");
+  if (!symbol || !day) {
+    await selfCheck(Math.min(horizonMs, 200));
+    console.log("l2 replay: all checks passed");
+    return;
+  }
+
+  const dir = arg("dir");
+  if (dir) configureL2Recorder({ dir: path.resolve(dir) });
+  const from = arg("from") ? Number(arg("from")) : undefined;
+  const to = arg("to") ? Number(arg("to")) : undefined;
+  const frames = await loadL2Session(symbol, day, from, to);
+  const { id, series } = await replayAll(symbol, day, from, to);
+  stopReplay(id);
+  console.log(`${symbol.toUpperCase()} ${day}: ${frames.length} books`);
+  evaluate(frames, series, horizonMs);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
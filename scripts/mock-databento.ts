@@ -0,0 +1,312 @@
+// scripts/mock-databento.ts
+//
+// Offline stand-in for a Databento live gateway (raw TCP, DBN encoding),
+// to drive lib/databentoLive.ts without a key or market hours.
+//   npm run databento:mock
+//   npm run databento:mock -- --port 13000 --interval 250 --key db-mock-key-ABCDE
+//   npm run databento:mock -- --drop-every 40 --stall-after 100
+//   npm run databento:mock -- --capture scripts/fixtures/databento/mbp10-sample.dbn --symbols AAPL,MSFT --records 8
+// Then run the app with DATABENTO_LIVE_HOST=127.0.0.1 DATABENTO_LIVE_PORT=13000
+// and DATABENTO_API_KEY set to the same --key.
+//
+// Same control protocol as the gateway: lsg_version + cram greeting,
+// auth=<sha256(cram|key)>-<bucket>, subscription lines (also after
+// start_session), start_session. Books are a seeded random walk per
+// symbol; each symbol's SymbolMapping goes out before its first record and
+// a heartbeat every heartbeat_interval_s. About one update in five is a
+// print (action T), also sent as a trades / tbbo record to sessions
+// subscribed to those schemas. A subscription with start=<ns> replays that
+// schema's records generated since then (intraday replay).
+// --drop-every N closes each session after N records; --stall-after N goes
+// silent (no heartbeats either) after N. --capture writes one session's
+// bytes (metadata + mappings + N rounds of books) to a file and exits.
+
+import net from "node:net";
+import { randomBytes } from "node:crypto";
+import { writeFileSync } from "node:fs";
+import { cramResponse, parseControl } from "../lib/databentoLive";
+import { SYSTEM_CODE, encodeError, encodeMbp10, encodeMetadata, encodeSymbolMapping, encodeSystem, encodeTrade } from "../lib/dbn";
+
+export type MockGatewayOptions = {
+  port?: number;
+  key?: string;
+  dataset?: string;
+  intervalMs?: number;
+  seed?: number;
+  dropEvery?: number | null;
+  stallAfter?: number | null;
+  log?: (msg: string) => void;
+};
+
+export type MockGateway = {
+  readonly port: number;
+  /** connections accepted so far */
+  readonly connections: number;
+  /** symbols of each started session, in order */
+  readonly sessions: string[][];
+  /** ts_recv of every MBP-10 record generated, per symbol */
+  readonly generated: Map<string, bigint[]>;
+  /** close every open session (client sees a reset) */
+  drop(): void;
+  /** stop writing to every open session, heartbeats included */
+  stall(): void;
+  close(): Promise<void>;
+};
+
+const DEFAULT_KEY = "db-mock-key-ABCDE";
+const SCHEMAS = ["mbp-10", "trades", "tbbo"] as const;
+type Schema = (typeof SCHEMAS)[number];
+const KEEP_MS = 10 * 60_000;
+
+/* -------------------------- books -------------------------- */
+/** Small deterministic PRNG so captures are reproducible. */
+function rng(seed: number) {
+  let x = seed >>> 0 || 1;
+  return () => {
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    return (x >>> 0) / 0x100000000;
+  };
+}
+
+function makeBooks(seed: number) {
+  const rand = rng(seed);
+  const ids = new Map<string, number>();
+  const mids = new Map<string, number>();
+  let seq = 0;
+  return {
+    id(sym: string) {
+      if (!ids.has(sym)) ids.set(sym, 1000 + ids.size);
+      return ids.get(sym)!;
+    },
+    /** next MBP-10 record for `sym` at `tsNs`, plus its trades / tbbo twins when it's a print */
+    next(sym: string, tsNs: bigint): { mbp10: Buffer; trades: Buffer | null; tbbo: Buffer | null } {
+      const mid = Math.max(1, (mids.get(sym) ?? 10 + Math.floor(rand() * 90)) + (rand() - 0.5) * 0.04);
+      mids.set(sym, mid);
+      const tick = 0.01;
+      const bestBid = Math.floor((mid - tick / 2) / tick) * tick;
+      const bids: Array<[number, number]> = [];
+      const asks: Array<[number, number]> = [];
+      for (let i = 0; i < 10; i++) {
+        bids.push([+(bestBid - i * tick).toFixed(2), 100 * (1 + Math.floor(rand() * 20))]);
+        asks.push([+(bestBid + (i + 1) * tick).toFixed(2), 100 * (1 + Math.floor(rand() * 20))]);
+      }
+      const side = rand() < 0.5 ? "B" : "A";
+      const print = rand() < 0.2;
+      // a print's side is the aggressor: buyers lift the ask, sellers hit the bid
+      const top = print ? (side === "B" ? asks[0] : bids[0]) : side === "B" ? bids[0] : asks[0];
+      const size = print ? 100 * (1 + Math.floor(rand() * 5)) : top[1];
+      const ev = { instrumentId: this.id(sym), tsEvent: tsNs - BigInt(50_000), tsRecv: tsNs, sequence: ++seq, side, price: top[0], size };
+      return {
+        mbp10: encodeMbp10({ ...ev, action: print ? "T" : "A", bids, asks }),
+        trades: print ? encodeTrade(ev) : null,
+        tbbo: print ? encodeTrade({ ...ev, bbo: { bid: bids[0], ask: asks[0] } }) : null,
+      };
+    },
+  };
+}
+
+const nowNs = () => BigInt(Date.now()) * BigInt(1_000_000);
+
+/* -------------------------- gateway -------------------------- */
+export function startMockGateway(opts: MockGatewayOptions = {}): Promise<MockGateway> {
+  const key = opts.key ?? DEFAULT_KEY;
+  const dataset = opts.dataset ?? "XNAS.ITCH";
+  const intervalMs = opts.intervalMs ?? 250;
+  const log = opts.log ?? ((m: string) => console.log(`[mock-databento] ${m}`));
+  const books = makeBooks(opts.seed ?? 42);
+  const generated = new Map<string, bigint[]>();
+  /** replay buffer: every record generated, any session */
+  const history: Array<{ sym: string; ts: bigint; schema: Schema; rec: Buffer }> = [];
+  const sessions: string[][] = [];
+  const open = new Set<net.Socket>();
+  const stalled = new WeakSet<net.Socket>();
+  let connections = 0;
+  let sessionSeq = 0;
+
+  const server = net.createServer((sock) => {
+    connections++;
+    open.add(sock);
+    const cram = randomBytes(16).toString("hex");
+    const subs = new Map<Schema, Set<string>>(SCHEMAS.map((s) => [s, new Set<string>()]));
+    const allSubs = () => new Set(SCHEMAS.flatMap((s) => [...subs.get(s)!]));
+    const mapped = new Set<string>();
+    let lineBuf = "";
+    let authed = false;
+    let started = false;
+    let heartbeatS = 30;
+    let sent = 0;
+    let timer: NodeJS.Timeout | null = null;
+    let hbTimer: NodeJS.Timeout | null = null;
+    const pendingReplay: Array<{ symbols: string[]; start: bigint; schema: Schema }> = [];
+
+    const write = (b: Buffer) => { if (!stalled.has(sock) && !sock.destroyed) sock.write(b); };
+    const stop = () => {
+      if (timer) clearInterval(timer);
+      if (hbTimer) clearInterval(hbTimer);
+      timer = hbTimer = null;
+    };
+    const mapping = (sym: string) => {
+      if (mapped.has(sym)) return;
+      mapped.add(sym);
+      write(encodeSymbolMapping(books.id(sym), sym, nowNs()));
+    };
+    const replay = (symbols: string[], start: bigint, schema: Schema) => {
+      const want = new Set(symbols);
+      let n = 0;
+      for (const h of history) if (h.schema === schema && want.has(h.sym) && h.ts >= start) { write(h.rec); n++; }
+      write(encodeSystem("Finished replay", SYSTEM_CODE.REPLAY_COMPLETED, nowNs()));
+      log(`replayed ${n} ${schema} records for ${symbols.join(",")}`);
+    };
+    const tick = () => {
+      const ts = nowNs();
+      for (const sym of allSubs()) {
+        const recs = books.next(sym, ts);
+        if (!generated.has(sym)) generated.set(sym, []);
+        generated.get(sym)!.push(ts);
+        for (const schema of SCHEMAS) {
+          const rec = schema === "mbp-10" ? recs.mbp10 : recs[schema];
+          if (!rec) continue;
+          history.push({ sym, ts, schema, rec });
+          if (subs.get(schema)!.has(sym)) {
+            write(rec);
+            sent++;
+          }
+        }
+      }
+      while (history.length && Number((ts - history[0].ts) / BigInt(1_000_000)) > KEEP_MS) history.shift();
+      if (opts.stallAfter != null && sent >= opts.stallAfter && !stalled.has(sock)) {
+        log("stalling session");
+        stalled.add(sock);
+      }
+      if (opts.dropEvery != null && sent >= opts.dropEvery) {
+        log("dropping session");
+        sock.destroy();
+      }
+    };
+
+    const onLine = (line: string) => {
+      const kv = parseControl(line);
+      if (!authed) {
+        if (kv.auth !== cramResponse(cram, key)) {
+          sock.end("success=0|error=Authentication failed.\n");
+          return;
+        }
+        authed = true;
+        heartbeatS = Number(kv.heartbeat_interval_s) || 30;
+        sock.write(`success=1|session_id=${++sessionSeq}\n`);
+        return;
+      }
+      if (kv.symbols != null) {
+        const schema = kv.schema as Schema;
+        if (!SCHEMAS.includes(schema)) {
+          write(encodeError(`Unsupported schema ${kv.schema}`, nowNs()));
+          return;
+        }
+        const symbols = kv.symbols.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean);
+        for (const s of symbols) subs.get(schema)!.add(s);
+        log(`subscribe ${schema} ${symbols.join(",")}${kv.start ? ` from ${kv.start}` : ""}`);
+        if (started) {
+          for (const s of symbols) mapping(s);
+          if (kv.start) replay(symbols, BigInt(kv.start), schema);
+        } else if (kv.start) {
+          pendingReplay.push({ symbols, start: BigInt(kv.start), schema });
+        }
+        return;
+      }
+      if (kv.start_session != null && !started) {
+        started = true;
+        sessions.push([...allSubs()]);
+        write(encodeMetadata(dataset, nowNs()));
+        for (const s of allSubs()) mapping(s);
+        for (const p of pendingReplay) replay(p.symbols, p.start, p.schema);
+        timer = setInterval(tick, intervalMs);
+        hbTimer = setInterval(() => write(encodeSystem("Heartbeat", SYSTEM_CODE.HEARTBEAT, nowNs())), heartbeatS * 1000);
+      }
+    };
+
+    sock.write("lsg_version=0.0.0-mock\n");
+    sock.write(`cram=${cram}\n`);
+    sock.on("data", (chunk: Buffer) => {
+      lineBuf += chunk.toString("latin1");
+      let nl: number;
+      while ((nl = lineBuf.indexOf("\n")) >= 0) {
+        const line = lineBuf.slice(0, nl);
+        lineBuf = lineBuf.slice(nl + 1);
+        if (line.trim()) onLine(line);
+      }
+    });
+    sock.on("error", () => {});
+    sock.on("close", () => { stop(); open.delete(sock); });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(opts.port ?? 13000, "127.0.0.1", () => {
+      const port = (server.address() as net.AddressInfo).port;
+      resolve({
+        port,
+        get connections() { return connections; },
+        sessions,
+        generated,
+        drop() { for (const s of open) s.destroy(); },
+        stall() { for (const s of open) stalled.add(s); },
+        close() {
+          for (const s of open) s.destroy();
+          return new Promise<void>((r) => server.close(() => r()));
+        },
+      });
+    });
+  });
+}
+
+/** One session's bytes, as a client would have received them. */
+export function captureSession(symbols: string[], rounds: number, seed = 42, startMs = Date.UTC(2025, 9, 1, 14, 30)): Buffer {
+  const books = makeBooks(seed);
+  const ns = (ms: number) => BigInt(ms) * BigInt(1_000_000);
+  const parts: Buffer[] = [encodeMetadata("XNAS.ITCH", ns(startMs))];
+  for (const s of symbols) parts.push(encodeSymbolMapping(books.id(s), s, ns(startMs)));
+  for (let i = 0; i < rounds; i++) {
+    const ts = ns(startMs + 100 * (i + 1));
+    for (const s of symbols) parts.push(books.next(s, ts).mbp10);
+    if (i === Math.floor(rounds / 2)) parts.push(encodeSystem("Heartbeat", SYSTEM_CODE.HEARTBEAT, ts));
+  }
+  return Buffer.concat(parts);
+}
+
+/* -------------------------- cli -------------------------- */
+function parseArgs(argv: string[]) {
+  const a = { port: 13000, interval: 250, key: DEFAULT_KEY, dropEvery: null as number | null, stallAfter: null as number | null,
+    capture: null as string | null, symbols: ["AAPL", "MSFT"], records: 8, seed: 42 };
+  for (let i = 0; i < argv.length; i++) {
+    const x = argv[i];
+    if (x === "--port") a.port = Number(argv[++i]);
+    else if (x === "--interval") a.interval = Number(argv[++i]);
+    else if (x === "--key") a.key = String(argv[++i]);
+    else if (x === "--drop-every") a.dropEvery = Number(argv[++i]);
+    else if (x === "--stall-after") a.stallAfter = Number(argv[++i]);
+    else if (x === "--capture") a.capture = String(argv[++i]);
+    else if (x === "--symbols") a.symbols = String(argv[++i]).split(",").map((s) => s.trim().toUpperCase()).filter(Boolean);
+    else if (x === "--records") a.records = Number(argv[++i]);
+    else if (x === "--seed") a.seed = Number(argv[++i]);
+  }
+  return a;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.capture) {
+    const bytes = captureSession(args.symbols, args.records, args.seed);
+    writeFileSync(args.capture, bytes);
+    console.log(`[mock-databento] wrote ${bytes.length} bytes to ${args.capture}`);
+    return;
+  }
+  const gw = await startMockGateway({ port: args.port, key: args.key, intervalMs: args.interval, seed: args.seed,
+    dropEvery: args.dropEvery, stallAfter: args.stallAfter });
+  console.log(`[mock-databento] listening on 127.0.0.1:${gw.port} (key …${args.key.slice(-5)})`);
+  const shutdown = () => { void gw.close().then(() => process.exit(0)); };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (/mock-databento\.ts$/.test(process.argv[1] ?? "")) void main();
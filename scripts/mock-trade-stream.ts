@@ -0,0 +1,136 @@
+// scripts/mock-trade-stream.ts
+//
+// Offline stand-in for Alpaca's trade_updates websocket, to drive
+// scripts/alpaca-listener.ts without keys or market hours.
+//   npm run alpaca:mock-stream
+//   npm run alpaca:mock-stream -- --port 8765 --interval 500 --drop-after 3 --msgpack
+//   npm run alpaca:mock-stream -- --symbol ABCD --parent-id <Position.brokerOrderId>
+//   npm run alpaca:mock-stream -- events.json
+//
+// Same handshake as Alpaca (auth → authorization, listen → listening);
+// events go out as binary frames, JSON or --msgpack. The built-in scenario
+// is a bracket buy filling in two parts, a stop replace, the stop filling
+// and the target being canceled. Pass --parent-id to reuse an existing
+// position's entry order id so the fills land on that position.
+// --drop-after N closes the socket after N events; the next connection
+// re-sends the last event once (exercises reconnect + duplicate handling).
+// An events file holds an array of trade_updates `data` objects.
+
+import { readFileSync } from "node:fs";
+import { WebSocketServer, type WebSocket } from "ws";
+import { encode } from "@msgpack/msgpack";
+
+type Args = { port: number; interval: number; dropAfter: number | null; msgpack: boolean; symbol: string; parentId: string | null; file: string | null };
+
+function parseArgs(argv: string[]): Args {
+  const a: Args = { port: 8765, interval: 750, dropAfter: null, msgpack: false, symbol: "MOCK", parentId: null, file: null };
+  for (let i = 0; i < argv.length; i++) {
+    const x = argv[i];
+    if (x === "--port") a.port = Number(argv[++i]);
+    else if (x === "--interval") a.interval = Number(argv[++i]);
+    else if (x === "--drop-after") a.dropAfter = Number(argv[++i]);
+    else if (x === "--msgpack") a.msgpack = true;
+    else if (x === "--symbol") a.symbol = String(argv[++i]).toUpperCase();
+    else if (x === "--parent-id") a.parentId = String(argv[++i]);
+    else a.file = x;
+  }
+  return a;
+}
+
+/* -------------------------- scenario -------------------------- */
+function scenario(symbol: string, parentId: string | null): any[] {
+  const run = Date.now().toString(36);
+  const pid = parentId ?? `mock-${run}-entry`;
+  const tpId = `mock-${run}-tp`;
+  const slId = `mock-${run}-sl`;
+  const sl2Id = `mock-${run}-sl2`;
+
+  const leg = (id: string, type: "limit" | "stop", px: string, extra: any = {}) => ({
+    id, client_order_id: id, symbol, side: "sell", type, qty: "10", order_class: "bracket",
+    parent_order_id: pid, status: "new", filled_qty: "0", filled_avg_price: null,
+    ...(type === "limit" ? { limit_price: px } : { stop_price: px }),
+    ...extra,
+  });
+  const parent = (status: string, filled: string, avg: string | null) => ({
+    id: pid, client_order_id: pid, symbol, side: "buy", type: "market", qty: "10", order_class: "bracket",
+    status, filled_qty: filled, filled_avg_price: avg,
+    legs: [leg(tpId, "limit", "10.50"), leg(slId, "stop", "9.80")],
+  });
+
+  return [
+    { event: "new", order: parent("new", "0", null) },
+    { event: "partial_fill", execution_id: `mock-${run}-x1`, price: "10.00", qty: "4", order: parent("partially_filled", "4", "10.00") },
+    { event: "fill", execution_id: `mock-${run}-x2`, price: "10.03", qty: "6", order: parent("filled", "10", "10.018") },
+    { event: "replaced", order: leg(sl2Id, "stop", "9.95", { replaces: slId }) },
+    { event: "fill", execution_id: `mock-${run}-x3`, price: "9.95", qty: "10", order: leg(sl2Id, "stop", "9.95", { replaces: slId, status: "filled", filled_qty: "10", filled_avg_price: "9.95" }) },
+    { event: "canceled", order: leg(tpId, "limit", "10.50", { status: "canceled" }) },
+  ];
+}
+
+/* -------------------------- server -------------------------- */
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const events: any[] = args.file ? JSON.parse(readFileSync(args.file, "utf8")) : scenario(args.symbol, args.parentId);
+  let next = 0;
+  let dropped = false;
+
+  const frame = (msg: any) => (args.msgpack ? Buffer.from(encode(msg)) : Buffer.from(JSON.stringify(msg)));
+
+  const wss = new WebSocketServer({ port: args.port });
+  console.log(`[mock-stream] ws://localhost:${args.port} — ${events.length} events${args.msgpack ? " (msgpack)" : ""}`);
+
+  wss.on("connection", (sock: WebSocket) => {
+    let timer: NodeJS.Timeout | null = null;
+    let sent = 0;
+    console.log("[mock-stream] client connected");
+
+    const stop = () => { if (timer) clearInterval(timer); timer = null; };
+
+    sock.on("message", (data) => {
+      let m: any;
+      try { m = JSON.parse(data.toString()); } catch { return; }
+
+      if (m?.action === "auth" || m?.action === "authenticate") {
+        const key = m.key ?? m.data?.key_id;
+        const secret = m.secret ?? m.data?.secret_key;
+        const ok = !!key && !!secret;
+        sock.send(frame({ stream: "authorization", data: { action: "authenticate", status: ok ? "authorized" : "unauthorized" } }), { binary: true });
+        if (!ok) sock.close(4001, "unauthorized");
+        return;
+      }
+
+      if (m?.action === "listen") {
+        const streams = Array.isArray(m.data?.streams) ? m.data.streams : [];
+        sock.send(frame({ stream: "listening", data: { streams } }), { binary: true });
+        if (!streams.includes("trade_updates")) return;
+        if (dropped && next > 0) next--; // resend the last one: should come back as a duplicate
+        dropped = false;
+        stop();
+        timer = setInterval(() => {
+          if (next >= events.length) {
+            console.log("[mock-stream] scenario done");
+            stop();
+            return;
+          }
+          const data = { timestamp: new Date().toISOString(), ...events[next++] };
+          sock.send(frame({ stream: "trade_updates", data }), { binary: true });
+          console.log(`[mock-stream] → ${data.event} ${data.order?.id}`);
+          if (args.dropAfter != null && ++sent >= args.dropAfter) {
+            console.log("[mock-stream] dropping connection");
+            dropped = true;
+            stop();
+            sock.terminate();
+          }
+        }, args.interval);
+      }
+    });
+
+    sock.on("close", () => { stop(); console.log("[mock-stream] client gone"); });
+  });
+
+  const shutdown = () => { wss.close(); process.exit(0); };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
@@ -0,0 +1,146 @@
+// scripts/sim-broker-check.ts
+//
+// Checks the in-process paper broker (SimBroker, lib/broker.ts); exits
+// non-zero on a failure.
+//   npm run sim:check
+//
+// - bracket entries fill at the ask / bid with legs on the right side of
+//   the entry, longs and shorts
+// - resting legs fill on later quotes (target and stop), the other leg is
+//   canceled, cash and equity follow
+// - replaceTpSlIfBetter only ever tightens, for both sides
+// - a fill that crosses zero leaves the remainder at that fill's price
+// - /api/bot/panic-sell against the simulator cancels every open order and
+//   flattens every position, long and short
+
+import assert from "node:assert/strict";
+import { SimBroker, setBroker } from "../lib/broker";
+
+const near = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `expected ${b}, got ${a}`);
+
+async function position(sim: SimBroker, symbol: string) {
+  const p = await sim.getPosition(symbol);
+  return p ? { qty: Number(p.qty), avg: Number(p.avg_entry_price) } : null;
+}
+
+async function brackets() {
+  const sim = new SimBroker({ cash: 10_000 });
+
+  /* ---- long: fills at the ask, target fills on a later quote ---- */
+  sim.setQuote("AAA", { bid: 9.99, ask: 10 });
+  const long = await sim.submitBracket({ symbol: "aaa", qty: 100, tp: 10.5, sl: 9.8 });
+  assert.equal(long.status, "filled");
+  assert.equal(Number(long.filled_avg_price), 10);
+  const [tp, sl] = long.legs!;
+  assert.deepEqual([tp.side, tp.type, tp.limit_price, sl.side, sl.type, sl.stop_price], ["sell", "limit", "10.50", "sell", "stop", "9.80"]);
+  assert.deepEqual(await position(sim, "AAA"), { qty: 100, avg: 10 });
+  assert.equal((await sim.listOrders({ status: "open", nested: true })).length, 1);
+
+  sim.setQuote("AAA", { bid: 10.5, ask: 10.51 });
+  assert.equal(tp.status, "filled");
+  assert.equal(sl.status, "canceled");
+  assert.equal(await sim.getPosition("AAA"), null);
+  near(Number((await sim.getAccount()).cash), 10_000 + 50);
+
+  /* ---- short: fills at the bid, legs are buys, stop fills at the ask ---- */
+  sim.setQuote("BBB", { bid: 20, ask: 20.02 });
+  const short = await sim.submitBracket({ symbol: "BBB", qty: 50, side: "sell", tp: 19, sl: 20.5 });
+  assert.equal(Number(short.filled_avg_price), 20);
+  assert.deepEqual(short.legs!.map((l) => [l.side, l.type]), [["buy", "limit"], ["buy", "stop"]]);
+  assert.deepEqual(await position(sim, "BBB"), { qty: -50, avg: 20 });
+  sim.setQuote("BBB", { bid: 20.4, ask: 20.5 });
+  assert.equal(short.legs![1].status, "filled");
+  assert.equal(short.legs![0].status, "canceled");
+  assert.equal(await sim.getPosition("BBB"), null);
+  near(Number((await sim.getAccount()).cash), 10_000 + 50 - 25);
+}
+
+async function tightenOnly() {
+  const sim = new SimBroker({ cash: 10_000 });
+  sim.setQuote("AAA", 10);
+  await sim.submitBracket({ symbol: "AAA", qty: 10, tp: 11, sl: 9.5 });
+
+  let r = await sim.replaceTpSlIfBetter({ symbol: "AAA", newTp: 11.2, newSl: 9.7 });
+  assert.deepEqual([r.raisedTp, r.raisedSl, r.replaced!.length], [true, true, 2]);
+  r = await sim.replaceTpSlIfBetter({ symbol: "AAA", newTp: 11.1, newSl: 9.6 });
+  assert.deepEqual([r.raisedTp, r.raisedSl], [false, false]);
+  // the lifted stop is the one that triggers (fills at the quote that crossed it)
+  const stop = Number((await sim.listOrders({ status: "open", symbols: ["AAA"] })).find((o) => o.type === "stop")?.stop_price);
+  assert.ok(stop > 9.6 && stop <= 9.7, `stop ${stop}`);
+  sim.setQuote("AAA", 9.72);
+  assert.ok(await sim.getPosition("AAA"));
+  sim.setQuote("AAA", stop);
+  assert.equal(await sim.getPosition("AAA"), null);
+  near(Number((await sim.getAccount()).cash), 10_000 + (stop - 10) * 10, 1e-6);
+
+  sim.setQuote("CCC", 30);
+  await sim.submitBracket({ symbol: "CCC", qty: 10, side: "sell", tp: 28, sl: 31 });
+  r = await sim.replaceTpSlIfBetter({ symbol: "CCC", newTp: 27.5, newSl: 30.5, side: "short" });
+  assert.deepEqual([r.raisedTp, r.raisedSl], [true, true]);
+  r = await sim.replaceTpSlIfBetter({ symbol: "CCC", newTp: 28.5, newSl: 31.5, side: "short" });
+  assert.deepEqual([r.raisedTp, r.raisedSl], [false, false]);
+  assert.equal((await sim.listOrders({ status: "open", symbols: ["CCC"] })).find((o) => o.type === "stop")?.stop_price, "30.5");
+}
+
+async function crossZero() {
+  const sim = new SimBroker({ cash: 10_000 });
+  sim.setQuote("AAA", 10);
+  await sim.submitMarket({ symbol: "AAA", qty: 100, side: "buy" });
+  sim.setQuote("AAA", 12);
+  await sim.submitMarket({ symbol: "AAA", qty: 150, side: "sell" });
+  assert.deepEqual(await position(sim, "AAA"), { qty: -50, avg: 12 });
+  sim.setQuote("AAA", 11);
+  await sim.submitMarket({ symbol: "AAA", qty: 80, side: "buy" });
+  assert.deepEqual(await position(sim, "AAA"), { qty: 30, avg: 11 });
+  // adding to a position still averages
+  sim.setQuote("AAA", 13);
+  await sim.submitMarket({ symbol: "AAA", qty: 30, side: "buy" });
+  assert.deepEqual(await position(sim, "AAA"), { qty: 60, avg: 12 });
+}
+
+async function panicSell() {
+  const sim = new SimBroker({ cash: 10_000 });
+  setBroker(sim);
+  try {
+    sim.setQuote("AAA", 10);
+    sim.setQuote("BBB", 20);
+    await sim.submitBracket({ symbol: "AAA", qty: 100, tp: 11, sl: 9 });
+    await sim.submitBracket({ symbol: "BBB", qty: 20, side: "sell", tp: 18, sl: 22 });
+
+    const { POST } = await import("../app/api/bot/panic-sell/route");
+    const post = (body: any) => POST(new Request("http://local/api/bot/panic-sell", { method: "POST", body: JSON.stringify(body) }));
+
+    assert.equal((await post({ key: "nope" })).status, 401);
+    assert.equal((await sim.listPositions()).length, 2);
+
+    const res = await post({ key: process.env.PANIC_PASSKEY || "9340" });
+    const j = await res.json();
+    assert.equal(j.ok, true, JSON.stringify(j));
+    assert.deepEqual(
+      j.closed.map((c: any) => [c.symbol, c.side, c.qty]).sort(),
+      [["AAA", "sell", 100], ["BBB", "buy", 20]]
+    );
+    assert.deepEqual(await sim.listPositions(), []);
+    assert.deepEqual(await sim.listOrders({ status: "open" }), []);
+    near(Number((await sim.getAccount()).equity), 10_000);
+  } finally {
+    setBroker(null);
+  }
+}
+
+async function main() {
+  await brackets();
+  console.log("brackets: ok");
+  await tightenOnly();
+  console.log("tighten-only replace: ok");
+  await crossZero();
+  console.log("crossing zero: ok");
+  await panicSell();
+  console.log("panic-sell route: ok");
+  console.log("sim broker: all checks passed");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
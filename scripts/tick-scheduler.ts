@@ -0,0 +1,133 @@
+// scripts/tick-scheduler.ts
+//
+// Long-running worker that drives /api/bot/tick without Vercel cron:
+// every SCHEDULER_TICK_MS (default 5s) while a session phase is active
+// (lib/schedule.ts; a phase's params.tickMs overrides it), idle otherwise.
+//   npm run tick:scheduler
+//   SCHEDULER_BASE_URL=http://localhost:3000 SCHEDULER_TICK_MS=2000 npm run tick:scheduler
+//
+// Run as many instances as you like: they elect a leader with a Postgres
+// advisory lock (lib/tickScheduler.ts) and only the leader ticks. Standbys
+// retry the lock every few seconds, so a new leader takes over within one
+// retry of the old one's connection dropping. Each instance writes a
+// SchedulerHeartbeat row (GET /api/bot/scheduler) for the dashboard.
+
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+import { nowET } from "../lib/market";
+import { prisma } from "../lib/prisma";
+import {
+  DEFAULT_TICK_MS,
+  HEARTBEAT_MS,
+  LeaderLock,
+  retireHeartbeat,
+  tickCadence,
+  writeHeartbeat,
+  type SchedulerBeat,
+  type SchedulerInstance,
+} from "../lib/tickScheduler";
+
+const STANDBY_RETRY_MS = 5_000;
+const IDLE_POLL_MS = 15_000;
+const TICK_TIMEOUT_MS = 55_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const log = (msg: string) => console.log(`[tick-scheduler] ${msg}`);
+
+function baseUrl() {
+  const raw = process.env.SCHEDULER_BASE_URL?.trim() || process.env.NEXT_PUBLIC_BASE_URL?.trim() || "http://localhost:3000";
+  return raw.replace(/\/+$/, "");
+}
+
+async function runTick(url: string): Promise<{ ms: number; error: string | null }> {
+  const started = Date.now();
+  const ac = new AbortController();
+  const timer = setTimeout(() => ac.abort(), TICK_TIMEOUT_MS);
+  try {
+    const r = await fetch(url, { method: "POST", cache: "no-store", signal: ac.signal });
+    const j: any = await r.json().catch(() => null);
+    const error = !r.ok ? `HTTP ${r.status}${j?.error ? `: ${j.error}` : ""}` : null;
+    return { ms: Date.now() - started, error };
+  } catch (e: any) {
+    return { ms: Date.now() - started, error: e?.name === "AbortError" ? "tick_timeout" : e?.message || "tick_failed" };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function main() {
+  const tickMs = Number(process.env.SCHEDULER_TICK_MS) >= 500 ? Number(process.env.SCHEDULER_TICK_MS) : DEFAULT_TICK_MS;
+  const url = `${baseUrl()}/api/bot/tick`;
+  const inst: SchedulerInstance = { instanceId: randomUUID(), host: hostname(), pid: process.pid, startedAt: new Date() };
+  const beat: SchedulerBeat = { leader: false, cadenceMs: null, phase: null, ticks: 0, lastTickAt: null, lastTickMs: null, lastError: null };
+  const lock = new LeaderLock();
+  let stopping = false;
+  let lastBeatAt = 0;
+
+  log(`instance ${inst.instanceId} on ${inst.host}:${inst.pid} → ${url} (default ${tickMs}ms)`);
+
+  const heartbeat = async (force = false) => {
+    if (!force && Date.now() - lastBeatAt < HEARTBEAT_MS) return;
+    lastBeatAt = Date.now();
+    await writeHeartbeat(inst, beat).catch((e: any) => log(`heartbeat failed: ${e?.message || e}`));
+  };
+
+  const shutdown = async (sig: string) => {
+    if (stopping) return;
+    stopping = true;
+    log(`${sig}, releasing leadership`);
+    await lock.release().catch(() => null);
+    await retireHeartbeat(inst.instanceId);
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => { void shutdown("SIGINT"); });
+  process.on("SIGTERM", () => { void shutdown("SIGTERM"); });
+
+  while (!stopping) {
+    const wasLeader = beat.leader;
+    try {
+      beat.leader = await lock.acquire();
+    } catch (e: any) {
+      beat.leader = false;
+      beat.lastError = `lock: ${e?.message || e}`;
+    }
+    if (beat.leader !== wasLeader) {
+      log(beat.leader ? "became leader" : "lost leadership — standing by");
+      await heartbeat(true);
+    }
+
+    if (!beat.leader) {
+      beat.cadenceMs = null;
+      beat.phase = null;
+      await heartbeat();
+      await sleep(STANDBY_RETRY_MS);
+      continue;
+    }
+
+    const cadence = tickCadence(nowET(), { defaultMs: tickMs });
+    beat.cadenceMs = cadence?.ms ?? null;
+    beat.phase = cadence?.phases.join(",") ?? null;
+    if (!cadence) {
+      await heartbeat();
+      await sleep(IDLE_POLL_MS);
+      continue;
+    }
+
+    const started = Date.now();
+    const r = await runTick(url);
+    beat.ticks++;
+    beat.lastTickAt = new Date();
+    beat.lastTickMs = r.ms;
+    beat.lastError = r.error;
+    if (r.error) log(`tick failed (${beat.phase}): ${r.error}`);
+    await heartbeat();
+    await sleep(Math.max(0, cadence.ms - (Date.now() - started)));
+  }
+}
+
+main().catch(async (e) => {
+  console.error("[tick-scheduler] fatal:", e);
+  await prisma.$disconnect().catch(() => null);
+  process.exit(1);
+});